@@ -0,0 +1,154 @@
+/**
+ * Client-Side Signing Mode
+ *
+ * Lets callers that keep their keys elsewhere (HSMs, hardware wallets) use the
+ * existing routes without sending a private key to the bridge.
+ *
+ * A request opts in with the `X-Signing-Mode: client` header and a `publicKey`
+ * (hex, with or without the 04 prefix) instead of a `privateKey`. The route
+ * runs as usual, but every call to submitTransaction() records the unsigned
+ * message instead of signing it. The response then carries those messages in
+ * `transactions`, each with its canonical JSON and targetSequenceNumber. The
+ * client signs each `message` as a DataUpdate and posts the envelopes to
+ * POST /submit in the order given. Hash fields in the route's own response
+ * are the placeholder 'unsigned'; the real hash comes back from /submit.
+ *
+ * State is scoped per request via AsyncLocalStorage so concurrent requests in
+ * different modes never see each other's context.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Request, Response, NextFunction } from 'express';
+import { canonicalize, getAddress } from './lib/metakit/index.js';
+
+/** Header used to opt into client-side signing */
+export const SIGNING_MODE_HEADER = 'x-signing-mode';
+
+/**
+ * Stand-in for the `privateKey` body field so route schemas still validate.
+ * It is never used for signing while a client-signing context is active.
+ */
+const PLACEHOLDER_PRIVATE_KEY = '0'.repeat(64);
+
+/**
+ * Routes that use the private key itself rather than submitting a
+ * transaction (/wallet/sign would sign with the placeholder), so they
+ * cannot run in client signing mode.
+ */
+const UNSUPPORTED_PATHS = ['/wallet'];
+
+/** An unsigned transaction prepared for the client to sign */
+export interface UnsignedTransaction {
+  /** The OttochainMessage to sign as a DataUpdate */
+  message: unknown;
+  /** RFC 8785 canonical JSON of `message` (what the signature covers) */
+  canonical: string;
+  /** Target fiber, null for messages that do not carry one */
+  fiberId: string | null;
+  /** Sequence number the message targets, null for create messages */
+  targetSequenceNumber: number | null;
+}
+
+interface ClientSigningContext {
+  publicKey: string;
+  address: string;
+  transactions: UnsignedTransaction[];
+  /** Next sequence per fiber, so multi-step routes target consecutive numbers */
+  sequenceOverlay: Map<string, number>;
+}
+
+const storage = new AsyncLocalStorage<ClientSigningContext>();
+
+/**
+ * Get the client-signing context for the current request, if any.
+ */
+export function getClientSigningContext(): ClientSigningContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Record a message for the client to sign instead of submitting it.
+ */
+export function recordUnsignedTransaction(
+  context: ClientSigningContext,
+  message: unknown,
+  seqInfo: { fiberId: string; targetSeq: number } | null
+): void {
+  context.transactions.push({
+    message,
+    canonical: canonicalize(message),
+    fiberId: seqInfo?.fiberId ?? null,
+    targetSequenceNumber: seqInfo?.targetSeq ?? null,
+  });
+
+  if (seqInfo) {
+    const next = seqInfo.targetSeq + 1;
+    if (next > (context.sequenceOverlay.get(seqInfo.fiberId) ?? 0)) {
+      context.sequenceOverlay.set(seqInfo.fiberId, next);
+    }
+  }
+}
+
+function isValidPublicKey(publicKey: unknown): publicKey is string {
+  return (
+    typeof publicKey === 'string' &&
+    (publicKey.length === 128 || publicKey.length === 130) &&
+    /^[0-9a-fA-F]+$/.test(publicKey)
+  );
+}
+
+/**
+ * Express middleware enabling client-side signing for POST requests that
+ * send `X-Signing-Mode: client`. Other requests pass through untouched.
+ */
+export function clientSigning(req: Request, res: Response, next: NextFunction): void {
+  const mode = req.header(SIGNING_MODE_HEADER);
+  if (req.method !== 'POST' || !mode || mode === 'server') {
+    return next();
+  }
+
+  if (mode !== 'client') {
+    res.status(400).json({ error: `Unsupported signing mode: ${mode}` });
+    return;
+  }
+  if (UNSUPPORTED_PATHS.some((prefix) => req.path === prefix || req.path.startsWith(`${prefix}/`))) {
+    res.status(400).json({ error: `Client signing mode is not supported for ${req.path}` });
+    return;
+  }
+
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  if (body.privateKey !== undefined) {
+    res.status(400).json({ error: 'privateKey must not be sent in client signing mode' });
+    return;
+  }
+  if (!isValidPublicKey(body.publicKey)) {
+    res.status(400).json({ error: 'publicKey is required in client signing mode (128 or 130 hex characters)' });
+    return;
+  }
+
+  const publicKey = body.publicKey.length === 128 ? '04' + body.publicKey : body.publicKey;
+  const context: ClientSigningContext = {
+    publicKey,
+    address: getAddress(publicKey),
+    transactions: [],
+    sequenceOverlay: new Map(),
+  };
+
+  req.body = { ...body, privateKey: PLACEHOLDER_PRIVATE_KEY };
+
+  const json = res.json.bind(res);
+  res.json = (payload: unknown) => {
+    // Only successful responses carry prepared transactions; errors pass through
+    if (res.statusCode >= 400 || context.transactions.length === 0) {
+      return json(payload);
+    }
+    return json({
+      ...(payload as Record<string, unknown>),
+      signingMode: 'client',
+      signer: context.address,
+      transactions: context.transactions,
+    });
+  };
+
+  storage.run(context, next);
+}
@@ -0,0 +1,276 @@
+/**
+ * Per-Fiber Submission Queue
+ *
+ * Serializes transitions on the same fiber so concurrent requests no longer
+ * race through getFiberSequenceNumber() → submitTransaction(). For each fiber,
+ * items run strictly in arrival order:
+ *
+ *   1. reserve the next targetSequenceNumber
+ *   2. build and submit the message (retrying on sequence mismatch)
+ *   3. wait for DL1 to acknowledge the sequence before starting the next item
+ *
+ * The caller's promise settles after step 2, so clients can fire requests
+ * back-to-back and let the bridge take care of ordering. Different fibers are
+ * processed independently and in parallel.
+ */
+
+import { AsyncResource } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+export type QueueItemStatus =
+  | 'queued'          // waiting for earlier items on the same fiber
+  | 'submitting'      // sequence reserved, submission in flight
+  | 'awaiting_ack'    // submitted, waiting for DL1 to reach the sequence
+  | 'acknowledged'    // DL1 reached the sequence
+  | 'unacknowledged'  // submitted but DL1 did not confirm within the timeout
+  | 'failed';         // submission failed (after retries)
+
+export interface QueueItemInfo {
+  id: string;
+  fiberId: string;
+  /** Event name or other short description */
+  label: string;
+  status: QueueItemStatus;
+  attempts: number;
+  targetSequenceNumber?: number;
+  hash?: string;
+  error?: string;
+  enqueuedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface FiberQueueStatus {
+  fiberId: string;
+  /** Items waiting plus the one in progress */
+  depth: number;
+  active: QueueItemInfo | null;
+  pending: QueueItemInfo[];
+  /** Most recently finished items, newest first */
+  recent: QueueItemInfo[];
+}
+
+export interface QueuedSubmissionResult {
+  hash: string;
+  ordinal?: number;
+  targetSequenceNumber: number;
+  queueItemId: string;
+  attempts: number;
+}
+
+export interface FiberQueueDependencies {
+  /** Reserve the targetSequenceNumber for the next submission */
+  getSequenceNumber(fiberId: string): Promise<number>;
+  /** Resolve true once DL1 reports the fiber at or beyond targetSeq */
+  waitForSequence(fiberId: string, targetSeq: number): Promise<boolean>;
+  /** Drop any cached sequence so the next reservation re-reads DL1 */
+  resetSequence(fiberId: string): Promise<void>;
+}
+
+export interface FiberQueueOptions {
+  /** Extra attempts after a sequence mismatch (default 3) */
+  maxRetries?: number;
+  /** Delay before retrying a mismatched submission (default 1000ms) */
+  retryDelayMs?: number;
+  /** Finished items kept per fiber for the status endpoint (default 20) */
+  historySize?: number;
+  /** Fibers tracked before idle ones are dropped (default 10,000) */
+  maxTrackedFibers?: number;
+  /** Classify a submission error as a sequence mismatch worth retrying */
+  isSequenceMismatch?: (err: unknown) => boolean;
+}
+
+type SubmitFn = (targetSequenceNumber: number) => Promise<{ hash: string; ordinal?: number }>;
+
+interface QueueItem {
+  info: QueueItemInfo;
+  submit: SubmitFn;
+  /** Async context of the request that enqueued the item */
+  scope: AsyncResource;
+  resolve: (result: QueuedSubmissionResult) => void;
+  reject: (err: unknown) => void;
+}
+
+interface FiberQueueState {
+  pending: QueueItem[];
+  active: QueueItem | null;
+  history: QueueItemInfo[];
+}
+
+/** Error code DL1 returns for a stale or future targetSequenceNumber */
+export const SEQUENCE_MISMATCH_CODE = 'SequenceNumberMismatch';
+
+/**
+ * Default mismatch detection: looks for DL1's SequenceNumberMismatch code in
+ * the error message or the HTTP response body attached as `response`.
+ */
+export function isSequenceMismatchError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  const response = (err as { response?: unknown } | null)?.response;
+  return (
+    message.includes(SEQUENCE_MISMATCH_CODE) ||
+    (typeof response === 'string' && response.includes(SEQUENCE_MISMATCH_CODE))
+  );
+}
+
+export class FiberSubmissionQueue {
+  private readonly fibers = new Map<string, FiberQueueState>();
+  private readonly deps: FiberQueueDependencies;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly historySize: number;
+  private readonly maxTrackedFibers: number;
+  private readonly isSequenceMismatch: (err: unknown) => boolean;
+
+  constructor(deps: FiberQueueDependencies, options: FiberQueueOptions = {}) {
+    this.deps = deps;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.historySize = options.historySize ?? 20;
+    this.maxTrackedFibers = options.maxTrackedFibers ?? 10_000;
+    this.isSequenceMismatch = options.isSequenceMismatch ?? isSequenceMismatchError;
+  }
+
+  /**
+   * Queue a submission for a fiber.
+   *
+   * @param fiberId - Fiber the message transitions
+   * @param label   - Short description for the status endpoint (e.g. event name)
+   * @param submit  - Builds and submits the message for the given sequence number
+   * @returns Settles once the item has been submitted (or has failed)
+   */
+  enqueue(fiberId: string, label: string, submit: SubmitFn): Promise<QueuedSubmissionResult> {
+    return new Promise((resolve, reject) => {
+      const item: QueueItem = {
+        info: {
+          id: randomUUID(),
+          fiberId,
+          label,
+          status: 'queued',
+          attempts: 0,
+          enqueuedAt: new Date().toISOString(),
+        },
+        submit,
+        scope: new AsyncResource('FiberQueueItem'),
+        resolve,
+        reject,
+      };
+
+      const state = this.getOrCreateState(fiberId);
+      state.pending.push(item);
+      console.log(`[fiber-queue] ${fiberId}: queued ${label} (depth ${this.depthOf(state)})`);
+
+      if (!state.active) {
+        void this.drain(fiberId, state);
+      }
+    });
+  }
+
+  /**
+   * Current queue depth and item status for a fiber.
+   */
+  getStatus(fiberId: string): FiberQueueStatus {
+    const state = this.fibers.get(fiberId);
+    return {
+      fiberId,
+      depth: state ? this.depthOf(state) : 0,
+      active: state?.active ? { ...state.active.info } : null,
+      pending: state?.pending.map((item) => ({ ...item.info })) ?? [],
+      recent: state?.history.map((info) => ({ ...info })) ?? [],
+    };
+  }
+
+  private depthOf(state: FiberQueueState): number {
+    return state.pending.length + (state.active ? 1 : 0);
+  }
+
+  private getOrCreateState(fiberId: string): FiberQueueState {
+    let state = this.fibers.get(fiberId);
+    if (!state) {
+      this.evictIdleIfNeeded();
+      state = { pending: [], active: null, history: [] };
+      this.fibers.set(fiberId, state);
+    }
+    return state;
+  }
+
+  /** Drop the oldest idle fibers (history only) once the map is full */
+  private evictIdleIfNeeded(): void {
+    if (this.fibers.size < this.maxTrackedFibers) return;
+    for (const [fiberId, state] of this.fibers) {
+      if (this.fibers.size < this.maxTrackedFibers) break;
+      if (!state.active && state.pending.length === 0) {
+        this.fibers.delete(fiberId);
+      }
+    }
+  }
+
+  private async drain(fiberId: string, state: FiberQueueState): Promise<void> {
+    while (state.pending.length > 0) {
+      const item = state.pending.shift()!;
+      state.active = item;
+      // Run in the enqueuing request's async context, not the first request's
+      await item.scope.runInAsyncScope(() => this.process(item));
+      item.scope.emitDestroy();
+      state.active = null;
+
+      state.history.unshift(item.info);
+      if (state.history.length > this.historySize) {
+        state.history.length = this.historySize;
+      }
+    }
+  }
+
+  private async process(item: QueueItem): Promise<void> {
+    const { info } = item;
+    info.startedAt = new Date().toISOString();
+
+    let submitted: { hash: string; ordinal?: number } | null = null;
+    let targetSeq = 0;
+
+    while (!submitted) {
+      info.status = 'submitting';
+      info.attempts++;
+      try {
+        targetSeq = await this.deps.getSequenceNumber(info.fiberId);
+        info.targetSequenceNumber = targetSeq;
+        submitted = await item.submit(targetSeq);
+      } catch (err) {
+        const retry = this.isSequenceMismatch(err) && info.attempts <= this.maxRetries;
+        console.warn(
+          `[fiber-queue] ${info.fiberId}: ${info.label} attempt ${info.attempts} failed` +
+            (retry ? ' (sequence mismatch, retrying)' : '') +
+            `: ${err instanceof Error ? err.message : err}`
+        );
+        if (!retry) {
+          info.status = 'failed';
+          info.error = err instanceof Error ? err.message : String(err);
+          info.completedAt = new Date().toISOString();
+          item.reject(err);
+          return;
+        }
+        await this.deps.resetSequence(info.fiberId).catch(() => {});
+        await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs));
+      }
+    }
+
+    info.status = 'awaiting_ack';
+    info.hash = submitted.hash;
+    item.resolve({
+      ...submitted,
+      targetSequenceNumber: targetSeq,
+      queueItemId: info.id,
+      attempts: info.attempts,
+    });
+
+    // Hold the queue until DL1 has applied this sequence so the next item
+    // targets the right number.
+    const acked = await this.deps.waitForSequence(info.fiberId, targetSeq + 1).catch(() => false);
+    info.status = acked ? 'acknowledged' : 'unacknowledged';
+    info.completedAt = new Date().toISOString();
+    if (!acked) {
+      console.warn(`[fiber-queue] ${info.fiberId}: sequence ${targetSeq} not acknowledged by DL1`);
+      await this.deps.resetSequence(info.fiberId).catch(() => {});
+    }
+  }
+}
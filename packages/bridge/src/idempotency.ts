@@ -0,0 +1,261 @@
+/**
+ * Idempotency Keys
+ *
+ * POST requests carrying an `Idempotency-Key` header are executed at most
+ * once per key. The first response (status + JSON body, e.g. the generated
+ * fiberId and hash) is stored for a configurable window and replayed for any
+ * retry with the same key, marked with `Idempotent-Replayed: true`.
+ *
+ * - Same key, different method/path/body → 409 (key reuse)
+ * - Same key while the first request is still running → 409 (in progress)
+ * - 5xx responses are not stored, so the client can retry them
+ *
+ * Only a SHA-256 fingerprint of the request is kept, never the body itself
+ * (bodies contain private keys). Routes whose responses carry key material
+ * (e.g. /wallet/generate) are excluded via `excludePaths`, since the stored
+ * response would otherwise hold the key for the whole replay window. Stores
+ * are pluggable: in-memory for a single instance, Redis for several bridges
+ * behind a load balancer.
+ */
+
+import { createHash } from 'node:crypto';
+import canonicalize from 'canonicalize';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/** Request header carrying the client-chosen key */
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+/** Response header set when a stored response is replayed */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+export interface StoredResponse {
+  fingerprint: string;
+  statusCode: number;
+  body: unknown;
+  createdAt: string;
+}
+
+export type IdempotencyEntry =
+  | { state: 'in_progress'; fingerprint: string }
+  | ({ state: 'completed' } & StoredResponse);
+
+export interface IdempotencyStore {
+  /** Backend name, for logs */
+  readonly kind: 'memory' | 'redis';
+
+  /**
+   * Atomically claim a key. Returns null if the caller now owns it, or the
+   * existing entry if another request got there first.
+   *
+   * @param lockTtlSeconds - How long an unfinished claim blocks retries
+   */
+  begin(key: string, fingerprint: string, lockTtlSeconds: number): Promise<IdempotencyEntry | null>;
+
+  /** Store the final response for the replay window */
+  complete(key: string, response: StoredResponse, ttlSeconds: number): Promise<void>;
+
+  /** Drop a claim (e.g. after a 5xx) so the key can be retried */
+  release(key: string): Promise<void>;
+}
+
+// ============================================================================
+// In-memory
+// ============================================================================
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'memory' as const;
+  private readonly entries = new Map<string, { entry: IdempotencyEntry; expiresAt: number }>();
+
+  async begin(key: string, fingerprint: string, lockTtlSeconds: number): Promise<IdempotencyEntry | null> {
+    this.sweep();
+    const existing = this.entries.get(key);
+    if (existing) return existing.entry;
+    this.entries.set(key, {
+      entry: { state: 'in_progress', fingerprint },
+      expiresAt: Date.now() + lockTtlSeconds * 1000,
+    });
+    return null;
+  }
+
+  async complete(key: string, response: StoredResponse, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, {
+      entry: { state: 'completed', ...response },
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+  }
+
+  async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /** Drop expired entries (Map iteration is insertion-ordered, not expiry-ordered) */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, { expiresAt }] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// Redis
+// ============================================================================
+
+/** The subset of the ioredis client used by RedisIdempotencyStore */
+export interface IdempotencyRedisClient {
+  del(key: string): Promise<number>;
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
+
+// KEYS[1] = key, ARGV[1] = in-progress entry JSON, ARGV[2] = lock ttl seconds
+const BEGIN_SCRIPT = `
+local cur = redis.call('GET', KEYS[1])
+if cur then return cur end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return false
+`;
+
+// KEYS[1] = key, ARGV[1] = completed entry JSON, ARGV[2] = ttl seconds
+const COMPLETE_SCRIPT = `
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return 1
+`;
+
+export class RedisIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'redis' as const;
+  private readonly redis: IdempotencyRedisClient;
+  private readonly keyPrefix: string;
+
+  constructor(redis: IdempotencyRedisClient, options: { keyPrefix?: string } = {}) {
+    this.redis = redis;
+    this.keyPrefix = options.keyPrefix ?? 'ottochain:idempotency:';
+  }
+
+  async begin(key: string, fingerprint: string, lockTtlSeconds: number): Promise<IdempotencyEntry | null> {
+    const entry: IdempotencyEntry = { state: 'in_progress', fingerprint };
+    const existing = await this.redis.eval(
+      BEGIN_SCRIPT, 1, this.key(key), JSON.stringify(entry), Math.ceil(lockTtlSeconds)
+    );
+    return typeof existing === 'string' ? (JSON.parse(existing) as IdempotencyEntry) : null;
+  }
+
+  async complete(key: string, response: StoredResponse, ttlSeconds: number): Promise<void> {
+    const entry: IdempotencyEntry = { state: 'completed', ...response };
+    await this.redis.eval(COMPLETE_SCRIPT, 1, this.key(key), JSON.stringify(entry), Math.ceil(ttlSeconds));
+  }
+
+  async release(key: string): Promise<void> {
+    await this.redis.del(this.key(key));
+  }
+
+  private key(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+export interface IdempotencyOptions {
+  /** How long completed responses are replayed (seconds) */
+  ttlSeconds: number;
+  /** How long an unfinished request blocks its key (seconds, default 120) */
+  lockTtlSeconds?: number;
+  /** Path prefixes whose responses are never stored; the header is ignored there */
+  excludePaths?: string[];
+}
+
+/**
+ * Fingerprint of everything that makes two requests "the same":
+ * method, full path and canonical JSON body.
+ */
+export function requestFingerprint(req: Pick<Request, 'method' | 'baseUrl' | 'path' | 'body'>): string {
+  const body = canonicalize(req.body ?? {}) ?? '';
+  return createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${body}`)
+    .digest('hex');
+}
+
+/**
+ * Express middleware honoring `Idempotency-Key` on POST requests.
+ * Must be mounted after express.json() and before the routes.
+ */
+export function createIdempotencyMiddleware(
+  store: IdempotencyStore,
+  options: IdempotencyOptions
+): RequestHandler {
+  const lockTtlSeconds = options.lockTtlSeconds ?? 120;
+  const excludePaths = options.excludePaths ?? [];
+  const isExcluded = (path: string) =>
+    excludePaths.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header(IDEMPOTENCY_HEADER);
+    if (req.method !== 'POST' || key === undefined || isExcluded(req.path)) {
+      return next();
+    }
+
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters` });
+    }
+
+    const fingerprint = requestFingerprint(req);
+
+    let existing: IdempotencyEntry | null;
+    try {
+      existing = await store.begin(key, fingerprint, lockTtlSeconds);
+    } catch (err) {
+      console.error('[idempotency] Store unavailable:', err);
+      return res.status(503).json({ error: 'Idempotency store unavailable, retry later' });
+    }
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return res.status(409).json({
+          error: 'Idempotency-Key was already used for a different request',
+          idempotencyKey: key,
+        });
+      }
+      if (existing.state === 'in_progress') {
+        return res.status(409).json({
+          error: 'A request with this Idempotency-Key is still in progress',
+          idempotencyKey: key,
+        });
+      }
+      console.log(`[idempotency] Replaying ${req.method} ${req.originalUrl} for key ${key}`);
+      res.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return res.status(existing.statusCode).json(existing.body);
+    }
+
+    let settled = false;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (!settled) {
+        settled = true;
+        const done = res.statusCode >= 500
+          ? store.release(key)
+          : store.complete(key, {
+              fingerprint,
+              statusCode: res.statusCode,
+              body,
+              createdAt: new Date().toISOString(),
+            }, options.ttlSeconds);
+        done.catch((err) => console.error('[idempotency] Failed to store response:', err));
+      }
+      return json(body);
+    };
+
+    // Connection dropped or non-JSON response: free the key for a retry
+    res.on('close', () => {
+      if (!settled) {
+        settled = true;
+        store.release(key).catch((err) => console.error('[idempotency] Failed to release key:', err));
+      }
+    });
+
+    next();
+  };
+}
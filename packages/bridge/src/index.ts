@@ -2,7 +2,7 @@
 // Transaction signing and submission to metagraph
 
 import express from 'express';
-import { getConfig } from '@ottochain/shared';
+import { getConfig, getRedisClient, metrics, METRICS_CONTENT_TYPE } from '@ottochain/shared';
 import { walletRoutes } from './routes/wallet.js';
 import { agentRoutes } from './routes/agent.js';
 import { contractRoutes } from './routes/contract.js';
@@ -13,9 +13,40 @@ import { governanceRoutes } from './routes/governance.js';
 import { marketRoutes } from './routes/market.js';
 import { oracleRoutes } from './routes/oracle.js';
 import { corporateRoutes } from './routes/corporate.js';
+import { submitRoutes } from './routes/submit.js';
+import { txRoutes } from './routes/tx.js';
+import { clientSigning } from './client-signing.js';
+import { releaseUnsubmittedSequences } from './metagraph.js';
+import {
+  createIdempotencyMiddleware,
+  InMemoryIdempotencyStore,
+  RedisIdempotencyStore,
+} from './idempotency.js';
+import {
+  registerPlatformVerifier,
+  StubPlatformVerifier,
+  STUB_VERIFIED_PLATFORMS,
+} from './platform-link.js';
+
+const config = getConfig();
 
 const app = express();
 app.use(express.json({ limit: '1mb' })); // Larger limit for state machine definitions
+app.use(createIdempotencyMiddleware(      // Idempotency-Key → replay first response
+  config.BRIDGE_IDEMPOTENCY_STORE === 'redis'
+    ? new RedisIdempotencyStore(getRedisClient())
+    : new InMemoryIdempotencyStore(),
+  // Wallet responses contain private keys, so they are never stored
+  { ttlSeconds: config.BRIDGE_IDEMPOTENCY_TTL_SECONDS, excludePaths: ['/wallet'] },
+));
+app.use(clientSigning); // X-Signing-Mode: client → return unsigned messages
+app.use(releaseUnsubmittedSequences); // Give back sequence numbers failed requests never used
+
+// Platform proof verifiers for /agent/link (none: signed challenge only)
+if (config.BRIDGE_PLATFORM_VERIFIER === 'stub') {
+  const stub = new StubPlatformVerifier();
+  for (const platform of STUB_VERIFIED_PLATFORMS) registerPlatformVerifier(platform, stub);
+}
 
 // Health check
 app.get('/health', (_, res) => {
@@ -33,6 +64,11 @@ app.get('/version', (_, res) => {
   });
 });
 
+// Prometheus metrics
+app.get('/metrics', async (_, res) => {
+  res.type(METRICS_CONTENT_TYPE).send(await metrics.render());
+});
+
 // Mount routes
 app.use('/wallet', walletRoutes);
 app.use('/agent', agentRoutes);
@@ -44,19 +80,23 @@ app.use('/governance', governanceRoutes); // DAO/Governance API
 app.use('/market', marketRoutes);         // Market API (predictions, auctions, crowdfunding)
 app.use('/oracle', oracleRoutes);         // Oracle API (registration, attestation, staking)
 app.use('/corporate', corporateRoutes);   // Corporate governance API (entities, board, shareholders)
+app.use('/submit', submitRoutes);         // Pre-signed transaction submission
+app.use('/tx', txRoutes);                 // Transaction lifecycle tracking
 
 // Start server
-const config = getConfig();
 const port = config.BRIDGE_PORT;
 
 app.listen(port, () => {
   console.log(`🌉 Bridge listening on port ${port}`);
   console.log(`   Wallet:   POST http://localhost:${port}/wallet/generate`);
   console.log(`   Agent:    POST http://localhost:${port}/agent/register`);
+  console.log(`             POST http://localhost:${port}/agent/link/challenge`);
+  console.log(`             POST http://localhost:${port}/agent/link`);
   console.log(`   Contract: POST http://localhost:${port}/contract/propose`);
   console.log(`   Fiber:    POST http://localhost:${port}/fiber/create`);
   console.log(`             POST http://localhost:${port}/fiber/transition`);
   console.log(`             POST http://localhost:${port}/fiber/batch`);
+  console.log(`             GET  http://localhost:${port}/fiber/:fiberId/queue`);
   console.log(`   SM:       POST http://localhost:${port}/sm/create`);
   console.log(`             POST http://localhost:${port}/sm/transition`);
   console.log(`             GET  http://localhost:${port}/sm/:fiberId`);
@@ -107,4 +147,6 @@ app.listen(port, () => {
   console.log(`             POST http://localhost:${port}/corporate/:entityId/compliance/file`);
   console.log(`             GET  http://localhost:${port}/corporate/:entityId/compliance`);
   console.log(`             GET  http://localhost:${port}/corporate`);
+  console.log(`   Submit:   POST http://localhost:${port}/submit`);
+  console.log(`   Tx:       GET  http://localhost:${port}/tx/:hash`);
 });
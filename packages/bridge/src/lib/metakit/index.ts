@@ -2,6 +2,7 @@
 // Copied locally until the SDK is published to npm
 
 export { sign, signDataUpdate, signHash } from './sign.js';
+export { verify, verifyProof, verifyDataUpdateProof } from './verify.js';
 export { canonicalize } from './canonicalize.js';
 export { generateKeyPair, keyPairFromPrivateKey, getPublicKeyId, getAddress } from './wallet.js';
-export type { SignatureProof, Signed, KeyPair } from './types.js';
+export type { SignatureProof, Signed, KeyPair, VerificationResult } from './types.js';
@@ -0,0 +1,102 @@
+/**
+ * Verification Functions
+ *
+ * ECDSA signature verification using secp256k1 curve via dag4js.
+ * Mirrors the signing protocols in sign.ts.
+ */
+
+import { dag4 } from '@stardust-collective/dag4';
+import { sha256 } from 'js-sha256';
+import { Signed, SignatureProof, VerificationResult, CONSTELLATION_PREFIX } from './types';
+import { canonicalize } from './canonicalize';
+
+/**
+ * Verify a single proof against data signed with the regular protocol
+ *
+ * Protocol:
+ * 1. Canonicalize JSON (RFC 8785)
+ * 2. SHA-256 hash the canonical JSON string
+ * 3. Verify using dag4.keyStore.verify
+ *
+ * @param data - The signed value
+ * @param proof - SignatureProof produced by `sign()`
+ * @returns true if the signature is valid for the proof's public key
+ */
+export function verifyProof<T>(data: T, proof: SignatureProof): boolean {
+  try {
+    const hashHex = sha256(canonicalize(data));
+    return Boolean(dag4.keyStore.verify(toFullPublicKey(proof.id), hashHex, proof.signature));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a single proof against data signed as a DataUpdate
+ *
+ * Protocol (inverse of signDataUpdate):
+ * 1. Canonicalize JSON (RFC 8785)
+ * 2. Base64 encode the canonical JSON
+ * 3. Rebuild the Constellation-prefixed message and verify with dag4.keyStore.verifyData
+ *
+ * @param data - The signed value
+ * @param proof - SignatureProof produced by `signDataUpdate()`
+ * @returns true if the signature is valid for the proof's public key
+ */
+export function verifyDataUpdateProof<T>(data: T, proof: SignatureProof): boolean {
+  try {
+    const base64String = Buffer.from(canonicalize(data), 'utf-8').toString('base64');
+    const message = `${CONSTELLATION_PREFIX}${base64String.length}\n${base64String}`;
+    return Boolean(dag4.keyStore.verifyData(toFullPublicKey(proof.id), message, proof.signature));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify every proof on a signed object
+ *
+ * An object with no proofs is never valid.
+ *
+ * @param signed - Signed object with value and proofs
+ * @param options - Set `isDataUpdate` for DataUpdate signatures (the metagraph default)
+ * @returns VerificationResult partitioning proofs into valid and invalid
+ *
+ * @example
+ * ```typescript
+ * const result = verify(signed, { isDataUpdate: true });
+ * if (!result.isValid) console.log(result.invalidProofs);
+ * ```
+ */
+export function verify<T>(
+  signed: Signed<T>,
+  options: { isDataUpdate?: boolean } = {}
+): VerificationResult {
+  const check = options.isDataUpdate ? verifyDataUpdateProof : verifyProof;
+  const validProofs: SignatureProof[] = [];
+  const invalidProofs: SignatureProof[] = [];
+
+  for (const proof of signed.proofs) {
+    if (check(signed.value, proof)) {
+      validProofs.push(proof);
+    } else {
+      invalidProofs.push(proof);
+    }
+  }
+
+  return {
+    isValid: validProofs.length > 0 && invalidProofs.length === 0,
+    validProofs,
+    invalidProofs,
+  };
+}
+
+/**
+ * Convert a proof ID (128 chars, no 04 prefix) to the uncompressed public key dag4 expects
+ */
+function toFullPublicKey(id: string): string {
+  if (id.length === 128) {
+    return '04' + id;
+  }
+  return id;
+}
@@ -5,9 +5,16 @@
  * Uses @ottochain/sdk for signing and HTTP client.
  */
 
-import { getConfig } from '@ottochain/shared';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Request, Response, NextFunction } from 'express';
+import { getConfig, getRedisClient, metrics } from '@ottochain/shared';
 import { batchSign, generateKeyPair as sdkGenerateKeyPair, keyPairFromPrivateKey as sdkKeyPairFromPrivateKey, HttpClient } from '@ottochain/sdk';
 import type { KeyPair } from '@ottochain/sdk';
+import { getClientSigningContext, recordUnsignedTransaction } from './client-signing.js';
+import type { Signed } from './lib/metakit/index.js';
+import { InMemorySequenceStore, RedisSequenceStore, type SequenceStore } from './sequence-store.js';
+import { FiberSubmissionQueue, type QueuedSubmissionResult } from './fiber-queue.js';
+import { recordSubmission } from './submission-log.js';
 
 // ─── Optimistic Sequence Cache ────────────────────────────────────────────────
 //
@@ -16,47 +23,40 @@ import type { KeyPair } from '@ottochain/sdk';
 // getFiberSequenceNumber() return the same stale value from DL1 because DL1
 // hasn't applied the previous transaction yet.
 //
-// Fix: After each successful submission we *optimistically* advance a local
-// per-fiber counter. getFiberSequenceNumber() returns max(DL1_value, cached)
-// so the next caller always sees an incremented value without waiting for DL1.
+// Fix: getFiberSequenceNumber() atomically *reserves* max(DL1_value, cached)
+// and moves the per-fiber counter past it, so the next caller always sees an
+// incremented value without waiting for DL1. Successful submissions advance
+// the counter as well; on submission error the fiber is reset so the next
+// attempt reads fresh from DL1. Reservations a request never submits (it
+// failed validation or an ownership check first) are released when its
+// response is sent — see releaseUnsubmittedSequences().
 //
-// The cache is process-scoped (server restart resets it to DL1 state).
-// On submission error the caller may call resetFiberSequence() to force a
-// fresh read from DL1 on the next attempt.
-//
-// ⚠️  SINGLE-INSTANCE LIMITATION:
-// This cache is in-process only. Running multiple bridge instances (e.g., behind
-// a load balancer) would cause each instance to have its own cache, leading to
-// sequence conflicts. For HA deployments, replace this Map with Redis:
-//   - INCR ottochain:seq:<fiberId>
-//   - EXPIRE with TTL for automatic cleanup
-// See: https://github.com/ottobot-ai/ottochain-services/issues/109#ha-roadmap
+// The counter lives in a pluggable SequenceStore (see sequence-store.ts):
+//   - BRIDGE_SEQUENCE_STORE=memory (default): process-scoped, single instance
+//   - BRIDGE_SEQUENCE_STORE=redis: shared by all bridge instances behind a
+//     load balancer (ottochain:seq:<fiberId>, expiring after
+//     BRIDGE_SEQUENCE_TTL_SECONDS)
 // ─────────────────────────────────────────────────────────────────────────────
 
-/**
- * Maximum number of fibers to track in the sequence cache.
- * Prevents unbounded memory growth. When limit is reached, oldest entries
- * are evicted (FIFO via Map insertion order).
- */
-const SEQUENCE_CACHE_MAX_SIZE = 10_000;
+let sequenceStore: SequenceStore | null = null;
 
-/** Maps fiberId → next expected sequence number (optimistic high-water mark). */
-const sequenceCache = new Map<string, number>();
+function getSequenceStore(): SequenceStore {
+  if (!sequenceStore) {
+    const config = getConfig();
+    const options = { ttlSeconds: config.BRIDGE_SEQUENCE_TTL_SECONDS };
+    sequenceStore = config.BRIDGE_SEQUENCE_STORE === 'redis'
+      ? new RedisSequenceStore(getRedisClient(), options)
+      : new InMemorySequenceStore(options);
+    console.log(`[metagraph] Sequence cache: using ${sequenceStore.kind} store`);
+  }
+  return sequenceStore;
+}
 
 /**
- * Evict oldest entries if cache exceeds max size.
- * Uses Map's insertion-order iteration for FIFO eviction.
+ * Replace the sequence store (e.g. to share one store between instances in tests).
  */
-function evictOldestIfNeeded(): void {
-  while (sequenceCache.size >= SEQUENCE_CACHE_MAX_SIZE) {
-    const oldestKey = sequenceCache.keys().next().value;
-    if (oldestKey) {
-      sequenceCache.delete(oldestKey);
-      console.log(`[metagraph] Sequence cache: evicted ${oldestKey} (cache full)`);
-    } else {
-      break;
-    }
-  }
+export function setSequenceStore(store: SequenceStore): void {
+  sequenceStore = store;
 }
 
 /**
@@ -64,27 +64,51 @@ function evictOldestIfNeeded(): void {
  * nextSeq = submittedSeq + 1.
  * Only advances — never goes backwards.
  */
-function advanceSequenceCache(fiberId: string, submittedSeq: number): void {
-  const next = submittedSeq + 1;
-  const cached = sequenceCache.get(fiberId) ?? 0;
-  if (next > cached) {
-    // Delete and re-insert to update insertion order (for FIFO eviction)
-    sequenceCache.delete(fiberId);
-    evictOldestIfNeeded();
-    sequenceCache.set(fiberId, next);
-    console.log(`[metagraph] Sequence cache: fiber ${fiberId} advanced to ${next} (size: ${sequenceCache.size})`);
-  }
+async function advanceSequenceCache(fiberId: string, submittedSeq: number): Promise<void> {
+  await getSequenceStore().advance(fiberId, submittedSeq);
+  console.log(`[metagraph] Sequence cache: fiber ${fiberId} advanced past ${submittedSeq}`);
 }
 
 /**
  * Reset the cached sequence for a fiber (e.g. after a submission error).
  * The next call to getFiberSequenceNumber will re-read from DL1.
  */
-export function resetFiberSequence(fiberId: string): void {
-  sequenceCache.delete(fiberId);
+export async function resetFiberSequence(fiberId: string): Promise<void> {
+  await getSequenceStore().reset(fiberId);
   console.log(`[metagraph] Sequence cache: fiber ${fiberId} reset`);
 }
 
+/** Sequence numbers reserved while handling the current request and not yet submitted */
+const pendingReservations = new AsyncLocalStorage<Array<{ fiberId: string; seq: number }>>();
+
+/**
+ * Express middleware that releases sequence numbers a request reserved but
+ * never submitted, once its response has been sent. Without it, a route that
+ * fails between getFiberSequenceNumber() and submitTransaction() would leave
+ * a gap, and the fiber's next submission would target the wrong sequence.
+ */
+export function releaseUnsubmittedSequences(_req: Request, res: Response, next: NextFunction): void {
+  const pending: Array<{ fiberId: string; seq: number }> = [];
+  res.once('finish', () => {
+    for (const { fiberId, seq } of pending.splice(0)) {
+      getSequenceStore().release(fiberId, seq).then(
+        (released) => {
+          if (released) console.log(`[metagraph] Sequence cache: fiber ${fiberId} released unsubmitted ${seq}`);
+        },
+        (err) => console.warn(`[metagraph] Sequence release failed: ${(err as Error).message}`)
+      );
+    }
+  });
+  pendingReservations.run(pending, next);
+}
+
+/** Stop tracking a reservation once its message is submitted */
+function markSequenceSubmitted(fiberId: string, seq: number): void {
+  const pending = pendingReservations.getStore();
+  const index = pending?.findIndex((r) => r.fiberId === fiberId && r.seq === seq) ?? -1;
+  if (index >= 0) pending!.splice(index, 1);
+}
+
 // Re-export SDK core types for use by route handlers
 export type {
   StateMachineDefinition,
@@ -110,6 +134,11 @@ export function generateKeyPair(): KeyPair {
 }
 
 export function keyPairFromPrivateKey(privateKey: string): KeyPair {
+  // In client signing mode the request carries a public key only
+  const clientSigning = getClientSigningContext();
+  if (clientSigning) {
+    return { privateKey: '', publicKey: clientSigning.publicKey, address: clientSigning.address };
+  }
   return sdkKeyPairFromPrivateKey(privateKey);
 }
 
@@ -121,17 +150,18 @@ interface TransactionResult {
 }
 
 // Internal: extract fiberId and targetSequenceNumber from any OttoChain message.
-// Messages that contain a targetSequenceNumber are Transition/Archive/InvokeScript.
+// Messages that contain a targetSequenceNumber are Transition/Archive/InvokeScript/UpdateScript.
 // Returns null for CreateStateMachine/CreateScript (no sequence to track).
 function extractSequenceInfo(
   message: unknown
 ): { fiberId: string; targetSeq: number } | null {
   const msg = message as Record<string, Record<string, unknown>>;
 
-  for (const key of ['TransitionStateMachine', 'ArchiveStateMachine', 'InvokeScript']) {
+  for (const key of ['TransitionStateMachine', 'ArchiveStateMachine', 'InvokeScript', 'UpdateScript']) {
     const inner = msg[key];
     if (inner) {
-      const fiberId = inner.fiberId as string | undefined;
+      // Script messages name their fiber scriptId
+      const fiberId = (inner.fiberId ?? inner.scriptId) as string | undefined;
       const targetSeq = inner.targetSequenceNumber as number | undefined;
       if (fiberId && typeof targetSeq === 'number') {
         return { fiberId, targetSeq };
@@ -141,6 +171,19 @@ function extractSequenceInfo(
   return null;
 }
 
+// ─── Metrics ──────────────────────────────────────────────────────────────────
+
+const transactionsSubmitted = metrics.counter(
+  'bridge_transactions_submitted_total',
+  'Transactions submitted to DL1 by message type and result (success, error, or unsigned in client signing mode)',
+  ['type', 'result']
+);
+const submitDuration = metrics.histogram(
+  'bridge_transaction_submit_duration_seconds',
+  'Time for DL1 to accept or reject a submitted transaction',
+  ['type', 'result']
+);
+
 /**
  * Sign and submit a transaction to the metagraph DL1.
  *
@@ -148,6 +191,9 @@ function extractSequenceInfo(
  * rapid back-to-back submissions for the same fiber get monotonically
  * increasing targetSequenceNumbers (fix for Issue #109).
  *
+ * In client signing mode (see client-signing.ts) the message is recorded for
+ * the caller to sign instead, and the returned hash is 'unsigned'.
+ *
  * @param message    - The OttochainMessage (CreateStateMachine, TransitionStateMachine, etc.)
  * @param privateKey - Wallet private key in hex format
  * @returns Transaction hash and optional ordinal
@@ -156,43 +202,84 @@ export async function submitTransaction(
   message: unknown,
   privateKey: string
 ): Promise<TransactionResult> {
-  const config = getConfig();
+  const clientSigning = getClientSigningContext();
+  if (clientSigning) {
+    recordUnsignedTransaction(clientSigning, message, extractSequenceInfo(message));
+    transactionsSubmitted.inc({ type: Object.keys(message as object)[0], result: 'unsigned' });
+    console.log(`[metagraph] Prepared unsigned ${Object.keys(message as object)[0]} for ${clientSigning.address}`);
+    return { hash: 'unsigned' };
+  }
 
   // Sign using SDK's batchSign (same as e2e tests)
   const signed = await batchSign(message, [privateKey], { isDataUpdate: true });
 
+  return submitSignedTransaction(signed as Signed<unknown>);
+}
+
+/**
+ * Submit an already-signed transaction to the metagraph DL1.
+ *
+ * Used directly by POST /submit for envelopes signed by the client; proofs
+ * must be verified by the caller. Sequence cache handling is the same as for
+ * submitTransaction().
+ *
+ * @param signed - Signed OttochainMessage with one or more DataUpdate proofs
+ * @returns Transaction hash and optional ordinal
+ */
+export async function submitSignedTransaction(
+  signed: Signed<unknown>
+): Promise<TransactionResult> {
+  const config = getConfig();
+
   // Wrap in DataTransactionRequest format expected by tessellation DL1
   const payload = { data: signed, fee: null };
 
-  const msgType = Object.keys(message as object)[0];
+  const msgType = Object.keys(signed.value as object)[0];
   console.log(`[metagraph] Submitting to ${config.METAGRAPH_DL1_URL}/data`);
   console.log(`[metagraph] Message type: ${msgType}`);
   console.log(`[metagraph] Payload (truncated): ${JSON.stringify(payload).substring(0, 300)}...`);
 
   const client = new HttpClient(config.METAGRAPH_DL1_URL);
-  const seqInfo = extractSequenceInfo(message);
+  const seqInfo = extractSequenceInfo(signed.value);
+  if (seqInfo) markSequenceSubmitted(seqInfo.fiberId, seqInfo.targetSeq);
 
+  const endTimer = submitDuration.startTimer({ type: msgType });
   try {
     const result = await client.post<{ hash?: string; ordinal?: number }>('/data', payload);
+    endTimer({ result: 'success' });
+    transactionsSubmitted.inc({ type: msgType, result: 'success' });
     console.log(`[metagraph] Success: ${JSON.stringify(result)}`);
 
     // Advance the optimistic sequence cache so the next submission for this
     // fiber immediately sees the incremented value (Issue #109 fix).
     if (seqInfo) {
-      advanceSequenceCache(seqInfo.fiberId, seqInfo.targetSeq);
+      await advanceSequenceCache(seqInfo.fiberId, seqInfo.targetSeq).catch((cacheErr) => {
+        console.warn(`[metagraph] Sequence cache advance failed: ${(cacheErr as Error).message}`);
+      });
     }
 
-    return { hash: result.hash ?? 'pending', ordinal: result.ordinal };
+    const hash = result.hash ?? 'pending';
+    // Keep a record for GET /tx/:hash lifecycle tracking (best-effort, not awaited)
+    void recordSubmission(hash, signed);
+
+    return { hash, ordinal: result.ordinal };
   } catch (err) {
     const error = err as Error & { response?: string };
+    endTimer({ result: 'error' });
+    transactionsSubmitted.inc({ type: msgType, result: 'error' });
     if (error.response) {
       console.error(`[metagraph] Error response: ${error.response}`);
     }
     // On error, reset the cache so the next attempt reads fresh from DL1.
     if (seqInfo) {
-      resetFiberSequence(seqInfo.fiberId);
+      await resetFiberSequence(seqInfo.fiberId).catch((cacheErr) => {
+        console.warn(`[metagraph] Sequence cache reset failed: ${(cacheErr as Error).message}`);
+      });
     }
-    throw new Error(`Metagraph submission failed: ${error.message}`);
+    // Keep the DL1 response body so callers can read its error code
+    throw Object.assign(new Error(`Metagraph submission failed: ${error.message}`), {
+      response: error.response,
+    });
   }
 }
 
@@ -284,6 +371,12 @@ export async function waitForFiber(
   maxAttempts: number = 60,
   intervalMs: number = 1000
 ): Promise<boolean> {
+  // Prepared-but-unsigned fibers never reach DL1 during the request; let the
+  // route continue so follow-up messages are prepared too.
+  if (getClientSigningContext()) {
+    return true;
+  }
+
   const config = getConfig();
   const dl1Url = `${config.METAGRAPH_DL1_URL}/data-application/v1/onchain`;
   const client = new HttpClient(dl1Url);
@@ -312,38 +405,63 @@ export async function waitForFiber(
 }
 
 /**
- * Get the current sequence number for a fiber.
- *
- * Returns max(DL1_value, optimistic_cache) to ensure rapid back-to-back
- * submissions always get monotonically increasing sequence numbers even
- * before DL1 has applied the previous transaction.
- *
- * See: GitHub Issue #109 — Bridge sends same targetSequenceNumber for
- * rapid successive transactions.
- *
- * @param fiberId - The fiber ID to query
- * @returns The sequence number to use as targetSequenceNumber for the NEXT submission
+ * Read a fiber's sequence number from DL1's onchain state (0 if unknown).
  */
-export async function getFiberSequenceNumber(fiberId: string): Promise<number> {
+async function getDl1SequenceNumber(fiberId: string): Promise<number> {
   const config = getConfig();
   const dl1Url = `${config.METAGRAPH_DL1_URL}/data-application/v1/onchain`;
   const client = new HttpClient(dl1Url);
 
-  let dl1Seq = 0;
   try {
     const onChain = await client.get<{
       fiberCommits?: Record<string, { sequenceNumber?: number }>;
     }>('');
-    dl1Seq = onChain?.fiberCommits?.[fiberId]?.sequenceNumber ?? 0;
+    return onChain?.fiberCommits?.[fiberId]?.sequenceNumber ?? 0;
   } catch {
     // DL1 unreachable — fall back to cache only
+    return 0;
   }
+}
 
-  const cached = sequenceCache.get(fiberId) ?? 0;
-  const seq = Math.max(dl1Seq, cached);
+/**
+ * Get the sequence number to use for the next submission on a fiber.
+ *
+ * Atomically reserves max(DL1_value, cached) in the sequence store so that
+ * rapid back-to-back submissions — from this or any other bridge instance
+ * sharing the store — always get distinct, increasing sequence numbers even
+ * before DL1 has applied the previous transaction.
+ *
+ * Call this right before building the message that will be submitted. If the
+ * request fails before submitting it, the number is released again once the
+ * response is sent (see releaseUnsubmittedSequences).
+ *
+ * See: GitHub Issue #109 — Bridge sends same targetSequenceNumber for
+ * rapid successive transactions.
+ *
+ * @param fiberId - The fiber ID to query
+ * @returns The sequence number to use as targetSequenceNumber for the NEXT submission
+ */
+export async function getFiberSequenceNumber(fiberId: string): Promise<number> {
+  const dl1Seq = await getDl1SequenceNumber(fiberId);
+
+  // Client-signed messages may never be submitted, so don't reserve for them;
+  // messages already prepared in this request count as submitted.
+  const clientSigning = getClientSigningContext();
+  if (clientSigning) {
+    const cached = await getSequenceStore().peek(fiberId);
+    const prepared = clientSigning.sequenceOverlay.get(fiberId) ?? 0;
+    const seq = Math.max(dl1Seq, cached, prepared);
+    console.log(
+      `[metagraph] Fiber ${fiberId} sequence: DL1=${dl1Seq}, cache=${cached}, prepared=${prepared}, using=${seq}`
+    );
+    return seq;
+  }
+
+  const seq = await getSequenceStore().reserve(fiberId, dl1Seq);
+  pendingReservations.getStore()?.push({ fiberId, seq });
 
   console.log(
-    `[metagraph] Fiber ${fiberId} sequence: DL1=${dl1Seq}, cache=${cached}, using=${seq}`
+    `[metagraph] Fiber ${fiberId} sequence: DL1=${dl1Seq}, reserved=${seq}`
   );
   return seq;
 }
@@ -395,7 +513,7 @@ export async function waitForSequence(
   console.log(`[metagraph] Waiting for fiber ${fiberId} to reach sequence ${targetSeq}...`);
   
   for (let i = 0; i < maxAttempts; i++) {
-    const currentSeq = await getFiberSequenceNumber(fiberId);
+    const currentSeq = await getDl1SequenceNumber(fiberId);
     if (currentSeq >= targetSeq) {
       console.log(`[metagraph] Fiber ${fiberId} reached sequence ${currentSeq} (target: ${targetSeq})`);
       return true;
@@ -406,3 +524,45 @@ export async function waitForSequence(
   console.log(`[metagraph] Timeout waiting for fiber ${fiberId} to reach sequence ${targetSeq}`);
   return false;
 }
+
+// ─── Per-Fiber Submission Queue ───────────────────────────────────────────────
+
+/**
+ * Serializes transitions per fiber (see fiber-queue.ts). Each item waits for
+ * DL1 to acknowledge the previous sequence before reserving its own.
+ */
+export const fiberQueue = new FiberSubmissionQueue({
+  getSequenceNumber: getFiberSequenceNumber,
+  waitForSequence: (fiberId, targetSeq) => waitForSequence(fiberId, targetSeq),
+  resetSequence: resetFiberSequence,
+});
+
+/**
+ * Sign and submit a transition through the fiber's submission queue.
+ *
+ * The message is built only once the item reaches the head of the queue, so
+ * it always targets the sequence number current at that point.
+ *
+ * @param fiberId      - Fiber being transitioned
+ * @param eventName    - Event name (shown in GET /fiber/:fiberId/queue)
+ * @param buildMessage - Builds the OttochainMessage for a targetSequenceNumber
+ * @param privateKey   - Wallet private key in hex format
+ * @returns Transaction hash plus the sequence number and queue item used
+ */
+export async function submitQueuedTransition(
+  fiberId: string,
+  eventName: string,
+  buildMessage: (targetSequenceNumber: number) => unknown,
+  privateKey: string
+): Promise<QueuedSubmissionResult> {
+  // Nothing reaches DL1 in client signing mode, so there is nothing to order
+  if (getClientSigningContext()) {
+    const targetSequenceNumber = await getFiberSequenceNumber(fiberId);
+    const result = await submitTransaction(buildMessage(targetSequenceNumber), privateKey);
+    return { ...result, targetSequenceNumber, queueItemId: 'unqueued', attempts: 1 };
+  }
+
+  return fiberQueue.enqueue(fiberId, eventName, (targetSequenceNumber) =>
+    submitTransaction(buildMessage(targetSequenceNumber), privateKey)
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * Platform Link Verification
+ *
+ * Linking a platform account (Discord, GitHub, ...) to an agent is a two-step
+ * handshake:
+ *
+ * 1. POST /agent/link/challenge issues a single-use challenge naming the agent
+ *    address, platform and platform user, valid for a short window.
+ * 2. The agent signs the challenge with its wallet key (metakit `sign`: SHA-256
+ *    of the RFC 8785 canonical JSON) and posts the SignatureProof to
+ *    POST /agent/link, optionally with a platform proof (e.g. a code the
+ *    platform bot saw the user post).
+ *
+ * The bridge checks the signature came from the agent's own key, asks the
+ * platform's verifier (if one is registered) to accept the proof, then creates
+ * a PlatformLink fiber signed by the agent. The indexer turns that fiber into
+ * a verified PlatformLink row. (AgentIdentity has no link transition, so the
+ * link gets a fiber of its own.)
+ *
+ * Verifiers are pluggable per platform. StubPlatformVerifier accepts proofs of
+ * a fixed shape so tests can exercise the full flow without real platform APIs.
+ */
+
+import { randomBytes } from 'node:crypto';
+
+/** Value of `purpose` in every challenge, so a signed challenge can't be replayed as anything else */
+export const LINK_CHALLENGE_PURPOSE = 'ottochain:link-platform';
+
+/** Platforms accepted by PlatformLink (mirrors the Prisma enum) */
+export const LINK_PLATFORMS = ['DISCORD', 'TELEGRAM', 'TWITTER', 'GITHUB', 'CUSTOM'] as const;
+export type LinkPlatform = (typeof LINK_PLATFORMS)[number];
+
+/**
+ * Definition of the fiber recording one link. Its initial data carries the
+ * challenge fields and the agent's signature; the fiber is owned by the agent
+ * because the agent's key signs its creation.
+ */
+export const PLATFORM_LINK_DEFINITION = {
+  metadata: {
+    name: 'PlatformLink',
+    description: 'Platform account linked to an agent with a signed challenge',
+    version: '1.0.0',
+  },
+  states: {
+    LINKED: { id: { value: 'LINKED' }, isFinal: false },
+  },
+  initialState: { value: 'LINKED' },
+  transitions: [],
+};
+
+/** The value the agent signs */
+export interface LinkChallenge {
+  purpose: typeof LINK_CHALLENGE_PURPOSE;
+  agentAddress: string;
+  platform: LinkPlatform;
+  platformUserId: string;
+  nonce: string;
+  expiresAt: string;
+}
+
+export interface SignatureProof {
+  /** Public key hex without the 04 prefix */
+  id: string;
+  signature: string;
+}
+
+/** Everything a platform verifier gets to decide on */
+export interface PlatformProofClaim {
+  agentAddress: string;
+  platform: LinkPlatform;
+  platformUserId: string;
+  platformUsername?: string;
+  nonce: string;
+  /** Platform-specific proof supplied by the caller */
+  proof?: string;
+}
+
+export type VerifierResult = { ok: true } | { ok: false; reason: string };
+
+export interface PlatformVerifier {
+  /** Verifier name, for logs */
+  readonly name: string;
+  verify(claim: PlatformProofClaim): Promise<VerifierResult>;
+}
+
+/** Signature primitives (lib/metakit in the bridge) */
+export interface SignatureCheck {
+  verifyProof(data: unknown, proof: SignatureProof): boolean;
+  getAddress(publicKey: string): string;
+}
+
+export type LinkErrorCode =
+  | 'expired'
+  | 'consumed'
+  | 'bad_signature'
+  | 'wrong_signer'
+  | 'proof_rejected';
+
+export type LinkVerification = { ok: true } | { ok: false; code: LinkErrorCode; message: string };
+
+/** HTTP status for each verification failure */
+export const LINK_ERROR_STATUS: Record<LinkErrorCode, number> = {
+  expired: 410,
+  consumed: 409,
+  bad_signature: 401,
+  wrong_signer: 403,
+  proof_rejected: 403,
+};
+
+/**
+ * Issue a fresh challenge
+ */
+export function createLinkChallenge(
+  agentAddress: string,
+  platform: LinkPlatform,
+  platformUserId: string,
+  ttlSeconds: number,
+  now: Date = new Date()
+): LinkChallenge {
+  return {
+    purpose: LINK_CHALLENGE_PURPOSE,
+    agentAddress,
+    platform,
+    platformUserId,
+    nonce: randomBytes(16).toString('hex'),
+    expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check a signed challenge and the platform proof.
+ *
+ * `consumed` is whether the challenge was already used. Order matters: cheap
+ * state checks first, then the signature, then the (possibly remote) verifier.
+ */
+export async function verifyLinkRequest(
+  challenge: LinkChallenge,
+  consumed: boolean,
+  request: { signature: SignatureProof; platformUsername?: string; proof?: string },
+  deps: { crypto: SignatureCheck; verifier?: PlatformVerifier },
+  now: Date = new Date()
+): Promise<LinkVerification> {
+  if (consumed) {
+    return { ok: false, code: 'consumed', message: 'Challenge already used' };
+  }
+  if (new Date(challenge.expiresAt).getTime() <= now.getTime()) {
+    return { ok: false, code: 'expired', message: 'Challenge expired; request a new one' };
+  }
+  if (!deps.crypto.verifyProof(challenge, request.signature)) {
+    return { ok: false, code: 'bad_signature', message: 'Signature does not match the challenge' };
+  }
+
+  let signer: string;
+  try {
+    signer = deps.crypto.getAddress(request.signature.id);
+  } catch {
+    return { ok: false, code: 'bad_signature', message: 'Invalid public key' };
+  }
+  if (signer !== challenge.agentAddress) {
+    return { ok: false, code: 'wrong_signer', message: `Challenge signed by ${signer}, not ${challenge.agentAddress}` };
+  }
+
+  if (deps.verifier) {
+    const result = await deps.verifier.verify({
+      agentAddress: challenge.agentAddress,
+      platform: challenge.platform,
+      platformUserId: challenge.platformUserId,
+      platformUsername: request.platformUsername,
+      nonce: challenge.nonce,
+      proof: request.proof,
+    });
+    if (!result.ok) {
+      return { ok: false, code: 'proof_rejected', message: `${deps.verifier.name}: ${result.reason}` };
+    }
+  }
+
+  return { ok: true };
+}
+
+// ============================================================================
+// Verifier registry
+// ============================================================================
+
+const verifiers = new Map<LinkPlatform, PlatformVerifier>();
+
+/**
+ * Require `verifier` to accept proofs for `platform`. Platforms without a
+ * verifier rely on the signed challenge alone.
+ */
+export function registerPlatformVerifier(platform: LinkPlatform, verifier: PlatformVerifier): void {
+  verifiers.set(platform, verifier);
+}
+
+export function getPlatformVerifier(platform: LinkPlatform): PlatformVerifier | undefined {
+  return verifiers.get(platform);
+}
+
+export function clearPlatformVerifiers(): void {
+  verifiers.clear();
+}
+
+/**
+ * Test verifier: accepts exactly the proof `StubPlatformVerifier.proofFor()` builds, the
+ * string a platform bot would have seen the user post.
+ */
+export class StubPlatformVerifier implements PlatformVerifier {
+  readonly name = 'stub';
+
+  static proofFor(claim: Pick<PlatformProofClaim, 'platform' | 'platformUserId' | 'nonce'>): string {
+    return `stub:${claim.platform.toLowerCase()}:${claim.platformUserId}:${claim.nonce}`;
+  }
+
+  async verify(claim: PlatformProofClaim): Promise<VerifierResult> {
+    if (!claim.proof) {
+      return { ok: false, reason: 'proof required' };
+    }
+    return claim.proof === StubPlatformVerifier.proofFor(claim)
+      ? { ok: true }
+      : { ok: false, reason: 'proof does not match challenge' };
+  }
+}
+
+/** Platforms the stub verifier covers when BRIDGE_PLATFORM_VERIFIER=stub */
+export const STUB_VERIFIED_PLATFORMS: LinkPlatform[] = ['DISCORD', 'GITHUB', 'TELEGRAM'];
@@ -11,15 +11,28 @@ import {
   keyPairFromPrivateKey, 
   generateKeyPair, 
   waitForFiber,
-  getFiberSequenceNumber,
+  submitQueuedTransition,
   type StateMachineDefinition,
   type CreateStateMachine,
   type TransitionStateMachine,
   type FiberOrdinal,
 } from '../metagraph.js';
 import { getIdentityDefinition, DEFAULT_REPUTATION_CONFIG } from '@ottochain/sdk/apps/identity';
+import { prisma, getConfig } from '@ottochain/shared';
+import { verifyProof, getAddress } from '../lib/metakit/index.js';
+import {
+  LINK_PLATFORMS,
+  LINK_CHALLENGE_PURPOSE,
+  LINK_ERROR_STATUS,
+  createLinkChallenge,
+  verifyLinkRequest,
+  getPlatformVerifier,
+  PLATFORM_LINK_DEFINITION,
+  type LinkChallenge,
+} from '../platform-link.js';
 
 const AGENT_IDENTITY_DEFINITION = getIdentityDefinition() as StateMachineDefinition;
+const LINK_DEFINITION = PLATFORM_LINK_DEFINITION as StateMachineDefinition;
 
 export const agentRoutes: RouterType = Router();
 
@@ -41,6 +54,21 @@ const TransitionRequestSchema = z.object({
   payload: z.record(z.any()).optional(),
 });
 
+const LinkChallengeRequestSchema = z.object({
+  agentAddress: z.string().min(1),
+  platform: z.enum(LINK_PLATFORMS),
+  platformUserId: z.string().min(1).max(128),
+});
+
+const LinkRequestSchema = z.object({
+  privateKey: z.string().length(64),
+  fiberId: z.string().uuid(),
+  nonce: z.string().min(1).max(64),
+  signature: z.object({ id: z.string(), signature: z.string() }),
+  platformUsername: z.string().max(255).optional(),
+  proof: z.string().optional(),
+});
+
 // ============================================================================
 // Routes
 // ============================================================================
@@ -139,20 +167,17 @@ agentRoutes.post('/transition', async (req, res) => {
       return res.status(404).json({ error: 'Agent not found' });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.fiberId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.fiberId,
         eventName: input.event,
         payload: input.payload ?? {},
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[agent/transition] Event ${input.event} on fiber ${input.fiberId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.fiberId, input.event, buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -209,20 +234,17 @@ agentRoutes.post('/activate', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(fiberId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId,
         eventName: 'activate',
         payload: {},
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[agent/activate] Activating fiber ${fiberId}`);
-    const result = await submitTransaction(message, privateKey);
+    const result = await submitQueuedTransition(fiberId, 'activate', buildMessage, privateKey);
 
     res.json({
       hash: result.hash,
@@ -265,20 +287,17 @@ agentRoutes.post('/vouch', async (req, res) => {
     // Derive voucher address if not provided
     const voucherAddress = fromAddress ?? keyPairFromPrivateKey(privateKey).address;
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(targetFiberId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: targetFiberId,
         eventName: 'receive_vouch',
         payload: { from: voucherAddress, reason: reason ?? '' },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[agent/vouch] ${voucherAddress} vouching for ${targetFiberId}`);
-    const result = await submitTransaction(message, privateKey);
+    const result = await submitQueuedTransition(targetFiberId, 'receive_vouch', buildMessage, privateKey);
 
     res.json({
       hash: result.hash,
@@ -293,6 +312,163 @@ agentRoutes.post('/vouch', async (req, res) => {
   }
 });
 
+/**
+ * Request a platform link challenge
+ * POST /agent/link/challenge
+ *
+ * Returns a single-use challenge for the agent to sign (see platform-link.ts).
+ */
+agentRoutes.post('/link/challenge', async (req, res) => {
+  try {
+    const input = LinkChallengeRequestSchema.parse(req.body);
+
+    // A platform account verified for one agent can't be claimed by another
+    const existing = await prisma.platformLink.findUnique({
+      where: { platform_platformUserId: { platform: input.platform, platformUserId: input.platformUserId } },
+      include: { agent: { select: { address: true } } },
+    });
+    if (existing?.verified && existing.agent.address !== input.agentAddress) {
+      return res.status(409).json({ error: 'Platform account already linked to another agent' });
+    }
+
+    const challenge = createLinkChallenge(
+      input.agentAddress,
+      input.platform,
+      input.platformUserId,
+      getConfig().BRIDGE_LINK_CHALLENGE_TTL_SECONDS
+    );
+    await prisma.platformLinkChallenge.create({
+      data: {
+        nonce: challenge.nonce,
+        agentAddress: challenge.agentAddress,
+        platform: challenge.platform,
+        platformUserId: challenge.platformUserId,
+        expiresAt: new Date(challenge.expiresAt),
+      },
+    });
+
+    res.status(201).json({
+      challenge,
+      proofRequired: Boolean(getPlatformVerifier(input.platform)),
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: err.errors });
+    }
+    console.error('[agent/link-challenge] Error:', err);
+    const errorMessage = err instanceof Error ? err.message : 'Challenge failed';
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+/**
+ * Link a platform account with a signed challenge
+ * POST /agent/link
+ *
+ * Verifies the signature and platform proof, then creates a PlatformLink
+ * fiber signed with the agent's key. The indexer marks the link verified once
+ * the fiber is in a snapshot.
+ */
+agentRoutes.post('/link', async (req, res) => {
+  try {
+    const input = LinkRequestSchema.parse(req.body);
+
+    const row = await prisma.platformLinkChallenge.findUnique({ where: { nonce: input.nonce } });
+    if (!row) {
+      return res.status(404).json({ error: 'Challenge not found' });
+    }
+    const challenge: LinkChallenge = {
+      purpose: LINK_CHALLENGE_PURPOSE,
+      agentAddress: row.agentAddress,
+      platform: row.platform,
+      platformUserId: row.platformUserId,
+      nonce: row.nonce,
+      expiresAt: row.expiresAt.toISOString(),
+    };
+
+    const state = await getStateMachine(input.fiberId) as { owners?: string[] } | null;
+    if (!state) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+    if (!state.owners?.includes(challenge.agentAddress)) {
+      return res.status(403).json({ error: 'Fiber is not owned by the challenged agent' });
+    }
+    // The link fiber's owner is its signer; the indexer only accepts the agent
+    if (keyPairFromPrivateKey(input.privateKey).address !== challenge.agentAddress) {
+      return res.status(403).json({ error: 'privateKey does not belong to the challenged agent', code: 'wrong_signer' });
+    }
+
+    const verification = await verifyLinkRequest(
+      challenge,
+      row.consumedAt !== null,
+      { signature: input.signature, platformUsername: input.platformUsername, proof: input.proof },
+      { crypto: { verifyProof, getAddress }, verifier: getPlatformVerifier(challenge.platform) }
+    );
+    if (!verification.ok) {
+      return res.status(LINK_ERROR_STATUS[verification.code]).json({ error: verification.message, code: verification.code });
+    }
+
+    // Claim the nonce; a concurrent request with the same challenge loses here
+    const linkFiberId = randomUUID();
+    const claimed = await prisma.platformLinkChallenge.updateMany({
+      where: { nonce: challenge.nonce, consumedAt: null },
+      data: { consumedAt: new Date(), platformUsername: input.platformUsername ?? null, linkFiberId },
+    });
+    if (claimed.count === 0) {
+      return res.status(409).json({ error: 'Challenge already used', code: 'consumed' });
+    }
+
+    const message = {
+      CreateStateMachine: {
+        fiberId: linkFiberId,
+        definition: LINK_DEFINITION,
+        initialData: {
+          schema: 'PlatformLink',
+          agentAddress: challenge.agentAddress,
+          agentFiberId: input.fiberId,
+          platform: challenge.platform,
+          platformUserId: challenge.platformUserId,
+          platformUsername: input.platformUsername ?? null,
+          nonce: challenge.nonce,
+          publicKey: input.signature.id,
+          signature: input.signature.signature,
+          linkedAt: new Date().toISOString(),
+        },
+        parentFiberId: null,
+      },
+    };
+
+    console.log(`[agent/link] Linking ${challenge.platform}:${challenge.platformUserId} to ${challenge.agentAddress}`);
+    let result: { hash: string };
+    try {
+      result = await submitTransaction(message, input.privateKey);
+    } catch (err) {
+      // Let the caller retry with the same challenge
+      await prisma.platformLinkChallenge.update({
+        where: { nonce: challenge.nonce },
+        data: { consumedAt: null, linkFiberId: null },
+      });
+      throw err;
+    }
+
+    res.json({
+      hash: result.hash,
+      fiberId: input.fiberId,
+      linkFiberId,
+      platform: challenge.platform,
+      platformUserId: challenge.platformUserId,
+      status: 'PENDING',
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: err.errors });
+    }
+    console.error('[agent/link] Error:', err);
+    const errorMessage = err instanceof Error ? err.message : 'Link failed';
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
 /**
  * Get agent state by fiber ID
  * GET /agent/:fiberId
@@ -9,7 +9,7 @@ import {
   getStateMachine, 
   getCheckpoint, 
   keyPairFromPrivateKey,
-  getFiberSequenceNumber,
+  submitQueuedTransition,
   type StateMachineDefinition,
   type CreateStateMachine,
   type TransitionStateMachine,
@@ -140,20 +140,17 @@ contractRoutes.post('/accept', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.contractId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.contractId,
         eventName: 'accept',
         payload: { agent: callerAddress },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[contract/accept] ${callerAddress} accepting contract ${input.contractId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.contractId, 'accept', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -197,20 +194,17 @@ contractRoutes.post('/reject', async (req, res) => {
 
     const callerAddress = keyPairFromPrivateKey(input.privateKey).address;
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.contractId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.contractId,
         eventName: 'reject',
         payload: { agent: callerAddress, reason: input.reason ?? '' },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[contract/reject] ${callerAddress} rejecting contract ${input.contractId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.contractId, 'reject', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -250,20 +244,17 @@ contractRoutes.post('/complete', async (req, res) => {
 
     const callerAddress = keyPairFromPrivateKey(input.privateKey).address;
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.contractId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.contractId,
         eventName: 'submit_completion',
         payload: { agent: callerAddress, proof: input.proof ?? '' },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[contract/complete] ${callerAddress} submitting completion for ${input.contractId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.contractId, 'submit_completion', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -310,20 +301,17 @@ contractRoutes.post('/finalize', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.contractId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.contractId,
         eventName: 'finalize',
         payload: {},
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[contract/finalize] Finalizing contract ${input.contractId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.contractId, 'finalize', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -367,20 +355,17 @@ contractRoutes.post('/dispute', async (req, res) => {
 
     const callerAddress = keyPairFromPrivateKey(input.privateKey).address;
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.contractId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.contractId,
         eventName: 'dispute',
         payload: { agent: callerAddress, reason: input.reason },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[contract/dispute] ${callerAddress} disputing contract ${input.contractId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.contractId, 'dispute', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -10,7 +10,7 @@ import {
   getStateMachine, 
   getCheckpoint, 
   keyPairFromPrivateKey,
-  getFiberSequenceNumber,
+  submitQueuedTransition,
   type StateMachineDefinition,
   type CreateStateMachine,
   type TransitionStateMachine,
@@ -510,10 +510,7 @@ corporateRoutes.post('/amend-charter', async (req, res) => {
 
     const amendmentId = randomUUID();
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.entityId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.entityId,
         eventName: 'amend_charter',
@@ -529,11 +526,11 @@ corporateRoutes.post('/amend-charter', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/amend-charter] ${callerAddress} amending ${input.entityId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.entityId, 'amend_charter', buildMessage, input.privateKey);
 
     res.json({
       entityId: input.entityId,
@@ -607,10 +604,7 @@ corporateRoutes.post('/:entityId/board/elect', async (req, res) => {
 
     const directorId = input.directorId ?? randomUUID();
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(boardId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: boardId,
         eventName: 'elect_director',
@@ -628,11 +622,11 @@ corporateRoutes.post('/:entityId/board/elect', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/board/elect] Electing ${input.name} to board ${boardId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(boardId, 'elect_director', buildMessage, input.privateKey);
 
     res.status(201).json({
       entityId: input.entityId,
@@ -734,21 +728,18 @@ corporateRoutes.post('/:entityId/board/meeting', async (req, res) => {
         return res.status(400).json({ error: `Unknown action: ${input.action}` });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(boardId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: boardId,
         eventName,
         payload,
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/board/meeting] ${input.action} on board ${boardId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(boardId, eventName, buildMessage, input.privateKey);
 
     res.json({
       entityId: input.entityId,
@@ -856,10 +847,7 @@ corporateRoutes.post('/:entityId/board/consent', async (req, res) => {
       return res.status(404).json({ error: 'Resolution not found' });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.resolutionId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.resolutionId,
         eventName: 'cast_vote',
@@ -871,11 +859,11 @@ corporateRoutes.post('/:entityId/board/consent', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/board/consent] ${callerAddress} consenting to ${input.resolutionId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.resolutionId, 'cast_vote', buildMessage, input.privateKey);
 
     res.json({
       resolutionId: input.resolutionId,
@@ -998,10 +986,7 @@ corporateRoutes.post('/:entityId/shareholders/vote', async (req, res) => {
 
     const voteId = randomUUID();
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.meetingId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.meetingId,
         eventName: 'cast_vote',
@@ -1019,11 +1004,11 @@ corporateRoutes.post('/:entityId/shareholders/vote', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/shareholders/vote] ${callerAddress} voting on ${input.agendaItemId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.meetingId, 'cast_vote', buildMessage, input.privateKey);
 
     res.json({
       meetingId: input.meetingId,
@@ -1117,21 +1102,18 @@ corporateRoutes.post('/:entityId/shareholders/proxy', async (req, res) => {
 
     const eventName = input.action === 'revoke' ? 'revoke' : 'use';
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.proxyId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.proxyId,
         eventName,
         payload: { agent: callerAddress },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/shareholders/proxy] ${input.action} proxy ${input.proxyId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.proxyId, eventName, buildMessage, input.privateKey);
 
     res.json({
       proxyId: input.proxyId,
@@ -1185,10 +1167,7 @@ corporateRoutes.post('/:entityId/officers/appoint', async (req, res) => {
     const officerId = randomUUID();
     const personId = randomUUID();
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(officersId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: officersId,
         eventName: 'appoint_officer',
@@ -1208,11 +1187,11 @@ corporateRoutes.post('/:entityId/officers/appoint', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/officers/appoint] Appointing ${input.name} as ${input.title}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(officersId, 'appoint_officer', buildMessage, input.privateKey);
 
     res.status(201).json({
       entityId: input.entityId,
@@ -1262,10 +1241,7 @@ corporateRoutes.post('/:entityId/officers/remove', async (req, res) => {
       return res.status(404).json({ error: 'Officers state machine not found' });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(officersId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: officersId,
         eventName: 'remove_officer',
@@ -1278,14 +1254,15 @@ corporateRoutes.post('/:entityId/officers/remove', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/officers/remove] Removing officer ${input.officerId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(officersId, 'remove_officer', buildMessage, input.privateKey);
 
     res.json({
       entityId: input.entityId,
+      officersId,
       officerId: input.officerId,
       reason: input.reason,
       hash: result.hash,
@@ -1373,10 +1350,7 @@ corporateRoutes.post('/:entityId/securities/issue', async (req, res) => {
     // Then transition to ISSUED
     const securityState = await getStateMachine(securityId) as { sequenceNumber?: number } | null;
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const issueSeqNum = await getFiberSequenceNumber(securityId);
-
-    const issueMessage = {
+    const buildIssueMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: securityId,
         eventName: 'issue_shares',
@@ -1394,11 +1368,11 @@ corporateRoutes.post('/:entityId/securities/issue', async (req, res) => {
           restrictionType: input.restrictionType,
           exemptionUsed: input.exemptionUsed,
         },
-        targetSequenceNumber: issueSeqNum,
+        targetSequenceNumber,
       },
-    };
+    });
 
-    const issueResult = await submitTransaction(issueMessage, input.privateKey);
+    const issueResult = await submitQueuedTransition(securityId, 'issue_shares', buildIssueMessage, input.privateKey);
 
     res.status(201).json({
       securityId,
@@ -1449,10 +1423,7 @@ corporateRoutes.post('/:entityId/securities/transfer', async (req, res) => {
     const transferId = randomUUID();
 
     // Initiate transfer
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const initiateSeqNum = await getFiberSequenceNumber(input.securityId);
-
-    const initiateMessage = {
+    const buildInitiateMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.securityId,
         eventName: 'initiate_transfer',
@@ -1466,18 +1437,16 @@ corporateRoutes.post('/:entityId/securities/transfer', async (req, res) => {
           transferDate: input.transferDate,
           pricePerShare: input.pricePerShare,
         },
-        targetSequenceNumber: initiateSeqNum,
+        targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/securities/transfer] Initiating transfer ${transferId}`);
 
-    const initiateResult = await submitTransaction(initiateMessage, input.privateKey);
-
-    // Complete transfer - get fresh sequence after initiate
-    const completeSeqNum = await getFiberSequenceNumber(input.securityId);
+    const initiateResult = await submitQueuedTransition(input.securityId, 'initiate_transfer', buildInitiateMessage, input.privateKey);
 
-    const completeMessage = {
+    // Complete transfer - queued behind the initiate on the same fiber
+    const buildCompleteMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.securityId,
         eventName: 'complete_transfer',
@@ -1488,11 +1457,11 @@ corporateRoutes.post('/:entityId/securities/transfer', async (req, res) => {
           toHolderType: input.toHolderType,
           completedDate: input.transferDate,
         },
-        targetSequenceNumber: completeSeqNum,
+        targetSequenceNumber,
       },
-    };
+    });
 
-    const completeResult = await submitTransaction(completeMessage, input.privateKey);
+    const completeResult = await submitQueuedTransition(input.securityId, 'complete_transfer', buildCompleteMessage, input.privateKey);
 
     res.json({
       securityId: input.securityId,
@@ -1548,10 +1517,7 @@ corporateRoutes.post('/:entityId/compliance/file', async (req, res) => {
 
     const filingId = randomUUID();
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(complianceId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: complianceId,
         eventName: 'file_annual_report',
@@ -1570,11 +1536,11 @@ corporateRoutes.post('/:entityId/compliance/file', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[corporate/compliance/file] Filing ${input.filingType} for ${input.entityId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(complianceId, 'file_annual_report', buildMessage, input.privateKey);
 
     res.json({
       entityId: input.entityId,
@@ -16,7 +16,8 @@ import {
   getStateMachine, 
   getCheckpoint, 
   keyPairFromPrivateKey,
-  getFiberSequenceNumber,
+  submitQueuedTransition,
+  fiberQueue,
   type StateMachineDefinition,
   type CreateStateMachine,
   type TransitionStateMachine,
@@ -132,37 +133,49 @@ fiberRoutes.post('/create', async (req, res) => {
  * POST /fiber/transition
  * 
  * Generic endpoint for triggering any event on any fiber.
+ *
+ * Without an explicit targetSequenceNumber the transition goes through the
+ * fiber's submission queue, so concurrent calls for one fiber are applied in
+ * arrival order. With one, it is submitted as-is (caller-managed ordering).
  */
 fiberRoutes.post('/transition', async (req, res) => {
   try {
     const input = TransitionFiberRequestSchema.parse(req.body);
 
-    // Get current sequence number if not provided
-    let targetSeq = input.targetSequenceNumber;
-    if (targetSeq === undefined) {
-      const state = await getStateMachine(input.fiberId) as { sequenceNumber?: number } | null;
-      if (!state) {
-        return res.status(404).json({ error: 'Fiber not found' });
-      }
-      targetSeq = state.sequenceNumber ?? 0;
+    const state = await getStateMachine(input.fiberId);
+    if (!state) {
+      return res.status(404).json({ error: 'Fiber not found' });
     }
 
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.fiberId,
         eventName: input.event,
         payload: input.payload ?? {},
-        targetSequenceNumber: targetSeq,
+        targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[fiber/transition] Event ${input.event} on fiber ${input.fiberId}`);
-    const result = await submitTransaction(message, input.privateKey);
+
+    if (input.targetSequenceNumber !== undefined) {
+      const result = await submitTransaction(buildMessage(input.targetSequenceNumber), input.privateKey);
+      return res.json({
+        hash: result.hash,
+        event: input.event,
+        fiberId: input.fiberId,
+        targetSequenceNumber: input.targetSequenceNumber,
+      });
+    }
+
+    const result = await submitQueuedTransition(input.fiberId, input.event, buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
       event: input.event,
       fiberId: input.fiberId,
+      targetSequenceNumber: result.targetSequenceNumber,
+      queueItemId: result.queueItemId,
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -179,6 +192,8 @@ fiberRoutes.post('/transition', async (req, res) => {
  * POST /fiber/batch
  * 
  * Submit multiple transitions in parallel for higher throughput.
+ * Transitions on different fibers run concurrently; transitions on the same
+ * fiber are serialized through the fiber's submission queue.
  * Returns results for each transition (success or failure).
  */
 fiberRoutes.post('/batch', async (req, res) => {
@@ -192,19 +207,15 @@ fiberRoutes.post('/batch', async (req, res) => {
           throw new Error(`Fiber ${t.fiberId} not found`);
         }
 
-        // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-        const targetSequenceNumber = await getFiberSequenceNumber(t.fiberId);
-
-        const message = {
+        // Queued per fiber: items for the same fiber are submitted in order
+        const result = await submitQueuedTransition(t.fiberId, t.event, (targetSequenceNumber) => ({
           TransitionStateMachine: {
             fiberId: t.fiberId,
             eventName: t.event,
             payload: t.payload ?? {},
             targetSequenceNumber,
           },
-        };
-
-        const result = await submitTransaction(message, t.privateKey);
+        }), t.privateKey);
         return { fiberId: t.fiberId, event: t.event, hash: result.hash };
       })
     );
@@ -241,6 +252,14 @@ fiberRoutes.post('/batch', async (req, res) => {
   }
 });
 
+/**
+ * Get submission queue depth and status for a fiber
+ * GET /fiber/:fiberId/queue
+ */
+fiberRoutes.get('/:fiberId/queue', (req, res) => {
+  res.json(fiberQueue.getStatus(req.params.fiberId));
+});
+
 /**
  * Get fiber state by ID
  * GET /fiber/:fiberId
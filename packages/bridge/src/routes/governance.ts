@@ -9,7 +9,7 @@ import {
   getStateMachine, 
   getCheckpoint, 
   keyPairFromPrivateKey,
-  getFiberSequenceNumber,
+  submitQueuedTransition,
   type StateMachineDefinition,
   type CreateStateMachine,
   type TransitionStateMachine,
@@ -268,10 +268,7 @@ governanceRoutes.post('/propose', async (req, res) => {
 
     const proposalId = input.proposalId ?? randomUUID();
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.daoId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.daoId,
         eventName: 'propose',
@@ -285,12 +282,12 @@ governanceRoutes.post('/propose', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[governance/propose] ${callerAddress} proposing to DAO ${input.daoId}`);
     console.log(`  Proposal: ${input.title} (${proposalId})`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.daoId, 'propose', buildMessage, input.privateKey);
 
     res.status(201).json({
       proposalId,
@@ -353,21 +350,18 @@ governanceRoutes.post('/vote', async (req, res) => {
       ? { agent: callerAddress }
       : { agent: callerAddress, vote: input.vote.toLowerCase(), weight: input.weight ?? 1 };
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.daoId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.daoId,
         eventName,
         payload,
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[governance/vote] ${callerAddress} ${isMultisig ? 'signing' : 'voting'} on DAO ${input.daoId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.daoId, eventName, buildMessage, input.privateKey);
 
     res.json({
       daoId: input.daoId,
@@ -420,21 +414,18 @@ governanceRoutes.post('/execute', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.daoId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.daoId,
         eventName: 'execute',
         payload: { agent: callerAddress },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[governance/execute] ${callerAddress} executing proposal on DAO ${input.daoId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.daoId, 'execute', buildMessage, input.privateKey);
 
     res.json({
       daoId: input.daoId,
@@ -476,10 +467,7 @@ governanceRoutes.post('/delegate', async (req, res) => {
       return res.status(404).json({ error: 'DAO not found' });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.daoId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.daoId,
         eventName: 'delegate',
@@ -490,11 +478,11 @@ governanceRoutes.post('/delegate', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[governance/delegate] ${callerAddress} delegating to ${input.delegateTo} in DAO ${input.daoId}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.daoId, 'delegate', buildMessage, input.privateKey);
 
     res.json({
       daoId: input.daoId,
@@ -548,10 +536,7 @@ governanceRoutes.post('/veto', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.daoId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.daoId,
         eventName: 'veto',
@@ -561,12 +546,12 @@ governanceRoutes.post('/veto', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[governance/veto] ${callerAddress} vetoing proposal in DAO ${input.daoId}`);
     console.log(`  Reason: ${input.reason}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.daoId, 'veto', buildMessage, input.privateKey);
 
     res.json({
       daoId: input.daoId,
@@ -5,7 +5,7 @@
 import { Router, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
-import { submitTransaction, getStateMachine, getCheckpoint, keyPairFromPrivateKey, waitForFiber, getFiberSequenceNumber, getEpochProgress } from '../metagraph.js';
+import { submitTransaction, submitQueuedTransition, getStateMachine, getCheckpoint, keyPairFromPrivateKey, waitForFiber, getEpochProgress } from '../metagraph.js';
 import { MarketType, MarketState, getMarketDefinition } from '@ottochain/sdk/apps/markets';
 
 export const marketRoutes: RouterType = Router();
@@ -241,20 +241,17 @@ marketRoutes.post('/open', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.marketId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.marketId,
         eventName: 'open',
         payload: { agent: keyPair.address },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[market/open] Opening market ${input.marketId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.marketId, 'open', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -293,10 +290,7 @@ marketRoutes.post('/commit', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.marketId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.marketId,
         eventName: 'commit',
@@ -307,10 +301,10 @@ marketRoutes.post('/commit', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[market/commit] ${keyPair.address} committing ${input.amount} to ${input.marketId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.marketId, 'commit', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -349,20 +343,17 @@ marketRoutes.post('/close', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.marketId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.marketId,
         eventName: 'close',
         payload: { agent: keyPair.address },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[market/close] Closing market ${input.marketId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.marketId, 'close', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -401,10 +392,7 @@ marketRoutes.post('/resolve', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.marketId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.marketId,
         eventName: 'submit_resolution',
@@ -415,10 +403,10 @@ marketRoutes.post('/resolve', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[market/resolve] ${keyPair.address} resolving ${input.marketId} with outcome: ${input.outcome}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.marketId, 'submit_resolution', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -457,10 +445,7 @@ marketRoutes.post('/finalize', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.marketId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.marketId,
         eventName: 'finalize',
@@ -471,10 +456,10 @@ marketRoutes.post('/finalize', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[market/finalize] Finalizing market ${input.marketId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.marketId, 'finalize', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -530,10 +515,7 @@ marketRoutes.post('/claim', async (req, res) => {
       return res.status(400).json({ error: 'Already claimed' });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.marketId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.marketId,
         eventName: 'claim',
@@ -543,10 +525,10 @@ marketRoutes.post('/claim', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[market/claim] ${keyPair.address} claiming from ${input.marketId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.marketId, 'claim', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -584,10 +566,7 @@ marketRoutes.post('/refund', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.marketId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.marketId,
         eventName: 'refund',
@@ -597,10 +576,10 @@ marketRoutes.post('/refund', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[market/refund] Refunding market ${input.marketId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.marketId, 'refund', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -639,10 +618,7 @@ marketRoutes.post('/cancel', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.marketId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.marketId,
         eventName: 'cancel',
@@ -652,10 +628,10 @@ marketRoutes.post('/cancel', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[market/cancel] Cancelling market ${input.marketId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.marketId, 'cancel', buildMessage, input.privateKey);
 
     res.json({
       hash: result.hash,
@@ -4,7 +4,7 @@
 import { Router, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
-import { submitTransaction, getStateMachine, getCheckpoint, keyPairFromPrivateKey, waitForFiber, getFiberSequenceNumber } from '../metagraph.js';
+import { submitTransaction, getStateMachine, getCheckpoint, keyPairFromPrivateKey, waitForFiber, submitQueuedTransition } from '../metagraph.js';
 import { getOracleDefinition, OracleState, DEFAULT_ORACLE_CONFIG } from '@ottochain/sdk/apps/oracles';
 
 export const oracleRoutes: RouterType = Router();
@@ -108,7 +108,7 @@ oracleRoutes.post('/register', async (req, res) => {
     }
 
     // Submit registration transition with stake
-    const registerMessage = {
+    const buildRegisterMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: oracleId,
         eventName: 'register',
@@ -117,11 +117,11 @@ oracleRoutes.post('/register', async (req, res) => {
           stake: input.stake,
           domains: input.domains,
         },
-        targetSequenceNumber: 0,
+        targetSequenceNumber,
       },
-    };
+    });
 
-    const registerResult = await submitTransaction(registerMessage, input.privateKey);
+    const registerResult = await submitQueuedTransition(oracleId, 'register', buildRegisterMessage, input.privateKey);
 
     res.status(201).json({
       oracleId,
@@ -173,20 +173,17 @@ oracleRoutes.post('/activate', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(oracleId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: oracleId,
         eventName: 'activate',
         payload: { agent: callerAddress },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[oracle/activate] Activating oracle ${oracleId}`);
-    const result = await submitTransaction(message, privateKey);
+    const result = await submitQueuedTransition(oracleId, 'activate', buildMessage, privateKey);
 
     res.json({
       oracleId,
@@ -231,10 +228,7 @@ oracleRoutes.post('/stake', async (req, res) => {
       return res.status(403).json({ error: 'Only oracle owner can add stake' });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.oracleId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.oracleId,
         eventName: 'add_stake',
@@ -244,10 +238,10 @@ oracleRoutes.post('/stake', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[oracle/stake] Adding ${input.amount} stake to oracle ${input.oracleId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.oracleId, 'add_stake', buildMessage, input.privateKey);
 
     res.json({
       oracleId: input.oracleId,
@@ -289,10 +283,7 @@ oracleRoutes.post('/record-resolution', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.oracleId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.oracleId,
         eventName: 'record_resolution',
@@ -302,10 +293,10 @@ oracleRoutes.post('/record-resolution', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[oracle/record-resolution] Recording ${input.correct ? 'correct' : 'incorrect'} resolution for oracle ${input.oracleId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.oracleId, 'record_resolution', buildMessage, input.privateKey);
 
     res.json({
       oracleId: input.oracleId,
@@ -356,10 +347,7 @@ oracleRoutes.post('/slash', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.oracleId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.oracleId,
         eventName: 'slash',
@@ -370,10 +358,10 @@ oracleRoutes.post('/slash', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[oracle/slash] Slashing oracle ${input.oracleId} for ${input.reason}: ${input.amount}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.oracleId, 'slash', buildMessage, input.privateKey);
 
     res.json({
       oracleId: input.oracleId,
@@ -427,20 +415,17 @@ oracleRoutes.post('/transition', async (req, res) => {
       });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.oracleId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.oracleId,
         eventName: input.event,
         payload: { agent: callerAddress },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[oracle/transition] ${input.event} on oracle ${input.oracleId}`);
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.oracleId, input.event, buildMessage, input.privateKey);
 
     res.json({
       oracleId: input.oracleId,
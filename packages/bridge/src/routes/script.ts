@@ -10,7 +10,7 @@ import {
   getScriptFiber, 
   getCheckpoint, 
   keyPairFromPrivateKey,
-  getFiberSequenceNumber,
+  submitQueuedTransition,
   type CreateScript,
   type InvokeScript,
   type FiberOrdinal,
@@ -154,10 +154,7 @@ scriptRoutes.post('/invoke', async (req, res) => {
     const callerAddress = keyPairFromPrivateKey(input.privateKey).address;
     const invocationId = randomUUID();
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.scriptId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       InvokeScript: {
         invocationId,
         scriptId: input.scriptId,
@@ -169,14 +166,14 @@ scriptRoutes.post('/invoke', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     const scriptName = script.metadata?.name ?? 'Script';
     console.log(`[script/invoke] ${scriptName} (${input.scriptId})`);
     console.log(`  Caller: ${callerAddress}`);
     console.log(`  Inputs: ${JSON.stringify(input.inputs).slice(0, 100)}...`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.scriptId, 'invoke', buildMessage, input.privateKey);
 
     res.json({
       invocationId,
@@ -389,22 +386,19 @@ scriptRoutes.post('/:scriptId/update', async (req, res) => {
       return res.status(400).json({ error: 'No updates provided' });
     }
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(scriptId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       UpdateScript: {
         scriptId,
         updates,
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[script/update] ${scriptId}`);
     console.log(`  Updater: ${callerAddress}`);
     console.log(`  Fields: ${Object.keys(updates).join(', ')}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(scriptId, 'update', buildMessage, input.privateKey);
 
     res.json({
       scriptId,
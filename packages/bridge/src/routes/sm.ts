@@ -10,7 +10,7 @@ import {
   getStateMachine, 
   getCheckpoint, 
   keyPairFromPrivateKey,
-  getFiberSequenceNumber,
+  submitQueuedTransition,
   type StateMachineDefinition,
   type CreateStateMachine,
   type TransitionStateMachine,
@@ -131,10 +131,7 @@ smRoutes.post('/transition', async (req, res) => {
 
     const callerAddress = keyPairFromPrivateKey(input.privateKey).address;
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(input.fiberId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: input.fiberId,
         eventName: input.eventName,
@@ -144,14 +141,14 @@ smRoutes.post('/transition', async (req, res) => {
         },
         targetSequenceNumber,
       },
-    };
+    });
 
     const smName = state.definition?.metadata?.name ?? 'SM';
     console.log(`[sm/transition] ${smName} ${input.fiberId}: ${input.eventName}`);
     console.log(`  Agent: ${callerAddress}`);
     console.log(`  Current state: ${state.currentState?.value}`);
 
-    const result = await submitTransaction(message, input.privateKey);
+    const result = await submitQueuedTransition(input.fiberId, input.eventName, buildMessage, input.privateKey);
 
     res.json({
       fiberId: input.fiberId,
@@ -289,20 +286,17 @@ smRoutes.post('/:fiberId/commit', async (req, res) => {
 
     const callerAddress = keyPairFromPrivateKey(privateKey).address;
 
-    // Get sequence from DL1's onchain state (more reliable than ML0 for rapid transactions)
-    const targetSequenceNumber = await getFiberSequenceNumber(req.params.fiberId);
-
-    const message = {
+    const buildMessage = (targetSequenceNumber: number) => ({
       TransitionStateMachine: {
         fiberId: req.params.fiberId,
         eventName: 'commit',
         payload: { agent: callerAddress, amount, data: data ?? {} },
         targetSequenceNumber,
       },
-    };
+    });
 
     console.log(`[sm/commit] ${callerAddress} committing ${amount} to ${req.params.fiberId}`);
-    const result = await submitTransaction(message, privateKey);
+    const result = await submitQueuedTransition(req.params.fiberId, 'commit', buildMessage, privateKey);
 
     res.json({
       fiberId: req.params.fiberId,
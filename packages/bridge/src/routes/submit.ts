@@ -0,0 +1,83 @@
+/**
+ * Signed Submission Routes
+ *
+ * Accepts transactions signed outside the bridge (see client-signing.ts).
+ * Callers prepare unsigned messages by sending `X-Signing-Mode: client` to
+ * any route, sign each returned `message` as a DataUpdate, and post the
+ * resulting Signed<OttochainMessage> envelopes here.
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { submitSignedTransaction } from '../metagraph.js';
+import { verify, type Signed } from '../lib/metakit/index.js';
+
+export const submitRoutes: RouterType = Router();
+
+// ============================================================================
+// Request Schemas
+// ============================================================================
+
+const SignatureProofSchema = z.object({
+  /** Public key hex without 04 prefix */
+  id: z.string().regex(/^[0-9a-fA-F]{128}$/),
+  /** DER-encoded ECDSA signature hex */
+  signature: z.string().regex(/^[0-9a-fA-F]+$/),
+});
+
+const SignedMessageSchema = z.object({
+  value: z.record(z.unknown()).refine(
+    (value) => Object.keys(value).length === 1,
+    'value must be a single OttochainMessage (e.g. { TransitionStateMachine: {...} })'
+  ),
+  proofs: z.array(SignatureProofSchema).min(1),
+});
+
+/** Accepts either the bare envelope or the DL1 `{ data: envelope }` wrapper */
+const SubmitRequestSchema = z.union([
+  z.object({ data: SignedMessageSchema }).transform((body) => body.data),
+  SignedMessageSchema,
+]);
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * Submit a pre-signed transaction
+ * POST /submit
+ *
+ * Body: { value: OttochainMessage, proofs: [{ id, signature }] }
+ * Returns: { hash, ordinal?, messageType, signers }
+ */
+submitRoutes.post('/', async (req, res) => {
+  try {
+    const signed = SubmitRequestSchema.parse(req.body) as Signed<Record<string, unknown>>;
+
+    const verification = verify(signed, { isDataUpdate: true });
+    if (!verification.isValid) {
+      return res.status(400).json({
+        error: 'Invalid signature',
+        invalidProofs: verification.invalidProofs.map((p) => p.id),
+      });
+    }
+
+    const messageType = Object.keys(signed.value)[0];
+    console.log(`[submit] Forwarding signed ${messageType} (${signed.proofs.length} proof(s))`);
+    const result = await submitSignedTransaction(signed);
+
+    res.status(201).json({
+      hash: result.hash,
+      ordinal: result.ordinal,
+      messageType,
+      signers: verification.validProofs.map((p) => p.id),
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: err.errors });
+    }
+    console.error('[submit] Error:', err);
+    const errorMessage = err instanceof Error ? err.message : 'Submission failed';
+    res.status(500).json({ error: errorMessage });
+  }
+});
@@ -0,0 +1,89 @@
+/**
+ * Transaction Tracking Routes
+ *
+ * Submit-then-poll lifecycle for transactions: correlates the bridge's
+ * submission log with the indexer's IndexedSnapshot, Fiber/FiberTransition
+ * and RejectedTransaction rows (see tx-lifecycle.ts for the states).
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { prisma } from '@ottochain/shared';
+import {
+  resolveLifecycle,
+  transitionInclusionFilter,
+  type InclusionRow,
+  type SubmissionRow,
+} from '../tx-lifecycle.js';
+
+export const txRoutes: RouterType = Router();
+
+/**
+ * Find the snapshot in which a logged submission took effect.
+ *
+ * Transitions carry no hash in the index, so they are matched by fiber and
+ * the sequence number they targeted (see transitionInclusionFilter).
+ */
+async function findInclusion(submission: SubmissionRow): Promise<InclusionRow | null> {
+  if (!submission.fiberId) return null;
+
+  switch (submission.updateType) {
+    case 'CreateStateMachine': {
+      const fiber = await prisma.fiber.findUnique({ where: { fiberId: submission.fiberId } });
+      return fiber
+        ? { snapshotOrdinal: fiber.createdOrdinal, at: fiber.createdAt, gl0Ordinal: fiber.createdGl0Ordinal }
+        : null;
+    }
+    case 'TransitionStateMachine': {
+      const transition = await prisma.fiberTransition.findFirst({
+        where: transitionInclusionFilter({ ...submission, fiberId: submission.fiberId }),
+        orderBy: { snapshotOrdinal: 'asc' },
+      });
+      return transition
+        ? { snapshotOrdinal: transition.snapshotOrdinal, at: transition.createdAt, gl0Ordinal: transition.gl0Ordinal }
+        : null;
+    }
+    case 'ArchiveStateMachine': {
+      const fiber = await prisma.fiber.findUnique({ where: { fiberId: submission.fiberId } });
+      return fiber && fiber.status === 'ARCHIVED' && fiber.updatedAt >= submission.submittedAt
+        ? { snapshotOrdinal: fiber.updatedOrdinal, at: fiber.updatedAt, gl0Ordinal: fiber.updatedGl0Ordinal }
+        : null;
+    }
+    default:
+      // Script fibers are not indexed yet
+      return null;
+  }
+}
+
+/**
+ * Get the lifecycle of a submitted transaction
+ * GET /tx/:hash
+ *
+ * Returns: { hash, status, updateType, fiberId, ..., lifecycle: { submitted, accepted,
+ *            included, rejected, confirmed, orphaned } }
+ */
+txRoutes.get('/:hash', async (req, res) => {
+  try {
+    const { hash } = req.params;
+
+    const [submission, rejection] = await Promise.all([
+      prisma.transactionSubmission.findUnique({ where: { hash } }),
+      prisma.rejectedTransaction.findUnique({ where: { updateHash: hash } }),
+    ]);
+
+    const inclusion = submission && !rejection ? await findInclusion(submission) : null;
+    const snapshot = inclusion
+      ? await prisma.indexedSnapshot.findUnique({ where: { ordinal: inclusion.snapshotOrdinal } })
+      : null;
+
+    const lifecycle = resolveLifecycle(hash, { submission, rejection, inclusion, snapshot });
+    if (!lifecycle) {
+      return res.status(404).json({ error: 'Transaction not found', hash });
+    }
+
+    res.json(lifecycle);
+  } catch (err) {
+    console.error('[tx/status] Error:', err);
+    const errorMessage = err instanceof Error ? err.message : 'Query failed';
+    res.status(500).json({ error: errorMessage });
+  }
+});
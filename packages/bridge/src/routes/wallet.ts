@@ -2,7 +2,7 @@
 
 import { Router, type Router as RouterType } from 'express';
 import { generateKeyPair, keyPairFromPrivateKey } from '../metagraph.js';
-import { signDataUpdate } from '../lib/metakit/index.js';
+import { signDataUpdate, verifyProof, verifyDataUpdateProof, getAddress } from '../lib/metakit/index.js';
 
 export const walletRoutes: RouterType = Router();
 
@@ -94,3 +94,33 @@ walletRoutes.post('/verify-address', (req, res) => {
     res.status(400).json({ error: 'Invalid public key' });
   }
 });
+
+/**
+ * Verify a signature and report the signer's address
+ * POST /wallet/verify
+ *
+ * Body: { data: {...}, proof: { id, signature }, isDataUpdate?: boolean }
+ * Returns: { valid, address }
+ */
+walletRoutes.post('/verify', (req, res) => {
+  const { data, proof, isDataUpdate } = req.body;
+
+  if (data === undefined) {
+    return res.status(400).json({ error: 'data is required' });
+  }
+
+  if (!proof || typeof proof.id !== 'string' || typeof proof.signature !== 'string') {
+    return res.status(400).json({ error: 'proof { id, signature } is required' });
+  }
+
+  const valid = isDataUpdate ? verifyDataUpdateProof(data, proof) : verifyProof(data, proof);
+  if (!valid) {
+    return res.json({ valid: false, address: null });
+  }
+
+  try {
+    res.json({ valid: true, address: getAddress(proof.id) });
+  } catch {
+    res.status(400).json({ error: 'Invalid public key' });
+  }
+});
@@ -0,0 +1,221 @@
+/**
+ * Sequence Store
+ *
+ * Pluggable backing store for the optimistic per-fiber sequence cache
+ * (Issue #109). Each entry is the next targetSequenceNumber to hand out for a
+ * fiber — a high-water mark that only moves forward until it is reset.
+ *
+ * - InMemorySequenceStore: process-scoped, for single-instance deployments
+ * - RedisSequenceStore: shared by every bridge instance behind a load balancer
+ *
+ * reserve() is atomic in both implementations, so two callers (or two bridge
+ * instances) racing for the same fiber never receive the same number.
+ */
+
+export interface SequenceStore {
+  /** Backend name, for logs */
+  readonly kind: 'memory' | 'redis';
+
+  /** Next sequence number recorded for a fiber (0 if unknown or expired) */
+  peek(fiberId: string): Promise<number>;
+
+  /**
+   * Atomically claim the next sequence number for a fiber.
+   * Returns max(floor, stored) and moves the stored value past it.
+   *
+   * @param floor - Lower bound, typically the sequence number reported by DL1
+   */
+  reserve(fiberId: string, floor: number): Promise<number>;
+
+  /** Record a successful submission; only ever moves forward */
+  advance(fiberId: string, submittedSeq: number): Promise<void>;
+
+  /**
+   * Give back a reserved number that was never submitted. Only takes effect
+   * while it is still the latest reservation for the fiber; otherwise a later
+   * reservation already targets the number after it.
+   *
+   * @returns true if the number was released
+   */
+  release(fiberId: string, seq: number): Promise<boolean>;
+
+  /** Forget a fiber so the next reserve starts from DL1 again */
+  reset(fiberId: string): Promise<void>;
+}
+
+export interface SequenceStoreOptions {
+  /** Seconds an entry lives after its last write (default 1 hour) */
+  ttlSeconds?: number;
+}
+
+const DEFAULT_TTL_SECONDS = 3600;
+
+// ============================================================================
+// In-memory
+// ============================================================================
+
+/**
+ * Maximum number of fibers to track in memory.
+ * Prevents unbounded memory growth. When limit is reached, oldest entries
+ * are evicted (FIFO via Map insertion order).
+ */
+const IN_MEMORY_MAX_SIZE = 10_000;
+
+interface MemoryEntry {
+  next: number;
+  expiresAt: number;
+}
+
+export class InMemorySequenceStore implements SequenceStore {
+  readonly kind = 'memory' as const;
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly ttlMs: number;
+  private readonly maxSize: number;
+
+  constructor(options: SequenceStoreOptions & { maxSize?: number } = {}) {
+    this.ttlMs = (options.ttlSeconds ?? DEFAULT_TTL_SECONDS) * 1000;
+    this.maxSize = options.maxSize ?? IN_MEMORY_MAX_SIZE;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async peek(fiberId: string): Promise<number> {
+    return this.read(fiberId);
+  }
+
+  async reserve(fiberId: string, floor: number): Promise<number> {
+    // No await between read and write, so this is atomic on the event loop
+    const seq = Math.max(floor, this.read(fiberId));
+    this.write(fiberId, seq + 1);
+    return seq;
+  }
+
+  async advance(fiberId: string, submittedSeq: number): Promise<void> {
+    const next = submittedSeq + 1;
+    if (next > this.read(fiberId)) {
+      this.write(fiberId, next);
+    }
+  }
+
+  async release(fiberId: string, seq: number): Promise<boolean> {
+    if (this.read(fiberId) !== seq + 1) return false;
+    this.write(fiberId, seq);
+    return true;
+  }
+
+  async reset(fiberId: string): Promise<void> {
+    this.entries.delete(fiberId);
+  }
+
+  private read(fiberId: string): number {
+    const entry = this.entries.get(fiberId);
+    if (!entry) return 0;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(fiberId);
+      return 0;
+    }
+    return entry.next;
+  }
+
+  private write(fiberId: string, next: number): void {
+    // Delete and re-insert to update insertion order (for FIFO eviction)
+    this.entries.delete(fiberId);
+    this.evictOldestIfNeeded();
+    this.entries.set(fiberId, { next, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  private evictOldestIfNeeded(): void {
+    while (this.entries.size >= this.maxSize) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey) {
+        this.entries.delete(oldestKey);
+        console.log(`[sequence-store] Evicted ${oldestKey} (cache full)`);
+      } else {
+        break;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Redis
+// ============================================================================
+
+/** The subset of the ioredis client used by RedisSequenceStore */
+export interface SequenceRedisClient {
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<number>;
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
+
+// KEYS[1] = fiber key, ARGV[1] = floor, ARGV[2] = ttl seconds
+const RESERVE_SCRIPT = `
+local cur = tonumber(redis.call('GET', KEYS[1])) or 0
+local seq = math.max(cur, tonumber(ARGV[1]))
+redis.call('SET', KEYS[1], seq + 1, 'EX', ARGV[2])
+return seq
+`;
+
+// KEYS[1] = fiber key, ARGV[1] = submitted seq, ARGV[2] = ttl seconds
+const ADVANCE_SCRIPT = `
+local cur = tonumber(redis.call('GET', KEYS[1])) or 0
+local nxt = tonumber(ARGV[1]) + 1
+if nxt > cur then
+  redis.call('SET', KEYS[1], nxt, 'EX', ARGV[2])
+  return nxt
+end
+redis.call('EXPIRE', KEYS[1], ARGV[2])
+return cur
+`;
+
+// KEYS[1] = fiber key, ARGV[1] = reserved seq, ARGV[2] = ttl seconds
+const RELEASE_SCRIPT = `
+local cur = tonumber(redis.call('GET', KEYS[1])) or 0
+if cur ~= tonumber(ARGV[1]) + 1 then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return 1
+`;
+
+export class RedisSequenceStore implements SequenceStore {
+  readonly kind = 'redis' as const;
+  private readonly redis: SequenceRedisClient;
+  private readonly ttlSeconds: number;
+  private readonly keyPrefix: string;
+
+  constructor(redis: SequenceRedisClient, options: SequenceStoreOptions & { keyPrefix?: string } = {}) {
+    this.redis = redis;
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    this.keyPrefix = options.keyPrefix ?? 'ottochain:seq:';
+  }
+
+  async peek(fiberId: string): Promise<number> {
+    const value = await this.redis.get(this.key(fiberId));
+    return value ? Number(value) : 0;
+  }
+
+  async reserve(fiberId: string, floor: number): Promise<number> {
+    const seq = await this.redis.eval(RESERVE_SCRIPT, 1, this.key(fiberId), floor, this.ttlSeconds);
+    return Number(seq);
+  }
+
+  async advance(fiberId: string, submittedSeq: number): Promise<void> {
+    await this.redis.eval(ADVANCE_SCRIPT, 1, this.key(fiberId), submittedSeq, this.ttlSeconds);
+  }
+
+  async release(fiberId: string, seq: number): Promise<boolean> {
+    const released = await this.redis.eval(RELEASE_SCRIPT, 1, this.key(fiberId), seq, this.ttlSeconds);
+    return Number(released) === 1;
+  }
+
+  async reset(fiberId: string): Promise<void> {
+    await this.redis.del(this.key(fiberId));
+  }
+
+  private key(fiberId: string): string {
+    return `${this.keyPrefix}${fiberId}`;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Submission Log
+ *
+ * Records every transaction DL1 accepts from the bridge so GET /tx/:hash can
+ * follow it through ML0 inclusion, rejection and GL0 confirmation.
+ *
+ * Logging is best-effort: a database outage must never fail a submission
+ * that DL1 has already accepted.
+ */
+
+import { prisma } from '@ottochain/shared';
+import type { Signed } from './lib/metakit/index.js';
+
+/**
+ * Describe an OttochainMessage for the log: its type and, where present,
+ * the fiber, event and sequence it targets.
+ */
+export function describeMessage(message: unknown): {
+  updateType: string;
+  fiberId: string | null;
+  eventName: string | null;
+  targetSequenceNumber: number | null;
+} {
+  const [updateType = 'Unknown'] = Object.keys((message ?? {}) as object);
+  const inner = ((message as Record<string, Record<string, unknown>>)?.[updateType] ?? {});
+
+  return {
+    updateType,
+    fiberId: typeof inner.fiberId === 'string' ? inner.fiberId : null,
+    eventName: typeof inner.eventName === 'string'
+      ? inner.eventName
+      : typeof inner.method === 'string' ? inner.method : null,
+    targetSequenceNumber: typeof inner.targetSequenceNumber === 'number' ? inner.targetSequenceNumber : null,
+  };
+}
+
+/**
+ * Record a DL1-accepted submission. Never throws.
+ */
+export async function recordSubmission(hash: string, signed: Signed<unknown>): Promise<void> {
+  // DL1 did not return a hash — nothing to correlate on later
+  if (!hash || hash === 'pending') return;
+
+  try {
+    await prisma.transactionSubmission.upsert({
+      where: { hash },
+      create: {
+        hash,
+        ...describeMessage(signed.value),
+        signers: signed.proofs.map((p) => p.id),
+      },
+      update: {},
+    });
+  } catch (err) {
+    console.warn(`[submission-log] Could not record ${hash}: ${(err as Error).message}`);
+  }
+}
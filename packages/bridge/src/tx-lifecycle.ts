@@ -0,0 +1,165 @@
+/**
+ * Transaction Lifecycle
+ *
+ * Folds the rows known about a transaction hash into one lifecycle:
+ *
+ *   SUBMITTED → ACCEPTED (DL1) → INCLUDED (ML0 ordinal N) → CONFIRMED (GL0 ordinal M)
+ *                              ↘ REJECTED (ML0 validation errors)
+ *                                INCLUDED → ORPHANED (snapshot lost on GL0)
+ *
+ * Pure function over plain rows so it can be tested without a database;
+ * routes/tx.ts does the lookups.
+ */
+
+export type TransactionStatus =
+  | 'ACCEPTED'   // DL1 accepted, not yet seen in an ML0 snapshot
+  | 'INCLUDED'   // applied in an ML0 snapshot awaiting GL0 confirmation
+  | 'CONFIRMED'  // ML0 snapshot confirmed on GL0
+  | 'ORPHANED'   // ML0 snapshot was replaced on GL0; may need resubmission
+  | 'REJECTED';  // rejected by ML0 validation
+
+export interface SubmissionRow {
+  hash: string;
+  updateType: string;
+  fiberId: string | null;
+  eventName: string | null;
+  targetSequenceNumber: number | null;
+  signers: string[];
+  submittedAt: Date;
+}
+
+export interface RejectionRow {
+  ordinal: bigint;
+  timestamp: Date;
+  updateType: string;
+  fiberId: string;
+  errors: unknown;
+  signers: string[];
+}
+
+/** Where the transaction's effect appeared: a FiberTransition or a created Fiber */
+export interface InclusionRow {
+  snapshotOrdinal: bigint;
+  at: Date;
+  /** Set when the indexer recorded a GL0 ordinal directly on the row */
+  gl0Ordinal?: bigint | null;
+}
+
+export interface SnapshotRow {
+  ordinal: bigint;
+  hash: string;
+  status: 'PENDING' | 'CONFIRMED' | 'ORPHANED';
+  gl0Ordinal: bigint | null;
+  confirmedAt: Date | null;
+  indexedAt: Date;
+}
+
+export interface TransactionLifecycle {
+  hash: string;
+  status: TransactionStatus;
+  updateType: string | null;
+  fiberId: string | null;
+  eventName: string | null;
+  targetSequenceNumber: number | null;
+  signers: string[];
+  /** True if the bridge's submission log knows this hash */
+  submittedViaBridge: boolean;
+  lifecycle: {
+    submitted: { at: string } | null;
+    accepted: { at: string } | null;
+    included: { ordinal: number; snapshotHash: string | null; at: string } | null;
+    rejected: { ordinal: number; errors: unknown; at: string } | null;
+    confirmed: { gl0Ordinal: number | null; at: string | null } | null;
+    orphaned: { ordinal: number } | null;
+  };
+}
+
+/**
+ * FiberTransition filter for the transition a TransitionStateMachine
+ * submission produced. A transition targeting sequence N leaves the fiber at
+ * N+1, and (fiberId, sequenceNumber) is unique, so a later transition with the
+ * same event can never be mistaken for this one. Submissions logged without a
+ * target fall back to the first matching event indexed after submission.
+ */
+export function transitionInclusionFilter(submission: SubmissionRow & { fiberId: string }): {
+  fiberId: string;
+  eventName?: string;
+  sequenceNumber?: number;
+  createdAt?: { gte: Date };
+} {
+  return {
+    fiberId: submission.fiberId,
+    ...(submission.eventName && { eventName: submission.eventName }),
+    ...(submission.targetSequenceNumber !== null
+      ? { sequenceNumber: submission.targetSequenceNumber + 1 }
+      : { createdAt: { gte: submission.submittedAt } }),
+  };
+}
+
+/**
+ * Build the lifecycle for a hash. Returns null when nothing is known about it.
+ */
+export function resolveLifecycle(
+  hash: string,
+  rows: {
+    submission: SubmissionRow | null;
+    rejection: RejectionRow | null;
+    inclusion: InclusionRow | null;
+    snapshot: SnapshotRow | null;
+  }
+): TransactionLifecycle | null {
+  const { submission, rejection, inclusion, snapshot } = rows;
+  if (!submission && !rejection) return null;
+
+  const submittedAt = submission?.submittedAt.toISOString() ?? null;
+  const lifecycle: TransactionLifecycle['lifecycle'] = {
+    submitted: submittedAt ? { at: submittedAt } : null,
+    accepted: submittedAt ? { at: submittedAt } : null,
+    included: null,
+    rejected: null,
+    confirmed: null,
+    orphaned: null,
+  };
+
+  let status: TransactionStatus = 'ACCEPTED';
+
+  if (rejection) {
+    status = 'REJECTED';
+    lifecycle.rejected = {
+      ordinal: Number(rejection.ordinal),
+      errors: rejection.errors,
+      at: rejection.timestamp.toISOString(),
+    };
+  } else if (inclusion) {
+    status = 'INCLUDED';
+    lifecycle.included = {
+      ordinal: Number(inclusion.snapshotOrdinal),
+      snapshotHash: snapshot?.hash ?? null,
+      at: inclusion.at.toISOString(),
+    };
+
+    const gl0Ordinal = inclusion.gl0Ordinal ?? snapshot?.gl0Ordinal ?? null;
+    if (snapshot?.status === 'ORPHANED') {
+      status = 'ORPHANED';
+      lifecycle.orphaned = { ordinal: Number(snapshot.ordinal) };
+    } else if (snapshot?.status === 'CONFIRMED' || gl0Ordinal !== null) {
+      status = 'CONFIRMED';
+      lifecycle.confirmed = {
+        gl0Ordinal: gl0Ordinal !== null ? Number(gl0Ordinal) : null,
+        at: snapshot?.confirmedAt?.toISOString() ?? null,
+      };
+    }
+  }
+
+  return {
+    hash,
+    status,
+    updateType: submission?.updateType ?? rejection?.updateType ?? null,
+    fiberId: submission?.fiberId ?? rejection?.fiberId ?? null,
+    eventName: submission?.eventName ?? null,
+    targetSequenceNumber: submission?.targetSequenceNumber ?? null,
+    signers: submission?.signers ?? rejection?.signers ?? [],
+    submittedViaBridge: submission !== null,
+    lifecycle,
+  };
+}
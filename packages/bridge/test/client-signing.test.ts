@@ -0,0 +1,431 @@
+/**
+ * Client-Side Signing Unit Tests
+ *
+ * Tests the pieces behind X-Signing-Mode: client and POST /submit:
+ *   - DataUpdate signatures produced outside the bridge verify against the
+ *     canonical message the bridge returned
+ *   - tampered values, foreign keys and malformed proofs are rejected
+ *   - the clientSigning middleware validates the request, scopes a context
+ *     to it and adds the prepared transactions to the route's response
+ *   - multi-step routes prepare consecutive targetSequenceNumbers
+ *   - POST /submit verifies envelopes before forwarding them
+ *
+ * Uses real secp256k1 keys via dag4; no running server required. The
+ * metagraph client is mocked, so /submit never reaches DL1.
+ *
+ * Run: node --import tsx --experimental-test-module-mocks --test test/client-signing.test.ts
+ */
+
+import { describe, it, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express, { type Router } from 'express';
+import { dag4 } from '@stardust-collective/dag4';
+import { canonicalize, getAddress, verify as verifySigned, type SignatureProof } from '../src/lib/metakit/index.ts';
+import {
+  clientSigning,
+  getClientSigningContext,
+  recordUnsignedTransaction,
+  type UnsignedTransaction,
+} from '../src/client-signing.ts';
+
+/** The check POST /submit runs on client-signed envelopes */
+function verify(signed: { value: unknown; proofs: SignatureProof[] }) {
+  return verifySigned(signed, { isDataUpdate: true });
+}
+
+/** What an external signer (HSM, wallet) does with a prepared transaction */
+async function clientSign(canonical: string, privateKey: string): Promise<SignatureProof> {
+  const base64String = Buffer.from(canonical, 'utf-8').toString('base64');
+  const signature = await dag4.keyStore.dataSign(privateKey, base64String);
+  const id = dag4.keyStore.getPublicKeyFromPrivate(privateKey, false).substring(2);
+  return { id, signature };
+}
+
+// ── Mocked metagraph client (POST /submit) ───────────────────────────────────
+
+const forwarded: unknown[] = [];
+let submitError: Error | null = null;
+
+mock.module('../src/metagraph.ts', {
+  namedExports: {
+    submitSignedTransaction: async (signed: unknown) => {
+      if (submitError) throw submitError;
+      forwarded.push(signed);
+      return { hash: `hash-${forwarded.length}`, ordinal: 42 };
+    },
+  },
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const FIBER_ID = '11111111-2222-4333-8444-555555555555';
+
+function transitionMessage(eventName: string, targetSequenceNumber: number) {
+  return {
+    TransitionStateMachine: {
+      fiberId: FIBER_ID,
+      eventName,
+      payload: { agent: 'DAG0test', amount: 10 },
+      targetSequenceNumber,
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('Client signing: signature verification', () => {
+  it('accepts a DataUpdate signature made over the returned canonical JSON', async () => {
+    const privateKey = dag4.keyStore.generatePrivateKey();
+    const message = transitionMessage('commit', 3);
+
+    const proof = await clientSign(canonicalize(message), privateKey);
+    const result = verify({ value: message, proofs: [proof] });
+
+    assert.strictEqual(result.isValid, true);
+    assert.strictEqual(result.validProofs.length, 1);
+    assert.strictEqual(proof.id.length, 128, 'proof id must be the 128-char key without 04 prefix');
+  });
+
+  it('is independent of key order in the submitted value', async () => {
+    const privateKey = dag4.keyStore.generatePrivateKey();
+    const message = transitionMessage('commit', 0);
+    const proof = await clientSign(canonicalize(message), privateKey);
+
+    const reordered = {
+      TransitionStateMachine: {
+        targetSequenceNumber: 0,
+        payload: { amount: 10, agent: 'DAG0test' },
+        eventName: 'commit',
+        fiberId: FIBER_ID,
+      },
+    };
+
+    assert.strictEqual(verify({ value: reordered, proofs: [proof] }).isValid, true);
+  });
+
+  it('rejects a signature when the value was tampered with', async () => {
+    const privateKey = dag4.keyStore.generatePrivateKey();
+    const proof = await clientSign(canonicalize(transitionMessage('commit', 3)), privateKey);
+
+    const result = verify({ value: transitionMessage('commit', 4), proofs: [proof] });
+
+    assert.strictEqual(result.isValid, false);
+    assert.deepStrictEqual(result.invalidProofs, [proof]);
+  });
+
+  it('rejects a signature whose id belongs to a different key', async () => {
+    const signer = dag4.keyStore.generatePrivateKey();
+    const other = dag4.keyStore.generatePrivateKey();
+    const message = transitionMessage('close', 1);
+
+    const proof = await clientSign(canonicalize(message), signer);
+    const forged = { ...proof, id: dag4.keyStore.getPublicKeyFromPrivate(other, false).substring(2) };
+
+    assert.strictEqual(verify({ value: message, proofs: [forged] }).isValid, false);
+  });
+
+  it('rejects a non-DataUpdate (unprefixed) signature', async () => {
+    const privateKey = dag4.keyStore.generatePrivateKey();
+    const message = transitionMessage('commit', 0);
+    const base64String = Buffer.from(canonicalize(message), 'utf-8').toString('base64');
+    const signature = await dag4.keyStore.sign(privateKey, base64String);
+    const id = dag4.keyStore.getPublicKeyFromPrivate(privateKey, false).substring(2);
+
+    assert.strictEqual(verify({ value: message, proofs: [{ id, signature }] }).isValid, false);
+  });
+
+  it('treats malformed signatures as invalid instead of throwing', () => {
+    const privateKey = dag4.keyStore.generatePrivateKey();
+    const id = dag4.keyStore.getPublicKeyFromPrivate(privateKey, false).substring(2);
+
+    const result = verify({ value: transitionMessage('commit', 0), proofs: [{ id, signature: 'zz' }] });
+    assert.strictEqual(result.isValid, false);
+  });
+
+  it('requires every proof to be valid for a multi-signed envelope', async () => {
+    const a = dag4.keyStore.generatePrivateKey();
+    const b = dag4.keyStore.generatePrivateKey();
+    const message = transitionMessage('approve', 2);
+
+    const good = await clientSign(canonicalize(message), a);
+    const bad = await clientSign(canonicalize(transitionMessage('approve', 9)), b);
+
+    assert.strictEqual(verify({ value: message, proofs: [good] }).isValid, true);
+    const result = verify({ value: message, proofs: [good, bad] });
+    assert.strictEqual(result.isValid, false);
+    assert.strictEqual(result.validProofs.length, 1);
+    assert.strictEqual(result.invalidProofs.length, 1);
+  });
+
+  it('never accepts an envelope with no proofs', () => {
+    assert.strictEqual(verify({ value: transitionMessage('commit', 0), proofs: [] }).isValid, false);
+  });
+});
+
+describe('Client signing: prepared transactions', () => {
+  let context: Parameters<typeof recordUnsignedTransaction>[0];
+
+  beforeEach(() => {
+    context = { publicKey: '04' + 'ab'.repeat(64), address: 'DAG0test', transactions: [], sequenceOverlay: new Map() };
+  });
+
+  it('records canonical JSON and targetSequenceNumber for transitions', () => {
+    const message = transitionMessage('commit', 5);
+    recordUnsignedTransaction(context, message, { fiberId: FIBER_ID, targetSeq: 5 });
+
+    assert.strictEqual(context.transactions.length, 1);
+    assert.strictEqual(context.transactions[0].canonical, canonicalize(message));
+    assert.strictEqual(context.transactions[0].fiberId, FIBER_ID);
+    assert.strictEqual(context.transactions[0].targetSequenceNumber, 5);
+  });
+
+  it('records null sequence info for create messages', () => {
+    recordUnsignedTransaction(context, { CreateStateMachine: { fiberId: FIBER_ID } }, null);
+
+    assert.strictEqual(context.transactions[0].fiberId, null);
+    assert.strictEqual(context.transactions[0].targetSequenceNumber, null);
+    assert.strictEqual(context.sequenceOverlay.size, 0);
+  });
+
+  it('moves the fiber overlay past each prepared message', () => {
+    // e.g. securities/issue: create + issue on one fiber before DL1 has seen either;
+    // getFiberSequenceNumber targets max(DL1, cache, overlay) for the second one
+    recordUnsignedTransaction(context, transitionMessage('initiate', 2), { fiberId: FIBER_ID, targetSeq: 2 });
+    assert.strictEqual(context.sequenceOverlay.get(FIBER_ID), 3);
+
+    recordUnsignedTransaction(context, transitionMessage('complete', 3), { fiberId: FIBER_ID, targetSeq: 3 });
+    assert.strictEqual(context.sequenceOverlay.get(FIBER_ID), 4);
+  });
+
+  it('does not let the overlay move backwards', () => {
+    recordUnsignedTransaction(context, transitionMessage('commit', 7), { fiberId: FIBER_ID, targetSeq: 7 });
+    recordUnsignedTransaction(context, transitionMessage('commit', 1), { fiberId: FIBER_ID, targetSeq: 1 });
+
+    assert.strictEqual(context.sequenceOverlay.get(FIBER_ID), 8);
+  });
+});
+
+// ── Test app ─────────────────────────────────────────────────────────────────
+
+let server: Server;
+let baseUrl: string;
+let routeRuns = 0;
+
+/** A route that prepares `steps` transitions the way submitTransaction() does */
+function createApp(submitRoutes: Router) {
+  const app = express();
+  app.use(express.json());
+  app.use(clientSigning);
+
+  app.post('/fiber/transition', async (req, res) => {
+    routeRuns++;
+    if (req.body.fail) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+    const steps = (req.body.steps as number | undefined) ?? 1;
+    for (let seq = 0; seq < steps; seq++) {
+      // Yield between steps so concurrent requests interleave
+      await new Promise((resolve) => setImmediate(resolve));
+      const context = getClientSigningContext();
+      if (context) recordUnsignedTransaction(context, transitionMessage('commit', seq), { fiberId: FIBER_ID, targetSeq: seq });
+    }
+    res.json({ hash: 'unsigned', privateKey: req.body.privateKey });
+  });
+
+  app.post('/wallet/sign', (_req, res) => {
+    routeRuns++;
+    res.json({ signature: 'never' });
+  });
+
+  app.use('/submit', submitRoutes);
+  return app;
+}
+
+function post(path: string, body: unknown, signingMode?: string) {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(signingMode !== undefined && { 'X-Signing-Mode': signingMode }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+before(async () => {
+  const { submitRoutes } = await import('../src/routes/submit.ts');
+  server = createApp(submitRoutes).listen(0);
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  routeRuns = 0;
+  forwarded.length = 0;
+  submitError = null;
+});
+
+const PRIVATE_KEY = dag4.keyStore.generatePrivateKey();
+const PUBLIC_KEY = dag4.keyStore.getPublicKeyFromPrivate(PRIVATE_KEY, false);
+
+describe('Client signing: middleware', () => {
+  it('passes requests without the header through untouched', async () => {
+    const res = await post('/fiber/transition', { privateKey: 'a'.repeat(64) });
+    const body = await res.json();
+
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(body.privateKey, 'a'.repeat(64));
+    assert.strictEqual(body.transactions, undefined);
+  });
+
+  it('treats X-Signing-Mode: server as the default mode', async () => {
+    const res = await post('/fiber/transition', { privateKey: 'a'.repeat(64) }, 'server');
+    assert.strictEqual((await res.json()).transactions, undefined);
+  });
+
+  it('rejects unknown signing modes', async () => {
+    const res = await post('/fiber/transition', { publicKey: PUBLIC_KEY }, 'hsm');
+
+    assert.strictEqual(res.status, 400);
+    assert.strictEqual(routeRuns, 0);
+  });
+
+  it('rejects a privateKey sent in client mode', async () => {
+    const res = await post('/fiber/transition', { publicKey: PUBLIC_KEY, privateKey: 'a'.repeat(64) }, 'client');
+
+    assert.strictEqual(res.status, 400);
+    assert.match((await res.json()).error, /privateKey must not be sent/);
+    assert.strictEqual(routeRuns, 0);
+  });
+
+  it('requires a well-formed publicKey', async () => {
+    for (const publicKey of [undefined, 'abc', 'zz'.repeat(64), PUBLIC_KEY + '00']) {
+      const res = await post('/fiber/transition', { publicKey }, 'client');
+      assert.strictEqual(res.status, 400, String(publicKey));
+    }
+    assert.strictEqual(routeRuns, 0);
+  });
+
+  it('refuses /wallet routes, which would run with the placeholder key', async () => {
+    const res = await post('/wallet/sign', { publicKey: PUBLIC_KEY, message: { x: 1 } }, 'client');
+
+    assert.strictEqual(res.status, 400);
+    assert.match((await res.json()).error, /not supported for \/wallet\/sign/);
+    assert.strictEqual(routeRuns, 0);
+  });
+
+  it('adds the prepared transactions and signer to the route response', async () => {
+    const res = await post('/fiber/transition', { publicKey: PUBLIC_KEY, steps: 2 }, 'client');
+    const body = await res.json();
+
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(body.hash, 'unsigned');
+    assert.strictEqual(body.signingMode, 'client');
+    assert.strictEqual(body.signer, getAddress(PUBLIC_KEY));
+    assert.deepStrictEqual(
+      body.transactions.map((t: UnsignedTransaction) => t.targetSequenceNumber),
+      [0, 1],
+    );
+    assert.strictEqual(body.transactions[0].canonical, canonicalize(transitionMessage('commit', 0)));
+  });
+
+  it('never hands the route a real private key', async () => {
+    const res = await post('/fiber/transition', { publicKey: PUBLIC_KEY }, 'client');
+    assert.strictEqual((await res.json()).privateKey, '0'.repeat(64));
+  });
+
+  it('accepts the public key with or without the 04 prefix', async () => {
+    const res = await post('/fiber/transition', { publicKey: PUBLIC_KEY.substring(2) }, 'client');
+    assert.strictEqual((await res.json()).signer, getAddress(PUBLIC_KEY));
+  });
+
+  it('leaves error responses unchanged', async () => {
+    const res = await post('/fiber/transition', { publicKey: PUBLIC_KEY, fail: true }, 'client');
+
+    assert.strictEqual(res.status, 400);
+    assert.deepStrictEqual(await res.json(), { error: 'Invalid request' });
+  });
+
+  it('keeps concurrent requests in separate contexts', async () => {
+    const otherKey = dag4.keyStore.getPublicKeyFromPrivate(dag4.keyStore.generatePrivateKey(), false);
+    const [a, b] = await Promise.all([
+      post('/fiber/transition', { publicKey: PUBLIC_KEY, steps: 3 }, 'client').then((r) => r.json()),
+      post('/fiber/transition', { publicKey: otherKey, steps: 2 }, 'client').then((r) => r.json()),
+    ]);
+
+    assert.strictEqual(a.signer, getAddress(PUBLIC_KEY));
+    assert.strictEqual(a.transactions.length, 3);
+    assert.strictEqual(b.signer, getAddress(otherKey));
+    assert.strictEqual(b.transactions.length, 2);
+  });
+});
+
+describe('POST /submit', () => {
+  async function signedEnvelope(message = transitionMessage('commit', 0)) {
+    return { value: message, proofs: [await clientSign(canonicalize(message), PRIVATE_KEY)] };
+  }
+
+  it('forwards a verified envelope and reports its signers', async () => {
+    const envelope = await signedEnvelope();
+    const res = await post('/submit', envelope);
+    const body = await res.json();
+
+    assert.strictEqual(res.status, 201);
+    assert.deepStrictEqual(body, {
+      hash: 'hash-1',
+      ordinal: 42,
+      messageType: 'TransitionStateMachine',
+      signers: [PUBLIC_KEY.substring(2)],
+    });
+    assert.deepStrictEqual(forwarded, [envelope]);
+  });
+
+  it('accepts the DL1 { data: envelope } wrapper', async () => {
+    const envelope = await signedEnvelope();
+    const res = await post('/submit', { data: envelope });
+
+    assert.strictEqual(res.status, 201);
+    assert.deepStrictEqual(forwarded, [envelope]);
+  });
+
+  it('rejects an envelope whose signature does not cover the value', async () => {
+    const envelope = await signedEnvelope();
+    const res = await post('/submit', { ...envelope, value: transitionMessage('commit', 1) });
+    const body = await res.json();
+
+    assert.strictEqual(res.status, 400);
+    assert.strictEqual(body.error, 'Invalid signature');
+    assert.deepStrictEqual(body.invalidProofs, [envelope.proofs[0].id]);
+    assert.strictEqual(forwarded.length, 0);
+  });
+
+  it('rejects malformed envelopes before verifying them', async () => {
+    const envelope = await signedEnvelope();
+    const malformed = [
+      { value: envelope.value, proofs: [] },
+      { value: { ...envelope.value, CreateStateMachine: {} }, proofs: envelope.proofs },
+      { value: envelope.value, proofs: [{ id: 'abc', signature: envelope.proofs[0].signature }] },
+    ];
+
+    for (const body of malformed) {
+      const res = await post('/submit', body);
+      assert.strictEqual(res.status, 400);
+      assert.strictEqual((await res.json()).error, 'Invalid request');
+    }
+    assert.strictEqual(forwarded.length, 0);
+  });
+
+  it('reports metagraph submission failures as 500', async () => {
+    submitError = new Error('DL1 unavailable');
+    const res = await post('/submit', await signedEnvelope());
+
+    assert.strictEqual(res.status, 500);
+    assert.deepStrictEqual(await res.json(), { error: 'DL1 unavailable' });
+  });
+});
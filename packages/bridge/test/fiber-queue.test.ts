@@ -0,0 +1,258 @@
+/**
+ * Fiber Submission Queue Unit Tests
+ *
+ * Tests the per-fiber FIFO queue that serializes transitions:
+ *   - same-fiber submissions never overlap and keep arrival order
+ *   - each item waits for DL1 to acknowledge the previous sequence
+ *   - sequence mismatches are retried, other errors fail fast
+ *   - queue depth and item status are reported for GET /fiber/:fiberId/queue
+ *
+ * Uses a simulated DL1; no running server required.
+ *
+ * Run: node --test --experimental-strip-types test/fiber-queue.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { FiberSubmissionQueue, isSequenceMismatchError } from '../src/fiber-queue.ts';
+
+// ── Simulated DL1 ────────────────────────────────────────────────────────────
+
+const tick = (ms = 5) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class FakeDl1 {
+  readonly sequences = new Map<string, number>();
+  readonly submissions: Array<{ fiberId: string; seq: number; label: string }> = [];
+  readonly resets: string[] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+  /** Delay before an accepted submission is reflected in the onchain state */
+  applyDelayMs = 10;
+  /** Fail the next N submissions with a sequence mismatch */
+  mismatches = 0;
+  /** Accept submissions but never apply them */
+  stalled = false;
+
+  sequenceOf(fiberId: string): number {
+    return this.sequences.get(fiberId) ?? 0;
+  }
+
+  async submit(fiberId: string, seq: number, label: string): Promise<{ hash: string }> {
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    try {
+      await tick();
+      if (this.mismatches > 0) {
+        this.mismatches--;
+        throw new Error('Metagraph submission failed: SequenceNumberMismatch');
+      }
+      if (seq !== this.sequenceOf(fiberId)) {
+        throw new Error(`Metagraph submission failed: SequenceNumberMismatch (expected ${this.sequenceOf(fiberId)}, got ${seq})`);
+      }
+      this.submissions.push({ fiberId, seq, label });
+      if (!this.stalled) {
+        setTimeout(() => this.sequences.set(fiberId, seq + 1), this.applyDelayMs);
+      }
+      return { hash: `${fiberId}:${seq}` };
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  createQueue(options: ConstructorParameters<typeof FiberSubmissionQueue>[1] = {}) {
+    return new FiberSubmissionQueue(
+      {
+        // No optimistic cache here: reads DL1 directly, which is only safe
+        // because the queue waits for each acknowledgement
+        getSequenceNumber: async (fiberId) => this.sequenceOf(fiberId),
+        waitForSequence: async (fiberId, targetSeq) => {
+          for (let i = 0; i < 20; i++) {
+            if (this.sequenceOf(fiberId) >= targetSeq) return true;
+            await tick();
+          }
+          return false;
+        },
+        resetSequence: async (fiberId) => {
+          this.resets.push(fiberId);
+        },
+      },
+      { retryDelayMs: 1, ...options }
+    );
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('FiberSubmissionQueue: ordering', () => {
+  it('serializes concurrent submissions for one fiber in arrival order', async () => {
+    const dl1 = new FakeDl1();
+    const queue = dl1.createQueue();
+
+    const results = await Promise.all(
+      ['a', 'b', 'c', 'd', 'e'].map((label) =>
+        queue.enqueue('fiber-1', label, (seq) => dl1.submit('fiber-1', seq, label))
+      )
+    );
+
+    assert.deepStrictEqual(results.map((r) => r.targetSequenceNumber), [0, 1, 2, 3, 4]);
+    assert.deepStrictEqual(dl1.submissions.map((s) => s.label), ['a', 'b', 'c', 'd', 'e']);
+    assert.strictEqual(dl1.maxInFlight, 1, 'submissions must not overlap');
+  });
+
+  it('does not start the next item until DL1 acknowledges the previous sequence', async () => {
+    const dl1 = new FakeDl1();
+    dl1.applyDelayMs = 30;
+    const queue = dl1.createQueue();
+
+    const first = queue.enqueue('fiber-1', 'first', (seq) => dl1.submit('fiber-1', seq, 'first'));
+    const second = queue.enqueue('fiber-1', 'second', (seq) => dl1.submit('fiber-1', seq, 'second'));
+
+    await first;
+    assert.strictEqual(queue.getStatus('fiber-1').active?.status, 'awaiting_ack');
+    assert.strictEqual(dl1.submissions.length, 1, 'second waits for the first acknowledgement');
+
+    const result = await second;
+    assert.strictEqual(result.targetSequenceNumber, 1);
+  });
+
+  it('processes different fibers in parallel', async () => {
+    const dl1 = new FakeDl1();
+    const queue = dl1.createQueue();
+
+    await Promise.all(
+      ['fiber-1', 'fiber-2', 'fiber-3'].map((fiberId) =>
+        queue.enqueue(fiberId, 'go', (seq) => dl1.submit(fiberId, seq, 'go'))
+      )
+    );
+
+    assert.strictEqual(dl1.maxInFlight, 3);
+  });
+});
+
+describe('FiberSubmissionQueue: retries and failures', () => {
+  it('retries a sequence mismatch and succeeds', async () => {
+    const dl1 = new FakeDl1();
+    dl1.mismatches = 2;
+    const queue = dl1.createQueue({ maxRetries: 3 });
+
+    const result = await queue.enqueue('fiber-1', 'commit', (seq) => dl1.submit('fiber-1', seq, 'commit'));
+
+    assert.strictEqual(result.attempts, 3);
+    assert.deepStrictEqual(dl1.resets, ['fiber-1', 'fiber-1']);
+  });
+
+  it('gives up after maxRetries mismatches and keeps processing the queue', async () => {
+    const dl1 = new FakeDl1();
+    dl1.mismatches = 3;
+    const queue = dl1.createQueue({ maxRetries: 2 });
+
+    const failing = queue.enqueue('fiber-1', 'doomed', (seq) => dl1.submit('fiber-1', seq, 'doomed'));
+    const next = queue.enqueue('fiber-1', 'next', (seq) => dl1.submit('fiber-1', seq, 'next'));
+
+    await assert.rejects(failing, /SequenceNumberMismatch/);
+    const result = await next;
+    assert.strictEqual(result.targetSequenceNumber, 0);
+
+    const doomed = queue.getStatus('fiber-1').recent.find((item) => item.label === 'doomed');
+    assert.strictEqual(doomed?.status, 'failed');
+    assert.strictEqual(doomed?.attempts, 3);
+  });
+
+  it('does not retry errors unrelated to sequencing', async () => {
+    const dl1 = new FakeDl1();
+    const queue = dl1.createQueue();
+    let calls = 0;
+
+    await assert.rejects(
+      queue.enqueue('fiber-1', 'bad', async () => {
+        calls++;
+        throw new Error('Metagraph submission failed: invalid signature');
+      }),
+      /invalid signature/
+    );
+    assert.strictEqual(calls, 1);
+  });
+
+  it('marks unacknowledged submissions and resets the cached sequence', async () => {
+    const dl1 = new FakeDl1();
+    dl1.stalled = true;
+    const queue = dl1.createQueue();
+
+    await queue.enqueue('fiber-1', 'lost', (seq) => dl1.submit('fiber-1', seq, 'lost'));
+    // Second item only starts after the first ack times out
+    dl1.stalled = false;
+    const second = await queue.enqueue('fiber-1', 'after', (seq) => dl1.submit('fiber-1', seq, 'after'));
+
+    const status = queue.getStatus('fiber-1');
+    assert.strictEqual(status.recent.find((i) => i.label === 'lost')?.status, 'unacknowledged');
+    assert.ok(dl1.resets.includes('fiber-1'));
+    assert.strictEqual(second.targetSequenceNumber, 0, 'DL1 never applied the lost submission');
+  });
+
+  it('classifies sequence errors by the DL1 error code', () => {
+    assert.strictEqual(isSequenceMismatchError(new Error('Metagraph submission failed: SequenceNumberMismatch')), true);
+    assert.strictEqual(
+      isSequenceMismatchError(Object.assign(new Error('Metagraph submission failed: HTTP 400'), {
+        response: '{"errors":[{"code":"SequenceNumberMismatch","message":"expected 4"}]}',
+      })),
+      true,
+    );
+    assert.strictEqual(isSequenceMismatchError(new Error('Insufficient balance')), false);
+  });
+
+  it('does not retry other errors that mention the sequence', () => {
+    assert.strictEqual(isSequenceMismatchError(new Error('targetSequenceNumber must be a non-negative integer')), false);
+    assert.strictEqual(isSequenceMismatchError(new Error('Timeout waiting for sequence 4')), false);
+  });
+});
+
+describe('FiberSubmissionQueue: status', () => {
+  it('reports depth, active and pending items', async () => {
+    const dl1 = new FakeDl1();
+    dl1.applyDelayMs = 20;
+    const queue = dl1.createQueue();
+
+    const all = ['a', 'b', 'c'].map((label) =>
+      queue.enqueue('fiber-1', label, (seq) => dl1.submit('fiber-1', seq, label))
+    );
+
+    const status = queue.getStatus('fiber-1');
+    assert.strictEqual(status.depth, 3);
+    assert.strictEqual(status.active?.label, 'a');
+    assert.deepStrictEqual(status.pending.map((i) => i.label), ['b', 'c']);
+    assert.ok(status.pending.every((i) => i.status === 'queued'));
+
+    await Promise.all(all);
+    // Let the last acknowledgement land
+    await tick(40);
+
+    const done = queue.getStatus('fiber-1');
+    assert.strictEqual(done.depth, 0);
+    assert.deepStrictEqual(done.recent.map((i) => i.label), ['c', 'b', 'a']);
+    assert.ok(done.recent.every((i) => i.status === 'acknowledged' && i.hash));
+  });
+
+  it('returns an empty status for unknown fibers', () => {
+    const queue = new FakeDl1().createQueue();
+    assert.deepStrictEqual(queue.getStatus('nope'), {
+      fiberId: 'nope',
+      depth: 0,
+      active: null,
+      pending: [],
+      recent: [],
+    });
+  });
+
+  it('bounds the per-fiber history', async () => {
+    const dl1 = new FakeDl1();
+    dl1.applyDelayMs = 0;
+    const queue = dl1.createQueue({ historySize: 2 });
+
+    for (const label of ['a', 'b', 'c']) {
+      await queue.enqueue('fiber-1', label, (seq) => dl1.submit('fiber-1', seq, label));
+    }
+    await tick(20);
+
+    assert.deepStrictEqual(queue.getStatus('fiber-1').recent.map((i) => i.label), ['c', 'b']);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Idempotency-Key Tests
+ *
+ * Runs the idempotency middleware in front of a small express app that
+ * mimics a bridge route (random fiberId per call, counts submissions):
+ *   - a retry with the same key replays the first response, no resubmission
+ *   - the same key with a different body or route is rejected with 409
+ *   - a concurrent duplicate is rejected while the first is in flight
+ *   - 5xx responses are not stored, so a retry runs again
+ *
+ * Run: node --test --experimental-strip-types test/idempotency.test.ts
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import {
+  createIdempotencyMiddleware,
+  InMemoryIdempotencyStore,
+  requestFingerprint,
+} from '../src/idempotency.ts';
+
+// ── Test app ─────────────────────────────────────────────────────────────────
+
+let submissions = 0;
+let failNext = false;
+let releaseSlow: (() => void) | null = null;
+const store = new InMemoryIdempotencyStore();
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(createIdempotencyMiddleware(store, { ttlSeconds: 60, excludePaths: ['/wallet'] }));
+
+  app.post('/wallet/generate', (_req, res) => {
+    res.status(201).json({ privateKey: randomUUID().replace(/-/g, '') });
+  });
+
+  app.post('/fiber/create', (req, res) => {
+    if (!req.body.privateKey) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+    if (failNext) {
+      failNext = false;
+      return res.status(500).json({ error: 'Metagraph submission failed' });
+    }
+    submissions++;
+    res.status(201).json({ fiberId: randomUUID(), hash: `hash-${submissions}` });
+  });
+
+  app.post('/fiber/transition', async (req, res) => {
+    await new Promise<void>((resolve) => { releaseSlow = resolve; });
+    submissions++;
+    res.json({ hash: `hash-${submissions}`, event: req.body.event });
+  });
+
+  return app;
+}
+
+let server: Server;
+let baseUrl: string;
+
+function post(path: string, body: unknown, key?: string) {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(key !== undefined && { 'Idempotency-Key': key }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const createBody = { privateKey: 'a'.repeat(64), definition: { states: {} }, initialData: { x: 1 } };
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('Idempotency-Key middleware', () => {
+  before(async () => {
+    server = createApp().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    submissions = 0;
+    failNext = false;
+  });
+
+  it('replays the first response for a retried key', async () => {
+    const key = randomUUID();
+
+    const first = await post('/fiber/create', createBody, key);
+    const retry = await post('/fiber/create', createBody, key);
+
+    assert.strictEqual(first.status, 201);
+    assert.strictEqual(retry.status, 201);
+    assert.deepStrictEqual(await retry.json(), await first.json(), 'same fiberId and hash');
+    assert.strictEqual(retry.headers.get('idempotent-replayed'), 'true');
+    assert.strictEqual(first.headers.get('idempotent-replayed'), null);
+    assert.strictEqual(submissions, 1, 'handler ran once');
+  });
+
+  it('treats key order in the body as the same request', async () => {
+    const key = randomUUID();
+    await post('/fiber/create', createBody, key);
+
+    const reordered = { initialData: { x: 1 }, definition: { states: {} }, privateKey: 'a'.repeat(64) };
+    const retry = await post('/fiber/create', reordered, key);
+
+    assert.strictEqual(retry.status, 201);
+    assert.strictEqual(submissions, 1);
+  });
+
+  it('rejects reuse of a key with a different body', async () => {
+    const key = randomUUID();
+    await post('/fiber/create', createBody, key);
+
+    const conflict = await post('/fiber/create', { ...createBody, initialData: { x: 2 } }, key);
+
+    assert.strictEqual(conflict.status, 409);
+    assert.match((await conflict.json()).error, /different request/);
+    assert.strictEqual(submissions, 1);
+  });
+
+  it('rejects reuse of a key on a different route', async () => {
+    const key = randomUUID();
+    await post('/fiber/create', createBody, key);
+
+    const conflict = await post('/fiber/other', createBody, key);
+    assert.strictEqual(conflict.status, 409);
+  });
+
+  it('rejects a duplicate while the first request is still running', async () => {
+    const key = randomUUID();
+    const body = { fiberId: randomUUID(), event: 'commit' };
+
+    const first = post('/fiber/transition', body, key);
+    // Wait until the handler is parked
+    while (!releaseSlow) await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const duplicate = await post('/fiber/transition', body, key);
+    assert.strictEqual(duplicate.status, 409);
+    assert.match((await duplicate.json()).error, /in progress/);
+
+    releaseSlow();
+    releaseSlow = null;
+    assert.strictEqual((await first).status, 200);
+    assert.strictEqual(submissions, 1);
+  });
+
+  it('does not store 5xx responses', async () => {
+    const key = randomUUID();
+    failNext = true;
+
+    const failed = await post('/fiber/create', createBody, key);
+    const retry = await post('/fiber/create', createBody, key);
+
+    assert.strictEqual(failed.status, 500);
+    assert.strictEqual(retry.status, 201);
+    assert.strictEqual(retry.headers.get('idempotent-replayed'), null);
+    assert.strictEqual(submissions, 1);
+  });
+
+  it('replays 4xx responses', async () => {
+    const key = randomUUID();
+
+    const first = await post('/fiber/create', { definition: {} }, key);
+    const retry = await post('/fiber/create', { definition: {} }, key);
+
+    assert.strictEqual(first.status, 400);
+    assert.strictEqual(retry.status, 400);
+    assert.strictEqual(retry.headers.get('idempotent-replayed'), 'true');
+  });
+
+  it('leaves requests without a key untouched', async () => {
+    await post('/fiber/create', createBody);
+    await post('/fiber/create', createBody);
+    assert.strictEqual(submissions, 2);
+  });
+
+  it('never stores responses from excluded paths', async () => {
+    const key = randomUUID();
+
+    const first = await post('/wallet/generate', {}, key);
+    const retry = await post('/wallet/generate', {}, key);
+
+    assert.strictEqual(retry.headers.get('idempotent-replayed'), null);
+    assert.notStrictEqual((await retry.json()).privateKey, (await first.json()).privateKey);
+    assert.strictEqual(await store.begin(key, 'probe', 1), null, 'key was never claimed');
+  });
+
+  it('rejects an over-long key', async () => {
+    const res = await post('/fiber/create', createBody, 'k'.repeat(256));
+    assert.strictEqual(res.status, 400);
+  });
+});
+
+describe('InMemoryIdempotencyStore', () => {
+  it('lets an expired in-progress claim be taken again', async () => {
+    const store = new InMemoryIdempotencyStore();
+
+    assert.strictEqual(await store.begin('k', 'fp', 0.02), null);
+    assert.deepStrictEqual(await store.begin('k', 'fp', 0.02), { state: 'in_progress', fingerprint: 'fp' });
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.strictEqual(await store.begin('k', 'fp', 0.02), null);
+  });
+
+  it('expires completed responses after the TTL', async () => {
+    const store = new InMemoryIdempotencyStore();
+    await store.begin('k', 'fp', 60);
+    await store.complete('k', { fingerprint: 'fp', statusCode: 201, body: {}, createdAt: '' }, 0.02);
+
+    assert.strictEqual((await store.begin('k', 'fp', 60))?.state, 'completed');
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.strictEqual(await store.begin('k', 'fp', 60), null);
+  });
+});
+
+describe('requestFingerprint', () => {
+  it('is a SHA-256 digest, not the raw body', () => {
+    const fp = requestFingerprint({ method: 'POST', baseUrl: '/agent', path: '/register', body: createBody });
+    assert.match(fp, /^[0-9a-f]{64}$/);
+  });
+
+  it('distinguishes routes with the same body', () => {
+    const a = requestFingerprint({ method: 'POST', baseUrl: '/market', path: '/open', body: {} });
+    const b = requestFingerprint({ method: 'POST', baseUrl: '/market', path: '/close', body: {} });
+    assert.notStrictEqual(a, b);
+  });
+});
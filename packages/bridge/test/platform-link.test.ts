@@ -0,0 +1,170 @@
+/**
+ * Platform Link Verification Unit Tests
+ *
+ * Tests the signed-challenge checks behind POST /agent/link:
+ *   - a challenge signed by the agent's own key verifies
+ *   - tampered challenges, foreign keys, expired and used challenges are rejected
+ *   - registered platform verifiers gate the link; the stub accepts only its proof
+ *
+ * Uses real secp256k1 keys via dag4; no running server required.
+ *
+ * Run: node --test --experimental-strip-types test/platform-link.test.ts
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { createHash } from 'node:crypto';
+import { dag4 } from '@stardust-collective/dag4';
+import { canonicalize } from '../src/lib/metakit/canonicalize.ts';
+import {
+  createLinkChallenge,
+  verifyLinkRequest,
+  registerPlatformVerifier,
+  getPlatformVerifier,
+  clearPlatformVerifiers,
+  StubPlatformVerifier,
+  LINK_CHALLENGE_PURPOSE,
+  type LinkChallenge,
+  type SignatureCheck,
+  type SignatureProof,
+} from '../src/platform-link.ts';
+
+// ── metakit sign/verify (regular protocol), as in lib/metakit ────────────────
+
+async function sign(data: unknown, privateKey: string): Promise<SignatureProof> {
+  const hashHex = createHash('sha256').update(canonicalize(data)).digest('hex');
+  const signature = await dag4.keyStore.sign(privateKey, hashHex);
+  const id = dag4.keyStore.getPublicKeyFromPrivate(privateKey, false).substring(2);
+  return { id, signature };
+}
+
+const crypto: SignatureCheck = {
+  verifyProof(data, proof) {
+    try {
+      const hashHex = createHash('sha256').update(canonicalize(data)).digest('hex');
+      return Boolean(dag4.keyStore.verify('04' + proof.id, hashHex, proof.signature));
+    } catch {
+      return false;
+    }
+  },
+  getAddress(publicKey) {
+    return dag4.keyStore.getDagAddressFromPublicKey('04' + publicKey);
+  },
+};
+
+function newAgent() {
+  const privateKey = dag4.keyStore.generatePrivateKey();
+  const publicKey = dag4.keyStore.getPublicKeyFromPrivate(privateKey, false);
+  return { privateKey, address: dag4.keyStore.getDagAddressFromPublicKey(publicKey) };
+}
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+describe('createLinkChallenge', () => {
+  it('names the agent, platform and user with a fresh nonce and expiry', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    const a = createLinkChallenge('DAG0abc', 'DISCORD', '1234', 600, now);
+    const b = createLinkChallenge('DAG0abc', 'DISCORD', '1234', 600, now);
+
+    assert.strictEqual(a.purpose, LINK_CHALLENGE_PURPOSE);
+    assert.strictEqual(a.agentAddress, 'DAG0abc');
+    assert.strictEqual(a.platform, 'DISCORD');
+    assert.strictEqual(a.platformUserId, '1234');
+    assert.strictEqual(a.expiresAt, '2026-01-01T00:10:00.000Z');
+    assert.match(a.nonce, /^[0-9a-f]{32}$/);
+    assert.notStrictEqual(a.nonce, b.nonce);
+  });
+});
+
+describe('verifyLinkRequest', () => {
+  let agent: ReturnType<typeof newAgent>;
+  let challenge: LinkChallenge;
+
+  beforeEach(() => {
+    clearPlatformVerifiers();
+    agent = newAgent();
+    challenge = createLinkChallenge(agent.address, 'GITHUB', 'octocat', 600);
+  });
+
+  it('accepts a challenge signed by the agent', async () => {
+    const signature = await sign(challenge, agent.privateKey);
+    const result = await verifyLinkRequest(challenge, false, { signature }, { crypto });
+    assert.deepStrictEqual(result, { ok: true });
+  });
+
+  it('rejects a signature over a different challenge', async () => {
+    const signature = await sign({ ...challenge, platformUserId: 'someone-else' }, agent.privateKey);
+    const result = await verifyLinkRequest(challenge, false, { signature }, { crypto });
+    assert.strictEqual(result.ok, false);
+    assert.strictEqual(!result.ok && result.code, 'bad_signature');
+  });
+
+  it('rejects a valid signature from another key', async () => {
+    const signature = await sign(challenge, newAgent().privateKey);
+    const result = await verifyLinkRequest(challenge, false, { signature }, { crypto });
+    assert.strictEqual(!result.ok && result.code, 'wrong_signer');
+  });
+
+  it('rejects expired and already-used challenges before checking the signature', async () => {
+    const signature = { id: 'not-a-key', signature: 'not-a-signature' };
+
+    const expired = await verifyLinkRequest(
+      challenge, false, { signature }, { crypto }, new Date(Date.now() + 601_000)
+    );
+    assert.strictEqual(!expired.ok && expired.code, 'expired');
+
+    const used = await verifyLinkRequest(challenge, true, { signature }, { crypto });
+    assert.strictEqual(!used.ok && used.code, 'consumed');
+  });
+
+  it('requires the stub verifier proof when one is registered', async () => {
+    registerPlatformVerifier('GITHUB', new StubPlatformVerifier());
+    const verifier = getPlatformVerifier('GITHUB');
+    const signature = await sign(challenge, agent.privateKey);
+
+    const missing = await verifyLinkRequest(challenge, false, { signature }, { crypto, verifier });
+    assert.strictEqual(!missing.ok && missing.code, 'proof_rejected');
+
+    const wrong = await verifyLinkRequest(
+      challenge, false, { signature, proof: 'stub:github:octocat:other-nonce' }, { crypto, verifier }
+    );
+    assert.strictEqual(!wrong.ok && wrong.code, 'proof_rejected');
+
+    const proof = StubPlatformVerifier.proofFor(challenge);
+    const accepted = await verifyLinkRequest(challenge, false, { signature, proof }, { crypto, verifier });
+    assert.deepStrictEqual(accepted, { ok: true });
+  });
+
+  it('passes the claim to custom verifiers', async () => {
+    const seen: unknown[] = [];
+    registerPlatformVerifier('TELEGRAM', {
+      name: 'recording',
+      async verify(claim) {
+        seen.push(claim);
+        return { ok: false, reason: 'user not in chat' };
+      },
+    });
+    challenge = createLinkChallenge(agent.address, 'TELEGRAM', '42', 600);
+    const signature = await sign(challenge, agent.privateKey);
+
+    const result = await verifyLinkRequest(
+      challenge, false, { signature, platformUsername: 'tg_user', proof: 'code-123' },
+      { crypto, verifier: getPlatformVerifier('TELEGRAM') }
+    );
+
+    assert.deepStrictEqual(result, { ok: false, code: 'proof_rejected', message: 'recording: user not in chat' });
+    assert.deepStrictEqual(seen, [{
+      agentAddress: agent.address,
+      platform: 'TELEGRAM',
+      platformUserId: '42',
+      platformUsername: 'tg_user',
+      nonce: challenge.nonce,
+      proof: 'code-123',
+    }]);
+  });
+
+  it('leaves platforms without a verifier to the signature alone', () => {
+    registerPlatformVerifier('DISCORD', new StubPlatformVerifier());
+    assert.strictEqual(getPlatformVerifier('TWITTER'), undefined);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Sequence Store Tests
+ *
+ * Tests the pluggable per-fiber sequence store behind getFiberSequenceNumber()
+ * (in-memory and Redis), including the multi-instance scenario from the HA
+ * roadmap in Issue #109: several bridge instances sharing one store must
+ * never hand out the same targetSequenceNumber for a fiber.
+ *
+ * The Redis suite runs against REDIS_URL (default redis://localhost:6379) and
+ * is skipped when no Redis server is reachable.
+ *
+ * Run: node --test --experimental-strip-types test/sequence-store.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'node:crypto';
+import Redis from 'ioredis';
+import {
+  InMemorySequenceStore,
+  RedisSequenceStore,
+  type SequenceStore,
+} from '../src/sequence-store.ts';
+
+const REDIS_URL = process.env.REDIS_URL ?? 'redis://localhost:6379';
+
+// ── Simulated bridge instance ────────────────────────────────────────────────
+// (mirrors getFiberSequenceNumber/submitTransaction in metagraph.ts: reserve
+// against the DL1 value, advance on success, reset on failure)
+
+class FakeDl1 {
+  private readonly committed = new Map<string, number>();
+
+  /** DL1 lags behind submissions: it only moves when commit() is called */
+  sequenceOf(fiberId: string): number {
+    return this.committed.get(fiberId) ?? 0;
+  }
+
+  commit(fiberId: string, seq: number): void {
+    this.committed.set(fiberId, Math.max(this.sequenceOf(fiberId), seq + 1));
+  }
+}
+
+class BridgeInstance {
+  private readonly store: SequenceStore;
+  private readonly dl1: FakeDl1;
+
+  constructor(store: SequenceStore, dl1: FakeDl1) {
+    this.store = store;
+    this.dl1 = dl1;
+  }
+
+  async getFiberSequenceNumber(fiberId: string): Promise<number> {
+    // Yield first, like the real DL1 HTTP round-trip, so requests interleave
+    await new Promise((resolve) => setImmediate(resolve));
+    return this.store.reserve(fiberId, this.dl1.sequenceOf(fiberId));
+  }
+
+  async submit(fiberId: string, seq: number, ok = true): Promise<void> {
+    if (ok) {
+      await this.store.advance(fiberId, seq);
+    } else {
+      await this.store.reset(fiberId);
+    }
+  }
+}
+
+// ── Shared behaviour suite ───────────────────────────────────────────────────
+
+function sequenceStoreSuite(createStores: () => { a: SequenceStore; b: SequenceStore }) {
+  it('reserves the DL1 value first, then consecutive numbers', async () => {
+    const { a } = createStores();
+    const fiber = randomUUID();
+
+    assert.strictEqual(await a.reserve(fiber, 4), 4);
+    assert.strictEqual(await a.reserve(fiber, 4), 5);
+    assert.strictEqual(await a.reserve(fiber, 4), 6);
+    assert.strictEqual(await a.peek(fiber), 7);
+  });
+
+  it('jumps forward when DL1 is ahead of the store', async () => {
+    const { a } = createStores();
+    const fiber = randomUUID();
+
+    await a.reserve(fiber, 0);
+    assert.strictEqual(await a.reserve(fiber, 10), 10);
+  });
+
+  it('advance only moves forward', async () => {
+    const { a } = createStores();
+    const fiber = randomUUID();
+
+    await a.advance(fiber, 5);
+    assert.strictEqual(await a.peek(fiber), 6);
+    await a.advance(fiber, 2);
+    assert.strictEqual(await a.peek(fiber), 6);
+  });
+
+  it('reset makes the next reservation start from DL1 again', async () => {
+    const { a } = createStores();
+    const fiber = randomUUID();
+
+    await a.reserve(fiber, 3);
+    await a.reserve(fiber, 3);
+    await a.reset(fiber);
+
+    assert.strictEqual(await a.peek(fiber), 0);
+    assert.strictEqual(await a.reserve(fiber, 3), 3);
+  });
+
+  it('release gives back a reservation that was never submitted', async () => {
+    const { a } = createStores();
+    const fiber = randomUUID();
+
+    const seq = await a.reserve(fiber, 4);
+    assert.strictEqual(await a.release(fiber, seq), true);
+    assert.strictEqual(await a.reserve(fiber, 4), seq);
+  });
+
+  it('release leaves later reservations alone', async () => {
+    const { a, b } = createStores();
+    const fiber = randomUUID();
+
+    const first = await a.reserve(fiber, 0);
+    const second = await b.reserve(fiber, 0);
+
+    assert.strictEqual(await a.release(fiber, first), false);
+    assert.strictEqual(await a.peek(fiber), second + 1);
+    assert.strictEqual(await b.release(fiber, second), true);
+    assert.strictEqual(await a.reserve(fiber, 0), second);
+  });
+
+  it('keeps fibers independent', async () => {
+    const { a } = createStores();
+    const f1 = randomUUID();
+    const f2 = randomUUID();
+
+    await a.reserve(f1, 0);
+    await a.reserve(f1, 0);
+    assert.strictEqual(await a.reserve(f2, 0), 0);
+  });
+
+  it('two bridge instances never hand out the same targetSequenceNumber', async () => {
+    const { a, b } = createStores();
+    const dl1 = new FakeDl1();
+    const fiber = randomUUID();
+    const instances = [new BridgeInstance(a, dl1), new BridgeInstance(b, dl1)];
+
+    // 50 concurrent requests, alternating between instances, DL1 never catches up
+    const seqs = await Promise.all(
+      Array.from({ length: 50 }, (_, i) => instances[i % 2].getFiberSequenceNumber(fiber))
+    );
+
+    assert.strictEqual(new Set(seqs).size, seqs.length, `duplicates in ${seqs.join(',')}`);
+    assert.deepStrictEqual([...seqs].sort((x, y) => x - y), Array.from({ length: 50 }, (_, i) => i));
+  });
+
+  it('instances stay unique while DL1 catches up between submissions', async () => {
+    const { a, b } = createStores();
+    const dl1 = new FakeDl1();
+    const fiber = randomUUID();
+    const instances = [new BridgeInstance(a, dl1), new BridgeInstance(b, dl1)];
+    const handedOut: number[] = [];
+
+    for (let round = 0; round < 5; round++) {
+      const seqs = await Promise.all(
+        instances.flatMap((bridge) => [0, 1, 2].map(() => bridge.getFiberSequenceNumber(fiber)))
+      );
+      handedOut.push(...seqs);
+      await Promise.all(seqs.map((seq, i) => instances[i < 3 ? 0 : 1].submit(fiber, seq)));
+      // DL1 applies only part of what was submitted this round
+      dl1.commit(fiber, Math.min(...seqs));
+    }
+
+    assert.strictEqual(new Set(handedOut).size, handedOut.length);
+  });
+
+  it('an instance resetting after a failed submission does not cause duplicates', async () => {
+    const { a, b } = createStores();
+    const dl1 = new FakeDl1();
+    const fiber = randomUUID();
+    const bridgeA = new BridgeInstance(a, dl1);
+    const bridgeB = new BridgeInstance(b, dl1);
+
+    const s0 = await bridgeA.getFiberSequenceNumber(fiber);
+    await bridgeA.submit(fiber, s0);
+    dl1.commit(fiber, s0);
+
+    // bridge-a's next submission is rejected by DL1 → it resets the fiber
+    const s1 = await bridgeA.getFiberSequenceNumber(fiber);
+    await bridgeA.submit(fiber, s1, false);
+
+    // Both instances re-read DL1 and continue without colliding
+    const [x, y] = await Promise.all([
+      bridgeA.getFiberSequenceNumber(fiber),
+      bridgeB.getFiberSequenceNumber(fiber),
+    ]);
+    assert.notStrictEqual(x, y);
+    assert.deepStrictEqual([x, y].sort(), [1, 2]);
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('InMemorySequenceStore', () => {
+  // One process-wide store shared by both "instances"
+  sequenceStoreSuite(() => {
+    const store = new InMemorySequenceStore();
+    return { a: store, b: store };
+  });
+
+  it('expires entries after the TTL', async () => {
+    const store = new InMemorySequenceStore({ ttlSeconds: 0.05 });
+    const fiber = randomUUID();
+
+    await store.reserve(fiber, 7);
+    assert.strictEqual(await store.peek(fiber), 8);
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    assert.strictEqual(await store.peek(fiber), 0);
+  });
+
+  it('evicts the oldest fiber when full', async () => {
+    const store = new InMemorySequenceStore({ maxSize: 3 });
+
+    await store.advance('fiber-0', 0);
+    await store.advance('fiber-1', 0);
+    await store.advance('fiber-2', 0);
+    await store.advance('fiber-3', 0);
+
+    assert.strictEqual(store.size, 3);
+    assert.strictEqual(await store.peek('fiber-0'), 0, 'oldest entry evicted');
+    assert.strictEqual(await store.peek('fiber-3'), 1);
+  });
+
+  it('refreshes insertion order on write', async () => {
+    const store = new InMemorySequenceStore({ maxSize: 3 });
+
+    await store.advance('fiber-0', 0);
+    await store.advance('fiber-1', 0);
+    await store.advance('fiber-2', 0);
+    await store.reserve('fiber-0', 0); // fiber-0 becomes newest
+    await store.advance('fiber-3', 0);
+
+    assert.strictEqual(await store.peek('fiber-1'), 0, 'fiber-1 was oldest');
+    assert.strictEqual(await store.peek('fiber-0'), 2);
+  });
+});
+
+describe('RedisSequenceStore', async () => {
+  // Each bridge instance gets its own connection, as separate processes would
+  const clientA = new Redis(REDIS_URL, { lazyConnect: true, maxRetriesPerRequest: 0, retryStrategy: () => null });
+  const clientB = new Redis(REDIS_URL, { lazyConnect: true, maxRetriesPerRequest: 0, retryStrategy: () => null });
+  clientA.on('error', () => {});
+  clientB.on('error', () => {});
+
+  const available = await clientA.connect().then(
+    () => clientB.connect().then(() => true),
+    () => false
+  );
+  const keyPrefix = `ottochain:test:seq:${randomUUID()}:`;
+
+  after(async () => {
+    if (available) {
+      const keys = await clientA.keys(`${keyPrefix}*`);
+      if (keys.length > 0) await clientA.del(...keys);
+    }
+    clientA.disconnect();
+    clientB.disconnect();
+  });
+
+  if (!available) {
+    it('requires a reachable Redis server', { skip: `no Redis at ${REDIS_URL}` }, () => {});
+    return;
+  }
+
+  sequenceStoreSuite(() => ({
+    a: new RedisSequenceStore(clientA, { keyPrefix }),
+    b: new RedisSequenceStore(clientB, { keyPrefix }),
+  }));
+
+  describe('TTL', () => {
+    let store: RedisSequenceStore;
+
+    before(() => {
+      store = new RedisSequenceStore(clientA, { keyPrefix, ttlSeconds: 1 });
+    });
+
+    it('sets an expiry on every write', async () => {
+      const fiber = randomUUID();
+      await store.reserve(fiber, 0);
+
+      const ttl = await clientA.ttl(`${keyPrefix}${fiber}`);
+      assert.ok(ttl > 0 && ttl <= 1, `expected TTL in (0, 1], got ${ttl}`);
+    });
+  });
+});
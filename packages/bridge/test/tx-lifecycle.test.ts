@@ -0,0 +1,173 @@
+/**
+ * Transaction Lifecycle Tests
+ *
+ * Checks how resolveLifecycle folds submission, rejection, inclusion and
+ * snapshot rows into a single status for GET /tx/:hash, and which indexed
+ * transition a submission is matched to.
+ *
+ * Run: node --test --experimental-strip-types test/tx-lifecycle.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  resolveLifecycle,
+  transitionInclusionFilter,
+  type SubmissionRow,
+  type SnapshotRow,
+} from '../src/tx-lifecycle.ts';
+
+const HASH = 'ab'.repeat(32);
+
+const submission: SubmissionRow = {
+  hash: HASH,
+  updateType: 'TransitionStateMachine',
+  fiberId: 'fiber-1',
+  eventName: 'commit',
+  targetSequenceNumber: 4,
+  signers: ['node-id-1'],
+  submittedAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+const inclusion = { snapshotOrdinal: 120n, at: new Date('2026-01-01T00:00:05Z') };
+
+function snapshot(overrides: Partial<SnapshotRow>): SnapshotRow {
+  return {
+    ordinal: 120n,
+    hash: 'snap-hash',
+    status: 'PENDING',
+    gl0Ordinal: null,
+    confirmedAt: null,
+    indexedAt: new Date('2026-01-01T00:00:06Z'),
+    ...overrides,
+  };
+}
+
+describe('resolveLifecycle', () => {
+  it('returns null for an unknown hash', () => {
+    assert.strictEqual(
+      resolveLifecycle(HASH, { submission: null, rejection: null, inclusion: null, snapshot: null }),
+      null
+    );
+  });
+
+  it('reports ACCEPTED when only the submission is known', () => {
+    const tx = resolveLifecycle(HASH, { submission, rejection: null, inclusion: null, snapshot: null })!;
+
+    assert.strictEqual(tx.status, 'ACCEPTED');
+    assert.strictEqual(tx.submittedViaBridge, true);
+    assert.strictEqual(tx.lifecycle.accepted?.at, '2026-01-01T00:00:00.000Z');
+    assert.strictEqual(tx.lifecycle.included, null);
+    assert.strictEqual(tx.targetSequenceNumber, 4);
+  });
+
+  it('reports INCLUDED while the snapshot awaits GL0', () => {
+    const tx = resolveLifecycle(HASH, { submission, rejection: null, inclusion, snapshot: snapshot({}) })!;
+
+    assert.strictEqual(tx.status, 'INCLUDED');
+    assert.deepStrictEqual(tx.lifecycle.included, {
+      ordinal: 120,
+      snapshotHash: 'snap-hash',
+      at: '2026-01-01T00:00:05.000Z',
+    });
+    assert.strictEqual(tx.lifecycle.confirmed, null);
+  });
+
+  it('reports CONFIRMED with the GL0 ordinal', () => {
+    const confirmedAt = new Date('2026-01-01T00:01:00Z');
+    const tx = resolveLifecycle(HASH, {
+      submission,
+      rejection: null,
+      inclusion,
+      snapshot: snapshot({ status: 'CONFIRMED', gl0Ordinal: 900n, confirmedAt }),
+    })!;
+
+    assert.strictEqual(tx.status, 'CONFIRMED');
+    assert.deepStrictEqual(tx.lifecycle.confirmed, { gl0Ordinal: 900, at: '2026-01-01T00:01:00.000Z' });
+  });
+
+  it('treats a GL0 ordinal on the inclusion row as confirmation', () => {
+    const tx = resolveLifecycle(HASH, {
+      submission,
+      rejection: null,
+      inclusion: { ...inclusion, gl0Ordinal: 901n },
+      snapshot: null,
+    })!;
+
+    assert.strictEqual(tx.status, 'CONFIRMED');
+    assert.strictEqual(tx.lifecycle.confirmed?.gl0Ordinal, 901);
+    assert.strictEqual(tx.lifecycle.included?.snapshotHash, null);
+  });
+
+  it('reports ORPHANED when the snapshot was replaced', () => {
+    const tx = resolveLifecycle(HASH, {
+      submission,
+      rejection: null,
+      inclusion,
+      snapshot: snapshot({ status: 'ORPHANED' }),
+    })!;
+
+    assert.strictEqual(tx.status, 'ORPHANED');
+    assert.deepStrictEqual(tx.lifecycle.orphaned, { ordinal: 120 });
+  });
+
+  it('reports REJECTED with the ML0 errors', () => {
+    const errors = [{ code: 'SequenceNumberMismatch', message: 'expected 5' }];
+    const tx = resolveLifecycle(HASH, {
+      submission,
+      rejection: {
+        ordinal: 121n,
+        timestamp: new Date('2026-01-01T00:00:07Z'),
+        updateType: 'TransitionStateMachine',
+        fiberId: 'fiber-1',
+        errors,
+        signers: ['node-id-1'],
+      },
+      inclusion: null,
+      snapshot: null,
+    })!;
+
+    assert.strictEqual(tx.status, 'REJECTED');
+    assert.deepStrictEqual(tx.lifecycle.rejected, { ordinal: 121, errors, at: '2026-01-01T00:00:07.000Z' });
+  });
+
+  it('describes rejections of transactions not submitted through the bridge', () => {
+    const tx = resolveLifecycle(HASH, {
+      submission: null,
+      rejection: {
+        ordinal: 121n,
+        timestamp: new Date('2026-01-01T00:00:07Z'),
+        updateType: 'CreateStateMachine',
+        fiberId: 'fiber-2',
+        errors: [],
+        signers: ['node-id-2'],
+      },
+      inclusion: null,
+      snapshot: null,
+    })!;
+
+    assert.strictEqual(tx.status, 'REJECTED');
+    assert.strictEqual(tx.submittedViaBridge, false);
+    assert.strictEqual(tx.fiberId, 'fiber-2');
+    assert.strictEqual(tx.lifecycle.submitted, null);
+    assert.deepStrictEqual(tx.signers, ['node-id-2']);
+  });
+});
+
+describe('transitionInclusionFilter', () => {
+  it('matches the transition that moved the fiber past the target sequence', () => {
+    assert.deepStrictEqual(transitionInclusionFilter(submission), {
+      fiberId: 'fiber-1',
+      eventName: 'commit',
+      sequenceNumber: 5,
+    });
+  });
+
+  it('falls back to the first matching event after submission without a target', () => {
+    assert.deepStrictEqual(transitionInclusionFilter({ ...submission, targetSequenceNumber: null }), {
+      fiberId: 'fiber-1',
+      eventName: 'commit',
+      createdAt: { gte: submission.submittedAt },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+// API key CLI
+// Issues and revokes gateway API keys. The key is printed once at creation;
+// only its SHA-256 is stored.
+//
+// Usage:
+//   pnpm --filter @ottochain/gateway api-keys create <name> [--admin] [--rate N]
+//   pnpm --filter @ottochain/gateway api-keys list
+//   pnpm --filter @ottochain/gateway api-keys revoke <name>
+//
+//   --admin    key may read usage counters (apiUsage query)
+//   --rate N   requests per minute (default: GATEWAY_RATE_LIMIT_AUTHENTICATED)
+
+import { prisma } from '@ottochain/shared';
+import { generateApiKey } from './auth.js';
+
+const USAGE = 'Usage: api-keys create <name> [--admin] [--rate N] | list | revoke <name>';
+
+interface CreateOptions {
+  name: string;
+  admin: boolean;
+  rateLimitPerMinute: number | null;
+}
+
+function parseCreate(argv: string[]): CreateOptions {
+  const options: CreateOptions = { name: '', admin: false, rateLimitPerMinute: null };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--admin':
+        options.admin = true;
+        break;
+      case '--rate': {
+        const n = Number(argv[++i]);
+        if (!Number.isInteger(n) || n <= 0) {
+          throw new Error(`--rate expects a positive integer, got ${argv[i]}`);
+        }
+        options.rateLimitPerMinute = n;
+        break;
+      }
+      default:
+        if (arg.startsWith('--') || options.name) throw new Error(`Unknown argument: ${arg}`);
+        options.name = arg;
+    }
+  }
+
+  if (!options.name) {
+    throw new Error('name is required');
+  }
+  return options;
+}
+
+async function create(options: CreateOptions): Promise<number> {
+  const { key, keyHash, prefix } = generateApiKey();
+  await prisma.apiKey.create({ data: { ...options, keyHash, prefix } });
+  console.log(`🔑 Created API key "${options.name}"${options.admin ? ' (admin)' : ''}`);
+  console.log(key);
+  console.log('Store it now; it cannot be shown again.');
+  return 0;
+}
+
+async function list(): Promise<number> {
+  const keys = await prisma.apiKey.findMany({ orderBy: { createdAt: 'asc' } });
+  console.table(keys.map((k) => ({
+    name: k.name,
+    prefix: `${k.prefix}…`,
+    admin: k.admin,
+    ratePerMinute: k.rateLimitPerMinute ?? 'default',
+    created: k.createdAt.toISOString(),
+    lastUsed: k.lastUsedAt?.toISOString() ?? '-',
+    revoked: k.revokedAt?.toISOString() ?? '-',
+  })));
+  return 0;
+}
+
+async function revoke(name: string): Promise<number> {
+  const { count } = await prisma.apiKey.updateMany({
+    where: { name, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) {
+    console.error(`❌ No active API key named "${name}"`);
+    return 1;
+  }
+  console.log(`🚫 Revoked API key "${name}"`);
+  return 0;
+}
+
+async function main(): Promise<number> {
+  const [command, ...rest] = process.argv.slice(2).filter((arg) => arg !== '--');
+  let run: () => Promise<number>;
+  try {
+    switch (command) {
+      case 'create': {
+        const options = parseCreate(rest);
+        run = () => create(options);
+        break;
+      }
+      case 'list':
+        run = list;
+        break;
+      case 'revoke':
+        if (!rest[0]) throw new Error('name is required');
+        run = () => revoke(rest[0]);
+        break;
+      default:
+        throw new Error(command ? `Unknown command: ${command}` : 'command is required');
+    }
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    console.error(USAGE);
+    return 2;
+  }
+  return run();
+}
+
+main()
+  .then(async (code) => {
+    await prisma.$disconnect();
+    process.exit(code);
+  })
+  .catch(async (err) => {
+    console.error(err);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
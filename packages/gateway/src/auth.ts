@@ -0,0 +1,417 @@
+// Authentication, rate limiting and usage counters
+//
+// Callers identify themselves with either
+//   - an API key: `X-Api-Key: otk_...` (or `Authorization: Bearer otk_...`),
+//     issued with `pnpm --filter @ottochain/gateway api-keys create <name>`; or
+//   - a wallet session: `Authorization: Bearer ots_...`, returned by the
+//     createSession mutation for a requestSessionChallenge challenge signed
+//     with the wallet key.
+// Everyone else is anonymous and limited per IP. Mutations, other than the two
+// sign-in mutations, need an API key or a session.
+//
+// Each request counts against a one-minute window per caller and against daily
+// usage counters (readable by admin keys through the apiUsage query), both in
+// Redis.
+
+import { createHash, randomBytes } from 'node:crypto';
+import { GraphQLError, Kind, getOperationAST, parse, type DocumentNode, type OperationDefinitionNode } from 'graphql';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+export const API_KEY_PREFIX = 'otk_';
+export const SESSION_TOKEN_PREFIX = 'ots_';
+
+/** Value of `purpose` in every sign-in challenge, so it can't be replayed as another signed message */
+export const SESSION_CHALLENGE_PURPOSE = 'ottochain:gateway-session';
+
+/** Mutations anonymous callers may run: signing in */
+export const PUBLIC_MUTATIONS = new Set(['requestSessionChallenge', 'createSession']);
+
+export type AuthInfo =
+  | { kind: 'anonymous'; ip: string }
+  | { kind: 'apiKey'; keyId: number; name: string; admin: boolean; rateLimitPerMinute: number | null }
+  | { kind: 'wallet'; address: string };
+
+export type Credential = { type: 'apiKey' | 'session'; token: string };
+
+export interface ApiKeyRecord {
+  id: number;
+  name: string;
+  admin: boolean;
+  rateLimitPerMinute: number | null;
+  revokedAt: Date | null;
+}
+
+export interface AuthDeps {
+  findApiKey(keyHash: string): Promise<ApiKeyRecord | null>;
+  sessions: Pick<SessionStore, 'getSession'>;
+}
+
+export interface RateLimits {
+  anonymous: number;
+  authenticated: number;
+}
+
+/** The subset of the ioredis client used here */
+export interface AuthRedisClient {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<number>;
+  hgetall(key: string): Promise<Record<string, string>>;
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+function unauthenticated(message: string): GraphQLError {
+  return new GraphQLError(message, { extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } } });
+}
+
+// ── Credentials ─────────────────────────────────────────────────────────────
+
+/** A new API key; store only `keyHash` and show `key` to the operator once */
+export function generateApiKey(): { key: string; keyHash: string; prefix: string } {
+  const key = API_KEY_PREFIX + randomBytes(24).toString('base64url');
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX.length + 6) };
+}
+
+export function hashApiKey(key: string): string {
+  return sha256(key);
+}
+
+/**
+ * Read the credential from HTTP headers or graphql-ws connectionParams
+ * (`{ apiKey }` or `{ authorization }`)
+ */
+export function readCredential(source: Record<string, unknown> | undefined): Credential | null {
+  const apiKey = source?.['x-api-key'] ?? source?.apiKey;
+  if (typeof apiKey === 'string' && apiKey) {
+    return { type: 'apiKey', token: apiKey };
+  }
+
+  const authorization = source?.authorization ?? source?.Authorization;
+  if (typeof authorization !== 'string') return null;
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization.trim());
+  if (!match) return null;
+  const token = match[1];
+  return { type: token.startsWith(SESSION_TOKEN_PREFIX) ? 'session' : 'apiKey', token };
+}
+
+/**
+ * Resolve a credential to the caller. Missing credentials are anonymous;
+ * unknown, revoked or expired ones are rejected rather than downgraded, so a
+ * misconfigured client notices.
+ */
+export async function resolveAuth(credential: Credential | null, ip: string, deps: AuthDeps): Promise<AuthInfo> {
+  if (!credential) return { kind: 'anonymous', ip };
+
+  if (credential.type === 'session') {
+    const address = await deps.sessions.getSession(credential.token);
+    if (!address) throw unauthenticated('Session expired or unknown; sign in again');
+    return { kind: 'wallet', address };
+  }
+
+  const key = await deps.findApiKey(hashApiKey(credential.token));
+  if (!key || key.revokedAt) throw unauthenticated('Invalid or revoked API key');
+  return {
+    kind: 'apiKey',
+    keyId: key.id,
+    name: key.name,
+    admin: key.admin,
+    rateLimitPerMinute: key.rateLimitPerMinute,
+  };
+}
+
+/** Usage/rate-limit bucket for a caller */
+export function subjectOf(auth: AuthInfo): string {
+  switch (auth.kind) {
+    case 'apiKey': return `key:${auth.name}`;
+    case 'wallet': return `wallet:${auth.address}`;
+    case 'anonymous': return `ip:${auth.ip}`;
+  }
+}
+
+export function limitFor(auth: AuthInfo, limits: RateLimits): number {
+  if (auth.kind === 'anonymous') return limits.anonymous;
+  if (auth.kind === 'apiKey' && auth.rateLimitPerMinute != null) return auth.rateLimitPerMinute;
+  return limits.authenticated;
+}
+
+// ── Access checks ───────────────────────────────────────────────────────────
+
+/**
+ * Reject mutations from anonymous callers unless every top-level field is a
+ * sign-in mutation. Fragment spreads at the top level count as non-public.
+ */
+export function assertOperationAllowed(auth: AuthInfo, operation: OperationDefinitionNode): void {
+  if (operation.operation !== 'mutation' || auth.kind !== 'anonymous') return;
+
+  const allPublic = operation.selectionSet.selections.every(
+    (selection) => selection.kind === Kind.FIELD && PUBLIC_MUTATIONS.has(selection.name.value)
+  );
+  if (!allPublic) {
+    throw unauthenticated('Mutations require an API key or wallet session');
+  }
+}
+
+export function assertAdmin(auth: AuthInfo): void {
+  if (auth.kind !== 'apiKey' || !auth.admin) {
+    throw new GraphQLError('Admin API key required', { extensions: { code: 'FORBIDDEN', http: { status: 403 } } });
+  }
+}
+
+// ── Wallet sessions ─────────────────────────────────────────────────────────
+
+/** The value the wallet signs to open a session */
+export interface SessionChallenge {
+  purpose: typeof SESSION_CHALLENGE_PURPOSE;
+  address: string;
+  nonce: string;
+  expiresAt: string;
+}
+
+// GET + DEL in one step so a challenge can be redeemed once
+const TAKE_SCRIPT = `
+local v = redis.call('GET', KEYS[1])
+if v then redis.call('DEL', KEYS[1]) end
+return v
+`;
+
+export class SessionStore {
+  private readonly redis: AuthRedisClient;
+  private readonly keyPrefix: string;
+
+  constructor(redis: AuthRedisClient, options: { keyPrefix?: string } = {}) {
+    this.redis = redis;
+    this.keyPrefix = options.keyPrefix ?? 'gateway:';
+  }
+
+  async createChallenge(address: string, ttlSeconds: number, now: Date = new Date()): Promise<SessionChallenge> {
+    const challenge: SessionChallenge = {
+      purpose: SESSION_CHALLENGE_PURPOSE,
+      address,
+      nonce: randomBytes(16).toString('hex'),
+      expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    };
+    await this.redis.set(this.challengeKey(challenge.nonce), JSON.stringify(challenge), 'EX', ttlSeconds);
+    return challenge;
+  }
+
+  /** Redeem a challenge: returns it at most once, and never after it expires */
+  async takeChallenge(nonce: string): Promise<SessionChallenge | null> {
+    const raw = await this.redis.eval(TAKE_SCRIPT, 1, this.challengeKey(nonce));
+    return typeof raw === 'string' ? (JSON.parse(raw) as SessionChallenge) : null;
+  }
+
+  /** Open a session for `address`; only the token's hash is stored */
+  async createSession(address: string, ttlSeconds: number): Promise<string> {
+    const token = SESSION_TOKEN_PREFIX + randomBytes(24).toString('base64url');
+    await this.redis.set(this.sessionKey(token), address, 'EX', ttlSeconds);
+    return token;
+  }
+
+  async getSession(token: string): Promise<string | null> {
+    return this.redis.get(this.sessionKey(token));
+  }
+
+  async revokeSession(token: string): Promise<boolean> {
+    return (await this.redis.del(this.sessionKey(token))) > 0;
+  }
+
+  private challengeKey(nonce: string): string {
+    return `${this.keyPrefix}session-challenge:${nonce}`;
+  }
+
+  private sessionKey(token: string): string {
+    return `${this.keyPrefix}session:${sha256(token)}`;
+  }
+}
+
+// ── Rate limiting and usage ─────────────────────────────────────────────────
+
+const WINDOW_SECONDS = 60;
+const USAGE_RETENTION_SECONDS = 35 * 86400;
+
+// KEYS: window counter, usage hash, limited hash; ARGV: window ttl, subject, limit, usage ttl
+const HIT_SCRIPT = `
+local n = redis.call('INCR', KEYS[1])
+if n == 1 then redis.call('EXPIRE', KEYS[1], ARGV[1]) end
+redis.call('HINCRBY', KEYS[2], ARGV[2], 1)
+redis.call('EXPIRE', KEYS[2], ARGV[4])
+if n > tonumber(ARGV[3]) then
+  redis.call('HINCRBY', KEYS[3], ARGV[2], 1)
+  redis.call('EXPIRE', KEYS[3], ARGV[4])
+end
+return n
+`;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the window resets */
+  resetSeconds: number;
+}
+
+export interface UsageRow {
+  day: string;
+  subject: string;
+  requests: number;
+  limited: number;
+}
+
+const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Fixed one-minute windows per subject, plus daily request and rejection
+ * counters per subject
+ */
+export class RateLimiter {
+  private readonly redis: AuthRedisClient;
+  private readonly keyPrefix: string;
+
+  constructor(redis: AuthRedisClient, options: { keyPrefix?: string } = {}) {
+    this.redis = redis;
+    this.keyPrefix = options.keyPrefix ?? 'gateway:';
+  }
+
+  async hit(subject: string, limit: number, now: Date = new Date()): Promise<RateLimitResult> {
+    const window = Math.floor(now.getTime() / 1000 / WINDOW_SECONDS);
+    const day = dayOf(now);
+    const count = Number(await this.redis.eval(
+      HIT_SCRIPT,
+      3,
+      `${this.keyPrefix}ratelimit:${subject}:${window}`,
+      `${this.keyPrefix}usage:${day}`,
+      `${this.keyPrefix}usage:${day}:limited`,
+      WINDOW_SECONDS,
+      subject,
+      limit,
+      USAGE_RETENTION_SECONDS
+    ));
+    return {
+      allowed: count <= limit,
+      limit,
+      remaining: Math.max(0, limit - count),
+      resetSeconds: (window + 1) * WINDOW_SECONDS - Math.floor(now.getTime() / 1000),
+    };
+  }
+
+  /** Daily counters for the last `days` days (today first), busiest callers first */
+  async usage(days: number, now: Date = new Date()): Promise<UsageRow[]> {
+    const rows: UsageRow[] = [];
+    for (let i = 0; i < days; i++) {
+      const day = dayOf(new Date(now.getTime() - i * 86400_000));
+      const [requests, limited] = await Promise.all([
+        this.redis.hgetall(`${this.keyPrefix}usage:${day}`),
+        this.redis.hgetall(`${this.keyPrefix}usage:${day}:limited`),
+      ]);
+      const dayRows = Object.entries(requests ?? {}).map(([subject, count]) => ({
+        day,
+        subject,
+        requests: Number(count),
+        limited: Number(limited?.[subject] ?? 0),
+      }));
+      rows.push(...dayRows.sort((a, b) => b.requests - a.requests));
+    }
+    return rows;
+  }
+}
+
+// ── Express ─────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the caller into `res.locals.auth` and enforce its rate limit.
+ * Rejections are GraphQL-shaped so clients handle them like other errors.
+ * If Redis is unreachable requests are let through rather than failing the API.
+ */
+export function authMiddleware(deps: AuthDeps & { limiter: RateLimiter; limits: RateLimits }): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let auth: AuthInfo;
+    try {
+      auth = await resolveAuth(readCredential(req.headers), req.ip ?? 'unknown', deps);
+    } catch (err) {
+      if (err instanceof GraphQLError) {
+        return res.status(401).json({ errors: [{ message: err.message, extensions: { code: 'UNAUTHENTICATED' } }] });
+      }
+      return next(err);
+    }
+    res.locals.auth = auth;
+
+    let result: RateLimitResult;
+    try {
+      result = await deps.limiter.hit(subjectOf(auth), limitFor(auth, deps.limits));
+    } catch (err) {
+      console.error('[auth] rate limiter unavailable:', err instanceof Error ? err.message : err);
+      return next();
+    }
+
+    res.setHeader('RateLimit-Limit', result.limit);
+    res.setHeader('RateLimit-Remaining', result.remaining);
+    res.setHeader('RateLimit-Reset', result.resetSeconds);
+    if (!result.allowed) {
+      res.setHeader('Retry-After', result.resetSeconds);
+      return res.status(429).json({
+        errors: [{ message: `Rate limit of ${result.limit} requests per minute exceeded`, extensions: { code: 'RATE_LIMITED' } }],
+      });
+    }
+    next();
+  };
+}
+
+// ── WebSocket (graphql-ws) ──────────────────────────────────────────────────
+
+/** Per-connection state graphql-ws hands to the hooks below */
+export interface SubscriptionConnection {
+  connectionParams?: Readonly<Record<string, unknown>>;
+  extra: { request: { socket: { remoteAddress?: string } }; auth?: AuthInfo };
+}
+
+/**
+ * graphql-ws hooks: resolve the caller once from connection_init (bad
+ * credentials close the socket with 4403), then check and count every
+ * operation like an HTTP request
+ */
+export function subscriptionAuthHooks(deps: AuthDeps & { limiter: RateLimiter; limits: RateLimits }) {
+  return {
+    onConnect: async (ctx: SubscriptionConnection): Promise<boolean> => {
+      const ip = ctx.extra.request.socket.remoteAddress ?? 'unknown';
+      try {
+        ctx.extra.auth = await resolveAuth(readCredential(ctx.connectionParams), ip, deps);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    onSubscribe: async (
+      ctx: SubscriptionConnection,
+      message: { payload: { query: string; operationName?: string | null } }
+    ): Promise<GraphQLError[] | void> => {
+      const auth = ctx.extra.auth ?? { kind: 'anonymous', ip: 'unknown' };
+
+      let document: DocumentNode;
+      try {
+        document = parse(message.payload.query);
+      } catch {
+        return; // graphql-ws reports the syntax error
+      }
+      const operation = getOperationAST(document, message.payload.operationName);
+      try {
+        if (operation) assertOperationAllowed(auth, operation);
+      } catch (err) {
+        return [err as GraphQLError];
+      }
+
+      try {
+        const result = await deps.limiter.hit(subjectOf(auth), limitFor(auth, deps.limits));
+        if (!result.allowed) {
+          return [new GraphQLError(`Rate limit of ${result.limit} requests per minute exceeded`, {
+            extensions: { code: 'RATE_LIMITED' },
+          })];
+        }
+      } catch (err) {
+        console.error('[auth] rate limiter unavailable:', err instanceof Error ? err.message : err);
+      }
+    },
+  };
+}
@@ -0,0 +1,93 @@
+// Bridge mutation results
+//
+// Maps bridge responses onto the GraphQL *Result types: success or error, the
+// transaction hash, and the fiber the transaction creates or transitions. The
+// bridge picks fiber IDs before submitting, so clients learn them right away
+// and can query the fiber once the indexer has seen it.
+
+import type { BridgeResponse, CorporateAction } from '@ottochain/shared';
+
+type BridgeTx = { hash?: string; hashes?: string[] };
+
+export interface TxResult {
+  success: boolean;
+  fiberId?: string | null;
+  txHash?: string | null;
+  txHashes: string[];
+  error?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Result for a bridge call. txHash is the last transaction submitted, for
+ * actions that take several (all of them are in txHashes).
+ */
+export function txResult<T extends BridgeTx>(
+  result: BridgeResponse<T>,
+  fiberIdOf: (data: T) => string | undefined,
+  extra: (data: T) => Record<string, unknown> = () => ({})
+): TxResult {
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error ?? 'Bridge request failed', txHashes: [] };
+  }
+  const txHashes = result.data.hashes ?? (result.data.hash ? [result.data.hash] : []);
+  return {
+    success: true,
+    fiberId: fiberIdOf(result.data) ?? null,
+    txHash: txHashes.at(-1) ?? null,
+    txHashes,
+    ...extra(result.data),
+  };
+}
+
+/** GraphQL DAOType → bridge create-dao type; SIMPLE is role-based governance like SINGLE */
+export const DAO_TYPE_TO_BRIDGE = {
+  SIMPLE: 'Single',
+  SINGLE: 'Single',
+  THRESHOLD: 'Threshold',
+  MULTISIG: 'Multisig',
+  TOKEN: 'Token',
+} as const;
+
+/** GraphQL VoteChoice → bridge vote ('FOR' → 'For') */
+export function voteChoiceToBridge(choice: 'FOR' | 'AGAINST' | 'ABSTAIN'): 'For' | 'Against' | 'Abstain' {
+  return (choice[0] + choice.slice(1).toLowerCase()) as 'For' | 'Against' | 'Abstain';
+}
+
+/** Response field naming the fiber each corporate action creates or transitions */
+export const CORPORATE_ACTION_FIBER: Record<CorporateAction, string> = {
+  'board/elect': 'boardId',
+  'board/meeting': 'boardId',
+  'board/resolution': 'resolutionId',
+  'board/consent': 'resolutionId',
+  'shareholders/meeting': 'meetingId',
+  'shareholders/vote': 'meetingId',
+  'shareholders/proxy': 'proxyId',
+  'officers/appoint': 'officersId',
+  'officers/remove': 'officersId',
+  'securities/issue': 'securityId',
+  'securities/transfer': 'securityId',
+  'compliance/file': 'complianceId',
+};
+
+/**
+ * Result for a corporate action: fiberId per CORPORATE_ACTION_FIBER (the
+ * entity itself for incorporate and amend-charter), and every *Id the bridge
+ * returned in `ids`
+ */
+export function corporateResult<T extends BridgeTx>(
+  action: CorporateAction | 'incorporate' | 'amend-charter',
+  result: BridgeResponse<T>,
+  entityId?: string
+): TxResult {
+  const field = action === 'incorporate' || action === 'amend-charter' ? 'entityId' : CORPORATE_ACTION_FIBER[action];
+  const idsOf = (data: T): Record<string, string> =>
+    Object.fromEntries(
+      Object.entries(data).flatMap(([key, value]) => (key.endsWith('Id') && typeof value === 'string' ? [[key, value]] : []))
+    );
+  return txResult(
+    result,
+    (data) => idsOf(data)[field],
+    (data) => ({ entityId: idsOf(data).entityId ?? entityId ?? null, ids: idsOf(data) })
+  );
+}
@@ -0,0 +1,163 @@
+// Persisted queries and response caching
+//
+// Automatic persisted queries (APQ): once the gateway has seen a query, clients
+// can send its sha256 instead of the text. Apollo implements the protocol; the
+// query texts are kept in Redis (RedisKeyValueCache) so every gateway instance
+// knows them.
+//
+// Response cache: results of queries are stored in Redis, keyed by query hash,
+// operation name and variables, for as long as the schema's @cacheControl hints
+// allow (capped by maxAge). Fields without a hint have maxAge 0, so only
+// operations made up entirely of hinted fields are cached, and PRIVATE results
+// never are. Entries belong to a generation that invalidate() advances — the
+// gateway calls it on the indexer's STATS_UPDATED and ACTIVITY_FEED events —
+// so new data retires every cached response at once; stale generations expire
+// on their own.
+
+import { createHash } from 'node:crypto';
+import type { ApolloServerPlugin, BaseContext } from '@apollo/server';
+
+/** The subset of the ioredis client used here */
+export interface CacheRedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+  del(key: string): Promise<number>;
+  incr(key: string): Promise<number>;
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// ── Persisted queries ───────────────────────────────────────────────────────
+
+/**
+ * Apollo KeyValueCache over Redis. Entries without a TTL keep `defaultTtl`
+ * so unused queries eventually leave.
+ */
+export class RedisKeyValueCache {
+  private readonly redis: CacheRedisClient;
+  private readonly keyPrefix: string;
+  private readonly defaultTtl: number;
+
+  constructor(redis: CacheRedisClient, options: { keyPrefix: string; defaultTtl: number }) {
+    this.redis = redis;
+    this.keyPrefix = options.keyPrefix;
+    this.defaultTtl = options.defaultTtl;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.redis.get(this.keyPrefix + key)) ?? undefined;
+  }
+
+  async set(key: string, value: string, options?: { ttl?: number | null }): Promise<void> {
+    await this.redis.set(this.keyPrefix + key, value, 'EX', options?.ttl || this.defaultTtl);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.redis.del(this.keyPrefix + key)) > 0;
+  }
+}
+
+// ── Response cache ──────────────────────────────────────────────────────────
+
+export interface CachedResponse {
+  data: Record<string, unknown>;
+  maxAge: number;
+  /** Epoch ms */
+  storedAt: number;
+}
+
+export class ResponseCache {
+  private readonly redis: CacheRedisClient;
+  private readonly keyPrefix: string;
+  /** Upper bound on any hint, in seconds */
+  readonly maxAge: number;
+
+  constructor(redis: CacheRedisClient, options: { keyPrefix?: string; maxAge: number }) {
+    this.redis = redis;
+    this.keyPrefix = options.keyPrefix ?? 'gateway:response:';
+    this.maxAge = options.maxAge;
+  }
+
+  /** Entry key for an operation in the current generation */
+  async keyFor(queryHash: string, operationName: string | null | undefined, variables: Record<string, unknown> | undefined): Promise<string> {
+    const generation = (await this.redis.get(this.generationKey())) ?? '0';
+    return `${this.keyPrefix}${generation}:${sha256(JSON.stringify([queryHash, operationName ?? null, sortKeys(variables ?? {})]))}`;
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const raw = await this.redis.get(key);
+    return raw ? (JSON.parse(raw) as CachedResponse) : null;
+  }
+
+  async set(key: string, data: Record<string, unknown>, maxAge: number, now: number = Date.now()): Promise<void> {
+    const ttl = Math.min(maxAge, this.maxAge);
+    if (ttl <= 0) return;
+    const entry: CachedResponse = { data, maxAge: ttl, storedAt: now };
+    await this.redis.set(key, JSON.stringify(entry), 'EX', ttl);
+  }
+
+  /** Retire every cached response */
+  async invalidate(): Promise<void> {
+    await this.redis.incr(this.generationKey());
+  }
+
+  private generationKey(): string {
+    return `${this.keyPrefix}generation`;
+  }
+}
+
+/** Seconds an entry has left, at least 0 */
+export function remainingAge(entry: CachedResponse, now: number = Date.now()): number {
+  return Math.max(0, entry.maxAge - Math.floor((now - entry.storedAt) / 1000));
+}
+
+/** Variables with object keys sorted, so `{a, b}` and `{b, a}` share an entry */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((k) => [k, sortKeys((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Serve queries from the response cache and store cacheable results.
+ * Responses say whether they were served from the cache in `X-Cache`.
+ * If Redis is unreachable queries run as if nothing were cached.
+ */
+export function responseCachePlugin<TContext extends BaseContext>(cache: ResponseCache): ApolloServerPlugin<TContext> {
+  const unavailable = (err: unknown) => {
+    console.error('[cache] response cache unavailable:', err instanceof Error ? err.message : err);
+    return null;
+  };
+
+  return {
+    async requestDidStart() {
+      let key: string | null = null;
+      return {
+        async responseForOperation({ operation, queryHash, operationName, request, response, overallCachePolicy }) {
+          if (operation.operation !== 'query' || !queryHash) return null;
+          key = await cache.keyFor(queryHash, operationName, request.variables).catch(unavailable);
+          const entry = key && (await cache.get(key).catch(unavailable));
+          if (!entry) return null;
+
+          key = null;
+          overallCachePolicy.replace({ maxAge: remainingAge(entry), scope: 'PUBLIC' });
+          response.http.headers.set('x-cache', 'HIT');
+          return { http: response.http, body: { kind: 'single', singleResult: { data: entry.data } } };
+        },
+        async willSendResponse({ response, overallCachePolicy }) {
+          if (!key) return;
+          response.http.headers.set('x-cache', 'MISS');
+          if (response.body.kind !== 'single') return;
+          const { data, errors } = response.body.singleResult;
+          const policy = overallCachePolicy.policyIfCacheable();
+          if (!data || errors?.length || !policy || policy.scope === 'PRIVATE') return;
+          await cache.set(key, data, policy.maxAge).catch(unavailable);
+        },
+      };
+    },
+  };
+}
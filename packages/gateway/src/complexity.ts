@@ -0,0 +1,270 @@
+// Query cost and depth limits
+//
+// Every operation is priced before it runs:
+//
+//   cost(field) = base + size × cost(selections)
+//
+// `base` is 0 for scalars, 1 for objects, or an override from FIELD_COSTS for
+// resolvers that do extra work (search, aggregates, calls to the metagraph).
+// `size` is how many items a list field can return: its `limit`/`first`/`last`
+// argument (or that argument's default), or DEFAULT_LIST_SIZE without one.
+// Connections are priced once and their `edges` take the connection's page
+// size, so totalCount and pageInfo aren't multiplied.
+//
+// Operations over the cost budget or deeper than the depth limit are rejected
+// before execution with QUERY_TOO_COMPLEX; every response reports its cost in
+// `extensions.cost`. Introspection fields are free.
+
+import {
+  GraphQLError,
+  Kind,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isLeafType,
+  isListType,
+  isObjectType,
+  isInterfaceType,
+  getOperationAST,
+  parse,
+  valueFromASTUntyped,
+  type DirectiveNode,
+  type DocumentNode,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  type GraphQLField,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+} from 'graphql';
+import type { ApolloServerPlugin } from '@apollo/server';
+
+/** Items assumed for list fields without a size argument */
+export const DEFAULT_LIST_SIZE = 20;
+
+/** Arguments that bound a list field's size */
+const SIZE_ARGS = ['limit', 'first', 'last'];
+
+/** Base cost overrides, `Type.field` → cost */
+export const FIELD_COSTS: Record<string, number> = {
+  'Query.search': 10,
+  'Query.searchAgents': 5,
+  'Query.recentActivity': 10,
+  'Query.networkStats': 5,
+  'Query.clusterStats': 5,
+  'Query.statsTrends': 3,
+  'Query.workflowTypes': 10,
+  'Query.marketStats': 20,
+  'Query.apiUsage': 5,
+  'Query.capTable': 5,
+  'CorporateEntity.capTable': 5,
+  'AgentConnection.totalCount': 5,
+  'ContractConnection.totalCount': 5,
+  'FiberConnection.totalCount': 5,
+  'FiberTransitionConnection.totalCount': 5,
+  'MarketConnection.totalCount': 5,
+  'IndexedSnapshotConnection.totalCount': 5,
+};
+
+export interface ComplexityLimits {
+  maxCost: number;
+  maxDepth: number;
+}
+
+export interface QueryCost {
+  cost: number;
+  depth: number;
+}
+
+interface Walk {
+  schema: GraphQLSchema;
+  fragments: Record<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+}
+
+function isSkipped(node: { directives?: readonly DirectiveNode[] }, variables: Record<string, unknown>): boolean {
+  for (const directive of node.directives ?? []) {
+    const arg = directive.arguments?.find((a) => a.name.value === 'if');
+    if (!arg) continue;
+    const value = valueFromASTUntyped(arg.value, variables);
+    if (directive.name.value === 'skip' && value === true) return true;
+    if (directive.name.value === 'include' && value === false) return true;
+  }
+  return false;
+}
+
+/** The field's page size argument (or its default), DEFAULT_LIST_SIZE if unset, null if it has none */
+function requestedSize(
+  field: GraphQLField<unknown, unknown>,
+  node: FieldNode,
+  variables: Record<string, unknown>
+): number | null {
+  for (const name of SIZE_ARGS) {
+    const argNode = node.arguments?.find((a) => a.name.value === name);
+    const value = argNode
+      ? valueFromASTUntyped(argNode.value, variables)
+      : field.args.find((a) => a.name === name)?.defaultValue;
+    if (typeof value === 'number') return Math.max(value, 0);
+  }
+  return field.args.some((a) => SIZE_ARGS.includes(a.name)) ? DEFAULT_LIST_SIZE : null;
+}
+
+/**
+ * @param pageSize - set inside a connection: the size its `edges` list takes
+ */
+function measure(
+  walk: Walk,
+  selectionSet: SelectionSetNode,
+  parent: GraphQLNamedType,
+  seen: Set<string>,
+  pageSize?: number
+): QueryCost {
+  let cost = 0;
+  let depth = 0;
+
+  for (const selection of selectionSet.selections) {
+    if (isSkipped(selection, walk.variables)) continue;
+
+    if (selection.kind === Kind.FIELD) {
+      const name = selection.name.value;
+      if (name.startsWith('__')) continue;
+      if (!isObjectType(parent) && !isInterfaceType(parent)) continue;
+      const field = parent.getFields()[name];
+      if (!field) continue; // validation reports it
+
+      const type = getNamedType(field.type);
+      const requested = requestedSize(field, selection, walk.variables);
+      let size = 1;
+      let childPageSize: number | undefined;
+      if (isListType(getNullableType(field.type))) {
+        size = name === 'edges' && pageSize !== undefined ? pageSize : (requested ?? DEFAULT_LIST_SIZE);
+      } else if (requested !== null) {
+        childPageSize = requested; // a connection
+      }
+
+      const child = selection.selectionSet && isCompositeType(type)
+        ? measure(walk, selection.selectionSet, type, seen, childPageSize)
+        : { cost: 0, depth: 0 };
+      const base = FIELD_COSTS[`${parent.name}.${name}`] ?? (isLeafType(type) ? 0 : 1);
+
+      cost += base + size * child.cost;
+      depth = Math.max(depth, 1 + child.depth);
+      continue;
+    }
+
+    // Fragments add their fields at the current level; union/interface
+    // branches are summed, which overestimates but never undercounts
+    let fragmentType = parent;
+    let fragmentSelections: SelectionSetNode;
+    if (selection.kind === Kind.INLINE_FRAGMENT) {
+      fragmentSelections = selection.selectionSet;
+      if (selection.typeCondition) {
+        fragmentType = walk.schema.getType(selection.typeCondition.name.value) ?? parent;
+      }
+    } else {
+      const fragment = walk.fragments[selection.name.value];
+      if (!fragment || seen.has(fragment.name.value)) continue;
+      fragmentSelections = fragment.selectionSet;
+      fragmentType = walk.schema.getType(fragment.typeCondition.name.value) ?? parent;
+      seen = new Set(seen).add(fragment.name.value);
+    }
+    const inner = measure(walk, fragmentSelections, fragmentType, seen, pageSize);
+    cost += inner.cost;
+    depth = Math.max(depth, inner.depth);
+  }
+
+  return { cost, depth };
+}
+
+/**
+ * Price one operation of a validated document
+ */
+export function queryCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operation: OperationDefinitionNode,
+  variables: Record<string, unknown> = {}
+): QueryCost {
+  const root = schema.getRootType(operation.operation);
+  if (!root) return { cost: 0, depth: 0 };
+
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[definition.name.value] = definition;
+    }
+  }
+  return measure({ schema, fragments, variables }, operation.selectionSet, root, new Set());
+}
+
+/**
+ * Throw QUERY_TOO_COMPLEX if the operation is over either limit
+ */
+export function assertWithinLimits(measured: QueryCost, limits: ComplexityLimits): void {
+  const extensions = { code: 'QUERY_TOO_COMPLEX', http: { status: 400 }, ...costExtension(measured, limits) };
+  if (measured.depth > limits.maxDepth) {
+    throw new GraphQLError(
+      `Query depth ${measured.depth} exceeds the limit of ${limits.maxDepth}; split it into smaller queries`,
+      { extensions }
+    );
+  }
+  if (measured.cost > limits.maxCost) {
+    throw new GraphQLError(
+      `Query cost ${measured.cost} exceeds the budget of ${limits.maxCost}; lower limit/first arguments or select fewer nested lists`,
+      { extensions }
+    );
+  }
+}
+
+function costExtension(measured: QueryCost, limits: ComplexityLimits) {
+  return { cost: { requested: measured.cost, maximum: limits.maxCost, depth: measured.depth, maxDepth: limits.maxDepth } };
+}
+
+/**
+ * Apollo plugin: price each operation once it is resolved, reject it if over
+ * the limits, and report the cost in `extensions.cost`
+ */
+export function complexityPlugin(limits: ComplexityLimits): ApolloServerPlugin {
+  return {
+    async requestDidStart() {
+      let measured: QueryCost | null = null;
+      return {
+        async didResolveOperation({ schema, document, operation, request }) {
+          if (!operation) return;
+          measured = queryCost(schema, document, operation, request.variables ?? {});
+          assertWithinLimits(measured, limits);
+        },
+        async willSendResponse({ response }) {
+          if (!measured || response.body.kind !== 'single') return;
+          const result = response.body.singleResult;
+          result.extensions = { ...result.extensions, ...costExtension(measured, limits) };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * The same check for graphql-ws operations (its onSubscribe hook), which
+ * don't pass through Apollo plugins
+ */
+export function checkOperationCost(
+  schema: GraphQLSchema,
+  payload: { query: string; operationName?: string | null; variables?: Record<string, unknown> | null },
+  limits: ComplexityLimits
+): GraphQLError[] | void {
+  let document: DocumentNode;
+  try {
+    document = parse(payload.query);
+  } catch {
+    return; // graphql-ws reports the syntax error
+  }
+  const operation = getOperationAST(document, payload.operationName);
+  if (!operation) return;
+  try {
+    assertWithinLimits(queryCost(schema, document, operation, payload.variables ?? {}), limits);
+  } catch (err) {
+    return [err as GraphQLError];
+  }
+}
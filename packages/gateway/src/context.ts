@@ -1,14 +1,77 @@
 // GraphQL Context
 
-import { prisma, type PrismaClient } from '@ottochain/shared';
+import type { Response } from 'express';
+import { prisma, getConfig, getRedisClient, type PrismaClient } from '@ottochain/shared';
+import { createLoaders, type Loaders } from './loaders.js';
+import {
+  RateLimiter,
+  SessionStore,
+  type ApiKeyRecord,
+  type AuthDeps,
+  type AuthInfo,
+  type RateLimits,
+  type SubscriptionConnection,
+} from './auth.js';
 
 export interface Context {
   prisma: PrismaClient;
-  // Future: add auth info, request metadata, etc.
+  /** Batching loaders for relation fields, fresh per request */
+  loaders: Loaders;
+  /** Who is calling, resolved by authMiddleware (HTTP) or subscriptionAuthHooks (WebSocket) */
+  auth: AuthInfo;
 }
 
-export async function createContext(): Promise<Context> {
+type AuthServices = AuthDeps & { sessions: SessionStore; limiter: RateLimiter; limits: RateLimits };
+
+// lastUsedAt is a hint for operators; don't write it on every request
+const LAST_USED_RESOLUTION_MS = 5 * 60_000;
+
+let _services: AuthServices | null = null;
+
+/** Session store, rate limiter and API key lookup, connected on first use */
+export function getAuthServices(): AuthServices {
+  if (!_services) {
+    const config = getConfig();
+    const redis = getRedisClient();
+    _services = {
+      sessions: new SessionStore(redis),
+      limiter: new RateLimiter(redis),
+      limits: {
+        anonymous: config.GATEWAY_RATE_LIMIT_ANONYMOUS,
+        authenticated: config.GATEWAY_RATE_LIMIT_AUTHENTICATED,
+      },
+      findApiKey,
+    };
+  }
+  return _services;
+}
+
+async function findApiKey(keyHash: string): Promise<ApiKeyRecord | null> {
+  const key = await prisma.apiKey.findUnique({ where: { keyHash } });
+  if (key && !key.revokedAt && (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS)) {
+    prisma.apiKey.update({ where: { id: key.id }, data: { lastUsedAt: new Date() } }).catch((err: Error) => {
+      console.error('[auth] failed to update lastUsedAt:', err.message);
+    });
+  }
+  return key;
+}
+
+export async function createContext({ res }: { res: Response }): Promise<Context> {
+  return {
+    prisma,
+    loaders: createLoaders(prisma),
+    auth: res.locals.auth ?? { kind: 'anonymous', ip: 'unknown' },
+  };
+}
+
+/**
+ * Context for a subscription operation: still batches per event, but never
+ * serves rows cached from an earlier event
+ */
+export async function createSubscriptionContext(ctx: SubscriptionConnection): Promise<Context> {
   return {
     prisma,
+    loaders: createLoaders(prisma, { cache: false }),
+    auth: ctx.extra.auth ?? { kind: 'anonymous', ip: 'unknown' },
   };
 }
@@ -0,0 +1,437 @@
+// Typed views over indexed Fibers
+//
+// DAOs, oracles, corporate entities and script oracles are indexed as generic
+// Fiber rows; the bridge routes that create them (governance.ts, oracle.ts,
+// corporate.ts, script.ts) decide the shape of `stateData`. These functions
+// read that JSON into the GraphQL types, keeping the Fiber base fields
+// (fiberId, currentState, ordinals, ...) alongside.
+//
+// Fields the state machines fill in later (proposals, votes, directors,
+// holders) are read defensively: missing or malformed values become null or
+// empty lists rather than errors.
+
+import type { Fiber } from '@prisma/client';
+
+type Json = Record<string, unknown>;
+
+function record(value: unknown): Json {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Json) : {};
+}
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function bool(value: unknown): boolean | null {
+  return typeof value === 'boolean' ? value : null;
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function records(value: unknown): Json[] {
+  return Array.isArray(value) ? value.map(record) : [];
+}
+
+// ============================================================================
+// Governance
+// ============================================================================
+
+/** stateData.schema written by /governance/create-dao → DAOType */
+export const DAO_SCHEMAS: Record<string, string> = {
+  Governance: 'SIMPLE',
+  MultisigDAO: 'MULTISIG',
+  TokenDAO: 'TOKEN',
+  ThresholdDAO: 'THRESHOLD',
+  SingleDAO: 'SINGLE',
+};
+
+/** DAO states in which stateData.proposal is still open */
+const OPEN_PROPOSAL_STATES = ['VOTING', 'PENDING', 'QUEUED'];
+
+export interface VoteView {
+  voter: string;
+  choice: 'FOR' | 'AGAINST' | 'ABSTAIN';
+  weight: number;
+}
+
+export interface ProposalView {
+  id: string;
+  daoId: string;
+  title: string;
+  description: string | null;
+  actionType: string | null;
+  payload: unknown;
+  proposer: string | null;
+  proposedAt: string | null;
+  status: string;
+  votes: VoteView[];
+  votesFor: number;
+  votesAgainst: number;
+  votesAbstain: number;
+}
+
+function choiceOf(value: unknown): VoteView['choice'] | null {
+  const choice = str(value)?.toUpperCase();
+  return choice === 'FOR' || choice === 'AGAINST' || choice === 'ABSTAIN' ? choice : null;
+}
+
+/**
+ * Votes as `{ [voter]: choice | { vote, weight } }` or a list of
+ * `{ voter|agent, vote, weight }`; multisig signatures count as FOR
+ */
+function votesOf(raw: unknown, signatures = false): VoteView[] {
+  const entries: Array<[string, unknown]> = Array.isArray(raw)
+    ? records(raw).map((v) => [str(v.voter) ?? str(v.agent) ?? '', v])
+    : Object.entries(record(raw));
+
+  const votes: VoteView[] = [];
+  for (const [voter, value] of entries) {
+    if (!voter) continue;
+    if (signatures) {
+      votes.push({ voter, choice: 'FOR', weight: 1 });
+      continue;
+    }
+    const v = record(value);
+    const choice = choiceOf(value) ?? choiceOf(v.vote) ?? choiceOf(v.choice);
+    if (choice) votes.push({ voter, choice, weight: num(v.weight) ?? 1 });
+  }
+  return votes;
+}
+
+function proposalView(daoId: string, raw: Json, status: string, votes: VoteView[]): ProposalView {
+  const tally = (choice: VoteView['choice']) =>
+    votes.filter((v) => v.choice === choice).reduce((sum, v) => sum + v.weight, 0);
+  return {
+    id: str(raw.id) ?? str(raw.proposalId) ?? '',
+    daoId,
+    title: str(raw.title) ?? 'Untitled Proposal',
+    description: str(raw.description),
+    actionType: str(raw.actionType),
+    payload: raw.payload ?? null,
+    proposer: str(raw.proposer) ?? str(raw.agent),
+    proposedAt: str(raw.proposedAt) ?? str(raw.createdAt),
+    status,
+    votes,
+    votesFor: tally('FOR'),
+    votesAgainst: tally('AGAINST'),
+    votesAbstain: tally('ABSTAIN'),
+  };
+}
+
+/**
+ * Every proposal a DAO fiber knows about: the open one first, then the
+ * executed, rejected, cancelled and vetoed history
+ */
+export function proposalsOf(fiber: Pick<Fiber, 'fiberId' | 'currentState' | 'stateData'>): ProposalView[] {
+  const sd = record(fiber.stateData);
+  const isMultisig = sd.schema === 'MultisigDAO';
+  const proposals: ProposalView[] = [];
+
+  const current = record(sd.proposal);
+  if (Object.keys(current).length > 0) {
+    const status = OPEN_PROPOSAL_STATES.includes(fiber.currentState) ? fiber.currentState : 'PENDING';
+    const votes = isMultisig ? votesOf(sd.signatures, true) : votesOf(sd.votes);
+    proposals.push(proposalView(fiber.fiberId, current, status, votes));
+  }
+
+  // Multisig DAOs record executed proposals as `actions`
+  const history: Array<[unknown, string]> = [
+    [sd.executedProposals ?? sd.actions, 'EXECUTED'],
+    [sd.rejectedProposals, 'REJECTED'],
+    [sd.cancelledProposals, 'CANCELLED'],
+    [sd.vetoedProposals, 'VETOED'],
+  ];
+  for (const [list, status] of history) {
+    for (const raw of records(list)) {
+      const votes = isMultisig ? votesOf(raw.signatures, true) : votesOf(raw.votes);
+      proposals.push(proposalView(fiber.fiberId, raw, status, votes));
+    }
+  }
+  return proposals;
+}
+
+export function daoView(fiber: Fiber) {
+  const sd = record(fiber.stateData);
+  const schema = str(sd.schema) ?? '';
+
+  const delegations = Object.entries(record(sd.delegations)).map(([delegator, value]) => {
+    const v = record(value);
+    return { delegator, delegate: str(value) ?? str(v.delegateTo) ?? '', weight: num(v.weight) ?? 1 };
+  });
+
+  return {
+    ...fiber,
+    daoId: fiber.fiberId,
+    daoType: DAO_SCHEMAS[schema] ?? 'SIMPLE',
+    name: str(sd.name) ?? 'Unnamed DAO',
+    description: str(sd.description),
+    creator: str(record(sd.metadata).createdBy),
+    signers: strings(sd.signers),
+    threshold: num(sd.threshold),
+    admins: strings(sd.admins),
+    proposers: strings(sd.proposers),
+    vetoers: strings(sd.vetoers),
+    executors: strings(sd.executors),
+    tokenId: str(sd.tokenId),
+    proposalThreshold: num(sd.proposalThreshold),
+    quorum: num(sd.quorum),
+    passingThreshold: num(sd.passingThreshold),
+    votingPeriodMs: num(sd.votingPeriodMs) ?? num(sd.proposalTTLMs),
+    // Simple DAOs use their veto period as the timelock
+    timelockMs: num(sd.timelockMs) ?? num(sd.vetoPeriodMs),
+    allowDelegation: bool(sd.allowDelegation) ?? schema === 'TokenDAO',
+    delegations: delegations.filter((d) => d.delegate),
+  };
+}
+
+// ============================================================================
+// Oracles
+// ============================================================================
+
+export function oracleView(fiber: Fiber) {
+  const sd = record(fiber.stateData);
+  const reputation = record(sd.reputation);
+  return {
+    ...fiber,
+    oracleId: fiber.fiberId,
+    address: str(sd.address) ?? fiber.owners[0] ?? '',
+    oracleStatus: str(sd.status) ?? fiber.currentState,
+    stake: num(sd.stake) ?? 0,
+    minStake: num(sd.minStake) ?? 0,
+    domains: strings(sd.domains),
+    accuracy: num(reputation.accuracy) ?? 100,
+    totalResolutions: num(reputation.totalResolutions) ?? 0,
+    disputesWon: num(reputation.disputesWon) ?? 0,
+    disputesLost: num(reputation.disputesLost) ?? 0,
+    slashingHistory: records(sd.slashingHistory),
+  };
+}
+
+// ============================================================================
+// Corporate
+// ============================================================================
+
+/** stateData.schema of each fiber /corporate/* creates */
+export const CORPORATE_SCHEMAS = {
+  entity: 'CorporateEntity',
+  board: 'CorporateBoard',
+  officers: 'CorporateOfficers',
+  compliance: 'CorporateCompliance',
+  securities: 'CorporateSecurities',
+} as const;
+
+/** Security states whose shares are no longer held */
+const RETIRED_SECURITY_STATES = ['CANCELLED', 'RETIRED', 'REDEEMED', 'REPURCHASED'];
+
+export function corporateEntityView(fiber: Fiber) {
+  const sd = record(fiber.stateData);
+  const jurisdiction = record(sd.jurisdiction);
+  const shareStructure = record(sd.shareStructure);
+  return {
+    ...fiber,
+    entityId: str(sd.entityId) ?? fiber.fiberId,
+    legalName: str(sd.legalName) ?? '',
+    entityType: str(sd.entityType) ?? 'C_CORP',
+    jurisdiction: { state: str(jurisdiction.state) ?? '', country: str(jurisdiction.country) ?? 'USA' },
+    registeredAgent: sd.registeredAgent ?? null,
+    incorporators: records(sd.incorporators),
+    fiscalYearEnd: str(sd.fiscalYearEnd),
+    shareClasses: records(shareStructure.classes).map((c) => ({
+      classId: str(c.classId) ?? '',
+      className: str(c.className) ?? '',
+      authorized: num(c.authorized) ?? 0,
+      issued: num(c.issued) ?? 0,
+      outstanding: num(c.outstanding) ?? 0,
+      treasury: num(c.treasury) ?? 0,
+      parValue: num(c.parValue) ?? 0,
+      votingRights: bool(c.votingRights) ?? true,
+      votesPerShare: num(c.votesPerShare) ?? 1,
+    })),
+    totalAuthorized: num(shareStructure.totalAuthorized) ?? 0,
+    charterAmendments: records(sd.charterAmendments),
+    createdBy: str(sd.createdBy),
+    boardId: str(sd.boardId),
+    officersId: str(sd.officersId),
+    complianceId: str(sd.complianceId),
+  };
+}
+
+export function boardView(fiber: Fiber) {
+  const sd = record(fiber.stateData);
+  const seats = record(sd.seats);
+  return {
+    ...fiber,
+    boardId: fiber.fiberId,
+    directors: records(sd.directors).map((d) => ({
+      directorId: str(d.directorId) ?? '',
+      name: str(d.name) ?? '',
+      email: str(d.email),
+      termStart: str(d.termStart),
+      termEnd: str(d.termEnd),
+      class: str(d.class),
+      isIndependent: bool(d.isIndependent) ?? false,
+      status: str(d.status),
+    })),
+    seatsAuthorized: num(seats.authorized) ?? 0,
+    seatsFilled: num(seats.filled) ?? 0,
+    seatsVacant: num(seats.vacant) ?? 0,
+    quorumRules: sd.quorumRules ?? null,
+    votingRules: sd.votingRules ?? null,
+    currentMeeting: sd.currentMeeting ?? null,
+    meetingHistory: records(sd.meetingHistory),
+  };
+}
+
+export function officersOf(fiber: Fiber | null) {
+  const sd = record(fiber?.stateData);
+  return records(sd.officers).map((o) => ({
+    officerId: str(o.officerId) ?? '',
+    name: str(o.name) ?? '',
+    title: str(o.title) ?? 'OTHER',
+    customTitle: str(o.customTitle),
+    appointedDate: str(o.appointedDate),
+    authorityLevel: str(o.authorityLevel),
+    spendingLimit: num(o.spendingLimit),
+    isInterim: bool(o.isInterim) ?? false,
+    status: str(o.status),
+  }));
+}
+
+export function complianceView(fiber: Fiber) {
+  const sd = record(fiber.stateData);
+  const score = record(sd.complianceScore);
+  return {
+    ...fiber,
+    complianceId: fiber.fiberId,
+    overallStatus: str(score.overallStatus) ?? 'GREEN',
+    openDeficiencies: num(score.openDeficiencies) ?? 0,
+    overdueFilings: num(score.overdueFilings) ?? 0,
+    upcomingDeadlines30Days: num(score.upcomingDeadlines30Days) ?? 0,
+    lastAssessedDate: str(score.lastAssessedDate),
+    filings: records(sd.filingHistory).map((f) => ({
+      filingId: str(f.filingId) ?? '',
+      filingType: str(f.filingType) ?? 'OTHER',
+      jurisdiction: str(f.jurisdiction),
+      filedDate: str(f.filedDate),
+      periodCovered: str(f.periodCovered),
+      confirmationNumber: str(f.confirmationNumber),
+      feePaid: num(f.feePaid),
+      filedBy: str(f.filedBy),
+      documentRef: str(f.documentRef),
+      nextDueDate: str(f.nextDueDate),
+    })),
+    registeredAgents: records(sd.registeredAgents),
+    filingCalendar: records(sd.filingCalendar),
+    deficiencies: records(sd.deficiencies),
+  };
+}
+
+export function securityView(fiber: Fiber) {
+  const sd = record(fiber.stateData);
+  const holder = record(sd.holder);
+  return {
+    ...fiber,
+    securityId: fiber.fiberId,
+    entityId: str(sd.entityId) ?? '',
+    shareClassId: str(sd.shareClass),
+    shareClassName: str(sd.shareClassName) ?? '',
+    shareCount: num(sd.shareCount) ?? 0,
+    parValue: num(sd.parValue),
+    form: str(sd.form),
+    holderId: str(holder.holderId),
+    holderName: str(holder.holderName),
+    holderType: str(holder.holderType),
+    transferHistory: records(sd.transferHistory),
+  };
+}
+
+interface CapTableEntity {
+  entityId: string;
+  totalAuthorized: number;
+  shareClasses: Array<{ className: string; votingRights: boolean; votesPerShare: number }>;
+}
+
+interface CapTableSecurity {
+  currentState: string;
+  shareClassName: string;
+  shareCount: number;
+  holderId: string | null;
+  holderName: string | null;
+  holderType: string | null;
+}
+
+/**
+ * Outstanding shares per holder and class, from the entity's security fibers.
+ * Securities not yet issued to a holder, or cancelled/redeemed, don't count.
+ */
+export function capTableOf(entity: CapTableEntity, securities: CapTableSecurity[]) {
+  const votesPerShare = new Map(entity.shareClasses.map((c) => [c.className, c.votingRights ? c.votesPerShare : 0]));
+  const holdings = new Map<string, {
+    holderId: string;
+    holderName: string | null;
+    holderType: string | null;
+    shareClass: string;
+    shares: number;
+    votes: number;
+  }>();
+
+  for (const security of securities) {
+    if (!security.holderId || RETIRED_SECURITY_STATES.includes(security.currentState)) continue;
+    const key = `${security.holderId}\u0000${security.shareClassName}`;
+    const holding = holdings.get(key) ?? {
+      holderId: security.holderId,
+      holderName: security.holderName,
+      holderType: security.holderType,
+      shareClass: security.shareClassName,
+      shares: 0,
+      votes: 0,
+    };
+    holding.shares += security.shareCount;
+    holding.votes += security.shareCount * (votesPerShare.get(security.shareClassName) ?? 1);
+    holdings.set(key, holding);
+  }
+
+  const totalOutstanding = [...holdings.values()].reduce((sum, h) => sum + h.shares, 0);
+  const totalVotes = [...holdings.values()].reduce((sum, h) => sum + h.votes, 0);
+  return {
+    entityId: entity.entityId,
+    totalAuthorized: entity.totalAuthorized,
+    totalOutstanding,
+    totalVotes,
+    holdings: [...holdings.values()]
+      .map((h) => ({
+        ...h,
+        ownershipPercent: totalOutstanding > 0 ? (h.shares / totalOutstanding) * 100 : 0,
+        votingPercent: totalVotes > 0 ? (h.votes / totalVotes) * 100 : 0,
+      }))
+      .sort((a, b) => b.shares - a.shares || a.holderId.localeCompare(b.holderId)),
+  };
+}
+
+// ============================================================================
+// Script oracles
+// ============================================================================
+
+/** Indexed script rows: see the indexer's scriptAsFiber */
+export const SCRIPT_WORKFLOW_TYPE = 'Script';
+
+export function scriptView(fiber: Fiber) {
+  const sd = record(fiber.stateData);
+  const accessControl = record(sd.accessControl);
+  return {
+    ...fiber,
+    scriptId: fiber.fiberId,
+    name: str(sd.name),
+    description: str(sd.description),
+    invokers: strings(accessControl.invokers),
+    program: record(fiber.definition).scriptProgram ?? null,
+    state: sd.state ?? null,
+    lastInvocation: sd.lastInvocation ?? null,
+  };
+}
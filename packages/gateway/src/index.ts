@@ -14,11 +14,21 @@ import bodyParser from 'body-parser';
 
 import { typeDefs } from './schema.js';
 import { resolvers } from './resolvers.js';
-import { createContext, type Context } from './context.js';
-import { getConfig } from '@ottochain/shared';
+import { createContext, createSubscriptionContext, getAuthServices, type Context } from './context.js';
+import { authMiddleware, assertOperationAllowed, subscriptionAuthHooks } from './auth.js';
+import { complexityPlugin, checkOperationCost } from './complexity.js';
+import { RedisKeyValueCache, ResponseCache, responseCachePlugin } from './cache.js';
+import { resolverMetricsPlugin } from './metrics.js';
+import { pubsub } from './pubsub.js';
+import { assertSearchReady } from './search.js';
+import { prisma, getConfig, getRedisClient, CHANNELS, metrics, METRICS_CONTENT_TYPE } from '@ottochain/shared';
 
 async function main() {
   const config = getConfig();
+  
+  // Refuse to start on a database set up with `db:push` alone, where search silently finds nothing
+  await assertSearchReady(prisma);
+  
   const app = express();
   const httpServer = createServer(app);
   
@@ -30,13 +40,59 @@ async function main() {
     path: '/graphql',
   });
 
-  const serverCleanup = useServer({ schema }, wsServer);
+  const auth = getAuthServices();
+  const queryLimits = { maxCost: config.GATEWAY_MAX_QUERY_COST, maxDepth: config.GATEWAY_MAX_QUERY_DEPTH };
+  const wsAuth = subscriptionAuthHooks(auth);
+  const serverCleanup = useServer(
+    {
+      schema,
+      context: createSubscriptionContext,
+      onConnect: wsAuth.onConnect,
+      onSubscribe: async (ctx, message) =>
+        (await wsAuth.onSubscribe(ctx, message)) ?? checkOperationCost(schema, message.payload, queryLimits),
+    },
+    wsServer
+  );
+
+  // Persisted queries and cached responses live in Redis, shared by all instances;
+  // new snapshot data from the indexer retires cached responses
+  const redis = getRedisClient();
+  const responseCache = new ResponseCache(redis, { maxAge: config.GATEWAY_RESPONSE_CACHE_MAX_AGE });
+  for (const channel of [CHANNELS.STATS_UPDATED, CHANNELS.ACTIVITY_FEED]) {
+    await pubsub.subscribe(channel, () => {
+      responseCache.invalidate().catch((err: Error) => {
+        console.error('[cache] failed to invalidate responses:', err.message);
+      });
+    });
+  }
 
   // Apollo Server
   const server = new ApolloServer<Context>({
     schema,
+    persistedQueries: {
+      cache: new RedisKeyValueCache(redis, { keyPrefix: 'gateway:apq:', defaultTtl: config.GATEWAY_APQ_TTL_SECONDS }),
+      ttl: config.GATEWAY_APQ_TTL_SECONDS,
+    },
     plugins: [
       ApolloServerPluginDrainHttpServer({ httpServer }),
+      complexityPlugin(queryLimits),
+      resolverMetricsPlugin<Context>(schema, {
+        duration: metrics.histogram(
+          'gateway_resolver_duration_seconds', 'Resolver run time by parent type and field', ['type', 'field']
+        ),
+        errors: metrics.counter('gateway_resolver_errors_total', 'Resolvers that threw, by parent type and field', ['type', 'field']),
+      }),
+      ...(config.GATEWAY_RESPONSE_CACHE_MAX_AGE > 0 ? [responseCachePlugin<Context>(responseCache)] : []),
+      {
+        // Mutations need an API key or wallet session (see auth.ts)
+        async requestDidStart() {
+          return {
+            async didResolveOperation({ operation, contextValue }) {
+              if (operation) assertOperationAllowed(contextValue.auth, operation);
+            },
+          };
+        },
+      },
       {
         async serverWillStart() {
           return {
@@ -56,6 +112,7 @@ async function main() {
     '/graphql',
     cors<cors.CorsRequest>(),
     bodyParser.json(),
+    authMiddleware(auth),
     expressMiddleware(server, {
       context: createContext,
     }),
@@ -77,6 +134,11 @@ async function main() {
     });
   });
 
+  // Prometheus metrics
+  app.get('/metrics', async (_, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(await metrics.render());
+  });
+
   // Start server
   await new Promise<void>((resolve) => {
     httpServer.listen({ port: config.GATEWAY_PORT, host: '0.0.0.0' }, resolve);
@@ -86,4 +148,7 @@ async function main() {
   console.log(`🔌 WebSocket subscriptions at ws://0.0.0.0:${config.GATEWAY_PORT}/graphql`);
 }
 
-main().catch(console.error);
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,194 @@
+// Per-request DataLoaders
+//
+// Relation field resolvers (Agent.platformLinks, Contract.proposer, ...) load
+// through these instead of querying Prisma once per parent. Loads issued in the
+// same tick are batched into one query per relation, so `leaderboard(limit: 100)
+// { platformLinks contractsAsProposer { counterparty } }` costs a handful of
+// queries instead of hundreds.
+//
+// Paginated relations (attestations, reputation history, transitions) key on
+// (parent, args). Keys with the same args share one nested-relation query,
+// which applies take/skip per parent.
+
+import DataLoader from 'dataloader';
+import type {
+  PrismaClient,
+  Agent,
+  PlatformLink,
+  Attestation,
+  Contract,
+  FiberTransition,
+  ReputationHistory,
+} from '@prisma/client';
+
+export interface Loaders {
+  agentById: DataLoader<number, Agent | null>;
+  agentByAddress: DataLoader<string, Agent | null>;
+  platformLinksByAgent: DataLoader<number, PlatformLink[]>;
+  attestationsByAgent: DataLoader<PageKey<number>, Attestation[], string>;
+  contractsByProposer: DataLoader<StateKey, Contract[], string>;
+  contractsByCounterparty: DataLoader<StateKey, Contract[], string>;
+  reputationHistoryByAgent: DataLoader<PageKey<number>, ReputationHistory[], string>;
+  transitionsByFiber: DataLoader<PageKey<string>, FiberTransition[], string>;
+}
+
+export interface PageKey<K> {
+  id: K;
+  limit: number;
+  offset?: number;
+}
+
+export interface StateKey {
+  agentId: number;
+  state?: string;
+}
+
+export interface LoaderOptions {
+  /**
+   * Cache results for the loaders' lifetime (default true). Subscriptions
+   * resolve many events with one context and must see fresh rows.
+   */
+  cache?: boolean;
+}
+
+const keyOf = (key: object) => JSON.stringify(key);
+
+/**
+ * Split keys into groups that share everything but the parent id, run one
+ * query per group and return results in key order
+ */
+async function loadGrouped<K extends object, Id, V>(
+  keys: readonly K[],
+  idOf: (key: K) => Id,
+  groupOf: (key: K) => string,
+  fetch: (ids: Id[], sample: K) => Promise<Map<Id, V>>,
+  empty: V
+): Promise<V[]> {
+  const groups = new Map<string, K[]>();
+  for (const key of keys) {
+    const group = groupOf(key);
+    groups.set(group, [...(groups.get(group) ?? []), key]);
+  }
+
+  const results = new Map<string, Map<Id, V>>();
+  await Promise.all([...groups].map(async ([group, members]) => {
+    results.set(group, await fetch([...new Set(members.map(idOf))], members[0]));
+  }));
+
+  return keys.map((key) => results.get(groupOf(key))?.get(idOf(key)) ?? empty);
+}
+
+function groupBy<T, K>(rows: T[], keyOf: (row: T) => K): Map<K, T[]> {
+  const map = new Map<K, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    map.set(key, [...(map.get(key) ?? []), row]);
+  }
+  return map;
+}
+
+export function createLoaders(db: PrismaClient, options: LoaderOptions = {}): Loaders {
+  const cache = options.cache ?? true;
+  const pageGroup = (key: PageKey<unknown>) => `${key.limit}:${key.offset ?? 0}`;
+
+  const contractsBy = (field: 'proposerId' | 'counterpartyId') =>
+    new DataLoader<StateKey, Contract[], string>(
+      (keys) => loadGrouped(
+        keys,
+        (key) => key.agentId,
+        (key) => key.state ?? '',
+        async (ids, sample) => {
+          const rows = await db.contract.findMany({
+            where: { [field]: { in: ids }, ...(sample.state && { state: sample.state as any }) },
+            orderBy: { id: 'asc' },
+          });
+          return groupBy(rows, (row: Contract) => row[field]);
+        },
+        [] as Contract[]
+      ),
+      { cache, cacheKeyFn: keyOf }
+    );
+
+  return {
+    agentById: new DataLoader<number, Agent | null>(async (ids) => {
+      const rows = await db.agent.findMany({ where: { id: { in: [...ids] } } });
+      const byId = new Map(rows.map((row) => [row.id, row] as const));
+      return ids.map((id) => byId.get(id) ?? null);
+    }, { cache }),
+
+    agentByAddress: new DataLoader<string, Agent | null>(async (addresses) => {
+      const rows = await db.agent.findMany({ where: { address: { in: [...addresses] } } });
+      const byAddress = new Map(rows.map((row) => [row.address, row] as const));
+      return addresses.map((address) => byAddress.get(address) ?? null);
+    }, { cache }),
+
+    platformLinksByAgent: new DataLoader<number, PlatformLink[]>(async (ids) => {
+      const rows = await db.platformLink.findMany({ where: { agentId: { in: [...ids] } } });
+      const byAgent = groupBy(rows, (row) => row.agentId);
+      return ids.map((id) => byAgent.get(id) ?? []);
+    }, { cache }),
+
+    attestationsByAgent: new DataLoader<PageKey<number>, Attestation[], string>(
+      (keys) => loadGrouped(
+        keys,
+        (key) => key.id,
+        pageGroup,
+        async (ids, { limit, offset = 0 }) => {
+          const agents = await db.agent.findMany({
+            where: { id: { in: ids } },
+            select: {
+              id: true,
+              attestationsReceived: { take: limit, skip: offset, orderBy: { createdAt: 'desc' } },
+            },
+          });
+          return new Map(agents.map((a) => [a.id, a.attestationsReceived] as const));
+        },
+        [] as Attestation[]
+      ),
+      { cache, cacheKeyFn: keyOf }
+    ),
+
+    contractsByProposer: contractsBy('proposerId'),
+    contractsByCounterparty: contractsBy('counterpartyId'),
+
+    reputationHistoryByAgent: new DataLoader<PageKey<number>, ReputationHistory[], string>(
+      (keys) => loadGrouped(
+        keys,
+        (key) => key.id,
+        pageGroup,
+        async (ids, { limit }) => {
+          const agents = await db.agent.findMany({
+            where: { id: { in: ids } },
+            select: { id: true, reputationHistory: { take: limit, orderBy: { recordedAt: 'asc' } } },
+          });
+          return new Map(agents.map((a) => [a.id, a.reputationHistory] as const));
+        },
+        [] as ReputationHistory[]
+      ),
+      { cache, cacheKeyFn: keyOf }
+    ),
+
+    transitionsByFiber: new DataLoader<PageKey<string>, FiberTransition[], string>(
+      (keys) => loadGrouped(
+        keys,
+        (key) => key.id,
+        pageGroup,
+        async (ids, { limit }) => {
+          const fibers = await db.fiber.findMany({
+            where: { fiberId: { in: ids } },
+            select: {
+              fiberId: true,
+              transitions: {
+                take: limit,
+                orderBy: [{ snapshotOrdinal: 'desc' }, { sequenceNumber: 'desc' }, { createdAt: 'desc' }],
+              },
+            },
+          });
+          return new Map(fibers.map((f) => [f.fiberId, f.transitions] as const));
+        },
+        [] as FiberTransition[]
+      ),
+      { cache, cacheKeyFn: keyOf }
+    ),
+  };
+}
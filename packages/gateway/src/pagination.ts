@@ -0,0 +1,198 @@
+// Relay-style cursor pagination
+//
+// Connections page with keyset cursors instead of offsets: a cursor holds the
+// sort-key values of a row, and the next page is "rows strictly after those
+// values" in the sort order. Pages stay stable while the indexer inserts rows,
+// and deep pages cost the same as the first one as long as the sort fields are
+// indexed (see the @@index entries in schema.prisma).
+//
+// Every sort ends in a unique field (the primary key) so rows with equal sort
+// values still have a total order.
+
+import { GraphQLError } from 'graphql';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface SortField {
+  field: string;
+  direction: 'asc' | 'desc';
+  /** Column may be NULL; Postgres puts NULLs last ascending and first descending */
+  nullable?: boolean;
+}
+
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Connection<T> {
+  edges: { cursor: string; node: T }[];
+  pageInfo: PageInfo;
+  /** Resolved only when selected (graphql-js calls function-valued fields) */
+  totalCount: () => Promise<number>;
+}
+
+/** The Prisma calls a connection needs, for one model */
+export interface ConnectionSource<T> {
+  findMany(args: any): Promise<T[]>;
+  count(args: any): Promise<number>;
+}
+
+// ── Cursors ─────────────────────────────────────────────────────────────────
+
+// Cursor values keep their type through JSON: Prisma compares DateTime and
+// BigInt columns against Date and bigint, not strings
+const replacer = (_key: string, value: unknown) =>
+  typeof value === 'bigint' ? { $n: value.toString() } : value;
+
+function revive(value: unknown): unknown {
+  if (value && typeof value === 'object') {
+    if ('$n' in value) return BigInt((value as { $n: string }).$n);
+    if ('$d' in value) return new Date((value as { $d: string }).$d);
+  }
+  return value;
+}
+
+/**
+ * Opaque cursor for a row: base64url JSON of the sort name and the row's sort
+ * values. The sort name keeps a cursor from being replayed under another order.
+ */
+export function encodeCursor(sortName: string, values: unknown[]): string {
+  const tagged = values.map((v) => (v instanceof Date ? { $d: v.toISOString() } : v));
+  return Buffer.from(JSON.stringify([sortName, tagged], replacer)).toString('base64url');
+}
+
+export function decodeCursor(sortName: string, cursor: string): unknown[] {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+  if (!Array.isArray(decoded) || !Array.isArray(decoded[1])) {
+    throw badInput(`Invalid cursor: ${cursor}`);
+  }
+  if (decoded[0] !== sortName) {
+    throw badInput('Cursor belongs to a different ordering; restart pagination without after/before');
+  }
+  return decoded[1].map(revive);
+}
+
+function badInput(message: string): GraphQLError {
+  return new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+}
+
+// ── Keyset ──────────────────────────────────────────────────────────────────
+
+/** Whether NULLs of `s` sort after non-NULLs, walking the sort forward (flip = false) or backward */
+function nullsLast(s: SortField, flip: boolean): boolean {
+  return (s.direction === 'asc') !== flip;
+}
+
+function direction(s: SortField, flip: boolean): 'asc' | 'desc' {
+  return flip ? (s.direction === 'asc' ? 'desc' : 'asc') : s.direction;
+}
+
+/** Prisma orderBy for `sort`, or for its exact reverse when `flip` */
+export function orderByFor(sort: SortField[], flip = false): object[] {
+  return sort.map((s) => {
+    const sortDir = direction(s, flip);
+    if (!s.nullable) return { [s.field]: sortDir };
+    return { [s.field]: { sort: sortDir, nulls: nullsLast(s, flip) ? 'last' : 'first' } };
+  });
+}
+
+/** Rows whose `s` value comes strictly after `value` */
+function strictlyAfter(s: SortField, value: unknown, flip: boolean): object | null {
+  const last = s.nullable && nullsLast(s, flip);
+  if (value === null) {
+    // Other NULLs tie (the next sort field decides); non-NULLs follow only if NULLs go first
+    return last ? null : { [s.field]: { not: null } };
+  }
+  const cmp = { [s.field]: { [direction(s, flip) === 'asc' ? 'gt' : 'lt']: value } };
+  return last ? { OR: [cmp, { [s.field]: null }] } : cmp;
+}
+
+/**
+ * Prisma where clause for rows strictly after `values` in `sort` (before them
+ * when `flip`): (a > x) OR (a = x AND b > y) OR ...
+ */
+export function keysetWhere(sort: SortField[], values: unknown[], flip = false): object {
+  const branches: object[] = [];
+
+  sort.forEach((s, i) => {
+    const strictly = strictlyAfter(s, values[i], flip);
+    if (!strictly) return;
+    const equal = sort.slice(0, i).map((p, j) => ({ [p.field]: values[j] }));
+    branches.push(equal.length ? { AND: [...equal, strictly] } : strictly);
+  });
+
+  return { OR: branches };
+}
+
+// ── Connections ─────────────────────────────────────────────────────────────
+
+/**
+ * Page through `source` with Relay arguments.
+ *
+ * `sortName` names the ordering in cursors; `sort` must end in a unique field.
+ * Forward pages (first/after) and backward pages (last/before) both query
+ * one row more than requested to tell whether another page exists.
+ */
+export async function connection<T extends Record<string, any>>(
+  source: ConnectionSource<T>,
+  where: object,
+  sortName: string,
+  sort: SortField[],
+  args: ConnectionArgs
+): Promise<Connection<T>> {
+  if (args.first != null && args.last != null) {
+    throw badInput('Pass either first or last, not both');
+  }
+  const backward = args.last != null || (args.before != null && args.first == null);
+  const size = backward ? (args.last ?? DEFAULT_PAGE_SIZE) : (args.first ?? DEFAULT_PAGE_SIZE);
+  if (size < 0 || size > MAX_PAGE_SIZE) {
+    throw badInput(`Page size must be between 0 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const cursor = backward ? args.before : args.after;
+  const page = cursor
+    ? { AND: [where, keysetWhere(sort, decodeCursor(sortName, cursor), backward)] }
+    : where;
+
+  const rows = await source.findMany({
+    where: page,
+    orderBy: orderByFor(sort, backward),
+    take: size + 1,
+  });
+
+  const more = rows.length > size;
+  const nodes = rows.slice(0, size);
+  if (backward) nodes.reverse();
+
+  const edges = nodes.map((node) => ({
+    cursor: encodeCursor(sortName, sort.map((s) => node[s.field] ?? null)),
+    node,
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: backward ? Boolean(cursor) : more,
+      hasPreviousPage: backward ? more : Boolean(cursor),
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+    totalCount: () => source.count({ where }),
+  };
+}
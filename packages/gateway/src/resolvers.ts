@@ -1,9 +1,53 @@
 // GraphQL Resolvers
 
 import { GraphQLScalarType, Kind } from 'graphql';
-import { prisma, getBridgeClient, CHANNELS } from '@ottochain/shared';
+import { withFilter } from 'graphql-subscriptions';
+import {
+  prisma,
+  getBridgeClient,
+  getConfig,
+  CHANNELS,
+  type BridgeCorporateRequest,
+  type BridgeCreateDAORequest,
+  type BridgeDAOActionResponse,
+  type BridgeIncorporateRequest,
+  type BridgeMarketActionResponse,
+  type BridgeMarketType,
+  type BridgeOracleSlashRequest,
+  type BridgeOracleTransitionRequest,
+  type BridgeProposeRequest,
+  type BridgeResponse,
+  type CorporateAction,
+} from '@ottochain/shared';
 import { pubsub } from './pubsub.js';
-import type { Context } from './context.js';
+import { connection, type ConnectionArgs, type SortField } from './pagination.js';
+import { assertAdmin } from './auth.js';
+import { getAuthServices, type Context } from './context.js';
+import {
+  CORPORATE_SCHEMAS,
+  DAO_SCHEMAS,
+  SCRIPT_WORKFLOW_TYPE,
+  boardView,
+  capTableOf,
+  complianceView,
+  corporateEntityView,
+  daoView,
+  officersOf,
+  oracleView,
+  proposalsOf,
+  scriptView,
+  securityView,
+} from './fiber-views.js';
+import {
+  inHitOrder,
+  searchAgents,
+  searchFacets,
+  searchFibers,
+  searchTransitions,
+  type SearchFilters,
+  type SearchHit,
+} from './search.js';
+import { DAO_TYPE_TO_BRIDGE, corporateResult, txResult, voteChoiceToBridge } from './bridge-results.js';
 
 // Subscription event names
 export const EVENTS = {
@@ -13,8 +57,177 @@ export const EVENTS = {
   ACTIVITY_FEED: 'ACTIVITY_FEED',
   STATS_UPDATED: 'STATS_UPDATED',
   MARKET_UPDATED: 'MARKET_UPDATED',
+  FIBER_UPDATED: 'FIBER_UPDATED',
+  FIBER_TRANSITION: 'FIBER_TRANSITION',
+  SNAPSHOT_ROLLBACK: 'SNAPSHOT_ROLLBACK',
 } as const;
 
+interface FiberUpdatedArgs {
+  fiberId?: string;
+  workflowType?: string;
+  owner?: string;
+}
+
+interface FiberTransitionArgs {
+  fiberId?: string;
+  eventName?: string;
+}
+
+interface AgentFilterArgs {
+  state?: string;
+  minReputation?: number;
+  maxReputation?: number;
+}
+
+interface FiberFilterArgs {
+  workflowType?: string;
+  status?: string;
+  owner?: string;
+}
+
+interface MarketFilterArgs {
+  marketType?: string;
+  marketStatus?: string;
+  creator?: string;
+}
+
+// Keyset orderings for the *Connection queries, keyed by the orderBy enum.
+// Each ends in the primary key; leading fields are indexed in schema.prisma.
+const AGENT_SORTS: Record<string, SortField[]> = {
+  REPUTATION_DESC: [{ field: 'reputation', direction: 'desc' }, { field: 'id', direction: 'desc' }],
+  REPUTATION_ASC: [{ field: 'reputation', direction: 'asc' }, { field: 'id', direction: 'asc' }],
+  CREATED_DESC: [{ field: 'createdAt', direction: 'desc' }, { field: 'id', direction: 'desc' }],
+  CREATED_ASC: [{ field: 'createdAt', direction: 'asc' }, { field: 'id', direction: 'asc' }],
+  NAME_ASC: [{ field: 'displayName', direction: 'asc', nullable: true }, { field: 'id', direction: 'asc' }],
+};
+
+const FIBER_SORTS: Record<string, SortField[]> = {
+  CREATED_DESC: [{ field: 'createdAt', direction: 'desc' }, { field: 'fiberId', direction: 'desc' }],
+  CREATED_ASC: [{ field: 'createdAt', direction: 'asc' }, { field: 'fiberId', direction: 'asc' }],
+  UPDATED_DESC: [{ field: 'updatedOrdinal', direction: 'desc' }, { field: 'fiberId', direction: 'desc' }],
+  SEQUENCE_DESC: [{ field: 'sequenceNumber', direction: 'desc' }, { field: 'fiberId', direction: 'desc' }],
+};
+
+const CONTRACT_SORT: SortField[] = [
+  { field: 'proposedAt', direction: 'desc' },
+  { field: 'id', direction: 'desc' },
+];
+
+const SNAPSHOT_SORT: SortField[] = [{ field: 'ordinal', direction: 'desc' }];
+
+// Snapshot order, then insertion order (sequence order within a snapshot)
+const TRANSITION_SORT: SortField[] = [
+  { field: 'snapshotOrdinal', direction: 'desc' },
+  { field: 'id', direction: 'desc' },
+];
+
+function agentWhere({ state, minReputation, maxReputation }: AgentFilterArgs) {
+  return {
+    ...(state && { state: state as any }),
+    ...(minReputation !== undefined && { reputation: { gte: minReputation } }),
+    ...(maxReputation !== undefined && { reputation: { lte: maxReputation } }),
+  };
+}
+
+async function contractWhere(agentAddress?: string, state?: string) {
+  let agentId: number | undefined;
+  if (agentAddress) {
+    const agent = await prisma.agent.findUnique({ where: { address: agentAddress } });
+    agentId = agent?.id;
+  }
+
+  return {
+    ...(state && { state: state as any }),
+    ...(agentId && {
+      OR: [{ proposerId: agentId }, { counterpartyId: agentId }],
+    }),
+  };
+}
+
+function fiberWhere({ workflowType, status, owner }: FiberFilterArgs) {
+  return {
+    ...(workflowType && { workflowType }),
+    ...(status && { status: status as any }),
+    ...(owner && { owners: { has: owner } }),
+  };
+}
+
+// Map GraphQL enum → stateData JSON values
+const MARKET_TYPE_MAP: Record<string, string> = {
+  PREDICTION: 'prediction',
+  AUCTION: 'auction',
+  CROWDFUND: 'crowdfund',
+  GROUP_BUY: 'group_buy',
+};
+
+/** JSON path filters on stateData for market queries */
+function marketJsonFilters({ marketType, marketStatus, creator }: MarketFilterArgs): any[] {
+  const jsonFilters: any[] = [];
+  if (marketType) {
+    jsonFilters.push({
+      stateData: { path: ['marketType'], equals: MARKET_TYPE_MAP[marketType] ?? marketType.toLowerCase() },
+    });
+  }
+  if (marketStatus) {
+    jsonFilters.push({
+      stateData: { path: ['status'], equals: marketStatus },
+    });
+  }
+  if (creator) {
+    jsonFilters.push({
+      stateData: { path: ['creator'], equals: creator },
+    });
+  }
+  return jsonFilters;
+}
+
+/** Fibers whose stateData.schema is one of `schemas` */
+function schemaFilter(schemas: string[]) {
+  return { OR: schemas.map((schema) => ({ stateData: { path: ['schema'], equals: schema } })) };
+}
+
+async function findSchemaFiber(fiberId: string, schemas: string[]) {
+  return prisma.fiber.findFirst({ where: { fiberId, ...schemaFilter(schemas) } });
+}
+
+async function securitiesOf(entityId: string) {
+  const rows = await prisma.fiber.findMany({
+    where: {
+      AND: [
+        schemaFilter([CORPORATE_SCHEMAS.securities]),
+        { stateData: { path: ['entityId'], equals: entityId } },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(securityView);
+}
+
+async function relatedFiber(fiberId: string | null) {
+  return fiberId ? prisma.fiber.findUnique({ where: { fiberId } }) : null;
+}
+
+// === Bridge Mutations ===
+
+function marketResult(result: BridgeResponse<BridgeMarketActionResponse>) {
+  return txResult(result, (d) => d.marketId, (d) => ({ status: d.status ?? null }));
+}
+
+function daoResult(result: BridgeResponse<BridgeDAOActionResponse>) {
+  return txResult(result, (d) => d.daoId, (d) => ({ proposalId: d.proposalId ?? null }));
+}
+
+function oracleResult<T extends { hash: string; oracleId: string; status?: string; newStatus?: string }>(
+  result: BridgeResponse<T>,
+  fiberIdOf: (data: T) => string | undefined = (d) => d.oracleId
+) {
+  return txResult(result, fiberIdOf, (d) => ({ status: d.newStatus ?? d.status ?? null }));
+}
+
+async function corporateAction(action: CorporateAction, args: BridgeCorporateRequest) {
+  return corporateResult(action, await getBridgeClient().corporateAction(action, args), args.entityId);
+}
+
 // BigInt scalar for ordinal numbers
 const BigIntScalar = new GraphQLScalarType({
   name: 'BigInt',
@@ -79,17 +292,21 @@ export const resolvers = {
       };
 
       return prisma.agent.findMany({
-        where: {
-          ...(state && { state: state as any }),
-          ...(minReputation !== undefined && { reputation: { gte: minReputation } }),
-          ...(maxReputation !== undefined && { reputation: { lte: maxReputation } }),
-        },
+        where: agentWhere({ state, minReputation, maxReputation }),
         orderBy: orderByMap[orderBy] ?? { reputation: 'desc' },
         take: limit,
         skip: offset,
       });
     },
 
+    agentsConnection: async (
+      _: unknown,
+      { orderBy = 'REPUTATION_DESC', ...args }: AgentFilterArgs & ConnectionArgs & { orderBy?: string }
+    ) => {
+      const sort = AGENT_SORTS[orderBy] ? orderBy : 'REPUTATION_DESC';
+      return connection(prisma.agent, agentWhere(args), `agents:${sort}`, AGENT_SORTS[sort], args);
+    },
+
     leaderboard: async (_: unknown, { limit = 10 }: { limit?: number }) => {
       // Show top agents by reputation regardless of state (useful for testnet)
       return prisma.agent.findMany({
@@ -116,25 +333,22 @@ export const resolvers = {
         offset?: number;
       }
     ) => {
-      let agentId: number | undefined;
-      if (agentAddress) {
-        const agent = await prisma.agent.findUnique({ where: { address: agentAddress } });
-        agentId = agent?.id;
-      }
-
       return prisma.contract.findMany({
-        where: {
-          ...(state && { state: state as any }),
-          ...(agentId && {
-            OR: [{ proposerId: agentId }, { counterpartyId: agentId }],
-          }),
-        },
+        where: await contractWhere(agentAddress, state),
         orderBy: { proposedAt: 'desc' },
         take: limit,
         skip: offset,
       });
     },
 
+    contractsConnection: async (
+      _: unknown,
+      { agentAddress, state, ...args }: { agentAddress?: string; state?: string } & ConnectionArgs
+    ) => {
+      const where = await contractWhere(agentAddress, state);
+      return connection(prisma.contract, where, 'contracts', CONTRACT_SORT, args);
+    },
+
     recentActivity: async (_: unknown, { limit = 50 }: { limit?: number }) => {
       // Combine fiber transitions, attestations, and contracts into activity feed
       const [fiberTransitions, attestations, contracts] = await Promise.all([
@@ -295,57 +509,44 @@ export const resolvers = {
       };
     },
 
-    searchAgents: async (_: unknown, { query, limit = 10 }: { query: string; limit?: number }) => {
-      return prisma.agent.findMany({
-        where: {
-          OR: [
-            { displayName: { contains: query, mode: 'insensitive' } },
-            { address: { contains: query, mode: 'insensitive' } },
-          ],
-        },
-        take: limit,
-      });
+    searchAgents: async (_: unknown, { query, limit = 10, platform }: { query: string; limit?: number; platform?: string }) => {
+      const hits = await searchAgents(prisma, query, limit, { platform });
+      const agents = await prisma.agent.findMany({ where: { id: { in: hits.map((h) => Number(h.id)) } } });
+      return inHitOrder(hits, agents, (a) => a.id);
     },
 
-    // Unified search across fibers, agents, and transitions
-    search: async (_: unknown, { query, limit = 10 }: { query: string; limit?: number }) => {
-      const [fibers, agents, transitions] = await Promise.all([
-        // Search fibers by ID or workflow type
-        prisma.fiber.findMany({
-          where: {
-            OR: [
-              { fiberId: { contains: query, mode: 'insensitive' } },
-              { workflowType: { contains: query, mode: 'insensitive' } },
-              { currentState: { contains: query, mode: 'insensitive' } },
-            ],
-          },
-          take: limit,
-          orderBy: { updatedAt: 'desc' },
-        }),
-        // Search agents by name or address
-        prisma.agent.findMany({
-          where: {
-            OR: [
-              { displayName: { contains: query, mode: 'insensitive' } },
-              { address: { contains: query, mode: 'insensitive' } },
-            ],
-          },
-          take: limit,
-        }),
-        // Search transitions by event name
-        prisma.fiberTransition.findMany({
-          where: {
-            OR: [
-              { eventName: { contains: query, mode: 'insensitive' } },
-              { fiberId: { contains: query, mode: 'insensitive' } },
-            ],
-          },
-          take: limit,
-          orderBy: { createdAt: 'desc' },
-        }),
+    // Unified full-text search across fibers, agents, and transitions
+    search: async (
+      _: unknown,
+      { query, limit = 10, ...filters }: { query: string; limit?: number } & SearchFilters
+    ) => {
+      const [fiberHits, agentHits, transitionHits, facets] = await Promise.all([
+        searchFibers(prisma, query, limit, filters),
+        searchAgents(prisma, query, limit, filters),
+        searchTransitions(prisma, query, limit, filters),
+        searchFacets(prisma, query, filters),
+      ]);
+
+      const [fiberRows, agentRows, transitionRows] = await Promise.all([
+        prisma.fiber.findMany({ where: { fiberId: { in: fiberHits.map((h) => h.id) } } }),
+        prisma.agent.findMany({ where: { id: { in: agentHits.map((h) => Number(h.id)) } } }),
+        prisma.fiberTransition.findMany({ where: { id: { in: transitionHits.map((h) => Number(h.id)) } } }),
       ]);
+      const fibers = inHitOrder(fiberHits, fiberRows, (f) => f.fiberId);
+      const agents = inHitOrder(agentHits, agentRows, (a) => a.id);
+      const transitions = inHitOrder(transitionHits, transitionRows, (t) => t.id);
+
+      const withRow = <T>(kind: string, field: string, found: SearchHit[], rows: T[], idOf: (row: T) => string | number) => {
+        const byId = new Map(rows.map((row) => [String(idOf(row)), row] as const));
+        return found.flatMap((hit) => (byId.has(hit.id) ? [{ ...hit, kind, [field]: byId.get(hit.id) }] : []));
+      };
+      const hits = [
+        ...withRow('FIBER', 'fiber', fiberHits, fibers, (f) => f.fiberId),
+        ...withRow('AGENT', 'agent', agentHits, agents, (a) => a.id),
+        ...withRow('TRANSITION', 'transition', transitionHits, transitions, (t) => t.id),
+      ].sort((a, b) => b.rank - a.rank);
 
-      return { fibers, agents, transitions };
+      return { fibers, agents, transitions, hits, facets };
     },
 
     // === Generic Fiber Queries (chain-agnostic) ===
@@ -380,17 +581,21 @@ export const resolvers = {
       };
 
       return prisma.fiber.findMany({
-        where: {
-          ...(workflowType && { workflowType }),
-          ...(status && { status: status as any }),
-          ...(owner && { owners: { has: owner } }),
-        },
+        where: fiberWhere({ workflowType, status, owner }),
         orderBy: orderByMap[orderBy] ?? { updatedAt: 'desc' },
         take: limit,
         skip: offset,
       });
     },
 
+    fibersConnection: async (
+      _: unknown,
+      { orderBy = 'UPDATED_DESC', ...args }: FiberFilterArgs & ConnectionArgs & { orderBy?: string }
+    ) => {
+      const sort = FIBER_SORTS[orderBy] ? orderBy : 'UPDATED_DESC';
+      return connection(prisma.fiber, fiberWhere(args), `fibers:${sort}`, FIBER_SORTS[sort], args);
+    },
+
     workflowTypes: async () => {
       const fibers = await prisma.fiber.groupBy({
         by: ['workflowType'],
@@ -432,6 +637,10 @@ export const resolvers = {
       });
     },
 
+    snapshotsConnection: async (_: unknown, args: ConnectionArgs) => {
+      return connection(prisma.indexedSnapshot, {}, 'snapshots', SNAPSHOT_SORT, args);
+    },
+
     snapshot: async (_: unknown, { ordinal }: { ordinal: bigint }) => {
       return prisma.indexedSnapshot.findUnique({
         where: { ordinal },
@@ -466,37 +675,13 @@ export const resolvers = {
         orderBy?: string;
       }
     ) => {
-      // Map GraphQL enum → stateData JSON values
-      const typeMap: Record<string, string> = {
-        PREDICTION: 'prediction',
-        AUCTION: 'auction',
-        CROWDFUND: 'crowdfund',
-        GROUP_BUY: 'group_buy',
-      };
-
       const orderByMap: Record<string, any> = {
         CREATED_DESC: { createdAt: 'desc' },
         CREATED_ASC: { createdAt: 'asc' },
         UPDATED_DESC: { updatedAt: 'desc' },
       };
 
-      // Build JSON path filters for stateData fields
-      const jsonFilters: any[] = [];
-      if (marketType) {
-        jsonFilters.push({
-          stateData: { path: ['marketType'], equals: typeMap[marketType] ?? marketType.toLowerCase() },
-        });
-      }
-      if (marketStatus) {
-        jsonFilters.push({
-          stateData: { path: ['status'], equals: marketStatus },
-        });
-      }
-      if (creator) {
-        jsonFilters.push({
-          stateData: { path: ['creator'], equals: creator },
-        });
-      }
+      const jsonFilters = marketJsonFilters({ marketType, marketStatus, creator });
 
       // Oracle filter requires post-processing (JSON array membership).
       // Fetch in batches until we have enough results.
@@ -551,6 +736,23 @@ export const resolvers = {
       });
     },
 
+    marketsConnection: async (
+      _: unknown,
+      { oracle, orderBy = 'CREATED_DESC', ...args }: MarketFilterArgs & ConnectionArgs & { oracle?: string; orderBy?: string }
+    ) => {
+      // Oracle membership is filtered in SQL here (array_contains) so pages stay keyset-ordered
+      const jsonFilters = [
+        ...marketJsonFilters(args),
+        ...(oracle ? [{ stateData: { path: ['oracles'], array_contains: [oracle] } }] : []),
+      ];
+      const where = {
+        workflowType: 'Market',
+        AND: jsonFilters.length > 0 ? jsonFilters : undefined,
+      };
+      const sort = FIBER_SORTS[orderBy] ? orderBy : 'CREATED_DESC';
+      return connection(prisma.fiber, where, `markets:${sort}`, FIBER_SORTS[sort], args);
+    },
+
     marketStats: async () => {
       // TODO: Cache this or use materialized stats table if market count grows large.
       // Current implementation is O(n) over all markets.
@@ -603,10 +805,151 @@ export const resolvers = {
         activeOracles: oracleSet.size,
       };
     },
+
+    // === Governance Queries ===
+
+    dao: async (_: unknown, { daoId }: { daoId: string }) => {
+      const fiber = await findSchemaFiber(daoId, Object.keys(DAO_SCHEMAS));
+      return fiber && daoView(fiber);
+    },
+
+    daos: async (
+      _: unknown,
+      { daoType, member, limit = 20, offset = 0 }: { daoType?: string; member?: string; limit?: number; offset?: number }
+    ) => {
+      const schemas = Object.keys(DAO_SCHEMAS).filter((schema) => !daoType || DAO_SCHEMAS[schema] === daoType);
+      const fibers = await prisma.fiber.findMany({
+        where: {
+          AND: [
+            schemaFilter(schemas),
+            ...(member ? [{
+              OR: ['admins', 'signers', 'proposers'].map((role) => ({
+                stateData: { path: [role], array_contains: [member] },
+              })),
+            }] : []),
+          ],
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      });
+      return fibers.map(daoView);
+    },
+
+    proposals: async (_: unknown, { daoId, status }: { daoId: string; status?: string }) => {
+      const fiber = await findSchemaFiber(daoId, Object.keys(DAO_SCHEMAS));
+      if (!fiber) return [];
+      return proposalsOf(fiber).filter((p) => !status || p.status === status);
+    },
+
+    // === Oracle Queries ===
+
+    oracle: async (_: unknown, { oracleId }: { oracleId: string }) => {
+      const fiber = await findSchemaFiber(oracleId, ['Oracle']);
+      return fiber && oracleView(fiber);
+    },
+
+    oracles: async (
+      _: unknown,
+      { status, domain, address, limit = 20, offset = 0 }: {
+        status?: string;
+        domain?: string;
+        address?: string;
+        limit?: number;
+        offset?: number;
+      }
+    ) => {
+      const fibers = await prisma.fiber.findMany({
+        where: {
+          AND: [
+            schemaFilter(['Oracle']),
+            ...(status ? [{ stateData: { path: ['status'], equals: status } }] : []),
+            ...(domain ? [{ stateData: { path: ['domains'], array_contains: [domain] } }] : []),
+            ...(address ? [{ stateData: { path: ['address'], equals: address } }] : []),
+          ],
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      });
+      return fibers.map(oracleView);
+    },
+
+    // === Corporate Queries ===
+
+    corporateEntity: async (_: unknown, { entityId }: { entityId: string }) => {
+      const fiber = await findSchemaFiber(entityId, [CORPORATE_SCHEMAS.entity]);
+      return fiber && corporateEntityView(fiber);
+    },
+
+    capTable: async (_: unknown, { entityId }: { entityId: string }) => {
+      const fiber = await findSchemaFiber(entityId, [CORPORATE_SCHEMAS.entity]);
+      if (!fiber) return null;
+      const entity = corporateEntityView(fiber);
+      return capTableOf(entity, await securitiesOf(entity.entityId));
+    },
+
+    // === Script Queries ===
+
+    script: async (_: unknown, { scriptId }: { scriptId: string }) => {
+      const fiber = await prisma.fiber.findFirst({ where: { fiberId: scriptId, workflowType: SCRIPT_WORKFLOW_TYPE } });
+      return fiber && scriptView(fiber);
+    },
+
+    // === Operator Queries ===
+
+    apiUsage: async (_: unknown, { days = 1 }: { days?: number }, ctx: Context) => {
+      assertAdmin(ctx.auth);
+      const rows = await getAuthServices().limiter.usage(Math.min(Math.max(days, 1), 31));
+      return rows.map(({ subject, ...row }) => ({ caller: subject, ...row }));
+    },
   },
 
   // === Mutations ===
   Mutation: {
+    requestSessionChallenge: async (_: unknown, { address }: { address: string }) => {
+      const ttl = getConfig().GATEWAY_SESSION_CHALLENGE_TTL_SECONDS;
+      const challenge = await getAuthServices().sessions.createChallenge(address, ttl);
+      return { success: true, challenge, nonce: challenge.nonce, expiresAt: challenge.expiresAt };
+    },
+
+    createSession: async (
+      _: unknown,
+      { nonce, signature, publicKey }: { nonce: string; signature: string; publicKey: string }
+    ) => {
+      const { sessions } = getAuthServices();
+      // Single use: a failed attempt needs a fresh challenge
+      const challenge = await sessions.takeChallenge(nonce);
+      if (!challenge) {
+        return { success: false, error: 'Unknown or expired challenge; call requestSessionChallenge first' };
+      }
+
+      const bridge = getBridgeClient();
+      const result = await bridge.verifySignature({
+        data: challenge,
+        // SignatureProof ids omit the uncompressed-key 04 prefix
+        proof: { id: publicKey.length === 130 ? publicKey.slice(2) : publicKey, signature },
+      });
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+      if (!result.data.valid) {
+        return { success: false, error: 'Signature does not match the challenge' };
+      }
+      if (result.data.address !== challenge.address) {
+        return { success: false, error: `Challenge signed by ${result.data.address}, not ${challenge.address}` };
+      }
+
+      const ttl = getConfig().GATEWAY_SESSION_TTL_SECONDS;
+      const token = await sessions.createSession(challenge.address, ttl);
+      return {
+        success: true,
+        token,
+        address: challenge.address,
+        expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+      };
+    },
+
     registerAgent: async (
       _: unknown,
       args: {
@@ -773,94 +1116,315 @@ export const resolvers = {
         : { success: false, error: result.error };
     },
 
-    linkPlatform: async (_: unknown, _args: unknown, _ctx: Context) => {
-      // Platform linking requires updating agent state - implement when needed
-      return { success: false, error: 'Platform linking not yet implemented' };
-    },
-  },
+    requestPlatformChallenge: async (
+      _: unknown,
+      args: { agentAddress: string; platform: string; platformUserId: string },
+      _ctx: Context
+    ) => {
+      const bridge = getBridgeClient();
+      const result = await bridge.requestLinkChallenge(args);
 
-  // === Field Resolvers ===
-  Agent: {
-    platformLinks: async (parent: { id: number }) => {
-      return prisma.platformLink.findMany({ where: { agentId: parent.id } });
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      const { challenge, proofRequired } = result.data;
+      return {
+        success: true,
+        challenge,
+        nonce: challenge.nonce,
+        expiresAt: challenge.expiresAt,
+        proofRequired,
+      };
     },
 
-    attestationsReceived: async (
-      parent: { id: number },
-      { limit = 20, offset = 0 }: { limit?: number; offset?: number }
+    linkPlatform: async (
+      _: unknown,
+      args: {
+        agentAddress: string;
+        platform: string;
+        platformUserId: string;
+        platformUsername?: string;
+        nonce: string;
+        signature: string;
+        publicKey: string;
+        proof?: string;
+        privateKey?: string;
+      },
+      _ctx: Context
     ) => {
-      return prisma.attestation.findMany({
-        where: { agentId: parent.id },
-        take: limit,
-        skip: offset,
-        orderBy: { createdAt: 'desc' },
-      });
-    },
+      if (!args.privateKey) {
+        return { success: false, error: 'privateKey required to submit the link fiber' };
+      }
 
-    contractsAsProposer: async (parent: { id: number }, { state }: { state?: string }) => {
-      return prisma.contract.findMany({
-        where: {
-          proposerId: parent.id,
-          ...(state && { state: state as any }),
+      // The challenge fixes what gets linked; reject arguments that disagree with it
+      const challenge = await prisma.platformLinkChallenge.findUnique({ where: { nonce: args.nonce } });
+      if (
+        !challenge ||
+        challenge.agentAddress !== args.agentAddress ||
+        challenge.platform !== args.platform ||
+        challenge.platformUserId !== args.platformUserId
+      ) {
+        return { success: false, error: 'No matching challenge; call requestPlatformChallenge first' };
+      }
+
+      const agent = await prisma.agent.findUnique({ where: { address: args.agentAddress } });
+      if (!agent?.fiberId) {
+        return { success: false, error: 'Agent not found or has no fiberId' };
+      }
+
+      const bridge = getBridgeClient();
+      const result = await bridge.linkPlatform({
+        privateKey: args.privateKey,
+        fiberId: agent.fiberId,
+        nonce: args.nonce,
+        // SignatureProof ids omit the uncompressed-key 04 prefix
+        signature: {
+          id: args.publicKey.length === 130 ? args.publicKey.slice(2) : args.publicKey,
+          signature: args.signature,
         },
+        platformUsername: args.platformUsername,
+        proof: args.proof,
       });
-    },
 
-    contractsAsCounterparty: async (parent: { id: number }, { state }: { state?: string }) => {
-      return prisma.contract.findMany({
-        where: {
-          counterpartyId: parent.id,
-          ...(state && { state: state as any }),
-        },
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      // Verified once the indexer sees the link fiber; return any existing link meanwhile
+      const link = await prisma.platformLink.findUnique({
+        where: { platform_platformUserId: { platform: args.platform as any, platformUserId: args.platformUserId } },
       });
+      return { success: true, txHash: result.data?.hash, link };
     },
 
-    reputationHistory: async (parent: { id: number }, { limit = 50 }: { limit?: number }) => {
-      return prisma.reputationHistory.findMany({
-        where: { agentId: parent.id },
-        take: limit,
-        orderBy: { recordedAt: 'asc' },
+    // === Fiber Mutations ===
+    // Signed by the bridge with privateKey; see bridge-results.ts for the result shape
+
+    createFiber: async (
+      _: unknown,
+      args: {
+        privateKey: string;
+        definition: Record<string, unknown>;
+        initialData: Record<string, unknown>;
+        fiberId?: string;
+        parentFiberId?: string;
+      }
+    ) => txResult(await getBridgeClient().createFiber(args), (d) => d.fiberId),
+
+    transitionFiber: async (
+      _: unknown,
+      args: {
+        privateKey: string;
+        fiberId: string;
+        event: string;
+        payload?: Record<string, unknown>;
+        targetSequenceNumber?: number;
+      }
+    ) =>
+      txResult(await getBridgeClient().transitionFiber(args), (d) => d.fiberId, (d) => ({
+        targetSequenceNumber: d.targetSequenceNumber,
+      })),
+
+    // === Market Mutations ===
+
+    createMarket: async (
+      _: unknown,
+      { marketType, deadline, ...args }: {
+        privateKey: string;
+        marketType: string;
+        title: string;
+        description?: string;
+        deadline?: Date;
+        threshold?: number;
+        oracles?: string[];
+        quorum?: number;
+        terms?: Record<string, unknown>;
+      }
+    ) => {
+      const result = await getBridgeClient().createMarket({
+        ...args,
+        marketType: marketType.toLowerCase() as BridgeMarketType,
+        deadline: deadline?.toISOString(),
       });
+      return txResult(result, (d) => d.marketId, () => ({ status: 'PROPOSED' }));
     },
+
+    openMarket: async (_: unknown, args: { privateKey: string; marketId: string }) =>
+      marketResult(await getBridgeClient().openMarket(args)),
+
+    commitToMarket: async (
+      _: unknown,
+      args: { privateKey: string; marketId: string; amount: number; data?: Record<string, unknown> }
+    ) => marketResult(await getBridgeClient().commitToMarket(args)),
+
+    closeMarket: async (_: unknown, args: { privateKey: string; marketId: string }) =>
+      marketResult(await getBridgeClient().closeMarket(args)),
+
+    resolveMarket: async (
+      _: unknown,
+      args: { privateKey: string; marketId: string; outcome: string; proof?: string }
+    ) => marketResult(await getBridgeClient().resolveMarket(args)),
+
+    finalizeMarket: async (
+      _: unknown,
+      args: { privateKey: string; marketId: string; outcome: string; settlement?: Record<string, unknown> }
+    ) => marketResult(await getBridgeClient().finalizeMarket(args)),
+
+    claim: async (_: unknown, args: { privateKey: string; marketId: string; amount?: number }) =>
+      marketResult(await getBridgeClient().claim(args)),
+
+    refund: async (_: unknown, args: { privateKey: string; marketId: string; reason?: string }) =>
+      marketResult(await getBridgeClient().refund(args)),
+
+    cancelMarket: async (_: unknown, args: { privateKey: string; marketId: string; reason?: string }) =>
+      marketResult(await getBridgeClient().cancelMarket(args)),
+
+    // === DAO Mutations ===
+
+    createDao: async (
+      _: unknown,
+      { daoType, ...args }: Omit<BridgeCreateDAORequest, 'daoType'> & { daoType: keyof typeof DAO_TYPE_TO_BRIDGE }
+    ) => txResult(await getBridgeClient().createDao({ ...args, daoType: DAO_TYPE_TO_BRIDGE[daoType] }), (d) => d.daoId),
+
+    propose: async (_: unknown, args: BridgeProposeRequest) =>
+      daoResult(await getBridgeClient().propose(args)),
+
+    vote: async (
+      _: unknown,
+      { vote, ...args }: { privateKey: string; daoId: string; vote: 'FOR' | 'AGAINST' | 'ABSTAIN'; weight?: number }
+    ) => daoResult(await getBridgeClient().vote({ ...args, vote: voteChoiceToBridge(vote) })),
+
+    execute: async (_: unknown, { privateKey, daoId }: { privateKey: string; daoId: string }) =>
+      daoResult(await getBridgeClient().execute(privateKey, daoId)),
+
+    delegate: async (
+      _: unknown,
+      args: { privateKey: string; daoId: string; delegateTo: string; weight?: number }
+    ) => daoResult(await getBridgeClient().delegate(args)),
+
+    veto: async (_: unknown, args: { privateKey: string; daoId: string; reason: string }) =>
+      daoResult(await getBridgeClient().veto(args)),
+
+    // === Oracle Mutations ===
+
+    registerOracle: async (
+      _: unknown,
+      args: { privateKey: string; stake?: number; domains?: string[]; minStake?: number }
+    ) => oracleResult(await getBridgeClient().registerOracle(args), (d) => d.oracleId),
+
+    activateOracle: async (_: unknown, { privateKey, oracleId }: { privateKey: string; oracleId: string }) =>
+      oracleResult(await getBridgeClient().activateOracle(privateKey, oracleId)),
+
+    stakeOracle: async (_: unknown, args: { privateKey: string; oracleId: string; amount: number }) =>
+      oracleResult(await getBridgeClient().stakeOracle(args)),
+
+    recordOracleResolution: async (
+      _: unknown,
+      args: { privateKey: string; oracleId: string; marketId: string; correct: boolean }
+    ) => oracleResult(await getBridgeClient().recordOracleResolution(args)),
+
+    slashOracle: async (_: unknown, args: BridgeOracleSlashRequest) =>
+      oracleResult(await getBridgeClient().slashOracle(args)),
+
+    transitionOracle: async (
+      _: unknown,
+      { event, ...args }: { privateKey: string; oracleId: string; event: 'ACTIVATE' | 'REACTIVATE' | 'WITHDRAW' }
+    ) =>
+      oracleResult(await getBridgeClient().transitionOracle({
+        ...args,
+        event: event.toLowerCase() as BridgeOracleTransitionRequest['event'],
+      })),
+
+    // === Corporate Mutations ===
+
+    incorporate: async (
+      _: unknown,
+      { shareClasses, ...args }: Omit<BridgeIncorporateRequest, 'shareStructure'> & { shareClasses: Record<string, unknown>[] }
+    ) =>
+      corporateResult('incorporate', await getBridgeClient().incorporate({ ...args, shareStructure: { classes: shareClasses } })),
+
+    amendCharter: async (_: unknown, args: BridgeCorporateRequest) =>
+      corporateResult('amend-charter', await getBridgeClient().amendCharter(args), args.entityId),
+
+    electDirector: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('board/elect', args),
+
+    boardMeeting: async (_: unknown, { details, ...args }: BridgeCorporateRequest & { details?: Record<string, unknown> }) =>
+      corporateAction('board/meeting', { ...details, ...args }),
+
+    createBoardResolution: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('board/resolution', args),
+
+    writtenConsent: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('board/consent', args),
+
+    scheduleShareholderMeeting: async (
+      _: unknown,
+      { special, ...args }: BridgeCorporateRequest & { special?: boolean }
+    ) => corporateAction('shareholders/meeting', { ...args, action: special ? 'schedule_special' : 'schedule_annual' }),
+
+    shareholderVote: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('shareholders/vote', args),
+
+    proxy: async (_: unknown, { details, ...args }: BridgeCorporateRequest & { details?: Record<string, unknown> }) =>
+      corporateAction('shareholders/proxy', { ...details, ...args }),
+
+    appointOfficer: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('officers/appoint', args),
+
+    removeOfficer: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('officers/remove', args),
+
+    issueShares: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('securities/issue', args),
+
+    transferShares: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('securities/transfer', args),
+
+    fileCompliance: async (_: unknown, args: BridgeCorporateRequest) => corporateAction('compliance/file', args),
+  },
+
+  // === Field Resolvers ===
+  // Relations load through per-request DataLoaders (see loaders.ts)
+  Agent: {
+    platformLinks: (parent: { id: number }, _: unknown, ctx: Context) =>
+      ctx.loaders.platformLinksByAgent.load(parent.id),
+
+    attestationsReceived: (
+      parent: { id: number },
+      { limit = 20, offset = 0 }: { limit?: number; offset?: number },
+      ctx: Context
+    ) => ctx.loaders.attestationsByAgent.load({ id: parent.id, limit, offset }),
+
+    contractsAsProposer: (parent: { id: number }, { state }: { state?: string }, ctx: Context) =>
+      ctx.loaders.contractsByProposer.load({ agentId: parent.id, state }),
+
+    contractsAsCounterparty: (parent: { id: number }, { state }: { state?: string }, ctx: Context) =>
+      ctx.loaders.contractsByCounterparty.load({ agentId: parent.id, state }),
+
+    reputationHistory: (parent: { id: number }, { limit = 50 }: { limit?: number }, ctx: Context) =>
+      ctx.loaders.reputationHistoryByAgent.load({ id: parent.id, limit }),
   },
 
   Attestation: {
-    issuer: async (parent: { issuerId: number | null }) => {
-      if (!parent.issuerId) return null;
-      return prisma.agent.findUnique({ where: { id: parent.issuerId } });
-    },
+    issuer: (parent: { issuerId: number | null }, _: unknown, ctx: Context) =>
+      parent.issuerId ? ctx.loaders.agentById.load(parent.issuerId) : null,
   },
 
   Contract: {
-    proposer: async (parent: { proposerId: number }) => {
-      return prisma.agent.findUnique({ where: { id: parent.proposerId } });
-    },
-    counterparty: async (parent: { counterpartyId: number }) => {
-      return prisma.agent.findUnique({ where: { id: parent.counterpartyId } });
-    },
+    proposer: (parent: { proposerId: number }, _: unknown, ctx: Context) =>
+      ctx.loaders.agentById.load(parent.proposerId),
+    counterparty: (parent: { counterpartyId: number }, _: unknown, ctx: Context) =>
+      ctx.loaders.agentById.load(parent.counterpartyId),
   },
 
   Fiber: {
-    transitions: async (parent: { fiberId: string }, { limit = 20 }: { limit?: number }) => {
-      return prisma.fiberTransition.findMany({
-        where: { fiberId: parent.fiberId },
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-      });
-    },
+    transitions: (parent: { fiberId: string }, { limit = 20 }: { limit?: number }, ctx: Context) =>
+      ctx.loaders.transitionsByFiber.load({ id: parent.fiberId, limit }),
+
+    transitionsConnection: (parent: { fiberId: string }, args: ConnectionArgs) =>
+      connection(prisma.fiberTransition, { fiberId: parent.fiberId }, 'transitions', TRANSITION_SORT, args),
   },
 
   // === Market Field Resolvers ===
   // Markets are stored as Fiber rows; these extract typed fields from stateData JSON.
 
   Market: {
-    transitions: async (parent: { fiberId: string }, { limit = 20 }: { limit?: number }) => {
-      return prisma.fiberTransition.findMany({
-        where: { fiberId: parent.fiberId },
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-      });
-    },
+    transitions: (parent: { fiberId: string }, { limit = 20 }: { limit?: number }, ctx: Context) =>
+      ctx.loaders.transitionsByFiber.load({ id: parent.fiberId, limit }),
 
     marketType: (parent: { stateData: unknown }) => {
       const sd = parent.stateData as Record<string, unknown>;
@@ -962,10 +1526,47 @@ export const resolvers = {
     },
   },
 
+  // === Governance, Oracle and Corporate Field Resolvers ===
+  // Query resolvers return fiber-views objects; only relations resolve here.
+
+  DAO: {
+    transitions: (parent: { fiberId: string }, { limit = 20 }: { limit?: number }, ctx: Context) =>
+      ctx.loaders.transitionsByFiber.load({ id: parent.fiberId, limit }),
+    currentProposal: (parent: ReturnType<typeof daoView>) => {
+      const [first] = proposalsOf(parent);
+      return first && ['VOTING', 'PENDING', 'QUEUED'].includes(first.status) ? first : null;
+    },
+    proposals: (parent: ReturnType<typeof daoView>, { status }: { status?: string }) =>
+      proposalsOf(parent).filter((p) => !status || p.status === status),
+  },
+
+  Oracle: {
+    transitions: (parent: { fiberId: string }, { limit = 20 }: { limit?: number }, ctx: Context) =>
+      ctx.loaders.transitionsByFiber.load({ id: parent.fiberId, limit }),
+    agent: (parent: { address: string }, _: unknown, ctx: Context) =>
+      parent.address ? ctx.loaders.agentByAddress.load(parent.address) : null,
+  },
+
+  CorporateEntity: {
+    board: async (parent: { boardId: string | null }) => {
+      const fiber = await relatedFiber(parent.boardId);
+      return fiber && boardView(fiber);
+    },
+    officers: async (parent: { officersId: string | null }) => officersOf(await relatedFiber(parent.officersId)),
+    compliance: async (parent: { complianceId: string | null }) => {
+      const fiber = await relatedFiber(parent.complianceId);
+      return fiber && complianceView(fiber);
+    },
+    securities: (parent: { entityId: string }) => securitiesOf(parent.entityId),
+    capTable: async (parent: ReturnType<typeof corporateEntityView>) =>
+      capTableOf(parent, await securitiesOf(parent.entityId)),
+  },
+
   // === Subscriptions ===
   Subscription: {
     agentUpdated: {
-      subscribe: () => pubsub.asyncIterableIterator(CHANNELS.AGENT_UPDATED),
+      subscribe: (_: unknown, { address }: { address: string }) =>
+        pubsub.asyncIterableIterator(`${CHANNELS.AGENT_UPDATED}:${address}`),
       resolve: (payload: any) => payload,
     },
     newAttestation: {
@@ -973,7 +1574,12 @@ export const resolvers = {
       resolve: (payload: any) => payload,
     },
     contractUpdated: {
-      subscribe: () => pubsub.asyncIterableIterator(CHANNELS.CONTRACT_UPDATED),
+      subscribe: (_: unknown, { contractId }: { contractId?: string }) => {
+        const channel = contractId
+          ? `${CHANNELS.CONTRACT_UPDATED}:${contractId}`
+          : CHANNELS.CONTRACT_UPDATED;
+        return pubsub.asyncIterableIterator(channel);
+      },
       resolve: (payload: any) => payload,
     },
     activityFeed: {
@@ -989,10 +1595,34 @@ export const resolvers = {
       },
       resolve: (payload: any) => payload,
     },
+    // fiberId selects the per-fiber channel; the other arguments filter server-side
+    fiberUpdated: {
+      subscribe: withFilter(
+        (_: unknown, { fiberId }: FiberUpdatedArgs) =>
+          pubsub.asyncIterableIterator(fiberId ? `${CHANNELS.FIBER_UPDATED}:${fiberId}` : CHANNELS.FIBER_UPDATED),
+        (payload: { workflowType: string; owners: string[] }, { workflowType, owner }: FiberUpdatedArgs) =>
+          (!workflowType || payload.workflowType === workflowType) &&
+          (!owner || payload.owners.includes(owner))
+      ),
+      resolve: (payload: any) => payload,
+    },
+    fiberTransition: {
+      subscribe: withFilter(
+        (_: unknown, { fiberId }: FiberTransitionArgs) =>
+          pubsub.asyncIterableIterator(fiberId ? `${CHANNELS.FIBER_TRANSITION}:${fiberId}` : CHANNELS.FIBER_TRANSITION),
+        (payload: { eventName: string }, { eventName }: FiberTransitionArgs) =>
+          !eventName || payload.eventName === eventName
+      ),
+      resolve: (payload: any) => payload,
+    },
     statsUpdated: {
       subscribe: () => pubsub.asyncIterableIterator(CHANNELS.STATS_UPDATED),
       resolve: (payload: any) => payload,
     },
+    snapshotRolledBack: {
+      subscribe: () => pubsub.asyncIterableIterator(CHANNELS.SNAPSHOT_ROLLBACK),
+      resolve: (payload: any) => payload,
+    },
   },
 };
 
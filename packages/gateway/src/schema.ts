@@ -5,9 +5,21 @@ export const typeDefs = /* GraphQL */ `
   scalar JSON
   scalar BigInt
 
+  # Response cache hints (see cache.ts): fields without maxAge aren't cached
+  enum CacheControlScope {
+    PUBLIC
+    PRIVATE
+  }
+
+  directive @cacheControl(
+    maxAge: Int
+    scope: CacheControlScope
+    inheritMaxAge: Boolean
+  ) on FIELD_DEFINITION | OBJECT | INTERFACE | UNION
+
   # === Types ===
 
-  type Agent {
+  type Agent @cacheControl(inheritMaxAge: true) {
     address: String!
     publicKey: String!
     displayName: String
@@ -24,7 +36,7 @@ export const typeDefs = /* GraphQL */ `
     reputationHistory(limit: Int): [ReputationPoint!]!
   }
 
-  type PlatformLink {
+  type PlatformLink @cacheControl(inheritMaxAge: true) {
     platform: Platform!
     platformUserId: String!
     platformUsername: String
@@ -89,6 +101,21 @@ export const typeDefs = /* GraphQL */ `
     lastSnapshotOrdinal: Int!
   }
 
+  """
+  Published when an indexed ML0 snapshot is orphaned on GL0 and the data
+  indexed from it is reverted. Refetch the listed records.
+  """
+  type SnapshotRollback {
+    ordinal: BigInt!
+    hash: String!
+    reason: String!
+    fiberIds: [String!]!
+    agentAddresses: [String!]!
+    contractIds: [String!]!
+    transitionsRemoved: Int!
+    rolledBackAt: DateTime!
+  }
+
   type ClusterStats {
     gl0Nodes: Int!
     ml0Nodes: Int!
@@ -97,7 +124,7 @@ export const typeDefs = /* GraphQL */ `
     epoch: Int!
   }
 
-  type StatsDelta {
+  type StatsDelta @cacheControl(inheritMaxAge: true) {
     period: String!
     agentsDelta: Int!
     contractsDelta: Int!
@@ -135,6 +162,7 @@ export const typeDefs = /* GraphQL */ `
     createdAt: DateTime!
     updatedAt: DateTime!
     transitions(limit: Int): [FiberTransition!]!
+    transitionsConnection(first: Int, after: String, last: Int, before: String): FiberTransitionConnection!
   }
 
   type FiberTransition {
@@ -145,11 +173,28 @@ export const typeDefs = /* GraphQL */ `
     success: Boolean!
     gasUsed: Int!
     payload: JSON
+    sequenceNumber: Int
+    inferred: Boolean!
     snapshotOrdinal: BigInt!
     gl0Ordinal: BigInt
     createdAt: DateTime!
   }
 
+  "A transition as it is indexed (subscription payload)"
+  type FiberTransitionEvent {
+    fiberId: String!
+    workflowType: String!
+    eventName: String!
+    fromState: String!
+    toState: String!
+    success: Boolean!
+    gasUsed: Int!
+    sequenceNumber: Int!
+    inferred: Boolean!
+    snapshotOrdinal: BigInt!
+    timestamp: DateTime!
+  }
+
   type WorkflowType {
     name: String!
     description: String
@@ -335,14 +380,14 @@ export const typeDefs = /* GraphQL */ `
     activeOracles: Int!
   }
 
-  type MarketTypeBreakdown {
+  type MarketTypeBreakdown @cacheControl(inheritMaxAge: true) {
     prediction: Int!
     auction: Int!
     crowdfund: Int!
     groupBuy: Int!
   }
 
-  type MarketStatusBreakdown {
+  type MarketStatusBreakdown @cacheControl(inheritMaxAge: true) {
     proposed: Int!
     open: Int!
     closed: Int!
@@ -352,6 +397,430 @@ export const typeDefs = /* GraphQL */ `
     cancelled: Int!
   }
 
+  # === Governance Types ===
+
+  """
+  Kind of DAO, from the stateData schema written by /governance/create-dao.
+  Single and Threshold DAOs created by the bridge use the SIMPLE schema.
+  """
+  enum DAOType {
+    SIMPLE
+    SINGLE
+    THRESHOLD
+    MULTISIG
+    TOKEN
+  }
+
+  enum ProposalStatus {
+    VOTING
+    PENDING
+    QUEUED
+    EXECUTED
+    REJECTED
+    CANCELLED
+    VETOED
+  }
+
+  enum VoteChoice {
+    FOR
+    AGAINST
+    ABSTAIN
+  }
+
+  "A vote on a proposal; multisig signatures count as FOR with weight 1"
+  type Vote {
+    voter: String!
+    choice: VoteChoice!
+    weight: Float!
+  }
+
+  type Delegation {
+    delegator: String!
+    delegate: String!
+    weight: Float!
+  }
+
+  type Proposal {
+    id: String!
+    daoId: String!
+    title: String!
+    description: String
+    actionType: String
+    payload: JSON
+    proposer: String
+    proposedAt: String
+    status: ProposalStatus!
+    votes: [Vote!]!
+    votesFor: Float!
+    votesAgainst: Float!
+    votesAbstain: Float!
+  }
+
+  """
+  A DAO fiber. Fields that only apply to some DAO types are null or empty
+  for the others (signers/threshold: MULTISIG; tokenId/quorum: TOKEN).
+  """
+  type DAO {
+    # === Fiber base fields ===
+    fiberId: String!
+    currentState: String!
+    status: FiberStatus!
+    owners: [String!]!
+    sequenceNumber: Int!
+    createdOrdinal: BigInt!
+    updatedOrdinal: BigInt!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    transitions(limit: Int): [FiberTransition!]!
+
+    # === DAO fields (from stateData) ===
+    daoId: String!
+    daoType: DAOType!
+    name: String!
+    description: String
+    creator: String
+    signers: [String!]!
+    threshold: Int
+    admins: [String!]!
+    proposers: [String!]!
+    vetoers: [String!]!
+    executors: [String!]!
+    tokenId: String
+    proposalThreshold: Float
+    quorum: Float
+    passingThreshold: Float
+    votingPeriodMs: Float
+    timelockMs: Float
+    allowDelegation: Boolean!
+    delegations: [Delegation!]!
+    "The open proposal, if the DAO is voting on one"
+    currentProposal: Proposal
+    proposals(status: ProposalStatus): [Proposal!]!
+  }
+
+  # === Oracle Types ===
+
+  "An oracle fiber registered through /oracle/register"
+  type Oracle {
+    # === Fiber base fields ===
+    fiberId: String!
+    currentState: String!
+    status: FiberStatus!
+    owners: [String!]!
+    sequenceNumber: Int!
+    createdOrdinal: BigInt!
+    updatedOrdinal: BigInt!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    transitions(limit: Int): [FiberTransition!]!
+
+    # === Oracle fields (from stateData) ===
+    oracleId: String!
+    address: String!
+    "stateData.status (UNREGISTERED, REGISTERED, ACTIVE, ...)"
+    oracleStatus: String!
+    stake: Float!
+    minStake: Float!
+    domains: [String!]!
+    accuracy: Float!
+    totalResolutions: Int!
+    disputesWon: Int!
+    disputesLost: Int!
+    slashingHistory: [JSON!]!
+    agent: Agent
+  }
+
+  # === Corporate Types ===
+
+  type Jurisdiction {
+    state: String!
+    country: String!
+  }
+
+  type ShareClass {
+    classId: String!
+    className: String!
+    authorized: Float!
+    issued: Float!
+    outstanding: Float!
+    treasury: Float!
+    parValue: Float!
+    votingRights: Boolean!
+    votesPerShare: Float!
+  }
+
+  type Director {
+    directorId: String!
+    name: String!
+    email: String
+    termStart: String
+    termEnd: String
+    class: String
+    isIndependent: Boolean!
+    status: String
+  }
+
+  type Board {
+    fiberId: String!
+    currentState: String!
+    status: FiberStatus!
+    owners: [String!]!
+    sequenceNumber: Int!
+    createdOrdinal: BigInt!
+    updatedOrdinal: BigInt!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    boardId: String!
+    directors: [Director!]!
+    seatsAuthorized: Int!
+    seatsFilled: Int!
+    seatsVacant: Int!
+    quorumRules: JSON
+    votingRules: JSON
+    currentMeeting: JSON
+    meetingHistory: [JSON!]!
+  }
+
+  type Officer {
+    officerId: String!
+    name: String!
+    title: String!
+    customTitle: String
+    appointedDate: String
+    authorityLevel: String
+    spendingLimit: Float
+    isInterim: Boolean!
+    status: String
+  }
+
+  type ComplianceFiling {
+    filingId: String!
+    filingType: String!
+    jurisdiction: String
+    filedDate: String
+    periodCovered: String
+    confirmationNumber: String
+    feePaid: Float
+    filedBy: String
+    documentRef: String
+    nextDueDate: String
+  }
+
+  type Compliance {
+    fiberId: String!
+    currentState: String!
+    status: FiberStatus!
+    owners: [String!]!
+    sequenceNumber: Int!
+    createdOrdinal: BigInt!
+    updatedOrdinal: BigInt!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    complianceId: String!
+    "GREEN, YELLOW or RED"
+    overallStatus: String!
+    openDeficiencies: Int!
+    overdueFilings: Int!
+    upcomingDeadlines30Days: Int!
+    lastAssessedDate: String
+    filings: [ComplianceFiling!]!
+    registeredAgents: [JSON!]!
+    filingCalendar: [JSON!]!
+    deficiencies: [JSON!]!
+  }
+
+  "One issuance of shares (a CorporateSecurities fiber)"
+  type Security {
+    fiberId: String!
+    currentState: String!
+    status: FiberStatus!
+    owners: [String!]!
+    sequenceNumber: Int!
+    createdOrdinal: BigInt!
+    updatedOrdinal: BigInt!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    securityId: String!
+    entityId: String!
+    shareClassId: String
+    shareClassName: String!
+    shareCount: Float!
+    parValue: Float
+    form: String
+    holderId: String
+    holderName: String
+    holderType: String
+    transferHistory: [JSON!]!
+  }
+
+  type Shareholding {
+    holderId: String!
+    holderName: String
+    holderType: String
+    shareClass: String!
+    shares: Float!
+    votes: Float!
+    ownershipPercent: Float!
+    votingPercent: Float!
+  }
+
+  """
+  Outstanding shares by holder and class, summed from the entity's issued
+  securities (unissued and cancelled/redeemed securities are left out).
+  """
+  type CapTable {
+    entityId: String!
+    totalAuthorized: Float!
+    totalOutstanding: Float!
+    totalVotes: Float!
+    holdings: [Shareholding!]!
+  }
+
+  """
+  A corporate entity created by /corporate/incorporate, with its board,
+  officers and compliance fibers.
+  """
+  type CorporateEntity {
+    # === Fiber base fields ===
+    fiberId: String!
+    currentState: String!
+    status: FiberStatus!
+    owners: [String!]!
+    sequenceNumber: Int!
+    createdOrdinal: BigInt!
+    updatedOrdinal: BigInt!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+
+    # === Entity fields (from stateData) ===
+    entityId: String!
+    legalName: String!
+    "C_CORP, S_CORP, B_CORP, LLC, LP or LLP"
+    entityType: String!
+    jurisdiction: Jurisdiction!
+    registeredAgent: JSON
+    incorporators: [JSON!]!
+    fiscalYearEnd: String
+    shareClasses: [ShareClass!]!
+    totalAuthorized: Float!
+    charterAmendments: [JSON!]!
+    createdBy: String
+
+    # === Related fibers ===
+    board: Board
+    officers: [Officer!]!
+    compliance: Compliance
+    securities: [Security!]!
+    capTable: CapTable!
+  }
+
+  # === Script Types ===
+
+  "A script oracle (JSON Logic program) registered through /script/register"
+  type Script {
+    fiberId: String!
+    currentState: String!
+    status: FiberStatus!
+    owners: [String!]!
+    sequenceNumber: Int!
+    createdOrdinal: BigInt!
+    updatedOrdinal: BigInt!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    scriptId: String!
+    name: String
+    description: String
+    "Who may invoke the script (empty: anyone); owners may update it"
+    invokers: [String!]!
+    program: JSON
+    state: JSON
+    lastInvocation: JSON
+  }
+
+  "Requests by one caller on one day"
+  type ApiUsage {
+    day: String!
+    "key:<name>, wallet:<address> or ip:<address>"
+    caller: String!
+    requests: Int!
+    limited: Int!
+  }
+
+  # === Connections (Relay cursor pagination) ===
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type AgentEdge {
+    cursor: String!
+    node: Agent!
+  }
+
+  type AgentConnection {
+    edges: [AgentEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type ContractEdge {
+    cursor: String!
+    node: Contract!
+  }
+
+  type ContractConnection {
+    edges: [ContractEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type FiberEdge {
+    cursor: String!
+    node: Fiber!
+  }
+
+  type FiberConnection {
+    edges: [FiberEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type FiberTransitionEdge {
+    cursor: String!
+    node: FiberTransition!
+  }
+
+  type FiberTransitionConnection {
+    edges: [FiberTransitionEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type MarketEdge {
+    cursor: String!
+    node: Market!
+  }
+
+  type MarketConnection {
+    edges: [MarketEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type IndexedSnapshotEdge {
+    cursor: String!
+    node: IndexedSnapshot!
+  }
+
+  type IndexedSnapshotConnection {
+    edges: [IndexedSnapshotEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
   # === Queries ===
 
   type Query {
@@ -366,8 +835,24 @@ export const typeDefs = /* GraphQL */ `
       offset: Int = 0
       orderBy: AgentOrderBy = REPUTATION_DESC
     ): [Agent!]!
+
+    """
+    Cursor-paginated agents. Page forward with first/after or backward with
+    last/before (at most 100 per page); cursors are only valid for the orderBy
+    they were issued under.
+    """
+    agentsConnection(
+      state: AgentState
+      minReputation: Int
+      maxReputation: Int
+      first: Int
+      after: String
+      last: Int
+      before: String
+      orderBy: AgentOrderBy = REPUTATION_DESC
+    ): AgentConnection!
     
-    leaderboard(limit: Int = 10): [Agent!]!
+    leaderboard(limit: Int = 10): [Agent!]! @cacheControl(maxAge: 30)
     
     contract(contractId: String!): Contract
     contracts(
@@ -376,15 +861,39 @@ export const typeDefs = /* GraphQL */ `
       limit: Int = 20
       offset: Int = 0
     ): [Contract!]!
+
+    """
+    Cursor-paginated contracts, newest proposal first.
+    """
+    contractsConnection(
+      agentAddress: String
+      state: ContractState
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): ContractConnection!
     
-    recentActivity(limit: Int = 50): [ActivityEvent!]!
-    networkStats: NetworkStats!
-    clusterStats: ClusterStats!
-    statsTrends: StatsTrends!
-    searchAgents(query: String!, limit: Int = 10): [Agent!]!
+    recentActivity(limit: Int = 50): [ActivityEvent!]! @cacheControl(maxAge: 10)
+    networkStats: NetworkStats! @cacheControl(maxAge: 15)
+    clusterStats: ClusterStats! @cacheControl(maxAge: 15)
+    statsTrends: StatsTrends! @cacheControl(maxAge: 60)
+    searchAgents(query: String!, limit: Int = 10, platform: Platform): [Agent!]!
     
     # Unified Search
-    search(query: String!, limit: Int = 10): SearchResult!
+    """
+    Full-text search over fiber names, descriptions and workflow types, agent
+    names and addresses, and transition events. Every word must match (by
+    prefix); results are ranked by relevance. workflowType and status narrow
+    fibers and transitions, platform narrows agents.
+    """
+    search(
+      query: String!
+      limit: Int = 10
+      workflowType: String
+      status: FiberStatus
+      platform: Platform
+    ): SearchResult!
     
     # Generic Fiber Queries (chain-agnostic)
     fiber(fiberId: String!): Fiber
@@ -396,12 +905,32 @@ export const typeDefs = /* GraphQL */ `
       offset: Int = 0
       orderBy: FiberOrderBy = UPDATED_DESC
     ): [Fiber!]!
+
+    """
+    Cursor-paginated fibers. UPDATED_DESC orders by the snapshot ordinal of the
+    last update.
+    """
+    fibersConnection(
+      workflowType: String
+      status: FiberStatus
+      owner: String
+      first: Int
+      after: String
+      last: Int
+      before: String
+      orderBy: FiberOrderBy = UPDATED_DESC
+    ): FiberConnection!
     
     workflowTypes: [WorkflowType!]!
     fibersByOwner(address: String!, limit: Int = 20): [Fiber!]!
     
     # Indexer status
     recentSnapshots(limit: Int = 20): [IndexedSnapshot!]!
+
+    """
+    Cursor-paginated indexed snapshots, highest ordinal first.
+    """
+    snapshotsConnection(first: Int, after: String, last: Int, before: String): IndexedSnapshotConnection!
     snapshot(ordinal: BigInt!): IndexedSnapshot
 
     # === Market Queries ===
@@ -428,15 +957,99 @@ export const typeDefs = /* GraphQL */ `
       orderBy: MarketOrderBy = CREATED_DESC
     ): [Market!]!
 
+    """
+    Cursor-paginated markets, with the same filters as marketsByType.
+    """
+    marketsConnection(
+      marketType: MarketType
+      marketStatus: MarketStatus
+      creator: String
+      oracle: String
+      first: Int
+      after: String
+      last: Int
+      before: String
+      orderBy: MarketOrderBy = CREATED_DESC
+    ): MarketConnection!
+
     """
     Aggregated statistics for all market fibers.
     """
-    marketStats: MarketStats!
+    marketStats: MarketStats! @cacheControl(maxAge: 30)
+
+    # === Governance Queries ===
+
+    """
+    Fetch a DAO by its fiber ID.
+    """
+    dao(daoId: String!): DAO
+
+    """
+    List DAOs, newest first. member matches admins, signers and proposers.
+    """
+    daos(daoType: DAOType, member: String, limit: Int = 20, offset: Int = 0): [DAO!]!
+
+    """
+    A DAO's proposals: the open one first, then its history.
+    """
+    proposals(daoId: String!, status: ProposalStatus): [Proposal!]!
+
+    # === Oracle Queries ===
+
+    """
+    Fetch an oracle by its fiber ID.
+    """
+    oracle(oracleId: String!): Oracle
+
+    """
+    List oracles by stake, highest first.
+    status filters on stateData.status; domain to oracles covering it.
+    """
+    oracles(status: String, domain: String, address: String, limit: Int = 20, offset: Int = 0): [Oracle!]!
+
+    # === Corporate Queries ===
+
+    """
+    Fetch a corporate entity by its entity (fiber) ID.
+    """
+    corporateEntity(entityId: String!): CorporateEntity
+
+    """
+    Shareholdings of a corporate entity, largest first.
+    """
+    capTable(entityId: String!): CapTable
+
+    # === Script Queries ===
+
+    """
+    Fetch a script oracle by its fiber ID.
+    """
+    script(scriptId: String!): Script
+
+    # === Operator Queries ===
+
+    """
+    Requests per caller per day (today first), including requests rejected by
+    the rate limit. Requires an admin API key.
+    """
+    apiUsage(days: Int = 1): [ApiUsage!]! @cacheControl(scope: PRIVATE)
   }
 
   # === Mutations ===
 
   type Mutation {
+    """
+    Start a wallet sign-in: returns a challenge for the wallet to sign.
+    """
+    requestSessionChallenge(address: String!): SessionChallengeResult!
+
+    """
+    Finish a wallet sign-in with the signature over the challenge (signature +
+    publicKey from metakit sign). Send the returned token as
+    \`Authorization: Bearer <token>\` to call mutations.
+    """
+    createSession(nonce: String!, signature: String!, publicKey: String!): SessionResult!
+
     """
     Register a new agent identity on-chain.
     Requires privateKey for signing (dev/testing) or signature for verification (production).
@@ -449,12 +1062,30 @@ export const typeDefs = /* GraphQL */ `
       privateKey: String
     ): RegisterResult!
     
+    """
+    Start linking a platform account: returns a challenge for the agent to sign.
+    """
+    requestPlatformChallenge(
+      agentAddress: String!
+      platform: Platform!
+      platformUserId: String!
+    ): PlatformChallengeResult!
+
+    """
+    Link a platform account with the agent's signature over the challenge
+    (signature + publicKey from metakit sign). proof is required when the
+    platform has a verifier. The link shows as verified once indexed.
+    """
     linkPlatform(
       agentAddress: String!
       platform: Platform!
       platformUserId: String!
       platformUsername: String
+      nonce: String!
       signature: String!
+      publicKey: String!
+      proof: String
+      privateKey: String
     ): LinkResult!
     
     vouch(
@@ -491,6 +1122,265 @@ export const typeDefs = /* GraphQL */ `
       proof: String
       signature: String!
     ): ContractResult!
+
+    # === Fiber Mutations ===
+    # Everything below is signed with privateKey by the bridge. Results carry
+    # the fiberId the transaction creates or transitions; the fiber is
+    # queryable once the indexer has seen the snapshot.
+
+    """
+    Create a fiber from a state machine definition (states, initialState,
+    transitions, metadata). fiberId may be chosen up front.
+    """
+    createFiber(
+      privateKey: String!
+      definition: JSON!
+      initialData: JSON!
+      fiberId: String
+      parentFiberId: String
+    ): FiberResult!
+
+    """
+    Send an event to a fiber. Without targetSequenceNumber it is queued
+    behind earlier transitions on the same fiber.
+    """
+    transitionFiber(
+      privateKey: String!
+      fiberId: String!
+      event: String!
+      payload: JSON
+      targetSequenceNumber: Int
+    ): FiberResult!
+
+    # === Market Mutations ===
+
+    """
+    Create a market in PROPOSED; openMarket starts accepting commitments.
+    deadline is an ISO timestamp. oracles defaults to the creator.
+    """
+    createMarket(
+      privateKey: String!
+      marketType: MarketType!
+      title: String!
+      description: String
+      deadline: DateTime
+      threshold: Float
+      oracles: [String!]
+      quorum: Int
+      terms: JSON
+    ): MarketResult!
+    openMarket(privateKey: String!, marketId: String!): MarketResult!
+    "Stake, bid, pledge or order, depending on the market type"
+    commitToMarket(privateKey: String!, marketId: String!, amount: Float!, data: JSON): MarketResult!
+    closeMarket(privateKey: String!, marketId: String!): MarketResult!
+    "Submit an oracle resolution"
+    resolveMarket(privateKey: String!, marketId: String!, outcome: String!, proof: String): MarketResult!
+    finalizeMarket(privateKey: String!, marketId: String!, outcome: String!, settlement: JSON): MarketResult!
+    "Claim winnings from a SETTLED market; amount defaults to the caller's commitment"
+    claim(privateKey: String!, marketId: String!, amount: Float): MarketResult!
+    refund(privateKey: String!, marketId: String!, reason: String): MarketResult!
+    cancelMarket(privateKey: String!, marketId: String!, reason: String): MarketResult!
+
+    # === DAO Mutations ===
+
+    """
+    Create a DAO. MULTISIG needs signers and threshold, TOKEN needs tokenId;
+    SIMPLE, SINGLE and THRESHOLD create role-based governance.
+    """
+    createDao(
+      privateKey: String!
+      daoType: DAOType!
+      name: String!
+      description: String
+      signers: [String!]
+      threshold: Int
+      tokenId: String
+      proposalThreshold: Int
+      quorum: Int
+      votingPeriodMs: Int
+      timelockMs: Int
+      passingThreshold: Float
+      admins: [String!]
+      proposers: [String!]
+      vetoers: [String!]
+    ): DAOResult!
+    propose(
+      privateKey: String!
+      daoId: String!
+      title: String!
+      description: String
+      proposalId: String
+      actionType: String
+      payload: JSON
+    ): DAOResult!
+    "Vote on the open proposal (multisig DAOs: sign it)"
+    vote(privateKey: String!, daoId: String!, vote: VoteChoice!, weight: Int): DAOResult!
+    "Execute the open proposal once it has passed"
+    execute(privateKey: String!, daoId: String!): DAOResult!
+    delegate(privateKey: String!, daoId: String!, delegateTo: String!, weight: Int): DAOResult!
+    veto(privateKey: String!, daoId: String!, reason: String!): DAOResult!
+
+    # === Oracle Mutations ===
+
+    "Register as an oracle with an initial stake (minimum 100); activate it afterwards"
+    registerOracle(privateKey: String!, stake: Int, domains: [String!], minStake: Int): OracleResult!
+    activateOracle(privateKey: String!, oracleId: String!): OracleResult!
+    stakeOracle(privateKey: String!, oracleId: String!, amount: Int!): OracleResult!
+    recordOracleResolution(privateKey: String!, oracleId: String!, marketId: String!, correct: Boolean!): OracleResult!
+    slashOracle(
+      privateKey: String!
+      oracleId: String!
+      amount: Int!
+      reason: SlashReason!
+      marketId: String
+    ): OracleResult!
+    "Reactivate or withdraw an oracle"
+    transitionOracle(privateKey: String!, oracleId: String!, event: OracleEvent!): OracleResult!
+
+    # === Corporate Mutations ===
+    # Enumerated string arguments (entityType, category, title, ...) take the
+    # values the bridge documents in routes/corporate.ts.
+
+    "Incorporate an entity; creates its board, officers and compliance fibers too"
+    incorporate(
+      privateKey: String!
+      legalName: String!
+      entityType: String!
+      jurisdiction: JurisdictionInput!
+      registeredAgent: RegisteredAgentInput!
+      incorporators: [IncorporatorInput!]!
+      shareClasses: [ShareClassInput!]!
+      fiscalYearEnd: String
+    ): CorporateResult!
+    amendCharter(
+      privateKey: String!
+      entityId: String!
+      amendmentType: String!
+      description: String!
+      resolutionRef: String!
+      effectiveDate: String!
+      newLegalName: String
+      newShareAuthorization: JSON
+    ): CorporateResult!
+    electDirector(
+      privateKey: String!
+      entityId: String!
+      name: String!
+      termStart: String!
+      termEnd: String!
+      electionResolutionRef: String!
+      email: String
+      class: String
+      isIndependent: Boolean
+      isFillingVacancy: Boolean
+      boardId: String
+      directorId: String
+    ): CorporateResult!
+    "call, open, adjourn or record_attendance; the remaining fields belong to the action"
+    boardMeeting(
+      privateKey: String!
+      entityId: String!
+      action: String!
+      details: JSON
+    ): CorporateResult!
+    createBoardResolution(
+      privateKey: String!
+      entityId: String!
+      title: String!
+      category: String!
+      resolvedText: String!
+      boardId: String
+      meetingId: String
+    ): CorporateResult!
+    "Director consent (FOR, AGAINST, ABSTAIN) to a resolution without a meeting"
+    writtenConsent(privateKey: String!, entityId: String!, resolutionId: String!, consent: VoteChoice!): CorporateResult!
+    scheduleShareholderMeeting(
+      privateKey: String!
+      entityId: String!
+      special: Boolean = false
+      scheduledDate: String!
+      fiscalYear: Int
+      purpose: String
+      location: JSON
+    ): CorporateResult!
+    shareholderVote(
+      privateKey: String!
+      entityId: String!
+      meetingId: String!
+      agendaItemId: String!
+      shareholderId: String!
+      shareClass: String!
+      votesFor: Int
+      votesAgainst: Int
+      votesAbstain: Int
+      votesWithhold: Int
+      viaProxy: Boolean
+    ): CorporateResult!
+    "grant, revoke or use a proxy; the remaining fields belong to the action"
+    proxy(privateKey: String!, entityId: String!, action: String!, details: JSON): CorporateResult!
+    appointOfficer(
+      privateKey: String!
+      entityId: String!
+      name: String!
+      title: String!
+      appointedDate: String!
+      appointmentResolutionRef: String!
+      customTitle: String
+      reportsTo: String
+      authorityLevel: String
+      spendingLimit: Float
+      isInterim: Boolean
+    ): CorporateResult!
+    removeOfficer(
+      privateKey: String!
+      entityId: String!
+      officerId: String!
+      effectiveDate: String!
+      reason: String!
+      removalResolutionRef: String!
+    ): CorporateResult!
+    "Issue shares; consideration is { type, value, description }"
+    issueShares(
+      privateKey: String!
+      entityId: String!
+      shareClass: String!
+      shareCount: Int!
+      holderId: String!
+      holderName: String!
+      holderType: String!
+      issuanceDate: String!
+      boardResolutionRef: String!
+      consideration: JSON!
+      issuancePrice: Float
+      form: String
+      isRestricted: Boolean
+      restrictionType: [String!]
+      exemptionUsed: String
+    ): CorporateResult!
+    transferShares(
+      privateKey: String!
+      entityId: String!
+      securityId: String!
+      toHolderId: String!
+      toHolderName: String!
+      toHolderType: String!
+      transferType: String!
+      transferDate: String!
+      pricePerShare: Float
+    ): CorporateResult!
+    fileCompliance(
+      privateKey: String!
+      entityId: String!
+      filingType: String!
+      jurisdiction: String!
+      filedDate: String!
+      periodCovered: String!
+      confirmationNumber: String!
+      feePaid: Float!
+      filedBy: String!
+      documentRef: String
+      nextDueDate: String
+    ): CorporateResult!
   }
 
   # === Search ===
@@ -499,6 +1389,38 @@ export const typeDefs = /* GraphQL */ `
     fibers: [Fiber!]!
     agents: [Agent!]!
     transitions: [FiberTransition!]!
+    "All matches, most relevant first"
+    hits: [SearchHit!]!
+    facets: SearchFacets!
+  }
+
+  enum SearchHitKind {
+    FIBER
+    AGENT
+    TRANSITION
+  }
+
+  type SearchHit {
+    kind: SearchHitKind!
+    id: String!
+    rank: Float!
+    "Matched text with each hit wrapped in <mark>…</mark>"
+    highlight: String!
+    fiber: Fiber
+    agent: Agent
+    transition: FiberTransition
+  }
+
+  "Match counts per value, each ignoring its own filter"
+  type SearchFacets {
+    workflowType: [FacetCount!]!
+    status: [FacetCount!]!
+    platform: [FacetCount!]!
+  }
+
+  type FacetCount {
+    value: String!
+    count: Int!
   }
 
   # === Mutation Results ===
@@ -513,6 +1435,34 @@ export const typeDefs = /* GraphQL */ `
   type LinkResult {
     success: Boolean!
     link: PlatformLink
+    txHash: String
+    error: String
+  }
+
+  type SessionChallengeResult {
+    success: Boolean!
+    "The object to sign"
+    challenge: JSON
+    nonce: String
+    expiresAt: DateTime
+    error: String
+  }
+
+  type SessionResult {
+    success: Boolean!
+    token: String
+    address: String
+    expiresAt: DateTime
+    error: String
+  }
+
+  type PlatformChallengeResult {
+    success: Boolean!
+    "The object to sign, as returned by the bridge"
+    challenge: JSON
+    nonce: String
+    expiresAt: DateTime
+    proofRequired: Boolean
     error: String
   }
 
@@ -530,11 +1480,107 @@ export const typeDefs = /* GraphQL */ `
     error: String
   }
 
+  "A submitted fiber transaction. fiberId is known before the fiber is indexed."
+  type FiberResult {
+    success: Boolean!
+    fiberId: String
+    txHash: String
+    targetSequenceNumber: Int
+    error: String
+  }
+
+  type MarketResult {
+    success: Boolean!
+    "The market's fiber ID"
+    fiberId: String
+    txHash: String
+    "Market status after this transaction, when the bridge reports it"
+    status: MarketStatus
+    error: String
+  }
+
+  type DAOResult {
+    success: Boolean!
+    "The DAO's fiber ID"
+    fiberId: String
+    txHash: String
+    proposalId: String
+    error: String
+  }
+
+  type OracleResult {
+    success: Boolean!
+    "The oracle's fiber ID"
+    fiberId: String
+    txHash: String
+    status: String
+    error: String
+  }
+
+  type CorporateResult {
+    success: Boolean!
+    entityId: String
+    "The fiber this action created or transitioned (board, resolution, security, ...)"
+    fiberId: String
+    "Last transaction submitted"
+    txHash: String
+    "All transactions, for actions that take several"
+    txHashes: [String!]!
+    "Every fiber ID the bridge returned, by name (boardId, officersId, resolutionId, ...)"
+    ids: JSON
+    error: String
+  }
+
+  enum SlashReason {
+    TIMEOUT
+    WRONG_ANSWER
+    COLLUSION
+    MISCONDUCT
+  }
+
+  enum OracleEvent {
+    ACTIVATE
+    REACTIVATE
+    WITHDRAW
+  }
+
+  input JurisdictionInput {
+    state: String!
+    country: String = "USA"
+  }
+
+  input PostalAddressInput {
+    street: String!
+    city: String!
+    state: String!
+    zip: String!
+  }
+
+  input RegisteredAgentInput {
+    name: String!
+    address: PostalAddressInput!
+    email: String
+  }
+
+  input IncorporatorInput {
+    name: String!
+    address: PostalAddressInput!
+  }
+
+  input ShareClassInput {
+    className: String!
+    authorized: Int!
+    parValue: Float!
+    votingRights: Boolean = true
+    votesPerShare: Float = 1
+  }
+
   # === Subscriptions ===
 
   type Subscription {
     agentUpdated(address: String!): Agent!
     newAttestation: Attestation!
+    "Pass contractId for one contract; omit for all contracts"
     contractUpdated(contractId: String): Contract!
     activityFeed: ActivityEvent!
     statsUpdated: NetworkStats!
@@ -544,5 +1590,20 @@ export const typeDefs = /* GraphQL */ `
     Pass marketId to receive updates for one market; omit for all markets.
     """
     marketUpdated(marketId: String): Market!
+
+    """
+    Subscribe to indexed fiber changes. All arguments are optional and combine
+    with AND: fiberId for one fiber, workflowType for one workflow, owner for
+    fibers that address owns.
+    """
+    fiberUpdated(fiberId: String, workflowType: String, owner: String): Fiber!
+
+    """
+    Subscribe to fiber transitions, optionally for one fiber and/or one event name.
+    """
+    fiberTransition(fiberId: String, eventName: String): FiberTransitionEvent!
+
+    "Indexed data reverted because its snapshot was orphaned"
+    snapshotRolledBack: SnapshotRollback!
   }
 `;
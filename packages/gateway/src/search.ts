@@ -0,0 +1,184 @@
+// Full-text search
+//
+// Ranked, highlighted matches over fibers, agents and transitions, backed by
+// the trigger-maintained searchVector columns (prisma/search.sql). Each word
+// of the query matches by prefix, all words must match, and hits are ordered
+// by ts_rank_cd over the weighted vectors (titles and names count most).
+//
+// These queries return ids, ranks and highlights; callers load the rows
+// through Prisma. Facet counts apply every filter except their own, so a
+// client can show how many results each choice would leave.
+
+export interface SearchDb {
+  $queryRawUnsafe<T = unknown>(query: string, ...values: unknown[]): Promise<T>;
+}
+
+export interface SearchFilters {
+  workflowType?: string | null;
+  status?: string | null;
+  platform?: string | null;
+}
+
+export interface SearchHit {
+  id: string;
+  rank: number;
+  /** Matched text with hits wrapped in <mark>…</mark> */
+  highlight: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  workflowType: FacetCount[];
+  status: FacetCount[];
+  platform: FacetCount[];
+}
+
+/** Words considered per query; the rest are ignored */
+const MAX_QUERY_WORDS = 8;
+
+/** Values listed per facet */
+const MAX_FACET_VALUES = 20;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=3, MaxWords=12';
+
+/**
+ * Prefix-matching tsquery for the words in `input` ("dao treas" →
+ * "dao:* & treas:*"), or null if it has none. Only letters and digits pass
+ * through, so the result is always valid tsquery syntax.
+ */
+export function toTsQuery(input: string): string | null {
+  const words = input.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) return null;
+  return [...new Set(words)].slice(0, MAX_QUERY_WORDS).map((word) => `${word}:*`).join(' & ');
+}
+
+const FIBER_HITS = `
+  SELECT f."fiberId" AS id,
+         ts_rank_cd(f."searchVector", q)::float8 AS rank,
+         ts_headline('simple', fiber_search_text(f."stateData", f."workflowType", f."workflowDesc"), q, $5) AS highlight
+  FROM "Fiber" f, to_tsquery('simple', $1) q
+  WHERE f."searchVector" @@ q
+    AND ($2::text IS NULL OR f."workflowType" = $2)
+    AND ($3::text IS NULL OR f."status"::text = $3)
+  ORDER BY rank DESC, f."updatedOrdinal" DESC
+  LIMIT $4`;
+
+const AGENT_HITS = `
+  SELECT a."id"::text AS id,
+         ts_rank_cd(a."searchVector", q)::float8 AS rank,
+         ts_headline('simple', concat_ws(' ', a."displayName", a."address"), q, $4) AS highlight
+  FROM "Agent" a, to_tsquery('simple', $1) q
+  WHERE a."searchVector" @@ q
+    AND ($2::text IS NULL OR EXISTS (
+      SELECT 1 FROM "PlatformLink" pl WHERE pl."agentId" = a."id" AND pl."platform"::text = $2
+    ))
+  ORDER BY rank DESC, a."reputation" DESC
+  LIMIT $3`;
+
+const TRANSITION_HITS = `
+  SELECT t."id"::text AS id,
+         ts_rank_cd(t."searchVector", q)::float8 AS rank,
+         ts_headline('simple', concat_ws(' ', t."eventName", t."fromState", t."toState"), q, $5) AS highlight
+  FROM "FiberTransition" t
+  JOIN "Fiber" f ON f."fiberId" = t."fiberId",
+       to_tsquery('simple', $1) q
+  WHERE t."searchVector" @@ q
+    AND ($2::text IS NULL OR f."workflowType" = $2)
+    AND ($3::text IS NULL OR f."status"::text = $3)
+  ORDER BY rank DESC, t."snapshotOrdinal" DESC, t."id" DESC
+  LIMIT $4`;
+
+const WORKFLOW_TYPE_FACET = `
+  SELECT f."workflowType" AS value, count(*)::int AS count
+  FROM "Fiber" f
+  WHERE f."searchVector" @@ to_tsquery('simple', $1)
+    AND ($2::text IS NULL OR f."status"::text = $2)
+  GROUP BY 1 ORDER BY 2 DESC, 1
+  LIMIT ${MAX_FACET_VALUES}`;
+
+const STATUS_FACET = `
+  SELECT f."status"::text AS value, count(*)::int AS count
+  FROM "Fiber" f
+  WHERE f."searchVector" @@ to_tsquery('simple', $1)
+    AND ($2::text IS NULL OR f."workflowType" = $2)
+  GROUP BY 1 ORDER BY 2 DESC, 1
+  LIMIT ${MAX_FACET_VALUES}`;
+
+const PLATFORM_FACET = `
+  SELECT pl."platform"::text AS value, count(DISTINCT a."id")::int AS count
+  FROM "Agent" a
+  JOIN "PlatformLink" pl ON pl."agentId" = a."id"
+  WHERE a."searchVector" @@ to_tsquery('simple', $1)
+  GROUP BY 1 ORDER BY 2 DESC, 1
+  LIMIT ${MAX_FACET_VALUES}`;
+
+/** Objects prisma/search.sql creates; `prisma db push` creates none of them */
+const SEARCH_FUNCTIONS = ['fiber_search_text', 'fiber_search_vector', 'agent_search_vector', 'transition_search_vector'];
+const SEARCH_TRIGGERS = ['fiber_search_vector', 'agent_search_vector', 'transition_search_vector'];
+
+const MISSING_SEARCH_OBJECTS = `
+  SELECT name || '()' AS name FROM unnest($1::text[]) AS name
+  WHERE NOT EXISTS (SELECT 1 FROM pg_proc p WHERE p.proname = name)
+  UNION ALL
+  SELECT 'trigger ' || name AS name FROM unnest($2::text[]) AS name
+  WHERE NOT EXISTS (SELECT 1 FROM pg_trigger t WHERE t.tgname = name AND NOT t.tgisinternal)`;
+
+/**
+ * Throw unless the functions and triggers from prisma/search.sql exist.
+ * Without the triggers searchVector stays NULL and every search comes back
+ * empty; without fiber_search_text fiber searches fail outright.
+ */
+export async function assertSearchReady(db: SearchDb): Promise<void> {
+  const missing = await db.$queryRawUnsafe<Array<{ name: string }>>(MISSING_SEARCH_OBJECTS, SEARCH_FUNCTIONS, SEARCH_TRIGGERS);
+  if (missing.length > 0) {
+    throw new Error(
+      `Full-text search is not set up (missing ${missing.map((m) => m.name).join(', ')}); ` +
+      'run `pnpm db:search` after `pnpm db:push`'
+    );
+  }
+}
+
+export async function searchFibers(db: SearchDb, input: string, limit: number, filters: SearchFilters = {}): Promise<SearchHit[]> {
+  const query = toTsQuery(input);
+  if (!query) return [];
+  return db.$queryRawUnsafe<SearchHit[]>(
+    FIBER_HITS, query, filters.workflowType ?? null, filters.status ?? null, limit, HEADLINE_OPTIONS
+  );
+}
+
+export async function searchAgents(db: SearchDb, input: string, limit: number, filters: SearchFilters = {}): Promise<SearchHit[]> {
+  const query = toTsQuery(input);
+  if (!query) return [];
+  return db.$queryRawUnsafe<SearchHit[]>(AGENT_HITS, query, filters.platform ?? null, limit, HEADLINE_OPTIONS);
+}
+
+export async function searchTransitions(db: SearchDb, input: string, limit: number, filters: SearchFilters = {}): Promise<SearchHit[]> {
+  const query = toTsQuery(input);
+  if (!query) return [];
+  return db.$queryRawUnsafe<SearchHit[]>(
+    TRANSITION_HITS, query, filters.workflowType ?? null, filters.status ?? null, limit, HEADLINE_OPTIONS
+  );
+}
+
+export async function searchFacets(db: SearchDb, input: string, filters: SearchFilters = {}): Promise<SearchFacets> {
+  const query = toTsQuery(input);
+  if (!query) return { workflowType: [], status: [], platform: [] };
+  const [workflowType, status, platform] = await Promise.all([
+    db.$queryRawUnsafe<FacetCount[]>(WORKFLOW_TYPE_FACET, query, filters.status ?? null),
+    db.$queryRawUnsafe<FacetCount[]>(STATUS_FACET, query, filters.workflowType ?? null),
+    db.$queryRawUnsafe<FacetCount[]>(PLATFORM_FACET, query),
+  ]);
+  return { workflowType, status, platform };
+}
+
+/**
+ * Rows for `hits` in hit order (rows deleted since the search are dropped)
+ */
+export function inHitOrder<T>(hits: SearchHit[], rows: T[], idOf: (row: T) => string | number): T[] {
+  const byId = new Map(rows.map((row) => [String(idOf(row)), row] as const));
+  return hits.flatMap((hit) => byId.get(hit.id) ?? []);
+}
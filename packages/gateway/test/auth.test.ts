@@ -0,0 +1,246 @@
+/**
+ * Gateway Auth Unit Tests
+ *
+ * Tests credential parsing and resolution, the anonymous-mutation guard,
+ * wallet sign-in challenges and sessions, and the per-caller rate limit and
+ * usage counters.
+ *
+ * Redis is replaced by an in-memory fake that runs the two Lua scripts'
+ * logic in JS; no running server required.
+ *
+ * Run: node --test --experimental-strip-types test/auth.test.ts
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { parse, getOperationAST, GraphQLError } from 'graphql';
+import {
+  API_KEY_PREFIX,
+  RateLimiter,
+  SessionStore,
+  SESSION_CHALLENGE_PURPOSE,
+  assertAdmin,
+  assertOperationAllowed,
+  generateApiKey,
+  limitFor,
+  readCredential,
+  resolveAuth,
+  subjectOf,
+  type ApiKeyRecord,
+  type AuthDeps,
+  type AuthInfo,
+  type AuthRedisClient,
+} from '../src/auth.ts';
+
+// ── Fake Redis ───────────────────────────────────────────────────────────────
+
+class FakeRedis implements AuthRedisClient {
+  strings = new Map<string, string>();
+  hashes = new Map<string, Map<string, number>>();
+
+  async eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown> {
+    const keys = args.slice(0, numKeys).map(String);
+    const argv = args.slice(numKeys);
+    if (script.includes("'INCR'")) {
+      const n = Number(this.strings.get(keys[0]) ?? 0) + 1;
+      this.strings.set(keys[0], String(n));
+      this.hincr(keys[1], String(argv[1]));
+      if (n > Number(argv[2])) this.hincr(keys[2], String(argv[1]));
+      return n;
+    }
+    if (script.includes("'GET'")) {
+      const value = this.strings.get(keys[0]) ?? null;
+      this.strings.delete(keys[0]);
+      return value;
+    }
+    throw new Error('unexpected script');
+  }
+
+  async set(key: string, value: string): Promise<unknown> {
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.strings.get(key) ?? null;
+  }
+
+  async del(key: string): Promise<number> {
+    return this.strings.delete(key) ? 1 : 0;
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries([...(this.hashes.get(key) ?? [])].map(([k, v]) => [k, String(v)]));
+  }
+
+  private hincr(key: string, field: string): void {
+    const hash = this.hashes.get(key) ?? new Map<string, number>();
+    hash.set(field, (hash.get(field) ?? 0) + 1);
+    this.hashes.set(key, hash);
+  }
+}
+
+const operation = (source: string) => getOperationAST(parse(source))!;
+
+const anonymous: AuthInfo = { kind: 'anonymous', ip: '10.0.0.1' };
+const wallet: AuthInfo = { kind: 'wallet', address: 'DAG0wallet' };
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+describe('readCredential', () => {
+  it('reads API keys and session tokens from headers or connectionParams', () => {
+    assert.deepStrictEqual(readCredential({ 'x-api-key': 'otk_abc' }), { type: 'apiKey', token: 'otk_abc' });
+    assert.deepStrictEqual(readCredential({ apiKey: 'otk_abc' }), { type: 'apiKey', token: 'otk_abc' });
+    assert.deepStrictEqual(readCredential({ authorization: 'Bearer otk_abc' }), { type: 'apiKey', token: 'otk_abc' });
+    assert.deepStrictEqual(readCredential({ Authorization: 'bearer ots_xyz' }), { type: 'session', token: 'ots_xyz' });
+  });
+
+  it('treats missing or non-bearer credentials as none', () => {
+    assert.strictEqual(readCredential(undefined), null);
+    assert.strictEqual(readCredential({}), null);
+    assert.strictEqual(readCredential({ authorization: 'Basic dXNlcjpwdw==' }), null);
+  });
+});
+
+describe('resolveAuth', () => {
+  const issued = generateApiKey();
+  const keys = new Map<string, ApiKeyRecord>([
+    [issued.keyHash, { id: 7, name: 'indexer-bot', admin: false, rateLimitPerMinute: 1200, revokedAt: null }],
+  ]);
+  let sessions: SessionStore;
+  let deps: AuthDeps;
+
+  beforeEach(() => {
+    sessions = new SessionStore(new FakeRedis());
+    deps = { findApiKey: async (hash) => keys.get(hash) ?? null, sessions };
+  });
+
+  it('issues prefixed keys and stores only their hash', () => {
+    assert.ok(issued.key.startsWith(API_KEY_PREFIX));
+    assert.ok(issued.key.startsWith(issued.prefix));
+    assert.match(issued.keyHash, /^[0-9a-f]{64}$/);
+    assert.ok(!issued.keyHash.includes(issued.key));
+  });
+
+  it('resolves API keys, sessions and anonymous callers', async () => {
+    assert.deepStrictEqual(await resolveAuth({ type: 'apiKey', token: issued.key }, '1.2.3.4', deps), {
+      kind: 'apiKey', keyId: 7, name: 'indexer-bot', admin: false, rateLimitPerMinute: 1200,
+    });
+
+    const token = await sessions.createSession('DAG0wallet', 60);
+    assert.deepStrictEqual(await resolveAuth({ type: 'session', token }, '1.2.3.4', deps), wallet);
+
+    assert.deepStrictEqual(await resolveAuth(null, '1.2.3.4', deps), { kind: 'anonymous', ip: '1.2.3.4' });
+  });
+
+  it('rejects unknown keys, revoked keys and unknown sessions', async () => {
+    await assert.rejects(resolveAuth({ type: 'apiKey', token: 'otk_nope' }, 'ip', deps), /Invalid or revoked/);
+
+    keys.set('revoked', { id: 8, name: 'old', admin: false, rateLimitPerMinute: null, revokedAt: new Date() });
+    const revoked = { ...deps, findApiKey: async () => keys.get('revoked')! };
+    await assert.rejects(resolveAuth({ type: 'apiKey', token: 'otk_old' }, 'ip', revoked), /Invalid or revoked/);
+
+    await assert.rejects(resolveAuth({ type: 'session', token: 'ots_nope' }, 'ip', deps), /sign in again/);
+  });
+});
+
+describe('access checks', () => {
+  it('lets anonymous callers query and sign in, but not mutate', () => {
+    assert.doesNotThrow(() => assertOperationAllowed(anonymous, operation('{ networkStats { totalAgents } }')));
+    assert.doesNotThrow(() => assertOperationAllowed(
+      anonymous, operation('mutation { requestSessionChallenge(address: "DAG0") { nonce } }')
+    ));
+
+    assert.throws(
+      () => assertOperationAllowed(anonymous, operation('mutation { vouch(fromAddress: "a", toAddress: "b") { success } }')),
+      (err: GraphQLError) => err.extensions.code === 'UNAUTHENTICATED'
+    );
+    // A public field can't smuggle a private one through
+    assert.throws(() => assertOperationAllowed(anonymous, operation(
+      'mutation { requestSessionChallenge(address: "a") { nonce } vouch(fromAddress: "a", toAddress: "b") { success } }'
+    )));
+    assert.throws(() => assertOperationAllowed(anonymous, operation(
+      'mutation { ...M } fragment M on Mutation { vouch(fromAddress: "a", toAddress: "b") { success } }'
+    )));
+  });
+
+  it('lets authenticated callers mutate and only admin keys read usage', () => {
+    const admin: AuthInfo = { kind: 'apiKey', keyId: 1, name: 'ops', admin: true, rateLimitPerMinute: null };
+    const mutation = operation('mutation { vouch(fromAddress: "a", toAddress: "b") { success } }');
+
+    assert.doesNotThrow(() => assertOperationAllowed(wallet, mutation));
+    assert.doesNotThrow(() => assertOperationAllowed(admin, mutation));
+    assert.doesNotThrow(() => assertAdmin(admin));
+    assert.throws(() => assertAdmin(wallet), /Admin API key required/);
+    assert.throws(() => assertAdmin({ ...admin, admin: false }), /Admin API key required/);
+  });
+});
+
+describe('SessionStore', () => {
+  it('redeems a sign-in challenge once', async () => {
+    const store = new SessionStore(new FakeRedis());
+    const now = new Date('2026-05-01T00:00:00Z');
+    const challenge = await store.createChallenge('DAG0wallet', 300, now);
+
+    assert.strictEqual(challenge.purpose, SESSION_CHALLENGE_PURPOSE);
+    assert.strictEqual(challenge.expiresAt, '2026-05-01T00:05:00.000Z');
+    assert.deepStrictEqual(await store.takeChallenge(challenge.nonce), challenge);
+    assert.strictEqual(await store.takeChallenge(challenge.nonce), null);
+  });
+
+  it('stores session tokens hashed and revokes them', async () => {
+    const redis = new FakeRedis();
+    const store = new SessionStore(redis);
+    const token = await store.createSession('DAG0wallet', 60);
+
+    assert.ok(![...redis.strings.keys()].some((key) => key.includes(token)));
+    assert.strictEqual(await store.getSession(token), 'DAG0wallet');
+    assert.strictEqual(await store.revokeSession(token), true);
+    assert.strictEqual(await store.getSession(token), null);
+  });
+});
+
+describe('RateLimiter', () => {
+  const limits = { anonymous: 2, authenticated: 5 };
+
+  it('picks the limit for each kind of caller', () => {
+    const key: AuthInfo = { kind: 'apiKey', keyId: 1, name: 'k', admin: false, rateLimitPerMinute: 50 };
+    assert.strictEqual(limitFor(anonymous, limits), 2);
+    assert.strictEqual(limitFor(wallet, limits), 5);
+    assert.strictEqual(limitFor(key, limits), 50);
+    assert.strictEqual(limitFor({ ...key, rateLimitPerMinute: null }, limits), 5);
+  });
+
+  it('blocks a caller past its limit until the window resets', async () => {
+    const limiter = new RateLimiter(new FakeRedis());
+    const subject = subjectOf(anonymous);
+    const t0 = new Date('2026-05-01T00:00:10Z');
+
+    const results = [];
+    for (let i = 0; i < 3; i++) results.push(await limiter.hit(subject, 2, t0));
+    assert.deepStrictEqual(results.map((r) => [r.allowed, r.remaining]), [[true, 1], [true, 0], [false, 0]]);
+    assert.strictEqual(results[2].resetSeconds, 50);
+
+    // Other callers have their own window
+    assert.strictEqual((await limiter.hit(subjectOf(wallet), 2, t0)).allowed, true);
+    // Next minute starts fresh
+    assert.strictEqual((await limiter.hit(subject, 2, new Date('2026-05-01T00:01:00Z'))).allowed, true);
+  });
+
+  it('reports daily usage per caller, busiest first', async () => {
+    const limiter = new RateLimiter(new FakeRedis());
+    const day1 = new Date('2026-05-01T12:00:00Z');
+    const day2 = new Date('2026-05-02T12:00:00Z');
+    for (let i = 0; i < 3; i++) await limiter.hit('ip:10.0.0.1', 2, day1);
+    await limiter.hit('wallet:DAG0wallet', 5, day2);
+    await limiter.hit('ip:10.0.0.1', 2, day2);
+    await limiter.hit('ip:10.0.0.1', 2, new Date(day2.getTime() + 60_000));
+    await limiter.hit('ip:10.0.0.1', 2, new Date(day2.getTime() + 60_000));
+
+    assert.deepStrictEqual(await limiter.usage(2, day2), [
+      { day: '2026-05-02', subject: 'ip:10.0.0.1', requests: 3, limited: 0 },
+      { day: '2026-05-02', subject: 'wallet:DAG0wallet', requests: 1, limited: 0 },
+      { day: '2026-05-01', subject: 'ip:10.0.0.1', requests: 3, limited: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Bridge Result Unit Tests
+ *
+ * Maps bridge responses (shaped like routes/*.ts in the bridge) onto the
+ * mutation result types.
+ *
+ * Run: node --test --experimental-strip-types test/bridge-results.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { corporateResult, txResult, voteChoiceToBridge, DAO_TYPE_TO_BRIDGE } from '../src/bridge-results.ts';
+
+describe('txResult', () => {
+  it('returns the fiber and hash of a successful call', () => {
+    const result = txResult(
+      { success: true, data: { marketId: 'm-1', hash: 'h1', status: 'OPEN' } },
+      (d) => d.marketId,
+      (d) => ({ status: d.status })
+    );
+    assert.deepStrictEqual(result, { success: true, fiberId: 'm-1', txHash: 'h1', txHashes: ['h1'], status: 'OPEN' });
+  });
+
+  it('reports the last of several hashes as txHash', () => {
+    const result = txResult({ success: true, data: { securityId: 's-1', hashes: ['create', 'issue'] } }, (d) => d.securityId);
+    assert.strictEqual(result.txHash, 'issue');
+    assert.deepStrictEqual(result.txHashes, ['create', 'issue']);
+  });
+
+  it('passes bridge errors through', () => {
+    const result = txResult<{ hash: string; daoId: string }>({ success: false, error: 'DAO not found' }, (d) => d.daoId);
+    assert.deepStrictEqual(result, { success: false, error: 'DAO not found', txHashes: [] });
+  });
+});
+
+describe('corporateResult', () => {
+  it('uses the entity for incorporate and collects every fiber ID', () => {
+    const result = corporateResult('incorporate', {
+      success: true,
+      data: { entityId: 'e-1', boardId: 'b-1', officersId: 'o-1', complianceId: 'c-1', legalName: 'Otto Inc.', hashes: ['1', '2', '3', '4'] },
+    });
+    assert.strictEqual(result.fiberId, 'e-1');
+    assert.strictEqual(result.entityId, 'e-1');
+    assert.strictEqual(result.txHash, '4');
+    assert.deepStrictEqual(result.ids, { entityId: 'e-1', boardId: 'b-1', officersId: 'o-1', complianceId: 'c-1' });
+  });
+
+  it('points at the fiber each action transitions', () => {
+    const elect = corporateResult('board/elect', { success: true, data: { entityId: 'e-1', boardId: 'b-1', directorId: 'd-1', hash: 'h' } });
+    assert.strictEqual(elect.fiberId, 'b-1');
+
+    const consent = corporateResult('board/consent', { success: true, data: { resolutionId: 'r-1', hash: 'h' } }, 'e-1');
+    assert.strictEqual(consent.fiberId, 'r-1');
+    assert.strictEqual(consent.entityId, 'e-1');
+
+    const transfer = corporateResult('securities/transfer', { success: true, data: { securityId: 's-1', transferId: 't-1', hashes: ['a', 'b'] } });
+    assert.strictEqual(transfer.fiberId, 's-1');
+  });
+});
+
+describe('enum mapping', () => {
+  it('maps GraphQL enums onto bridge values', () => {
+    assert.strictEqual(voteChoiceToBridge('AGAINST'), 'Against');
+    assert.strictEqual(DAO_TYPE_TO_BRIDGE.MULTISIG, 'Multisig');
+    assert.strictEqual(DAO_TYPE_TO_BRIDGE.SIMPLE, 'Single');
+  });
+});
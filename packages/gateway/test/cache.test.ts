@@ -0,0 +1,165 @@
+/**
+ * Response Cache Unit Tests
+ *
+ * Entry keys, TTLs and generation-based invalidation against an in-memory
+ * Redis, and the plugin's hit/miss flow with hand-built request contexts.
+ *
+ * Run: node --test --experimental-strip-types test/cache.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  RedisKeyValueCache,
+  ResponseCache,
+  remainingAge,
+  responseCachePlugin,
+  type CacheRedisClient,
+} from '../src/cache.ts';
+
+class FakeRedis implements CacheRedisClient {
+  strings = new Map<string, string>();
+  ttls = new Map<string, number>();
+
+  async get(key: string): Promise<string | null> {
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string, _mode: 'EX', seconds: number): Promise<unknown> {
+    this.strings.set(key, value);
+    this.ttls.set(key, seconds);
+    return 'OK';
+  }
+
+  async del(key: string): Promise<number> {
+    return this.strings.delete(key) ? 1 : 0;
+  }
+
+  async incr(key: string): Promise<number> {
+    const n = Number(this.strings.get(key) ?? 0) + 1;
+    this.strings.set(key, String(n));
+    return n;
+  }
+}
+
+describe('RedisKeyValueCache', () => {
+  it('prefixes keys and falls back to the default TTL', async () => {
+    const redis = new FakeRedis();
+    const apq = new RedisKeyValueCache(redis, { keyPrefix: 'apq:', defaultTtl: 600 });
+    await apq.set('abc', '{ networkStats { totalAgents } }', { ttl: null });
+    await apq.set('def', '{ leaderboard { address } }', { ttl: 30 });
+
+    assert.strictEqual(await apq.get('abc'), '{ networkStats { totalAgents } }');
+    assert.strictEqual(redis.ttls.get('apq:abc'), 600);
+    assert.strictEqual(redis.ttls.get('apq:def'), 30);
+    assert.strictEqual(await apq.delete('abc'), true);
+    assert.strictEqual(await apq.get('abc'), undefined);
+  });
+});
+
+describe('ResponseCache', () => {
+  it('keys on query hash, operation name and variables, in any key order', async () => {
+    const cache = new ResponseCache(new FakeRedis(), { maxAge: 60 });
+    const key = await cache.keyFor('h1', 'Top', { limit: 10, filter: { a: 1, b: 2 } });
+
+    assert.strictEqual(await cache.keyFor('h1', 'Top', { filter: { b: 2, a: 1 }, limit: 10 }), key);
+    assert.notStrictEqual(await cache.keyFor('h1', 'Top', { limit: 5, filter: { a: 1, b: 2 } }), key);
+    assert.notStrictEqual(await cache.keyFor('h2', 'Top', { limit: 10, filter: { a: 1, b: 2 } }), key);
+    assert.notStrictEqual(await cache.keyFor('h1', null, { limit: 10, filter: { a: 1, b: 2 } }), key);
+  });
+
+  it('caps TTLs at maxAge and skips uncacheable ones', async () => {
+    const redis = new FakeRedis();
+    const cache = new ResponseCache(redis, { maxAge: 20 });
+    await cache.set('k1', { networkStats: {} }, 60);
+    await cache.set('k2', { networkStats: {} }, 0);
+
+    assert.strictEqual(redis.ttls.get('k1'), 20);
+    assert.strictEqual(redis.strings.has('k2'), false);
+  });
+
+  it('moves to a new generation on invalidate', async () => {
+    const cache = new ResponseCache(new FakeRedis(), { maxAge: 60 });
+    const before = await cache.keyFor('h', 'Stats', {});
+    await cache.set(before, { networkStats: { totalAgents: 1 } }, 30);
+
+    await cache.invalidate();
+    const after = await cache.keyFor('h', 'Stats', {});
+    assert.notStrictEqual(after, before);
+    assert.strictEqual(await cache.get(after), null);
+  });
+
+  it('reports the age an entry has left', () => {
+    const entry = { data: {}, maxAge: 30, storedAt: 1_000_000 };
+    assert.strictEqual(remainingAge(entry, 1_000_000 + 12_500), 18);
+    assert.strictEqual(remainingAge(entry, 1_000_000 + 45_000), 0);
+  });
+});
+
+describe('responseCachePlugin', () => {
+  function policy(initial: { maxAge: number; scope: 'PUBLIC' | 'PRIVATE' } | null) {
+    let current = initial;
+    return {
+      replace(hint: { maxAge: number; scope: 'PUBLIC' | 'PRIVATE' }) {
+        current = hint;
+      },
+      policyIfCacheable: () => (current && current.maxAge > 0 ? current : null),
+      get current() {
+        return current;
+      },
+    };
+  }
+
+  function request(overrides: Record<string, unknown> = {}) {
+    return {
+      operation: { operation: 'query' },
+      queryHash: 'hash',
+      operationName: 'Stats',
+      request: { variables: {} },
+      response: { http: { headers: new Map<string, string>() }, body: { kind: 'single', singleResult: { data: { networkStats: { totalAgents: 3 } } } } },
+      overallCachePolicy: policy({ maxAge: 15, scope: 'PUBLIC' }),
+      ...overrides,
+    } as any;
+  }
+
+  async function run(cache: ResponseCache, ctx: any) {
+    const hooks = (await responseCachePlugin(cache).requestDidStart!(ctx)) as any;
+    const served = await hooks.responseForOperation(ctx);
+    if (served) ctx.response = served;
+    await hooks.willSendResponse(ctx);
+    return served;
+  }
+
+  it('stores a miss and serves it on the next request', async () => {
+    const cache = new ResponseCache(new FakeRedis(), { maxAge: 60 });
+    const first = request();
+    assert.strictEqual(await run(cache, first), null);
+    assert.strictEqual(first.response.http.headers.get('x-cache'), 'MISS');
+
+    const second = request({ overallCachePolicy: policy(null) });
+    const served = await run(cache, second);
+    assert.deepStrictEqual(served.body.singleResult, { data: { networkStats: { totalAgents: 3 } } });
+    assert.strictEqual(second.response.http.headers.get('x-cache'), 'HIT');
+    assert.deepStrictEqual(second.overallCachePolicy.current, { maxAge: 15, scope: 'PUBLIC' });
+  });
+
+  it('does not store private, uncacheable or failed results', async () => {
+    const redis = new FakeRedis();
+    const cache = new ResponseCache(redis, { maxAge: 60 });
+    await run(cache, request({ overallCachePolicy: policy({ maxAge: 15, scope: 'PRIVATE' }) }));
+    await run(cache, request({ overallCachePolicy: policy(null) }));
+    const failed = request();
+    failed.response.body.singleResult.errors = [{ message: 'boom' }];
+    await run(cache, failed);
+
+    assert.strictEqual(redis.strings.size, 0);
+  });
+
+  it('leaves mutations alone', async () => {
+    const redis = new FakeRedis();
+    const ctx = request({ operation: { operation: 'mutation' } });
+    await run(new ResponseCache(redis, { maxAge: 60 }), ctx);
+    assert.strictEqual(redis.strings.size, 0);
+    assert.strictEqual(ctx.response.http.headers.has('x-cache'), false);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Gateway Query Cost Unit Tests
+ *
+ * Prices operations against the real schema and checks the budget and depth
+ * limits, including over graphql-ws.
+ *
+ * Run: node --test --experimental-strip-types test/complexity.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parse, getOperationAST, GraphQLError } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { typeDefs } from '../src/schema.ts';
+import { assertWithinLimits, checkOperationCost, queryCost } from '../src/complexity.ts';
+
+const schema = makeExecutableSchema({ typeDefs });
+const limits = { maxCost: 5000, maxDepth: 10 };
+
+function cost(source: string, variables: Record<string, unknown> = {}) {
+  const document = parse(source);
+  return queryCost(schema, document, getOperationAST(document)!, variables);
+}
+
+const NESTED = `{
+  agents(limit: 100) {
+    contractsAsProposer {
+      proposer { attestationsReceived { issuer { contractsAsProposer { id } } } }
+    }
+  }
+}`;
+
+describe('queryCost', () => {
+  it('charges objects, not scalars, and applies overrides', () => {
+    assert.deepStrictEqual(cost('{ agent(address: "a") { address reputation } }'), { cost: 1, depth: 2 });
+    assert.deepStrictEqual(cost('{ networkStats { totalAgents } }'), { cost: 5, depth: 2 });
+  });
+
+  it('multiplies nested selections by list size', () => {
+    // leaderboard: 1 + 100 × (contractsAsProposer: 1 + 20 × (counterparty: 1))
+    assert.deepStrictEqual(
+      cost('{ leaderboard(limit: 100) { address contractsAsProposer { counterparty { address } } } }'),
+      { cost: 2101, depth: 4 }
+    );
+    // Defaults apply when the argument is left out: leaderboard(limit: Int = 10)
+    assert.strictEqual(cost('{ leaderboard { platformLinks { platform } } }').cost, 11);
+  });
+
+  it('reads sizes from variables', () => {
+    const query = 'query($n: Int) { agents(limit: $n) { platformLinks { platform } } }';
+    assert.strictEqual(cost(query, { n: 5 }).cost, 6);
+    assert.strictEqual(cost(query, { n: 50 }).cost, 51);
+  });
+
+  it('sizes connection edges by first/last without multiplying totalCount', () => {
+    // agentsConnection 1 + totalCount 5 + edges (1 + 50 × (node 1 + platformLinks 1))
+    assert.strictEqual(
+      cost('{ agentsConnection(first: 50) { totalCount pageInfo { hasNextPage } edges { node { platformLinks { platform } } } } }').cost,
+      1 + 5 + 1 + 1 + 50 * 2
+    );
+  });
+
+  it('counts fragments and honors @skip/@include', () => {
+    const spread = cost('{ leaderboard { ...A } } fragment A on Agent { platformLinks { platform } }');
+    const inline = cost('{ leaderboard { ... on Agent { platformLinks { platform } } } }');
+    assert.deepStrictEqual(spread, cost('{ leaderboard { platformLinks { platform } } }'));
+    assert.deepStrictEqual(inline, spread);
+
+    const skipped = 'query($s: Boolean!) { leaderboard { address platformLinks @skip(if: $s) { platform } } }';
+    assert.strictEqual(cost(skipped, { s: true }).cost, 1);
+    assert.strictEqual(cost(skipped, { s: false }).cost, 11);
+  });
+
+  it('leaves introspection free', () => {
+    assert.deepStrictEqual(cost('{ __schema { types { name fields { name } } } }'), { cost: 0, depth: 0 });
+  });
+});
+
+describe('limits', () => {
+  it('rejects deeply nested list queries over budget', () => {
+    const measured = cost(NESTED);
+    assert.strictEqual(measured.cost, 84101);
+    assert.throws(
+      () => assertWithinLimits(measured, limits),
+      (err: GraphQLError) =>
+        err.extensions.code === 'QUERY_TOO_COMPLEX' &&
+        /cost 84101 exceeds the budget of 5000/.test(err.message) &&
+        (err.extensions.cost as { requested: number }).requested === 84101
+    );
+    assert.doesNotThrow(() => assertWithinLimits(cost('{ leaderboard { address } }'), limits));
+  });
+
+  it('rejects queries deeper than the depth limit', () => {
+    assert.throws(
+      () => assertWithinLimits(cost(NESTED), { maxCost: 1e9, maxDepth: 5 }),
+      /depth 7 exceeds the limit of 5/
+    );
+  });
+
+  it('applies the same check to WebSocket operations', () => {
+    const errors = checkOperationCost(schema, { query: NESTED }, limits);
+    assert.ok(Array.isArray(errors));
+    assert.strictEqual(errors[0].extensions.code, 'QUERY_TOO_COMPLEX');
+    assert.strictEqual(checkOperationCost(schema, { query: 'subscription { fiberUpdated { fiberId } }' }, limits), undefined);
+    assert.strictEqual(checkOperationCost(schema, { query: '{ not valid' }, limits), undefined);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Fiber View Unit Tests
+ *
+ * Maps stateData shaped like the bridge's create routes (governance.ts,
+ * oracle.ts, corporate.ts) and the indexer's script rows into the typed
+ * GraphQL views, including state filled in by later transitions.
+ *
+ * Run: node --test --experimental-strip-types test/fiber-views.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  capTableOf,
+  corporateEntityView,
+  daoView,
+  oracleView,
+  proposalsOf,
+  scriptView,
+  securityView,
+} from '../src/fiber-views.ts';
+
+let nextId = 1;
+
+function fiber(stateData: Record<string, unknown>, overrides: Record<string, unknown> = {}): any {
+  return {
+    fiberId: `fiber-${nextId++}`,
+    workflowType: 'Unknown',
+    currentState: 'ACTIVE',
+    status: 'ACTIVE',
+    owners: ['DAGowner'],
+    stateData,
+    definition: {},
+    sequenceNumber: 0,
+    createdOrdinal: 1n,
+    updatedOrdinal: 1n,
+    ...overrides,
+  };
+}
+
+const metadata = { createdBy: 'DAGcreator', createdAt: '2026-05-01T00:00:00.000Z' };
+
+describe('daoView', () => {
+  it('maps each create-dao schema', () => {
+    const multisig = daoView(fiber({
+      schema: 'MultisigDAO', name: 'Treasury', description: '', signers: ['DAGa', 'DAGb'], threshold: 2,
+      proposalTTLMs: 1000, proposal: null, signatures: {}, actions: [], cancelledProposals: [], metadata, status: 'ACTIVE',
+    }));
+    assert.strictEqual(multisig.daoType, 'MULTISIG');
+    assert.deepStrictEqual(multisig.signers, ['DAGa', 'DAGb']);
+    assert.strictEqual(multisig.threshold, 2);
+    assert.strictEqual(multisig.votingPeriodMs, 1000);
+    assert.strictEqual(multisig.creator, 'DAGcreator');
+    assert.strictEqual(multisig.allowDelegation, false);
+
+    const token = daoView(fiber({
+      schema: 'TokenDAO', name: 'Token', tokenId: 't-1', balances: {}, delegations: { DAGa: 'DAGb' },
+      proposalThreshold: 1000, votingPeriodMs: 5, timelockMs: 6, quorum: 10000, metadata,
+    }));
+    assert.strictEqual(token.daoType, 'TOKEN');
+    assert.strictEqual(token.quorum, 10000);
+    assert.strictEqual(token.timelockMs, 6);
+    assert.strictEqual(token.allowDelegation, true);
+    assert.deepStrictEqual(token.delegations, [{ delegator: 'DAGa', delegate: 'DAGb', weight: 1 }]);
+
+    const simple = daoView(fiber({
+      schema: 'Governance', name: 'Simple', admins: ['DAGcreator'], proposers: [], vetoers: ['DAGv'],
+      executors: ['DAGcreator'], votingPeriodMs: 5, vetoPeriodMs: 7, passingThreshold: 0.5, allowDelegation: true,
+      delegations: { DAGa: { delegateTo: 'DAGc', weight: 3 } }, metadata,
+    }));
+    assert.strictEqual(simple.daoType, 'SIMPLE');
+    assert.strictEqual(simple.timelockMs, 7);
+    assert.deepStrictEqual(simple.vetoers, ['DAGv']);
+    assert.deepStrictEqual(simple.delegations, [{ delegator: 'DAGa', delegate: 'DAGc', weight: 3 }]);
+    // Fiber base fields come along
+    assert.strictEqual(simple.daoId, simple.fiberId);
+    assert.strictEqual(simple.updatedOrdinal, 1n);
+  });
+});
+
+describe('proposalsOf', () => {
+  it('lists the open proposal with its tally, then the history', () => {
+    const dao = fiber({
+      schema: 'Governance',
+      proposal: { id: 'p3', title: 'Raise quorum', proposer: 'DAGa', actionType: 'general', payload: { q: 2 } },
+      votes: { DAGa: { vote: 'for', weight: 2 }, DAGb: 'against', DAGc: { vote: 'abstain' } },
+      executedProposals: [{ id: 'p1', title: 'First' }],
+      vetoedProposals: [{ proposalId: 'p2', title: 'Second', votes: [{ voter: 'DAGa', vote: 'for' }] }],
+    }, { currentState: 'VOTING' });
+
+    const proposals = proposalsOf(dao);
+    assert.deepStrictEqual(proposals.map((p) => [p.id, p.status]), [['p3', 'VOTING'], ['p1', 'EXECUTED'], ['p2', 'VETOED']]);
+    assert.deepStrictEqual(
+      [proposals[0].votesFor, proposals[0].votesAgainst, proposals[0].votesAbstain],
+      [2, 1, 1]
+    );
+    assert.deepStrictEqual(proposals[0].payload, { q: 2 });
+    assert.strictEqual(proposals[2].votesFor, 1);
+  });
+
+  it('counts multisig signatures and reads executed actions', () => {
+    const dao = fiber({
+      schema: 'MultisigDAO',
+      proposal: { id: 'm2', title: 'Pay' },
+      signatures: { DAGa: { signedAt: 1 }, DAGb: { signedAt: 2 } },
+      actions: [{ id: 'm1', title: 'Earlier' }],
+    }, { currentState: 'PENDING' });
+
+    const [current, executed] = proposalsOf(dao);
+    assert.strictEqual(current.status, 'PENDING');
+    assert.deepStrictEqual(current.votes.map((v) => v.voter), ['DAGa', 'DAGb']);
+    assert.strictEqual(current.votesFor, 2);
+    assert.deepStrictEqual([executed.id, executed.status], ['m1', 'EXECUTED']);
+  });
+
+  it('returns nothing for a DAO without proposals', () => {
+    assert.deepStrictEqual(proposalsOf(fiber({ schema: 'TokenDAO', proposal: null, votes: null })), []);
+  });
+});
+
+describe('oracleView', () => {
+  it('maps the registered oracle shape', () => {
+    const oracle = oracleView(fiber({
+      schema: 'Oracle', address: 'DAGoracle', stake: 500, minStake: 100,
+      reputation: { accuracy: 97.5, totalResolutions: 40, disputesWon: 2, disputesLost: 1 },
+      domains: ['sports'], slashingHistory: [{ amount: 10, reason: 'TIMEOUT' }], status: 'ACTIVE',
+    }));
+    assert.strictEqual(oracle.address, 'DAGoracle');
+    assert.strictEqual(oracle.oracleStatus, 'ACTIVE');
+    assert.strictEqual(oracle.accuracy, 97.5);
+    assert.strictEqual(oracle.totalResolutions, 40);
+    assert.deepStrictEqual(oracle.domains, ['sports']);
+    assert.strictEqual(oracle.slashingHistory.length, 1);
+  });
+});
+
+describe('corporate views', () => {
+  const entity = corporateEntityView(fiber({
+    schema: 'CorporateEntity', entityId: 'e1', legalName: 'Otto Inc.', entityType: 'C_CORP',
+    jurisdiction: { state: 'DE', country: 'USA' },
+    shareStructure: {
+      classes: [
+        { classId: 'c1', className: 'Common', authorized: 1000, parValue: 0.01, votingRights: true, votesPerShare: 1, issued: 0 },
+        { classId: 'c2', className: 'Preferred', authorized: 100, parValue: 1, votingRights: false, votesPerShare: 1, issued: 0 },
+      ],
+      totalAuthorized: 1100,
+    },
+    boardId: 'b1', officersId: 'o1', complianceId: 'k1',
+  }, { fiberId: 'e1' }));
+
+  const security = (holderId: string | null, shareClassName: string, shareCount: number, currentState = 'ISSUED') =>
+    securityView(fiber({
+      schema: 'CorporateSecurities', entityId: 'e1', shareClassName, shareCount,
+      ...(holderId && { holder: { holderId, holderName: holderId.toUpperCase(), holderType: 'INDIVIDUAL' } }),
+    }, { currentState }));
+
+  it('maps the incorporated entity', () => {
+    assert.strictEqual(entity.legalName, 'Otto Inc.');
+    assert.deepStrictEqual(entity.jurisdiction, { state: 'DE', country: 'USA' });
+    assert.deepStrictEqual(entity.shareClasses.map((c) => c.className), ['Common', 'Preferred']);
+    assert.deepStrictEqual([entity.boardId, entity.officersId, entity.complianceId], ['b1', 'o1', 'k1']);
+  });
+
+  it('sums holdings and voting power across securities', () => {
+    const table = capTableOf(entity, [
+      security('alice', 'Common', 600),
+      security('bob', 'Common', 200),
+      security('alice', 'Common', 100),
+      security('bob', 'Preferred', 100),
+      security(null, 'Common', 50, 'AUTHORIZED'),
+      security('carol', 'Common', 75, 'CANCELLED'),
+    ]);
+
+    assert.strictEqual(table.totalOutstanding, 1000);
+    assert.strictEqual(table.totalVotes, 900);
+    assert.deepStrictEqual(
+      table.holdings.map((h) => [h.holderId, h.shareClass, h.shares, h.votes]),
+      [['alice', 'Common', 700, 700], ['bob', 'Common', 200, 200], ['bob', 'Preferred', 100, 0]]
+    );
+    assert.strictEqual(table.holdings[0].ownershipPercent, 70);
+    assert.strictEqual(table.holdings[2].votingPercent, 0);
+  });
+});
+
+describe('scriptView', () => {
+  it('reads the indexed script row', () => {
+    const script = scriptView(fiber({
+      schema: 'Script', name: 'price-feed', description: null, state: { last: 42 },
+      lastInvocation: { result: 42 }, accessControl: { invokers: ['DAGi'], owners: ['DAGowner'] },
+    }, { workflowType: 'Script', definition: { scriptProgram: { '+': [1, 1] } } }));
+    assert.strictEqual(script.name, 'price-feed');
+    assert.deepStrictEqual(script.invokers, ['DAGi']);
+    assert.deepStrictEqual(script.program, { '+': [1, 1] });
+    assert.deepStrictEqual(script.state, { last: 42 });
+  });
+});
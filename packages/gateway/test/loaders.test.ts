@@ -0,0 +1,222 @@
+/**
+ * Relation Loader Unit Tests
+ *
+ * Executes representative nested queries against the real schema with an
+ * in-memory Prisma stand-in that counts queries, and asserts the count stays
+ * constant as the number of parents grows:
+ *   - leaderboard → platformLinks / contracts → counterparty
+ *   - leaderboard → attestationsReceived → issuer
+ *   - fibers → transitions
+ *
+ * The relation resolvers below mirror the ones in src/resolvers.ts, which
+ * can't be imported without a database.
+ *
+ * Run: node --test --experimental-strip-types test/loaders.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { graphql } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { typeDefs } from '../src/schema.ts';
+import { createLoaders, type Loaders } from '../src/loaders.ts';
+
+// ── In-memory data ───────────────────────────────────────────────────────────
+
+type Row = Record<string, any>;
+
+function buildData(agentCount: number) {
+  const agents: Row[] = [];
+  const platformLinks: Row[] = [];
+  const contracts: Row[] = [];
+  const attestations: Row[] = [];
+  const fibers: Row[] = [];
+  const transitions: Row[] = [];
+
+  for (let id = 1; id <= agentCount; id++) {
+    agents.push({ id, address: `DAG${id}`, reputation: 1000 - id });
+    platformLinks.push({ id, agentId: id, platform: 'DISCORD', platformUserId: `u${id}`, verified: true });
+    const counterpartyId = (id % agentCount) + 1;
+    contracts.push({ id, contractId: `c${id}`, proposerId: id, counterpartyId, state: id % 2 ? 'ACTIVE' : 'PROPOSED' });
+    for (let n = 0; n < 3; n++) {
+      attestations.push({
+        id: `${id}-${n}`, agentId: id, issuerId: ((id + n) % agentCount) + 1,
+        type: 'VOUCH', delta: 1, createdAt: new Date(2026, 0, 1, 0, n),
+      });
+    }
+    fibers.push({ fiberId: `f${id}`, workflowType: 'Ticket' });
+    for (let seq = 1; seq <= 5; seq++) {
+      transitions.push({ fiberId: `f${id}`, eventName: `e${seq}`, sequenceNumber: seq, snapshotOrdinal: seq });
+    }
+  }
+  return { agents, platformLinks, contracts, attestations, fibers, transitions };
+}
+
+/**
+ * Just enough of PrismaClient for the loaders and the root fields below:
+ * `where: { x: { in } }` / `where: { x }`, nested `select` with take/skip.
+ */
+function fakeDb(data: ReturnType<typeof buildData>) {
+  const queries: string[] = [];
+
+  const matches = (row: Row, where: Row = {}) =>
+    Object.entries(where).every(([field, cond]) =>
+      cond && typeof cond === 'object' && 'in' in cond ? cond.in.includes(row[field]) : row[field] === cond
+    );
+
+  const page = (rows: Row[], { take, skip = 0 }: Row) =>
+    rows.slice(skip, take === undefined ? undefined : skip + take);
+
+  const table = (name: string, rows: Row[], nested: Record<string, (parent: Row) => Row[]> = {}) => ({
+    async findMany(args: Row = {}) {
+      queries.push(name);
+      let result = rows.filter((row) => matches(row, args.where));
+      if (args.take !== undefined) result = page(result, args);
+      if (!args.select) return result;
+      return result.map((row) => {
+        const picked: Row = {};
+        for (const [field, sel] of Object.entries(args.select as Row)) {
+          picked[field] = nested[field] ? page(nested[field](row), sel === true ? {} : sel) : row[field];
+        }
+        return picked;
+      });
+    },
+  });
+
+  const db = {
+    agent: table('agent', data.agents, {
+      attestationsReceived: (a) => data.attestations
+        .filter((t) => t.agentId === a.id)
+        .sort((x, y) => y.createdAt - x.createdAt),
+      reputationHistory: () => [],
+    }),
+    platformLink: table('platformLink', data.platformLinks),
+    contract: table('contract', data.contracts),
+    fiber: table('fiber', data.fibers, {
+      transitions: (f) => data.transitions
+        .filter((t) => t.fiberId === f.fiberId)
+        .sort((x, y) => y.sequenceNumber - x.sequenceNumber),
+    }),
+  };
+  return { db, queries };
+}
+
+// ── Schema ───────────────────────────────────────────────────────────────────
+
+function buildSchema(db: ReturnType<typeof fakeDb>['db']) {
+  return makeExecutableSchema({
+    typeDefs,
+    resolvers: {
+      Query: {
+        leaderboard: (_: unknown, { limit = 10 }: { limit?: number }) =>
+          db.agent.findMany({ take: limit }),
+        fibers: (_: unknown, { limit = 20 }: { limit?: number }) =>
+          db.fiber.findMany({ take: limit }),
+      },
+      Agent: {
+        platformLinks: (p: Row, _: unknown, ctx: { loaders: Loaders }) =>
+          ctx.loaders.platformLinksByAgent.load(p.id),
+        attestationsReceived: (p: Row, { limit = 20, offset = 0 }: Row, ctx: { loaders: Loaders }) =>
+          ctx.loaders.attestationsByAgent.load({ id: p.id, limit, offset }),
+        contractsAsProposer: (p: Row, { state }: Row, ctx: { loaders: Loaders }) =>
+          ctx.loaders.contractsByProposer.load({ agentId: p.id, state }),
+        contractsAsCounterparty: (p: Row, { state }: Row, ctx: { loaders: Loaders }) =>
+          ctx.loaders.contractsByCounterparty.load({ agentId: p.id, state }),
+      },
+      Attestation: {
+        issuer: (p: Row, _: unknown, ctx: { loaders: Loaders }) =>
+          p.issuerId ? ctx.loaders.agentById.load(p.issuerId) : null,
+      },
+      Contract: {
+        proposer: (p: Row, _: unknown, ctx: { loaders: Loaders }) => ctx.loaders.agentById.load(p.proposerId),
+        counterparty: (p: Row, _: unknown, ctx: { loaders: Loaders }) => ctx.loaders.agentById.load(p.counterpartyId),
+      },
+      Fiber: {
+        transitions: (p: Row, { limit = 20 }: Row, ctx: { loaders: Loaders }) =>
+          ctx.loaders.transitionsByFiber.load({ id: p.fiberId, limit }),
+      },
+    },
+  });
+}
+
+async function run(agentCount: number, source: string, variableValues?: Row) {
+  const { db, queries } = fakeDb(buildData(agentCount));
+  const result = await graphql({
+    schema: buildSchema(db),
+    source,
+    variableValues,
+    contextValue: { loaders: createLoaders(db as any) },
+  });
+  assert.strictEqual(result.errors, undefined, JSON.stringify(result.errors));
+  return { data: JSON.parse(JSON.stringify(result.data)) as Row, queries };
+}
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+const LEADERBOARD = `query ($limit: Int) {
+  leaderboard(limit: $limit) {
+    address
+    platformLinks { platformUserId }
+    contractsAsProposer { contractId counterparty { address } }
+    contractsAsCounterparty(state: ACTIVE) { contractId proposer { address } }
+    attestationsReceived(limit: 2) { id issuer { address } }
+  }
+}`;
+
+describe('relation loaders', () => {
+  it('resolves leaderboard relations in a constant number of queries', async () => {
+    const small = await run(5, LEADERBOARD, { limit: 5 });
+    const large = await run(100, LEADERBOARD, { limit: 100 });
+
+    // leaderboard + platformLinks + 2 × contracts + attestations + agentById
+    assert.strictEqual(small.queries.length, 6, small.queries.join(','));
+    assert.deepStrictEqual(large.queries, small.queries);
+  });
+
+  it('returns each parent its own rows, in parent order', async () => {
+    const { data } = await run(4, LEADERBOARD, { limit: 4 });
+    const [first, , , last] = data.leaderboard;
+
+    assert.deepStrictEqual(first.platformLinks, [{ platformUserId: 'u1' }]);
+    assert.deepStrictEqual(first.contractsAsProposer, [{ contractId: 'c1', counterparty: { address: 'DAG2' } }]);
+    // agent 1 is counterparty on agent 4's contract, which is PROPOSED
+    assert.deepStrictEqual(first.contractsAsCounterparty, []);
+    assert.deepStrictEqual(last.contractsAsCounterparty, [{ contractId: 'c3', proposer: { address: 'DAG3' } }]);
+    // newest two attestations per agent
+    assert.deepStrictEqual(first.attestationsReceived.map((a: Row) => a.id), ['1-2', '1-1']);
+    assert.deepStrictEqual(first.attestationsReceived.map((a: Row) => a.issuer.address), ['DAG4', 'DAG3']);
+  });
+
+  it('applies per-field arguments per batch, not across batches', async () => {
+    const { data, queries } = await run(3, `{
+      leaderboard(limit: 3) {
+        recent: attestationsReceived(limit: 1) { id }
+        older: attestationsReceived(limit: 1, offset: 1) { id }
+      }
+    }`);
+
+    assert.deepStrictEqual(queries, ['agent', 'agent', 'agent']);
+    assert.deepStrictEqual(data.leaderboard[0], { recent: [{ id: '1-2' }], older: [{ id: '1-1' }] });
+  });
+
+  it('loads fiber transitions in one query', async () => {
+    const { data, queries } = await run(50, '{ fibers(limit: 50) { fiberId transitions(limit: 2) { eventName } } }');
+
+    assert.deepStrictEqual(queries, ['fiber', 'fiber']);
+    assert.deepStrictEqual(data.fibers[7], { fiberId: 'f8', transitions: [{ eventName: 'e5' }, { eventName: 'e4' }] });
+  });
+
+  it('does not cache across loads when caching is disabled', async () => {
+    const { db, queries } = fakeDb(buildData(2));
+
+    const cached = createLoaders(db as any);
+    await cached.agentById.load(1);
+    await cached.agentById.load(1);
+    assert.strictEqual(queries.length, 1);
+
+    const fresh = createLoaders(db as any, { cache: false });
+    await fresh.agentById.load(1);
+    await fresh.agentById.load(1);
+    assert.strictEqual(queries.length, 3);
+  });
+});
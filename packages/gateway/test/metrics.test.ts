@@ -0,0 +1,81 @@
+/**
+ * Resolver Metrics Unit Tests
+ *
+ * Runs operations through an Apollo server with the plugin and checks which
+ * fields are timed and which errors are counted.
+ *
+ * Run: node --test --experimental-strip-types test/metrics.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { ApolloServer } from '@apollo/server';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { resolvedFields, resolverMetricsPlugin } from '../src/metrics.ts';
+
+type Labels = { type: string; field: string };
+
+function recorder() {
+  const observed: Array<Labels & { seconds: number }> = [];
+  const errors: Labels[] = [];
+  const metrics = {
+    duration: { observe: (labels: Labels, seconds: number) => { observed.push({ ...labels, seconds }); } },
+    errors: { inc: (labels: Labels) => { errors.push(labels); } },
+  };
+  return { metrics, observed, errors };
+}
+
+const typeDefs = `
+  type Agent { address: String! reputation: Int! slow: String }
+  type Query { agent: Agent broken: String }
+`;
+
+const resolvers = {
+  Query: {
+    agent: () => ({ address: 'DAG1', reputation: 7 }),
+    broken: () => { throw new Error('nope'); },
+  },
+  Agent: {
+    slow: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return 'done';
+    },
+  },
+};
+
+async function run(query: string) {
+  const { metrics, observed, errors } = recorder();
+  const schema = makeExecutableSchema({ typeDefs, resolvers });
+  const server = new ApolloServer({ schema, plugins: [resolverMetricsPlugin(schema, metrics)] });
+  await server.start();
+  try {
+    await server.executeOperation({ query });
+  } finally {
+    await server.stop();
+  }
+  return { observed, errors };
+}
+
+describe('resolvedFields', () => {
+  it('lists fields with their own resolver', () => {
+    const schema = makeExecutableSchema({ typeDefs, resolvers });
+    assert.deepStrictEqual([...resolvedFields(schema)].sort(), ['Agent.slow', 'Query.agent', 'Query.broken']);
+  });
+});
+
+describe('resolverMetricsPlugin', () => {
+  it('times fields with resolvers and skips plain properties', async () => {
+    const { observed, errors } = await run('{ agent { address reputation slow } }');
+
+    assert.deepStrictEqual(observed.map(({ type, field }) => `${type}.${field}`), ['Query.agent', 'Agent.slow']);
+    assert.ok(observed[1].seconds >= 0.015, `slow resolver took ${observed[1].seconds}s`);
+    assert.deepStrictEqual(errors, []);
+  });
+
+  it('counts resolvers that throw', async () => {
+    const { observed, errors } = await run('{ broken }');
+
+    assert.deepStrictEqual(observed.map((o) => o.field), ['broken']);
+    assert.deepStrictEqual(errors, [{ type: 'Query', field: 'broken' }]);
+  });
+});
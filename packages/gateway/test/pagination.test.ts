@@ -0,0 +1,174 @@
+/**
+ * Cursor Pagination Unit Tests
+ *
+ * Pages through an in-memory table with the keyset `where`/`orderBy` clauses
+ * the connections hand to Prisma:
+ *   - forward and backward pages visit every row once, in sort order
+ *   - ties on the sort field and NULLs (NAME_ASC) don't drop or repeat rows
+ *   - rows inserted between pages don't shift later pages
+ *   - cursors are opaque and bound to their ordering
+ *
+ * Run: node --test --experimental-strip-types test/pagination.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  connection,
+  decodeCursor,
+  encodeCursor,
+  type ConnectionArgs,
+  type ConnectionSource,
+  type SortField,
+} from '../src/pagination.ts';
+
+// ── In-memory source ─────────────────────────────────────────────────────────
+
+type Row = Record<string, any>;
+
+/** Evaluate the subset of Prisma filters pagination.ts emits */
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([key, cond]) => {
+    if (key === 'AND') return (cond as Row[]).every((w) => matches(row, w));
+    if (key === 'OR') return (cond as Row[]).some((w) => matches(row, w));
+    const value = row[key];
+    if (cond === null || typeof cond !== 'object' || cond instanceof Date) {
+      return cond instanceof Date ? value?.getTime() === cond.getTime() : value === cond;
+    }
+    if ('not' in cond) return value !== cond.not;
+    if (value === null) return false;
+    if ('gt' in cond) return value > cond.gt;
+    if ('lt' in cond) return value < cond.lt;
+    throw new Error(`unsupported filter ${JSON.stringify(cond)}`);
+  });
+}
+
+function compare(a: Row, b: Row, orderBy: Row[]): number {
+  for (const clause of orderBy) {
+    const [field, spec] = Object.entries(clause)[0];
+    const { sort, nulls } = typeof spec === 'string' ? { sort: spec, nulls: undefined } : spec;
+    const x = a[field];
+    const y = b[field];
+    if (x === y) continue;
+    if (x === null || y === null) {
+      const nullsLast = nulls ? nulls === 'last' : sort === 'asc';
+      return (x === null) === nullsLast ? 1 : -1;
+    }
+    return (x < y ? -1 : 1) * (sort === 'asc' ? 1 : -1);
+  }
+  return 0;
+}
+
+function table(rows: Row[]): ConnectionSource<Row> & { rows: Row[] } {
+  return {
+    rows,
+    async findMany({ where, orderBy, take }) {
+      return rows.filter((r) => matches(r, where)).sort((a, b) => compare(a, b, orderBy)).slice(0, take);
+    },
+    async count({ where }) {
+      return rows.filter((r) => matches(r, where)).length;
+    },
+  };
+}
+
+const BY_REPUTATION: SortField[] = [
+  { field: 'reputation', direction: 'desc' },
+  { field: 'id', direction: 'desc' },
+];
+
+const BY_NAME: SortField[] = [
+  { field: 'displayName', direction: 'asc', nullable: true },
+  { field: 'id', direction: 'asc' },
+];
+
+function agents(count: number): Row[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    reputation: 10 * (i % 4), // heavy ties
+    displayName: i % 3 === 0 ? null : `agent-${String.fromCharCode(97 + (i % 5))}`,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, i)),
+  }));
+}
+
+async function walk(source: ConnectionSource<Row>, sort: SortField[], size: number, backward = false) {
+  const ids: number[] = [];
+  let cursor: string | null = null;
+  for (let pages = 0; pages < 100; pages++) {
+    const args: ConnectionArgs = backward ? { last: size, before: cursor } : { first: size, after: cursor };
+    const page = await connection(source, {}, 'test', sort, args);
+    const pageIds = page.edges.map((e) => e.node.id);
+    ids.push(...(backward ? pageIds.reverse() : pageIds));
+    const more = backward ? page.pageInfo.hasPreviousPage : page.pageInfo.hasNextPage;
+    if (!more) return ids;
+    cursor = backward ? page.pageInfo.startCursor : page.pageInfo.endCursor;
+  }
+  throw new Error('pagination did not terminate');
+}
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+describe('connection', () => {
+  it('visits every row once, in order, across tied sort values', async () => {
+    const source = table(agents(23));
+    const expected = [...source.rows]
+      .sort((a, b) => compare(a, b, [{ reputation: 'desc' }, { id: 'desc' }]))
+      .map((r) => r.id);
+
+    assert.deepStrictEqual(await walk(source, BY_REPUTATION, 5), expected);
+    assert.deepStrictEqual(await walk(source, BY_REPUTATION, 5, true), [...expected].reverse());
+  });
+
+  it('keeps NULLs in place on a nullable sort field in both directions', async () => {
+    const source = table(agents(17));
+    const expected = [...source.rows]
+      .sort((a, b) => compare(a, b, [{ displayName: 'asc' }, { id: 'asc' }]))
+      .map((r) => r.id);
+
+    assert.deepStrictEqual(await walk(source, BY_NAME, 4), expected);
+    assert.deepStrictEqual(await walk(source, BY_NAME, 4, true), [...expected].reverse());
+    // NULL names sort last ascending
+    assert.strictEqual(source.rows.find((r) => r.id === expected[expected.length - 1])?.displayName, null);
+  });
+
+  it('does not shift later pages when rows are inserted ahead of the cursor', async () => {
+    const source = table(agents(10));
+    const first = await connection(source, {}, 'test', BY_REPUTATION, { first: 3 });
+    source.rows.push({ id: 100, reputation: 1000, displayName: 'new', createdAt: new Date() });
+
+    const second = await connection(source, {}, 'test', BY_REPUTATION, { first: 3, after: first.pageInfo.endCursor });
+    const seen = new Set(first.edges.map((e) => e.node.id));
+    assert.ok(second.edges.every((e) => !seen.has(e.node.id) && e.node.id !== 100));
+    assert.strictEqual(await second.totalCount(), 11);
+  });
+
+  it('reports page boundaries', async () => {
+    const source = table(agents(5));
+    const all = await connection(source, {}, 'test', BY_REPUTATION, { first: 5 });
+    assert.deepStrictEqual(
+      { next: all.pageInfo.hasNextPage, prev: all.pageInfo.hasPreviousPage },
+      { next: false, prev: false }
+    );
+
+    const empty = await connection(source, {}, 'test', BY_REPUTATION, { first: 5, after: all.pageInfo.endCursor });
+    assert.deepStrictEqual(empty.edges, []);
+    assert.deepStrictEqual(empty.pageInfo, { hasNextPage: false, hasPreviousPage: true, startCursor: null, endCursor: null });
+  });
+
+  it('rejects both first and last, oversized pages and foreign cursors', async () => {
+    const source = table(agents(3));
+    await assert.rejects(connection(source, {}, 'test', BY_REPUTATION, { first: 1, last: 1 }), /either first or last/);
+    await assert.rejects(connection(source, {}, 'test', BY_REPUTATION, { first: 101 }), /between 0 and 100/);
+
+    const cursor = encodeCursor('other', [10, 1]);
+    await assert.rejects(connection(source, {}, 'test', BY_REPUTATION, { after: cursor }), /different ordering/);
+    await assert.rejects(connection(source, {}, 'test', BY_REPUTATION, { after: 'garbage' }), /Invalid cursor/);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trip Date and BigInt sort values', () => {
+    const values = [new Date('2026-03-01T12:00:00.000Z'), 123456789012345678901n, null, 'DAG1'];
+    const decoded = decodeCursor('fibers:UPDATED_DESC', encodeCursor('fibers:UPDATED_DESC', values));
+    assert.deepStrictEqual(decoded, values);
+  });
+});
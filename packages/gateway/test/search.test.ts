@@ -0,0 +1,129 @@
+/**
+ * Search Unit Tests
+ *
+ * Checks the tsquery built from user input, the parameters each full-text
+ * query is sent with, that rows come back in rank order, and the startup
+ * check for the objects prisma/search.sql installs.
+ *
+ * Run: node --test --experimental-strip-types test/search.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  assertSearchReady,
+  inHitOrder,
+  searchAgents,
+  searchFacets,
+  searchFibers,
+  searchTransitions,
+  toTsQuery,
+  type SearchDb,
+} from '../src/search.ts';
+
+function fakeDb(respond: (sql: string) => unknown[] = () => []) {
+  const calls: Array<{ sql: string; values: unknown[] }> = [];
+  const db: SearchDb = {
+    async $queryRawUnsafe<T>(sql: string, ...values: unknown[]): Promise<T> {
+      calls.push({ sql, values });
+      return respond(sql) as T;
+    },
+  };
+  return { db, calls };
+}
+
+describe('toTsQuery', () => {
+  it('prefix-matches every word', () => {
+    assert.strictEqual(toTsQuery('DAO Treas'), 'dao:* & treas:*');
+  });
+
+  it('drops tsquery operators and punctuation', () => {
+    assert.strictEqual(toTsQuery("otto's & (inc) | !corp:*"), 'otto:* & s:* & inc:* & corp:*');
+    assert.strictEqual(toTsQuery('record_resolution'), 'record:* & resolution:*');
+  });
+
+  it('keeps non-latin letters and skips repeats', () => {
+    assert.strictEqual(toTsQuery('Zürich zürich'), 'zürich:*');
+  });
+
+  it('returns null when there is nothing to match', () => {
+    assert.strictEqual(toTsQuery('  '), null);
+    assert.strictEqual(toTsQuery('&|!'), null);
+  });
+
+  it('caps the number of words', () => {
+    assert.strictEqual(toTsQuery('a b c d e f g h i j').split(' & ').length, 8);
+  });
+});
+
+describe('search queries', () => {
+  it('filters fibers and transitions by workflow type and status', async () => {
+    const { db, calls } = fakeDb();
+    await searchFibers(db, 'treasury', 5, { workflowType: 'DAO', status: 'ACTIVE' });
+    await searchTransitions(db, 'vote', 3, {});
+
+    assert.deepStrictEqual(calls[0].values.slice(0, 4), ['treasury:*', 'DAO', 'ACTIVE', 5]);
+    assert.match(calls[0].sql, /FROM "Fiber"/);
+    assert.deepStrictEqual(calls[1].values.slice(0, 4), ['vote:*', null, null, 3]);
+    assert.match(calls[1].sql, /FROM "FiberTransition"/);
+    assert.match(String(calls[1].values[4]), /StartSel=<mark>/);
+  });
+
+  it('filters agents by platform', async () => {
+    const { db, calls } = fakeDb(() => [{ id: '7', rank: 0.5, highlight: '<mark>Otto</mark>' }]);
+    const hits = await searchAgents(db, 'otto', 10, { platform: 'DISCORD', workflowType: 'ignored' });
+
+    assert.deepStrictEqual(calls[0].values.slice(0, 3), ['otto:*', 'DISCORD', 10]);
+    assert.deepStrictEqual(hits, [{ id: '7', rank: 0.5, highlight: '<mark>Otto</mark>' }]);
+  });
+
+  it('leaves each facet unfiltered by its own dimension', async () => {
+    const { db, calls } = fakeDb((sql) => [{ value: sql.includes('"platform"') ? 'TELEGRAM' : 'x', count: 1 }]);
+    const facets = await searchFacets(db, 'market', { workflowType: 'Market', status: 'ACTIVE' });
+
+    const [byType, byStatus, byPlatform] = calls;
+    assert.match(byType.sql, /GROUP BY/);
+    assert.deepStrictEqual(byType.values, ['market:*', 'ACTIVE']);
+    assert.deepStrictEqual(byStatus.values, ['market:*', 'Market']);
+    assert.deepStrictEqual(byPlatform.values, ['market:*']);
+    assert.deepStrictEqual(facets.platform, [{ value: 'TELEGRAM', count: 1 }]);
+  });
+
+  it('skips the database for empty queries', async () => {
+    const { db, calls } = fakeDb();
+    assert.deepStrictEqual(await searchFibers(db, '!!', 10), []);
+    assert.deepStrictEqual(await searchFacets(db, ''), { workflowType: [], status: [], platform: [] });
+    assert.strictEqual(calls.length, 0);
+  });
+});
+
+describe('inHitOrder', () => {
+  it('orders rows by hit and drops missing ones', () => {
+    const hits = [
+      { id: '3', rank: 0.9, highlight: '' },
+      { id: '9', rank: 0.5, highlight: '' },
+      { id: '1', rank: 0.1, highlight: '' },
+    ];
+    const rows = [{ id: 1 }, { id: 3 }];
+    assert.deepStrictEqual(inHitOrder(hits, rows, (r) => r.id), [{ id: 3 }, { id: 1 }]);
+  });
+});
+
+describe('assertSearchReady', () => {
+  it('passes when nothing is missing', async () => {
+    const { db, calls } = fakeDb();
+    await assertSearchReady(db);
+    assert.match(calls[0].sql, /pg_proc/);
+    assert.match(calls[0].sql, /pg_trigger/);
+    assert.ok((calls[0].values[0] as string[]).includes('fiber_search_text'));
+  });
+
+  it('names the missing objects and the command that installs them', async () => {
+    const { db } = fakeDb(() => [{ name: 'fiber_search_text()' }, { name: 'trigger agent_search_vector' }]);
+    await assert.rejects(assertSearchReady(db), (err: Error) => {
+      assert.match(err.message, /fiber_search_text\(\), trigger agent_search_vector/);
+      assert.match(err.message, /pnpm db:search/);
+      return true;
+    });
+  });
+});
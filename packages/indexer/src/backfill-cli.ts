@@ -0,0 +1,87 @@
+// Backfill CLI
+// Replays ML0 ordinals through the indexer without running the server.
+//
+// Usage:
+//   pnpm --filter @ottochain/indexer backfill -- --from 1000 [--to 2000] [--rebuild] [--no-resume]
+//
+//   --from N       first ordinal to replay (required)
+//   --to N         last ordinal (default: ML0's latest)
+//   --rebuild      wipe derived tables first, then re-derive everything
+//   --no-resume    replay the whole range even if part of it is indexed
+//
+// Ctrl-C stops after the current ordinal; rerun the same command to resume.
+
+import { prisma } from '@ottochain/shared';
+import { runBackfill, stopBackfill, type BackfillOptions } from './backfill.js';
+
+function parseArgs(argv: string[]): BackfillOptions {
+  const options: Partial<BackfillOptions> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--from':
+        options.from = parseOrdinal(arg, argv[++i]);
+        break;
+      case '--to':
+        options.to = parseOrdinal(arg, argv[++i]);
+        break;
+      case '--rebuild':
+        options.rebuild = true;
+        break;
+      case '--no-resume':
+        options.resume = false;
+        break;
+      case '--':
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (options.from === undefined) {
+    throw new Error('--from is required');
+  }
+  return options as BackfillOptions;
+}
+
+function parseOrdinal(flag: string, value: string | undefined): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`${flag} expects a non-negative integer, got ${value}`);
+  }
+  return n;
+}
+
+async function main(): Promise<number> {
+  let options: BackfillOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    console.error('Usage: backfill --from N [--to N] [--rebuild] [--no-resume]');
+    return 2;
+  }
+
+  let interrupted = false;
+  process.on('SIGINT', () => {
+    if (interrupted || !stopBackfill()) process.exit(130);
+    interrupted = true;
+    console.log('\nStopping after the current ordinal (Ctrl-C again to abort)...');
+  });
+
+  const result = await runBackfill(options);
+  console.log(JSON.stringify(result, null, 2));
+  return result.error ? 1 : 0;
+}
+
+main()
+  .then(async (code) => {
+    await prisma.$disconnect();
+    process.exit(code);
+  })
+  .catch(async (err) => {
+    console.error(err);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
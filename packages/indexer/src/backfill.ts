@@ -0,0 +1,235 @@
+/**
+ * Historical Backfill / Re-index
+ *
+ * Walks ML0 ordinals `from`..`to` in order, fetches the calculated state at each
+ * ordinal and replays it through processSnapshot. Used after downtime, or with
+ * `rebuild` to wipe the derived tables and re-derive them after a change to
+ * deriveAgent/deriveContract.
+ *
+ * Interrupted runs resume from the first ordinal in the range without an
+ * IndexedSnapshot, and only replay the ordinals still missing, so downtime
+ * holes are filled. Ordinals ML0 can't serve (404) are skipped and reported.
+ *
+ * Each replay tracks its own incremental cursor: live webhooks keep moving the
+ * processor's cursor while a backfill runs, so it can't be shared.
+ *
+ * Requires ML0 to serve historical checkpoints at
+ * GET /data-application/v1/checkpoint/{ordinal} → { ordinal, hash?, state }
+ * (scripts/testing/stub-ml0.ts serves recorded ones for local testing).
+ */
+
+import { prisma, getConfig } from '@ottochain/shared';
+import { processSnapshot, requestFullPass, type Checkpoint } from './processor.js';
+
+export interface BackfillOptions {
+  from: number;
+  /** Last ordinal to replay (default: ML0's latest) */
+  to?: number;
+  /** Wipe derived tables before replaying */
+  rebuild?: boolean;
+  /** Replay only the ordinals in range not indexed yet (default true; ignored with rebuild) */
+  resume?: boolean;
+}
+
+export interface BackfillProgress {
+  running: boolean;
+  from: number | null;
+  to: number | null;
+  current: number | null;
+  processed: number;
+  skipped: number[];
+  total: number;
+  percent: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** Average replay rate over the run so far */
+  ordinalsPerSecond: number | null;
+  etaSeconds: number | null;
+  stopRequested: boolean;
+  error: string | null;
+}
+
+const HISTORICAL_CHECKPOINT_PATH = '/data-application/v1/checkpoint';
+
+let progress: BackfillProgress = idleProgress();
+let stopRequested = false;
+
+function idleProgress(): BackfillProgress {
+  return {
+    running: false,
+    from: null,
+    to: null,
+    current: null,
+    processed: 0,
+    skipped: [],
+    total: 0,
+    percent: 0,
+    startedAt: null,
+    finishedAt: null,
+    ordinalsPerSecond: null,
+    etaSeconds: null,
+    stopRequested: false,
+    error: null,
+  };
+}
+
+/**
+ * Fetch the calculated state at `ordinal` (null if ML0 doesn't have it)
+ */
+export async function fetchHistoricalCheckpoint(
+  ml0Url: string,
+  ordinal: number
+): Promise<(Checkpoint & { hash?: string }) | null> {
+  const response = await fetch(`${ml0Url}${HISTORICAL_CHECKPOINT_PATH}/${ordinal}`, {
+    signal: AbortSignal.timeout(30000),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch checkpoint ${ordinal}: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as Checkpoint & { hash?: string };
+}
+
+/**
+ * ML0's latest snapshot ordinal
+ */
+async function fetchLatestOrdinal(ml0Url: string): Promise<number> {
+  const response = await fetch(`${ml0Url}/snapshots/latest/ordinal`, { signal: AbortSignal.timeout(10000) });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch latest ordinal: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json() as { value: number };
+  return data.value;
+}
+
+/**
+ * Delete every row derived from snapshots. Platform links and attestations
+ * cascade with their agents.
+ */
+export async function wipeDerivedTables(): Promise<void> {
+  await prisma.$transaction([
+    prisma.contract.deleteMany(),
+    prisma.reputationHistory.deleteMany(),
+    prisma.fiberTransition.deleteMany(),
+    prisma.transitionGap.deleteMany(),
+    prisma.fiber.deleteMany(),
+    prisma.agent.deleteMany(),
+    prisma.indexRevision.deleteMany(),
+    prisma.indexedSnapshot.deleteMany(),
+    // Links are re-derived from PlatformLink fibers
+    prisma.platformLinkChallenge.updateMany({ where: { linkedAt: { not: null } }, data: { linkedAt: null } }),
+  ]);
+  console.warn('🧹 Wiped derived tables (contracts, reputation, transitions, fibers, agents, snapshots)');
+}
+
+/**
+ * Replay ordinals through processSnapshot. Only one backfill runs at a time;
+ * resolves with the final progress once finished or stopped.
+ */
+export async function runBackfill(options: BackfillOptions): Promise<BackfillProgress> {
+  if (progress.running) {
+    throw new Error('A backfill is already running');
+  }
+
+  const config = getConfig();
+  stopRequested = false;
+  progress = { ...idleProgress(), running: true, startedAt: new Date().toISOString() };
+
+  try {
+    const to = options.to ?? await fetchLatestOrdinal(config.METAGRAPH_ML0_URL);
+    if (options.from > to) {
+      throw new Error(`from (${options.from}) is after to (${to})`);
+    }
+
+    if (options.rebuild) {
+      await wipeDerivedTables();
+    }
+
+    let indexed = new Set<number>();
+    if (!options.rebuild && options.resume !== false) {
+      const rows = await prisma.indexedSnapshot.findMany({
+        where: { ordinal: { gte: BigInt(options.from), lte: BigInt(to) } },
+        select: { ordinal: true },
+      });
+      indexed = new Set(rows.map((row) => Number(row.ordinal)));
+    }
+    let start = options.from;
+    while (start <= to && indexed.has(start)) start++;
+    if (start > options.from) {
+      console.log(`⏩ Resuming backfill at ordinal ${start} (${indexed.size} ordinals in range already indexed)`);
+    }
+
+    progress.from = options.from;
+    progress.to = to;
+    progress.total = to - options.from + 1;
+    progress.processed = indexed.size;
+    console.log(`⏮️ Backfilling ordinals ${start}..${to}${options.rebuild ? ' (rebuild)' : ''}`);
+
+    // Replay cursor: the first replayed checkpoint is indexed in full
+    let since = 0;
+    const startedMs = Date.now();
+    let replayed = 0;
+
+    for (let ordinal = start; ordinal <= to; ordinal++) {
+      if (indexed.has(ordinal)) continue;
+      if (stopRequested) {
+        console.warn(`⏸️ Backfill stopped before ordinal ${ordinal}; rerun to resume`);
+        break;
+      }
+      progress.current = ordinal;
+
+      const checkpoint = await fetchHistoricalCheckpoint(config.METAGRAPH_ML0_URL, ordinal);
+      if (!checkpoint) {
+        console.warn(`⚠️ ML0 has no checkpoint for ordinal ${ordinal}, skipping`);
+        progress.skipped.push(ordinal);
+      } else {
+        await processSnapshot(
+          { ordinal, hash: checkpoint.hash ?? 'backfill', timestamp: new Date().toISOString() },
+          { checkpoint, replay: true, since }
+        );
+        since = checkpoint.ordinal;
+      }
+
+      replayed++;
+      progress.processed++;
+      progress.percent = Math.round((progress.processed / progress.total) * 1000) / 10;
+      const elapsedSeconds = (Date.now() - startedMs) / 1000;
+      progress.ordinalsPerSecond = elapsedSeconds > 0 ? Math.round((replayed / elapsedSeconds) * 100) / 100 : null;
+      progress.etaSeconds = progress.ordinalsPerSecond
+        ? Math.round((progress.total - progress.processed) / progress.ordinalsPerSecond)
+        : null;
+
+      if (progress.processed % 100 === 0 || ordinal === to) {
+        console.log(`⏮️ Backfill ${progress.processed}/${progress.total} (${progress.percent}%), ordinal ${ordinal}`);
+      }
+    }
+
+    // Hand back to live indexing with a full pass over the current checkpoint
+    requestFullPass();
+  } catch (err) {
+    progress.error = (err as Error).message;
+    console.error('❌ Backfill failed:', err);
+  } finally {
+    progress.running = false;
+    progress.finishedAt = new Date().toISOString();
+  }
+
+  return getBackfillProgress();
+}
+
+/**
+ * Ask a running backfill to stop after the current ordinal
+ */
+export function stopBackfill(): boolean {
+  if (!progress.running) return false;
+  stopRequested = true;
+  progress.stopRequested = true;
+  return true;
+}
+
+/**
+ * Current (or last) backfill progress
+ */
+export function getBackfillProgress(): BackfillProgress {
+  return { ...progress, skipped: [...progress.skipped] };
+}
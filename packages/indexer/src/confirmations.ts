@@ -3,9 +3,14 @@
  * 
  * Polls GL0 global snapshots to confirm ML0 currency snapshots.
  * Updates status from PENDING → CONFIRMED when hash appears in GL0.
+ * Marks a snapshot ORPHANED and rolls back its indexed data when GL0 confirms
+ * a different hash for its ordinal. A snapshot left pending once GL0 has
+ * confirmed a later ordinal is only marked ORPHANED; its data is kept.
  */
 
 import { prisma, getConfig, publishEvent, CHANNELS } from '@ottochain/shared';
+import { rollbackSnapshot, pruneRevisions } from './rollback.js';
+import { requestFullPass, runExclusive } from './processor.js';
 
 interface GlobalSnapshot {
   value: {
@@ -21,11 +26,160 @@ interface GlobalSnapshot {
   };
 }
 
+/** A pending snapshot GL0 confirmed a different hash for */
+interface Conflict {
+  ordinal: bigint;
+  hash: string;
+  reason: string;
+}
+
+/** GL0 ordinals walked per poll at most; a longer backlog is caught up over several polls */
+const MAX_GL0_ORDINALS_PER_POLL = 50;
+
 let pollingInterval: NodeJS.Timeout | null = null;
 let lastCheckedGl0Ordinal = 0;
 
 /**
- * Check GL0 for confirmed metagraph snapshots
+ * Read the ML0 ordinal from a GL0 state channel binary (JSON-serialized
+ * Signed[CurrencyIncrementalSnapshot]). Returns null if it can't be decoded.
+ */
+function decodeSnapshotOrdinal(content: number[]): bigint | null {
+  try {
+    const signed = JSON.parse(Buffer.from(content).toString('utf8')) as { value?: { ordinal?: number } };
+    const ordinal = signed.value?.ordinal;
+    return typeof ordinal === 'number' ? BigInt(ordinal) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mark snapshots ORPHANED and roll back everything indexed from them, newest
+ * first so pre-images chain correctly (see rollback.ts). Runs on the
+ * processing chain so no snapshot is indexed in between.
+ */
+async function orphanSnapshots(conflicts: Conflict[]): Promise<void> {
+  if (conflicts.length === 0) return;
+  const newestFirst = [...conflicts].sort((a, b) => (a.ordinal > b.ordinal ? -1 : a.ordinal < b.ordinal ? 1 : 0));
+
+  await runExclusive(async () => {
+    for (const snapshot of newestFirst) {
+      await prisma.indexedSnapshot.update({
+        where: { ordinal: snapshot.ordinal },
+        data: { status: 'ORPHANED' },
+      });
+      console.warn(`⚠️ Snapshot ${snapshot.ordinal} ORPHANED: ${snapshot.reason}`);
+      await rollbackSnapshot(snapshot.ordinal, snapshot.hash, snapshot.reason);
+    }
+    requestFullPass();
+  });
+}
+
+/**
+ * Fetch a global snapshot by ordinal (or 'latest'). Returns null if GL0 doesn't serve it.
+ */
+async function fetchGlobalSnapshot(gl0Url: string, ordinal: number | 'latest'): Promise<GlobalSnapshot | null> {
+  const response = await fetch(`${gl0Url}/global-snapshots/${ordinal}`);
+  if (!response.ok) {
+    console.warn(`⚠️ GL0 returned ${response.status} for global snapshot ${ordinal}`);
+    return null;
+  }
+  return await response.json() as GlobalSnapshot;
+}
+
+/**
+ * Confirm one metagraph entry of a GL0 snapshot. When GL0 holds a different
+ * hash at the same ML0 ordinal, the pending snapshot is added to `conflicts`
+ * to be rolled back once the walk is done.
+ */
+async function confirmEntry(
+  gl0Ordinal: number,
+  entry: { value: { lastSnapshotHash: string; content: number[] } },
+  conflicts: Map<bigint, Conflict>
+): Promise<void> {
+  const confirmedHash = entry.value.lastSnapshotHash;
+  const confirmedOrdinal = decodeSnapshotOrdinal(entry.value.content);
+  
+  // Find pending snapshots to confirm. Match by hash if possible, else by ordinal.
+  let pending = await prisma.indexedSnapshot.findFirst({
+    where: { hash: confirmedHash, status: 'PENDING' }
+  });
+  
+  if (!pending && confirmedOrdinal !== null) {
+    const atOrdinal = await prisma.indexedSnapshot.findUnique({
+      where: { ordinal: confirmedOrdinal }
+    });
+    
+    if (atOrdinal?.status === 'PENDING') {
+      if (atOrdinal.hash === 'polled') {
+        // Indexed by the fallback poller without a hash — adopt GL0's
+        pending = await prisma.indexedSnapshot.update({
+          where: { ordinal: atOrdinal.ordinal },
+          data: { hash: confirmedHash },
+        });
+      } else {
+        // GL0 accepted a different snapshot at this ordinal
+        conflicts.set(atOrdinal.ordinal, {
+          ordinal: atOrdinal.ordinal,
+          hash: atOrdinal.hash,
+          reason: `GL0 ordinal ${gl0Ordinal} confirmed hash ${confirmedHash.slice(0, 12)}... instead`,
+        });
+      }
+    }
+  } else if (!pending) {
+    // Ordinal unknown and hash might not match (webhook vs polled), just confirm the oldest pending
+    pending = await prisma.indexedSnapshot.findFirst({
+      where: { status: 'PENDING' },
+      orderBy: { ordinal: 'asc' }
+    });
+  }
+  
+  if (!pending) return;
+  
+  const gl0OrdinalBigInt = BigInt(gl0Ordinal);
+  
+  // Update the indexed snapshot
+  await prisma.indexedSnapshot.update({
+    where: { ordinal: pending.ordinal },
+    data: {
+      status: 'CONFIRMED',
+      gl0Ordinal: gl0OrdinalBigInt,
+      confirmedAt: new Date(),
+    }
+  });
+  
+  // Backfill gl0Ordinal on fibers created/updated in this snapshot
+  await prisma.fiber.updateMany({
+    where: { createdOrdinal: pending.ordinal, createdGl0Ordinal: null },
+    data: { createdGl0Ordinal: gl0OrdinalBigInt }
+  });
+  await prisma.fiber.updateMany({
+    where: { updatedOrdinal: pending.ordinal, updatedGl0Ordinal: null },
+    data: { updatedGl0Ordinal: gl0OrdinalBigInt }
+  });
+  
+  // Backfill gl0Ordinal on fiber transitions in this snapshot
+  await prisma.fiberTransition.updateMany({
+    where: { snapshotOrdinal: pending.ordinal, gl0Ordinal: null },
+    data: { gl0Ordinal: gl0OrdinalBigInt }
+  });
+  
+  console.log(`✅ Confirmed ML0 snapshot ${pending.ordinal} in GL0 ordinal ${gl0Ordinal} (hash: ${confirmedHash.slice(0, 12)}...)`);
+  
+  await publishEvent(CHANNELS.STATS_UPDATED, {
+    event: 'SNAPSHOT_CONFIRMED',
+    ml0Ordinal: Number(pending.ordinal),
+    gl0Ordinal,
+    hash: confirmedHash,
+  });
+}
+
+/**
+ * Check GL0 for confirmed metagraph snapshots.
+ *
+ * Walks every GL0 ordinal since the last check (up to MAX_GL0_ORDINALS_PER_POLL
+ * per poll) and confirms each metagraph entry in it, so snapshots GL0 accepted
+ * between two polls are not missed.
  */
 async function checkConfirmations(): Promise<void> {
   const config = getConfig();
@@ -38,90 +192,38 @@ async function checkConfirmations(): Promise<void> {
   }
   
   try {
-    // Fetch latest global snapshot
-    const response = await fetch(`${gl0Url}/global-snapshots/latest`);
-    if (!response.ok) {
-      console.warn(`⚠️ GL0 returned ${response.status}`);
-      return;
-    }
-    
-    const globalSnapshot = await response.json() as GlobalSnapshot;
-    const gl0Ordinal = globalSnapshot.value.ordinal;
+    const latest = await fetchGlobalSnapshot(gl0Url, 'latest');
+    if (!latest) return;
+    const latestOrdinal = latest.value.ordinal;
     
     // Skip if we've already checked this ordinal
-    if (gl0Ordinal <= lastCheckedGl0Ordinal) {
+    if (latestOrdinal <= lastCheckedGl0Ordinal) {
       return;
     }
-    lastCheckedGl0Ordinal = gl0Ordinal;
     
-    // Check if our metagraph appears in this GL0 snapshot
-    const stateChannels = globalSnapshot.value.stateChannelSnapshots ?? {};
-    
-    // Look for our metagraph's currency snapshots in GL0
-    // The metagraph ID key in stateChannelSnapshots confirms GL0 received our snapshot
-    const metagraphSnapshots = metagraphId ? stateChannels[metagraphId] : undefined;
-    
-    if (!metagraphSnapshots || metagraphSnapshots.length === 0) {
-      // Our metagraph didn't produce a snapshot in this GL0 ordinal — normal, skip
-      return;
-    }
+    // On startup there is nothing to catch up on; begin at the latest ordinal
+    const from = lastCheckedGl0Ordinal === 0 ? latestOrdinal : lastCheckedGl0Ordinal + 1;
+    const to = Math.min(latestOrdinal, from + MAX_GL0_ORDINALS_PER_POLL - 1);
+    const conflicts = new Map<bigint, Conflict>();
     
-    // Our metagraph IS in this GL0 snapshot — confirm the latest pending
-    const latestEntry = metagraphSnapshots[metagraphSnapshots.length - 1];
-    const confirmedHash = latestEntry.value.lastSnapshotHash;
-    
-    // Find pending snapshots to confirm. Match by hash if possible, else confirm the oldest pending.
-    let pending = await prisma.indexedSnapshot.findFirst({
-      where: { hash: confirmedHash, status: 'PENDING' }
-    });
-    
-    if (!pending) {
-      // Hash might not match (webhook vs polled), just confirm the oldest pending
-      pending = await prisma.indexedSnapshot.findFirst({
-        where: { status: 'PENDING' },
-        orderBy: { ordinal: 'asc' }
-      });
-    }
-    
-    if (pending) {
-      const gl0OrdinalBigInt = BigInt(gl0Ordinal);
-      
-      // Update the indexed snapshot
-      await prisma.indexedSnapshot.update({
-        where: { ordinal: pending.ordinal },
-        data: {
-          status: 'CONFIRMED',
-          gl0Ordinal: gl0OrdinalBigInt,
-          confirmedAt: new Date(),
-        }
-      });
+    for (let gl0Ordinal = from; gl0Ordinal <= to; gl0Ordinal++) {
+      const globalSnapshot = gl0Ordinal === latestOrdinal ? latest : await fetchGlobalSnapshot(gl0Url, gl0Ordinal);
+      // Retry from this ordinal on the next poll
+      if (!globalSnapshot) break;
       
-      // Backfill gl0Ordinal on fibers created/updated in this snapshot
-      await prisma.fiber.updateMany({
-        where: { createdOrdinal: pending.ordinal, createdGl0Ordinal: null },
-        data: { createdGl0Ordinal: gl0OrdinalBigInt }
-      });
-      await prisma.fiber.updateMany({
-        where: { updatedOrdinal: pending.ordinal, updatedGl0Ordinal: null },
-        data: { updatedGl0Ordinal: gl0OrdinalBigInt }
-      });
-      
-      // Backfill gl0Ordinal on fiber transitions in this snapshot
-      await prisma.fiberTransition.updateMany({
-        where: { snapshotOrdinal: pending.ordinal, gl0Ordinal: null },
-        data: { gl0Ordinal: gl0OrdinalBigInt }
-      });
-      
-      console.log(`✅ Confirmed ML0 snapshot ${pending.ordinal} in GL0 ordinal ${gl0Ordinal} (hash: ${confirmedHash.slice(0, 12)}...)`);
+      // The metagraph ID key in stateChannelSnapshots confirms GL0 received our snapshots;
+      // an ordinal without it is normal (our metagraph didn't produce one then)
+      const stateChannels = globalSnapshot.value.stateChannelSnapshots ?? {};
+      const metagraphSnapshots = (metagraphId ? stateChannels[metagraphId] : undefined) ?? [];
       
-      await publishEvent(CHANNELS.STATS_UPDATED, {
-        event: 'SNAPSHOT_CONFIRMED',
-        ml0Ordinal: Number(pending.ordinal),
-        gl0Ordinal,
-        hash: confirmedHash,
-      });
+      for (const entry of metagraphSnapshots) {
+        await confirmEntry(gl0Ordinal, entry, conflicts);
+      }
+      lastCheckedGl0Ordinal = gl0Ordinal;
     }
     
+    await orphanSnapshots([...conflicts.values()]);
+    
     // Check for orphaned snapshots (pending for too long with newer confirmed)
     const latestConfirmed = await prisma.indexedSnapshot.findFirst({
       where: { status: 'CONFIRMED' },
@@ -129,7 +231,8 @@ async function checkConfirmations(): Promise<void> {
     });
     
     if (latestConfirmed) {
-      // Mark older pending snapshots as orphaned
+      // Mark older pending snapshots as orphaned. Status only: GL0 never showed
+      // a competing hash for them, so their indexed data is left in place.
       const orphaned = await prisma.indexedSnapshot.updateMany({
         where: {
           status: 'PENDING',
@@ -141,6 +244,9 @@ async function checkConfirmations(): Promise<void> {
       if (orphaned.count > 0) {
         console.warn(`⚠️ Marked ${orphaned.count} snapshots as ORPHANED (superseded by ordinal ${latestConfirmed.ordinal})`);
       }
+      
+      // Everything at or below the latest confirmed ordinal is settled
+      await pruneRevisions(latestConfirmed.ordinal);
     }
     
   } catch (err) {
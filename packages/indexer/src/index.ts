@@ -4,10 +4,11 @@
 // Low-frequency fallback poller catches missed webhooks + detects forks across peers
 
 import express, { Request, Response } from 'express';
-import { prisma, getConfig, SnapshotNotificationSchema, RejectionNotificationSchema, getStatsCollector } from '@ottochain/shared';
-import { processSnapshot } from './processor.js';
+import { prisma, getConfig, SnapshotNotificationSchema, RejectionNotificationSchema, getStatsCollector, metrics, METRICS_CONTENT_TYPE } from '@ottochain/shared';
+import { processSnapshot, getProcessingStats } from './processor.js';
 import { startConfirmationPoller, stopConfirmationPoller, getConfirmationStats } from './confirmations.js';
 import { startSnapshotPoller, stopSnapshotPoller, getPollerStats } from './poller.js';
+import { startDeliveryWorker, stopDeliveryWorker, getDeliveryStats } from './subscribers.js';
 import { apiRouter } from './routes/index.js';
 
 // Stats collector - initialized in server.listen with config
@@ -35,6 +36,11 @@ app.get('/version', (_, res) => {
   });
 });
 
+// Prometheus metrics
+app.get('/metrics', async (_, res) => {
+  res.type(METRICS_CONTENT_TYPE).send(await metrics.render());
+});
+
 // Webhook endpoint for ML0 notifications (snapshots and rejections)
 // ML0 WebhookDispatcher sends both event types to the registered callback URL,
 // so we route based on the 'event' field in the payload.
@@ -174,6 +180,7 @@ app.get('/status', async (_, res) => {
   
   const confirmationStats = await getConfirmationStats();
   const pollerStats = getPollerStats();
+  const subscriberStats = await getDeliveryStats();
   
   const stats = {
     lastIndexedOrdinal: lastSnapshot?.ordinal ? Number(lastSnapshot.ordinal) : null,
@@ -183,7 +190,9 @@ app.get('/status', async (_, res) => {
     lastConfirmedAt: lastConfirmed?.confirmedAt ?? null,
     confirmations: confirmationStats,
     poller: pollerStats,
+    processing: getProcessingStats(),
     webhookSubscription: webhookSubscriptionId,
+    subscribers: subscriberStats,
     totalAgents: await prisma.agent.count(),
     totalContracts: await prisma.contract.count(),
     totalFibers: await prisma.fiber.count(),
@@ -217,6 +226,7 @@ app.get('/snapshots', async (req, res) => {
       fibersUpdated: s.fibersUpdated,
       agentsUpdated: s.agentsUpdated,
       contractsUpdated: s.contractsUpdated,
+      processingMs: s.processingMs,
     })),
     total: await prisma.indexedSnapshot.count({ where }),
   });
@@ -261,7 +271,7 @@ app.get('/fibers/:fiberId/transitions', async (req, res) => {
   const [transitions, total] = await Promise.all([
     prisma.fiberTransition.findMany({
       where: { fiberId: req.params.fiberId },
-      orderBy: { createdAt: 'desc' },
+      orderBy: [{ snapshotOrdinal: 'desc' }, { sequenceNumber: 'desc' }, { createdAt: 'desc' }],
       take: limit,
       skip: offset,
     }),
@@ -280,6 +290,8 @@ app.get('/fibers/:fiberId/transitions', async (req, res) => {
       success: t.success,
       gasUsed: t.gasUsed,
       payload: t.payload,
+      sequenceNumber: t.sequenceNumber,
+      inferred: t.inferred,
       snapshotOrdinal: Number(t.snapshotOrdinal),
       gl0Ordinal: t.gl0Ordinal ? Number(t.gl0Ordinal) : null,
       createdAt: t.createdAt,
@@ -289,6 +301,27 @@ app.get('/fibers/:fiberId/transitions', async (req, res) => {
   });
 });
 
+// Sequence numbers the indexer saw a fiber advance past without a recoverable transition
+app.get('/fibers/:fiberId/gaps', async (req, res) => {
+  const gaps = await prisma.transitionGap.findMany({
+    where: { fiberId: req.params.fiberId },
+    orderBy: { fromSequence: 'asc' },
+  });
+  
+  res.json({
+    gaps: gaps.map(g => ({
+      fromSequence: g.fromSequence,
+      toSequence: g.toSequence,
+      missing: g.toSequence - g.fromSequence + 1,
+      fromState: g.fromState,
+      toState: g.toState,
+      snapshotOrdinal: Number(g.snapshotOrdinal),
+      detectedAt: g.detectedAt,
+    })),
+    total: gaps.length,
+  });
+});
+
 // Fiber rejection history is mounted at /api/fibers/:fiberId/rejections — see routes/index.ts
 
 // Graceful shutdown
@@ -296,6 +329,7 @@ process.on('SIGTERM', () => {
   console.log('Received SIGTERM, shutting down...');
   stopSnapshotPoller();
   stopConfirmationPoller();
+  stopDeliveryWorker();
   statsCollector?.stop();
   process.exit(0);
 });
@@ -304,6 +338,7 @@ process.on('SIGINT', () => {
   console.log('Received SIGINT, shutting down...');
   stopSnapshotPoller();
   stopConfirmationPoller();
+  stopDeliveryWorker();
   statsCollector?.stop();
   process.exit(0);
 });
@@ -348,6 +383,8 @@ app.listen(port, '0.0.0.0', async () => {
   console.log(`     GET  http://localhost:${port}/api/rejections?fiberId=...&signer=...&errorCode=...`);
   console.log(`     GET  http://localhost:${port}/api/rejections/:updateHash`);
   console.log(`     GET  http://localhost:${port}/api/fibers/:fiberId/rejections`);
+  console.log(`     *    http://localhost:${port}/api/subscribers[/:id[/deliveries]]`);
+  console.log(`     *    http://localhost:${port}/api/admin/backfill (Bearer INDEXER_ADMIN_TOKEN)`);
   
   // Register with ML0 for push-based snapshot notifications
   const ml0Url = config.METAGRAPH_ML0_URL;
@@ -362,6 +399,10 @@ app.listen(port, '0.0.0.0', async () => {
   const confirmPollInterval = parseInt(process.env.GL0_POLL_INTERVAL || '15000');
   startConfirmationPoller(confirmPollInterval);
   
+  // Start outbound webhook delivery worker (retries for snapshot subscribers)
+  const deliveryInterval = parseInt(process.env.WEBHOOK_DELIVERY_INTERVAL || '5000');
+  startDeliveryWorker(deliveryInterval);
+  
   // Start stats collector for time-series metrics (trend calculations)
   const statsCollectInterval = parseInt(process.env.STATS_COLLECT_INTERVAL || '300000'); // 5 min
   const statsAggregateInterval = parseInt(process.env.STATS_AGGREGATE_INTERVAL || '900000'); // 15 min
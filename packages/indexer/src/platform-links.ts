@@ -0,0 +1,79 @@
+/**
+ * Verified Platform Links
+ *
+ * The bridge creates a PlatformLink fiber only after checking the agent's
+ * signature over a PlatformLinkChallenge (and the platform proof, when the
+ * platform has a verifier). It marks the challenge consumed and stores the
+ * link fiber's id on it before submitting. Once that fiber is in a snapshot,
+ * its challenge becomes a verified PlatformLink row.
+ *
+ * The fiber must be the one the challenge names, be owned by the challenged
+ * agent (its creator signed with the agent's key) and carry the challenge's
+ * platform account, so a fiber anyone else creates with a leaked nonce is
+ * never linked.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+/** workflowType (definition name) of link fibers */
+export const PLATFORM_LINK_WORKFLOW = 'PlatformLink';
+
+export interface LinkFiber {
+  fiberId: string;
+  owners: string[];
+  stateData?: Record<string, unknown>;
+}
+
+/**
+ * Materialize the link a newly indexed PlatformLink fiber records. Returns
+ * whether a verified link was written.
+ */
+export async function materializePlatformLink(db: Prisma.TransactionClient, fiber: LinkFiber): Promise<boolean> {
+  const data = fiber.stateData ?? {};
+  const nonce = typeof data.nonce === 'string' ? data.nonce : null;
+  const challenge = nonce ? await db.platformLinkChallenge.findUnique({ where: { nonce } }) : null;
+
+  if (
+    !challenge ||
+    challenge.linkFiberId !== fiber.fiberId ||
+    challenge.linkedAt !== null ||
+    !fiber.owners.includes(challenge.agentAddress) ||
+    data.agentAddress !== challenge.agentAddress ||
+    data.platform !== challenge.platform ||
+    data.platformUserId !== challenge.platformUserId
+  ) {
+    console.warn(`⚠️ PlatformLink fiber ${fiber.fiberId} does not match a consumed challenge, not linking`);
+    return false;
+  }
+
+  const agent = await db.agent.findUnique({ where: { address: challenge.agentAddress } });
+  if (!agent) {
+    console.warn(`⚠️ PlatformLink fiber ${fiber.fiberId}: agent ${challenge.agentAddress} not indexed, not linking`);
+    return false;
+  }
+
+  await db.platformLink.upsert({
+    where: {
+      platform_platformUserId: { platform: challenge.platform, platformUserId: challenge.platformUserId },
+    },
+    create: {
+      agentId: agent.id,
+      platform: challenge.platform,
+      platformUserId: challenge.platformUserId,
+      platformUsername: challenge.platformUsername,
+      verified: true,
+    },
+    update: {
+      agentId: agent.id,
+      platformUsername: challenge.platformUsername,
+      verified: true,
+      linkedAt: new Date(),
+    },
+  });
+  await db.platformLinkChallenge.update({
+    where: { nonce: challenge.nonce },
+    data: { linkedAt: new Date() },
+  });
+  console.log(`🔗 Verified ${challenge.platform}:${challenge.platformUserId} for agent ${challenge.agentAddress}`);
+  return true;
+}
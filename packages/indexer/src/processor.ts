@@ -1,5 +1,13 @@
 // Snapshot Processor
 // Chain-agnostic indexing of all OttoChain state machines
+//
+// Incremental: only fibers changed since the last processed ordinal are indexed.
+// The changed set comes from the notification's update list when ML0 sends one,
+// otherwise from each fiber's latestUpdateOrdinal in the checkpoint. All writes
+// for a snapshot happen in one transaction; pub/sub events go out after commit.
+//
+// Script oracles are indexed into the same Fiber table (workflowType 'Script')
+// so the gateway can serve them; they have no states, so no transitions.
 
 import { 
   prisma, 
@@ -7,8 +15,13 @@ import {
   type SnapshotNotification, 
   publishEvent, 
   CHANNELS,
+  metrics,
 } from '@ottochain/shared';
-import { AgentState as PrismaAgentState, ContractState as PrismaContractState } from '@prisma/client';
+import { AgentState as PrismaAgentState, ContractState as PrismaContractState, type Prisma } from '@prisma/client';
+import { enqueueSnapshotDeliveries, type FiberChange } from './subscribers.js';
+import { recordRevision } from './rollback.js';
+import { reconstructTransitions, type Receipt } from './transitions.js';
+import { materializePlatformLink, PLATFORM_LINK_WORKFLOW } from './platform-links.js';
 
 interface ProcessResult {
   ordinal: number;
@@ -16,6 +29,8 @@ interface ProcessResult {
   agentsUpdated: number;
   contractsUpdated: number;
   corporateUpdated: number;
+  transitionsRecorded: number;
+  gapsDetected: number;
 }
 
 interface MetagraphState {
@@ -42,193 +57,586 @@ interface StateMachineFiber {
   sequenceNumber: number;
   creationOrdinal: { value: number };
   latestUpdateOrdinal: { value: number };
-  lastReceipt?: {
-    eventName: string;
-    fromState: { value: string };
-    toState: { value: string };
-    success: boolean;
-    gasUsed: number;
-  };
+  lastReceipt?: Receipt;
+  /** Recent receipt history, oldest first (only some ML0 versions include it) */
+  receipts?: Receipt[];
 }
 
 interface ScriptFiber {
   fiberId: string;
   status: string;
   owners: string[];
+  scriptProgram?: unknown;
+  stateData?: unknown;
+  accessControl?: { invokers?: string[]; owners?: string[] };
+  metadata?: { name?: string; description?: string };
+  lastInvocation?: unknown;
+  sequenceNumber?: number;
+  creationOrdinal?: { value: number };
+  latestUpdateOrdinal?: { value: number };
+}
+
+/** workflowType of indexed script oracle rows */
+const SCRIPT_WORKFLOW_TYPE = 'Script';
+
+/** Calculated metagraph state as served by ML0's checkpoint endpoints */
+export interface Checkpoint {
+  ordinal: number;
+  state: MetagraphState;
+}
+
+export interface ProcessOptions {
+  /** Use this checkpoint instead of fetching the current one (backfill) */
+  checkpoint?: Checkpoint;
+  /**
+   * Historical replay: no pub/sub or subscriber webhooks, never overwrite rows
+   * indexed from a later ordinal, and record the snapshot as CONFIRMED
+   * (ML0 only serves history from its canonical chain)
+   */
+  replay?: boolean;
+  /**
+   * Replay cursor: only fibers updated after this ordinal are indexed (0 or
+   * unset = all). Replays never read or move the live cursor, which incoming
+   * webhooks keep advancing while a backfill runs.
+   */
+  since?: number;
+}
+
+/** Database handle inside the per-snapshot transaction */
+type Db = Prisma.TransactionClient;
+
+/** Queue a pub/sub event to publish once the transaction commits */
+type Emit = (channel: string, data: unknown) => void;
+
+/** How the set of fibers to index was determined */
+type FetchMode = 'update-list' | 'incremental' | 'full';
+
+interface SnapshotTiming {
+  ordinal: number;
+  mode: FetchMode;
+  fibersFetched: number;
+  fibersUpdated: number;
+  transitionsRecorded: number;
+  gapsDetected: number;
+  fetchMs: number;
+  writeMs: number;
+  totalMs: number;
+  processedAt: string;
 }
 
+const TIMING_HISTORY = 50;
+const FETCH_CONCURRENCY = 8;
+
+// Checkpoint ordinal covered by the last successful run (0 = full pass next)
+let lastProcessedOrdinal = 0;
+const timings: SnapshotTiming[] = [];
+
+// Prometheus metrics (source: live webhook/poller snapshots or backfill replays)
+const snapshotsProcessed = metrics.counter(
+  'indexer_snapshots_processed_total', 'Snapshots indexed, by fetch mode', ['mode', 'source']
+);
+const snapshotsFailed = metrics.counter('indexer_snapshots_failed_total', 'Snapshots whose processing threw');
+const processingDuration = metrics.histogram(
+  'indexer_snapshot_processing_duration_seconds', 'Time to fetch and index one snapshot', ['mode', 'source'],
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+const fetchDuration = metrics.histogram(
+  'indexer_snapshot_fetch_duration_seconds', 'Time to fetch the changed fibers for one snapshot', ['mode'],
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+const rowsIndexed = metrics.counter(
+  'indexer_rows_indexed_total', 'Rows written while indexing snapshots', ['kind']
+);
+const lastOrdinalGauge = metrics.gauge('indexer_last_processed_ordinal', 'Checkpoint ordinal covered by the last indexed snapshot');
+
+// Snapshots are processed one at a time (webhook and poller may overlap)
+let processingChain: Promise<unknown> = Promise.resolve();
+
 /**
- * Process a snapshot notification:
- * 1. Fetch current state from metagraph
- * 2. Index ALL state machines as generic Fibers
- * 3. Derive Agent records for AgentIdentity workflows
- * 4. Derive Contract records for Contract workflows
+ * Fetch a single state machine from ML0 (null if it doesn't exist)
+ */
+async function fetchStateMachine(ml0Url: string, fiberId: string): Promise<StateMachineFiber | null> {
+  const response = await fetch(`${ml0Url}/data-application/v1/state-machines/${fiberId}`, {
+    signal: AbortSignal.timeout(10000),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch state machine ${fiberId}: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as StateMachineFiber;
+}
+
+/**
+ * Fetch a single script oracle from ML0 (null if it doesn't exist)
+ */
+async function fetchScript(ml0Url: string, fiberId: string): Promise<ScriptFiber | null> {
+  const response = await fetch(`${ml0Url}/data-application/v1/scripts/${fiberId}`, {
+    signal: AbortSignal.timeout(10000),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch script ${fiberId}: ${response.status} ${response.statusText}`);
+  }
+  return { ...(await response.json() as ScriptFiber), fiberId };
+}
+
+/**
+ * Fetch the fibers and scripts changed by this snapshot (after ordinal `since`)
  */
-export async function processSnapshot(notification: SnapshotNotification): Promise<ProcessResult> {
+async function fetchChangedFibers(notification: SnapshotNotification, since: number, supplied?: Checkpoint): Promise<{
+  fibers: StateMachineFiber[];
+  scripts: ScriptFiber[];
+  mode: FetchMode;
+  checkpointOrdinal: number;
+}> {
   const config = getConfig();
   
-  // Fetch current calculated state from ML0
-  const stateUrl = `${config.METAGRAPH_ML0_URL}/data-application/v1/checkpoint`;
-  const response = await fetch(stateUrl);
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch state: ${response.status} ${response.statusText}`);
+  // ML0 told us which fibers this snapshot touched — fetch just those
+  if (notification.updatedFiberIds && !supplied) {
+    const ids = [...new Set(notification.updatedFiberIds)];
+    const fibers: StateMachineFiber[] = [];
+    const missing: string[] = [];
+    for (let i = 0; i < ids.length; i += FETCH_CONCURRENCY) {
+      const slice = ids.slice(i, i + FETCH_CONCURRENCY);
+      const batch = await Promise.all(slice.map((id) => fetchStateMachine(config.METAGRAPH_ML0_URL, id)));
+      batch.forEach((fiber, j) => fiber ? fibers.push(fiber) : missing.push(slice[j]));
+    }
+    // The update list doesn't say which ids are scripts; try the rest as scripts
+    const scripts: ScriptFiber[] = [];
+    for (let i = 0; i < missing.length; i += FETCH_CONCURRENCY) {
+      const batch = await Promise.all(
+        missing.slice(i, i + FETCH_CONCURRENCY).map((id) => fetchScript(config.METAGRAPH_ML0_URL, id))
+      );
+      for (const script of batch) if (script) scripts.push(script);
+    }
+    console.log(`📊 Snapshot ${notification.ordinal}: ${fibers.length} updated state machines, ${scripts.length} scripts (update list)`);
+    return { fibers, scripts, mode: 'update-list', checkpointOrdinal: notification.ordinal };
   }
   
-  const checkpoint = await response.json() as { state: MetagraphState; ordinal: number };
+  let checkpoint = supplied;
+  if (!checkpoint) {
+    // Fetch current calculated state from ML0
+    const stateUrl = `${config.METAGRAPH_ML0_URL}/data-application/v1/checkpoint`;
+    const response = await fetch(stateUrl);
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch state: ${response.status} ${response.statusText}`);
+    }
+    
+    checkpoint = await response.json() as Checkpoint;
+  }
   const { stateMachines, scripts } = checkpoint.state;
+  const all = Object.entries(stateMachines || {}).map(([fiberId, fiber]) => ({ ...fiber, fiberId }));
+  
+  // Fibers without an update ordinal are always included
+  const fibers = since > 0
+    ? all.filter((f) => (f.latestUpdateOrdinal?.value ?? Infinity) > since)
+    : all;
+  
+  const allScripts = Object.entries(scripts || {}).map(([fiberId, script]) => ({ ...script, fiberId }));
+  const changedScripts = since > 0
+    ? allScripts.filter((s) => (s.latestUpdateOrdinal?.value ?? Infinity) > since)
+    : allScripts;
   
-  const smCount = Object.keys(stateMachines || {}).length;
-  const scriptCount = Object.keys(scripts || {}).length;
-  console.log(`📊 Checkpoint ordinal ${checkpoint.ordinal}: ${smCount} state machines, ${scriptCount} scripts`);
+  console.log(`📊 Checkpoint ordinal ${checkpoint.ordinal}: ${fibers.length}/${all.length} state machines, ${changedScripts.length}/${allScripts.length} scripts changed since ${since}`);
+  return { fibers, scripts: changedScripts, mode: since > 0 ? 'incremental' : 'full', checkpointOrdinal: checkpoint.ordinal };
+}
+
+/**
+ * Process a snapshot notification:
+ * 1. Fetch the state machines changed since the last processed ordinal
+ * 2. Index them as generic Fibers
+ * 3. Derive Agent records for AgentIdentity workflows
+ * 4. Derive Contract records for Contract workflows
+ */
+export function processSnapshot(notification: SnapshotNotification, options: ProcessOptions = {}): Promise<ProcessResult> {
+  const run = processingChain.then(() => processSnapshotNow(notification, options));
+  processingChain = run.catch(() => { snapshotsFailed.inc(); });
+  return run;
+}
+
+/**
+ * Run a task on the processing chain, between snapshots (e.g. rolling back
+ * orphaned snapshots, which must not interleave with indexing)
+ */
+export function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = processingChain.then(task);
+  processingChain = run.catch(() => {});
+  return run;
+}
+
+async function processSnapshotNow(notification: SnapshotNotification, options: ProcessOptions): Promise<ProcessResult> {
+  const startedAt = Date.now();
+  const since = options.replay ? options.since ?? 0 : lastProcessedOrdinal;
+  const { fibers, scripts, mode, checkpointOrdinal } = await fetchChangedFibers(notification, since, options.checkpoint);
+  const fetchMs = Date.now() - startedAt;
   
   let fibersUpdated = 0;
   let agentsUpdated = 0;
   let contractsUpdated = 0;
   let corporateUpdated = 0;
+  let transitionsRecorded = 0;
+  let gapsDetected = 0;
+  const changes: FiberChange[] = [];
+  const events: Array<[string, unknown]> = [];
+  const emit: Emit = (channel, data) => { events.push([channel, data]); };
   
-  // Index ALL state machines as generic Fibers
-  for (const [fiberId, fiber] of Object.entries(stateMachines || {})) {
-    const workflowType = fiber.definition?.metadata?.name || 'Unknown';
-    const workflowDesc = fiber.definition?.metadata?.description || null;
-    const currentState = fiber.currentState?.value || 'unknown';
-    const status = mapFiberStatus(fiber.status);
-    
-    const existingFiber = await prisma.fiber.findUnique({ where: { fiberId } });
+  await prisma.$transaction(async (db) => {
+    // One query for the pre-images of every candidate fiber
+    const existingRows = await db.fiber.findMany({
+      where: { fiberId: { in: [...fibers, ...scripts].map((f) => f.fiberId) } },
+    });
+    const existingFibers = new Map(existingRows.map((f) => [f.fiberId, f] as const));
+    const linkFibers: StateMachineFiber[] = [];
     
-    // Upsert the fiber (cast to Prisma.InputJsonValue)
-    await prisma.fiber.upsert({
-      where: { fiberId },
-      create: {
+    for (const fiber of fibers) {
+      const fiberId = fiber.fiberId;
+      const workflowType = fiber.definition?.metadata?.name || 'Unknown';
+      const workflowDesc = fiber.definition?.metadata?.description || null;
+      const currentState = fiber.currentState?.value || 'unknown';
+      const status = mapFiberStatus(fiber.status);
+      
+      const existingFiber = existingFibers.get(fiberId) ?? null;
+      
+      // A replayed snapshot must not roll a row back to older state
+      if (options.replay && existingFiber && existingFiber.updatedOrdinal > BigInt(notification.ordinal)) continue;
+      
+      const sequenceNumber = fiber.sequenceNumber || 0;
+      const changed = !existingFiber || existingFiber.sequenceNumber !== sequenceNumber ||
+        existingFiber.currentState !== currentState || existingFiber.status !== status;
+      
+      // Only rows this snapshot actually changes are tagged with its ordinal
+      if (!changed) continue;
+      
+      // Keep the pre-image so the change can be rolled back if the snapshot is orphaned
+      await recordRevision(db, notification.ordinal, 'fiber', fiberId, existingFiber);
+      
+      // Upsert the fiber (cast to Prisma.InputJsonValue)
+      const row = await db.fiber.upsert({
+        where: { fiberId },
+        create: {
+          fiberId,
+          workflowType,
+          workflowDesc,
+          currentState,
+          status,
+          owners: fiber.owners || [],
+          stateData: (fiber.stateData || {}) as any,
+          definition: (fiber.definition || {}) as any,
+          sequenceNumber,
+          createdOrdinal: BigInt(fiber.creationOrdinal?.value || notification.ordinal),
+          updatedOrdinal: BigInt(notification.ordinal),
+        },
+        update: {
+          currentState,
+          status,
+          owners: fiber.owners || [],
+          stateData: (fiber.stateData || {}) as any,
+          sequenceNumber,
+          updatedOrdinal: BigInt(notification.ordinal),
+          updatedGl0Ordinal: null,
+        },
+      });
+      
+      fibersUpdated++;
+      
+      // Global and per-fiber channels (gateway filters the global one by workflow/owner)
+      const fiberPayload = {
+        ...row,
+        createdOrdinal: Number(row.createdOrdinal),
+        updatedOrdinal: Number(row.updatedOrdinal),
+        createdGl0Ordinal: row.createdGl0Ordinal === null ? null : Number(row.createdGl0Ordinal),
+        updatedGl0Ordinal: null,
+      };
+      emit(CHANNELS.FIBER_UPDATED, fiberPayload);
+      emit(`${CHANNELS.FIBER_UPDATED}:${fiberId}`, fiberPayload);
+      
+      // Collect what changed for snapshot subscribers
+      changes.push({
         fiberId,
         workflowType,
-        workflowDesc,
-        currentState,
-        status,
         owners: fiber.owners || [],
-        stateData: (fiber.stateData || {}) as any,
-        definition: (fiber.definition || {}) as any,
-        sequenceNumber: fiber.sequenceNumber || 0,
-        createdOrdinal: BigInt(fiber.creationOrdinal?.value || notification.ordinal),
-        updatedOrdinal: BigInt(notification.ordinal),
-      },
-      update: {
-        currentState,
+        eventName: fiber.lastReceipt?.eventName ?? null,
+        fromState: existingFiber?.currentState ?? null,
+        toState: currentState,
         status,
-        stateData: (fiber.stateData || {}) as any,
-        sequenceNumber: fiber.sequenceNumber || 0,
-        updatedOrdinal: BigInt(notification.ordinal),
-      },
-    });
-    
-    fibersUpdated++;
-    
-    // Record transition if there's a new receipt
-    if (fiber.lastReceipt && fiber.lastReceipt.success) {
-      const existingTransition = await prisma.fiberTransition.findFirst({
-        where: {
-          fiberId,
-          snapshotOrdinal: BigInt(notification.ordinal),
-          eventName: fiber.lastReceipt.eventName,
-        },
+        sequenceNumber,
+        created: !existingFiber,
       });
       
-      if (!existingTransition) {
-        await prisma.fiberTransition.create({
-          data: {
+      // Record every transition this snapshot applied, one row per sequence number
+      const created = fiber.creationOrdinal?.value ?? notification.ordinal;
+      const createdHere = !existingFiber &&
+        (created === notification.ordinal || (since > 0 && created > since));
+      const { transitions, gaps } = reconstructTransitions(
+        fiber,
+        existingFiber ? { sequenceNumber: existingFiber.sequenceNumber, currentState: existingFiber.currentState } : null,
+        createdHere
+      );
+      
+      if (transitions.length > 0) {
+        // Unique on (fiberId, sequenceNumber): replays don't duplicate rows
+        const { count } = await db.fiberTransition.createMany({
+          data: transitions.map((t) => ({
             fiberId,
-            eventName: fiber.lastReceipt.eventName,
-            fromState: fiber.lastReceipt.fromState.value,
-            toState: fiber.lastReceipt.toState.value,
-            success: fiber.lastReceipt.success,
-            gasUsed: fiber.lastReceipt.gasUsed || 0,
+            eventName: t.eventName,
+            fromState: t.fromState,
+            toState: t.toState,
+            success: t.success,
+            gasUsed: t.gasUsed,
+            sequenceNumber: t.sequenceNumber,
+            inferred: t.inferred,
             snapshotOrdinal: BigInt(notification.ordinal),
-          },
+          })),
+          skipDuplicates: true,
         });
+        transitionsRecorded += count;
         
-        // Publish activity
-        await publishEvent(CHANNELS.ACTIVITY_FEED, {
-          eventType: 'TRANSITION',
-          timestamp: new Date().toISOString(),
-          fiberId,
-          workflowType,
-          action: `${fiber.lastReceipt.eventName}: ${fiber.lastReceipt.fromState.value} → ${fiber.lastReceipt.toState.value}`,
+        // Publish activity and per-transition events
+        for (const t of transitions) {
+          const transitionPayload = {
+            ...t,
+            fiberId,
+            workflowType,
+            snapshotOrdinal: notification.ordinal,
+            timestamp: new Date().toISOString(),
+          };
+          emit(CHANNELS.FIBER_TRANSITION, transitionPayload);
+          emit(`${CHANNELS.FIBER_TRANSITION}:${fiberId}`, transitionPayload);
+          emit(CHANNELS.ACTIVITY_FEED, {
+            eventType: 'TRANSITION',
+            timestamp: new Date().toISOString(),
+            fiberId,
+            workflowType,
+            action: `${t.eventName}: ${t.fromState} → ${t.toState}`,
+          });
+        }
+      }
+      
+      if (gaps.length > 0) {
+        await db.transitionGap.createMany({
+          data: gaps.map((g) => ({
+            fiberId,
+            fromSequence: g.fromSequence,
+            toSequence: g.toSequence,
+            fromState: g.fromState,
+            toState: g.toState,
+            snapshotOrdinal: BigInt(notification.ordinal),
+          })),
+          skipDuplicates: true,
         });
+        gapsDetected += gaps.length;
+        const ranges = gaps.map((g) => g.fromSequence === g.toSequence ? `${g.fromSequence}` : `${g.fromSequence}-${g.toSequence}`);
+        console.warn(`⚠️ Fiber ${fiberId} missing transitions at sequence ${ranges.join(', ')} (snapshot ${notification.ordinal})`);
+      }
+      
+      // Derive Agent from AgentIdentity workflows
+      if (workflowType === 'AgentIdentity' || fiber.stateData?.schema === 'AgentIdentity') {
+        const updated = await deriveAgent(db, emit, fiber, notification.ordinal);
+        if (updated) agentsUpdated++;
+      }
+      
+      // Agent-signed link fibers become verified PlatformLinks once agents are written
+      if (workflowType === PLATFORM_LINK_WORKFLOW && !existingFiber) {
+        linkFibers.push(fiber);
+      }
+      
+      // Derive Contract from Contract workflows
+      if (workflowType === 'Contract' || fiber.stateData?.schema === 'Contract') {
+        const updated = await deriveContract(db, emit, fiber, notification.ordinal);
+        if (updated) contractsUpdated++;
+      }
+      
+      // Publish market updates for Market workflows
+      if (workflowType === 'Market' || fiber.stateData?.schema === 'Market') {
+        // Publish to both the global market channel and the market-specific channel
+        const marketPayload = {
+          fiberId,
+          marketType: fiber.stateData?.marketType,
+          marketStatus: fiber.stateData?.status,
+          currentState,
+          totalCommitted: fiber.stateData?.totalCommitted,
+          ordinal: notification.ordinal,
+          updatedAt: new Date().toISOString(),
+        };
+        emit(CHANNELS.MARKET_UPDATED, marketPayload);
+        emit(`${CHANNELS.MARKET_UPDATED}:${fiberId}`, marketPayload);
+      }
+      
+      // Track Corporate Entity workflows (uses generic Fiber table + activity feed)
+      if (workflowType === 'Entity' || workflowType === 'Board' || workflowType === 'Shareholders' ||
+          workflowType === 'Officers' || workflowType === 'Securities' || workflowType === 'Compliance' ||
+          workflowType === 'Proxy' || fiber.stateData?.schema?.toString().startsWith('Corporate')) {
+        trackCorporateActivity(emit, fiber, notification.ordinal, existingFiber);
+        corporateUpdated++;
       }
     }
     
-    // Derive Agent from AgentIdentity workflows
-    if (workflowType === 'AgentIdentity' || fiber.stateData?.schema === 'AgentIdentity') {
-      const updated = await deriveAgent(fiber, notification.ordinal);
-      if (updated) agentsUpdated++;
+    // After the loop, so an agent registered in the same snapshot already has its row
+    for (const fiber of linkFibers) {
+      await materializePlatformLink(db, fiber);
     }
     
-    // Derive Contract from Contract workflows
-    if (workflowType === 'Contract' || fiber.stateData?.schema === 'Contract') {
-      const updated = await deriveContract(fiber, notification.ordinal);
-      if (updated) contractsUpdated++;
-    }
-
-    // Publish market updates for Market workflows
-    if (workflowType === 'Market' || fiber.stateData?.schema === 'Market') {
-      // Publish to both the global market channel and the market-specific channel
-      const marketPayload = {
-        fiberId,
-        marketType: fiber.stateData?.marketType,
-        marketStatus: fiber.stateData?.status,
-        currentState,
-        totalCommitted: fiber.stateData?.totalCommitted,
-        ordinal: notification.ordinal,
-        updatedAt: new Date().toISOString(),
-      };
-      await publishEvent(CHANNELS.MARKET_UPDATED, marketPayload).catch((err) => {
-        console.warn(`[processor] Market pubsub publish failed for ${fiberId}:`, err.message);
+    // Script oracles: invocations bump the sequence number but leave no receipts
+    for (const script of scripts) {
+      const fiberId = script.fiberId;
+      const existingFiber = existingFibers.get(fiberId) ?? null;
+      if (options.replay && existingFiber && existingFiber.updatedOrdinal > BigInt(notification.ordinal)) continue;
+      
+      const data = scriptAsFiber(script);
+      if (existingFiber && existingFiber.sequenceNumber === data.sequenceNumber && existingFiber.status === data.status) continue;
+      
+      await recordRevision(db, notification.ordinal, 'fiber', fiberId, existingFiber);
+      const row = await db.fiber.upsert({
+        where: { fiberId },
+        create: {
+          fiberId,
+          ...data,
+          createdOrdinal: BigInt(script.creationOrdinal?.value || notification.ordinal),
+          updatedOrdinal: BigInt(notification.ordinal),
+        },
+        update: {
+          ...data,
+          updatedOrdinal: BigInt(notification.ordinal),
+          updatedGl0Ordinal: null,
+        },
       });
-      await publishEvent(`${CHANNELS.MARKET_UPDATED}:${fiberId}`, marketPayload).catch((err) => {
-        console.warn(`[processor] Market pubsub publish failed for ${fiberId}:`, err.message);
+      fibersUpdated++;
+      
+      const fiberPayload = {
+        ...row,
+        createdOrdinal: Number(row.createdOrdinal),
+        updatedOrdinal: Number(row.updatedOrdinal),
+        createdGl0Ordinal: row.createdGl0Ordinal === null ? null : Number(row.createdGl0Ordinal),
+        updatedGl0Ordinal: null,
+      };
+      emit(CHANNELS.FIBER_UPDATED, fiberPayload);
+      emit(`${CHANNELS.FIBER_UPDATED}:${fiberId}`, fiberPayload);
+      
+      changes.push({
+        fiberId,
+        workflowType: SCRIPT_WORKFLOW_TYPE,
+        owners: data.owners,
+        eventName: null,
+        fromState: existingFiber?.currentState ?? null,
+        toState: data.currentState,
+        status: data.status,
+        sequenceNumber: data.sequenceNumber,
+        created: !existingFiber,
       });
     }
     
-    // Track Corporate Entity workflows (uses generic Fiber table + activity feed)
-    if (workflowType === 'Entity' || workflowType === 'Board' || workflowType === 'Shareholders' ||
-        workflowType === 'Officers' || workflowType === 'Securities' || workflowType === 'Compliance' ||
-        workflowType === 'Proxy' || fiber.stateData?.schema?.toString().startsWith('Corporate')) {
-      await trackCorporateActivity(fiber, notification.ordinal, existingFiber);
-      corporateUpdated++;
-    }
+    // Update indexed snapshot stats (preserve status - set by confirmation poller)
+    const processingMs = Date.now() - startedAt;
+    await db.indexedSnapshot.upsert({
+      where: { ordinal: BigInt(notification.ordinal) },
+      create: {
+        ordinal: BigInt(notification.ordinal),
+        hash: notification.hash,
+        status: options.replay ? 'CONFIRMED' : 'PENDING', // Live snapshots are confirmed later by the GL0 poller
+        fibersUpdated,
+        agentsUpdated,
+        contractsUpdated,
+        processingMs,
+      },
+      update: {
+        // Don't overwrite status or confirmation fields
+        fibersUpdated,
+        agentsUpdated,
+        contractsUpdated,
+        processingMs,
+        indexedAt: new Date(),
+      },
+    });
+  }, { maxWait: 10000, timeout: 120000 });
+  
+  if (!options.replay) {
+    lastProcessedOrdinal = Math.max(lastProcessedOrdinal, checkpointOrdinal);
   }
   
-  // Update indexed snapshot stats (preserve status - set by confirmation poller)
-  await prisma.indexedSnapshot.upsert({
-    where: { ordinal: BigInt(notification.ordinal) },
-    create: {
-      ordinal: BigInt(notification.ordinal),
-      hash: notification.hash,
-      status: 'PENDING', // Will be updated to CONFIRMED by GL0 poller
-      fibersUpdated,
-      agentsUpdated,
-      contractsUpdated,
-    },
-    update: {
-      // Don't overwrite status or confirmation fields
-      fibersUpdated,
-      agentsUpdated,
-      contractsUpdated,
-      indexedAt: new Date(),
-    },
+  const totalMs = Date.now() - startedAt;
+  timings.push({
+    ordinal: notification.ordinal,
+    mode,
+    fibersFetched: fibers.length + scripts.length,
+    fibersUpdated,
+    transitionsRecorded,
+    gapsDetected,
+    fetchMs,
+    writeMs: totalMs - fetchMs,
+    totalMs,
+    processedAt: new Date().toISOString(),
   });
+  if (timings.length > TIMING_HISTORY) timings.shift();
+  
+  const source = options.replay ? 'replay' : 'live';
+  snapshotsProcessed.inc({ mode, source });
+  processingDuration.observe({ mode, source }, totalMs / 1000);
+  fetchDuration.observe({ mode }, fetchMs / 1000);
+  rowsIndexed.inc({ kind: 'fiber' }, fibersUpdated);
+  rowsIndexed.inc({ kind: 'transition' }, transitionsRecorded);
+  rowsIndexed.inc({ kind: 'agent' }, agentsUpdated);
+  rowsIndexed.inc({ kind: 'contract' }, contractsUpdated);
+  rowsIndexed.inc({ kind: 'corporate' }, corporateUpdated);
+  lastOrdinalGauge.set({}, lastProcessedOrdinal);
+  
+  const result = {
+    ordinal: notification.ordinal,
+    fibersUpdated,
+    agentsUpdated,
+    contractsUpdated,
+    corporateUpdated,
+    transitionsRecorded,
+    gapsDetected,
+  };
+  console.log(`✅ Indexed snapshot ${notification.ordinal} in ${totalMs}ms (${mode}${options.replay ? ', replay' : ''}): ${fibersUpdated} fibers, ${transitionsRecorded} transitions${gapsDetected ? ` (${gapsDetected} gaps)` : ''}, ${agentsUpdated} agents, ${contractsUpdated} contracts, ${corporateUpdated} corporate`);
+  
+  // Replays are history: live subscribers have nothing new to hear
+  if (options.replay) return result;
   
-  const result = { ordinal: notification.ordinal, fibersUpdated, agentsUpdated, contractsUpdated, corporateUpdated };
-  console.log(`✅ Indexed snapshot ${notification.ordinal}: ${fibersUpdated} fibers, ${agentsUpdated} agents, ${contractsUpdated} contracts, ${corporateUpdated} corporate`);
+  // Publish queued events now that the writes are committed
+  for (const [channel, data] of events) {
+    await publishEvent(channel, data).catch((err) => {
+      console.warn(`[processor] Pubsub publish to ${channel} failed:`, err.message);
+    });
+  }
+  
+  // Notify webhook subscribers (deliveries are logged and retried in the background)
+  await enqueueSnapshotDeliveries(notification, changes).catch((err) => {
+    console.warn(`[processor] Failed to queue subscriber webhooks for ${notification.ordinal}:`, err.message);
+  });
   
   await publishEvent(CHANNELS.STATS_UPDATED, result);
   return result;
 }
 
+/**
+ * Make the next run index every fiber again (e.g. after a rollback reverted
+ * rows the incremental cursor has already moved past)
+ */
+export function requestFullPass(): void {
+  lastProcessedOrdinal = 0;
+}
+
+/**
+ * Get per-snapshot processing times (most recent first) and aggregates
+ */
+export function getProcessingStats() {
+  const totals = timings.map((t) => t.totalMs);
+  return {
+    lastProcessedOrdinal,
+    snapshotsTimed: timings.length,
+    avgMs: totals.length ? Math.round(totals.reduce((a, b) => a + b, 0) / totals.length) : null,
+    maxMs: totals.length ? Math.max(...totals) : null,
+    last: timings[timings.length - 1] ?? null,
+    recent: timings.slice(-10).reverse(),
+  };
+}
+
 /**
  * Derive an Agent record from an AgentIdentity fiber
  */
-async function deriveAgent(fiber: StateMachineFiber, ordinal: number): Promise<boolean> {
+async function deriveAgent(db: Db, emit: Emit, fiber: StateMachineFiber, ordinal: number): Promise<boolean> {
   const address = fiber.owners[0];
   if (!address) return false;
   
@@ -237,11 +645,12 @@ async function deriveAgent(fiber: StateMachineFiber, ordinal: number): Promise<b
   const reputation = (stateData.reputation as number) ?? 10;
   const agentState = mapAgentState(stateData.status as string, fiber.currentState?.value);
   
-  const existing = await prisma.agent.findUnique({ where: { address } });
+  const existing = await db.agent.findUnique({ where: { address } });
   
   if (!existing) {
     console.log(`  🆔 Creating agent: ${displayName} (${address.slice(0, 12)}...)`);
-    await prisma.agent.create({
+    await recordRevision(db, ordinal, 'agent', address, null);
+    await db.agent.create({
       data: {
         address,
         publicKey: address,
@@ -254,9 +663,9 @@ async function deriveAgent(fiber: StateMachineFiber, ordinal: number): Promise<b
     });
     
     // Initial reputation history
-    const agent = await prisma.agent.findUnique({ where: { address } });
+    const agent = await db.agent.findUnique({ where: { address } });
     if (agent) {
-      await prisma.reputationHistory.create({
+      await db.reputationHistory.create({
         data: {
           agentId: agent.id,
           reputation,
@@ -267,7 +676,9 @@ async function deriveAgent(fiber: StateMachineFiber, ordinal: number): Promise<b
       });
     }
     
-    await publishEvent(CHANNELS.AGENT_UPDATED, { address, displayName, reputation, state: agentState });
+    const agentPayload = { address, displayName, reputation, state: agentState };
+    emit(CHANNELS.AGENT_UPDATED, agentPayload);
+    emit(`${CHANNELS.AGENT_UPDATED}:${address}`, agentPayload);
     return true;
   }
   
@@ -275,7 +686,8 @@ async function deriveAgent(fiber: StateMachineFiber, ordinal: number): Promise<b
   if (existing.reputation !== reputation || existing.displayName !== displayName || existing.state !== agentState) {
     const repDelta = reputation - existing.reputation;
     
-    await prisma.agent.update({
+    await recordRevision(db, ordinal, 'agent', address, existing);
+    await db.agent.update({
       where: { address },
       data: {
         displayName,
@@ -287,7 +699,7 @@ async function deriveAgent(fiber: StateMachineFiber, ordinal: number): Promise<b
     });
     
     if (repDelta !== 0) {
-      await prisma.reputationHistory.create({
+      await db.reputationHistory.create({
         data: {
           agentId: existing.id,
           reputation,
@@ -298,7 +710,9 @@ async function deriveAgent(fiber: StateMachineFiber, ordinal: number): Promise<b
       });
     }
     
-    await publishEvent(CHANNELS.AGENT_UPDATED, { address, displayName, reputation, state: agentState });
+    const agentPayload = { address, displayName, reputation, state: agentState };
+    emit(CHANNELS.AGENT_UPDATED, agentPayload);
+    emit(`${CHANNELS.AGENT_UPDATED}:${address}`, agentPayload);
     return true;
   }
   
@@ -308,7 +722,7 @@ async function deriveAgent(fiber: StateMachineFiber, ordinal: number): Promise<b
 /**
  * Derive a Contract record from a Contract fiber
  */
-async function deriveContract(fiber: StateMachineFiber, ordinal: number): Promise<boolean> {
+async function deriveContract(db: Db, emit: Emit, fiber: StateMachineFiber, ordinal: number): Promise<boolean> {
   const stateData = fiber.stateData || {};
   const proposerAddress = (stateData.proposer as string) || fiber.owners[0];
   const counterpartyAddress = (stateData.counterparty as string) || proposerAddress;
@@ -316,13 +730,14 @@ async function deriveContract(fiber: StateMachineFiber, ordinal: number): Promis
   if (!proposerAddress) return false;
   
   // Ensure agents exist
-  const proposer = await prisma.agent.findUnique({ where: { address: proposerAddress } });
-  const counterparty = await prisma.agent.findUnique({ where: { address: counterpartyAddress } });
+  const proposer = await db.agent.findUnique({ where: { address: proposerAddress } });
+  const counterparty = await db.agent.findUnique({ where: { address: counterpartyAddress } });
   
   if (!proposer || !counterparty) {
     // Create placeholder agents if needed
     if (!proposer) {
-      await prisma.agent.create({
+      await recordRevision(db, ordinal, 'agent', proposerAddress, null);
+      await db.agent.create({
         data: {
           address: proposerAddress,
           publicKey: proposerAddress,
@@ -334,7 +749,8 @@ async function deriveContract(fiber: StateMachineFiber, ordinal: number): Promis
       });
     }
     if (!counterparty && counterpartyAddress !== proposerAddress) {
-      await prisma.agent.create({
+      await recordRevision(db, ordinal, 'agent', counterpartyAddress, null);
+      await db.agent.create({
         data: {
           address: counterpartyAddress,
           publicKey: counterpartyAddress,
@@ -347,45 +763,47 @@ async function deriveContract(fiber: StateMachineFiber, ordinal: number): Promis
     }
   }
   
-  const proposerAgent = await prisma.agent.findUnique({ where: { address: proposerAddress } });
-  const counterpartyAgent = await prisma.agent.findUnique({ where: { address: counterpartyAddress } });
+  const proposerAgent = await db.agent.findUnique({ where: { address: proposerAddress } });
+  const counterpartyAgent = await db.agent.findUnique({ where: { address: counterpartyAddress } });
   
   if (!proposerAgent || !counterpartyAgent) return false;
   
   const contractState = mapContractState(fiber.currentState?.value, fiber.status);
+  const terms = {
+    title: stateData.title || 'Contract',
+    description: stateData.description || '',
+    ...(stateData.terms || {}),
+  };
   
-  await prisma.contract.upsert({
+  const existing = await db.contract.findUnique({ where: { contractId: fiber.fiberId } });
+  if (existing && existing.state === contractState && JSON.stringify(existing.terms) === JSON.stringify(terms)) {
+    return false;
+  }
+  
+  await recordRevision(db, ordinal, 'contract', fiber.fiberId, existing);
+  await db.contract.upsert({
     where: { contractId: fiber.fiberId },
     create: {
       contractId: fiber.fiberId,
       proposerId: proposerAgent.id,
       counterpartyId: counterpartyAgent.id,
       state: contractState,
-      terms: {
-        title: stateData.title || 'Contract',
-        description: stateData.description || '',
-        ...(stateData.terms || {}),
-      },
+      terms,
       fiberId: fiber.fiberId,
       snapshotOrdinal: BigInt(ordinal),
     },
     update: {
       state: contractState,
-      terms: {
-        title: stateData.title || 'Contract',
-        description: stateData.description || '',
-        ...(stateData.terms || {}),
-      },
+      terms,
       snapshotOrdinal: BigInt(ordinal),
       ...(contractState === 'ACTIVE' && { acceptedAt: new Date() }),
       ...(contractState === 'COMPLETED' && { completedAt: new Date() }),
     },
   });
   
-  await publishEvent(CHANNELS.CONTRACT_UPDATED, {
-    contractId: fiber.fiberId,
-    state: contractState,
-  });
+  const contractPayload = { contractId: fiber.fiberId, state: contractState };
+  emit(CHANNELS.CONTRACT_UPDATED, contractPayload);
+  emit(`${CHANNELS.CONTRACT_UPDATED}:${fiber.fiberId}`, contractPayload);
   
   return true;
 }
@@ -396,11 +814,12 @@ async function deriveContract(fiber: StateMachineFiber, ordinal: number): Promis
  * Data is stored in the generic Fiber table; this function publishes activity events
  * for real-time monitoring and links related fibers via stateData.entityId.
  */
-async function trackCorporateActivity(
+function trackCorporateActivity(
+  emit: Emit,
   fiber: StateMachineFiber, 
   ordinal: number,
   existingFiber: { currentState: string } | null,
-): Promise<void> {
+): void {
   const stateData = fiber.stateData || {};
   const workflowType = fiber.definition?.metadata?.name || 'Unknown';
   const currentState = fiber.currentState?.value || 'unknown';
@@ -417,7 +836,7 @@ async function trackCorporateActivity(
     console.log(`  🏢 New corporate ${workflowType}: ${legalName} (${fiber.fiberId.slice(0, 12)}...)`);
   }
   
-  await publishEvent(CHANNELS.ACTIVITY_FEED, {
+  emit(CHANNELS.ACTIVITY_FEED, {
     eventType,
     timestamp: new Date().toISOString(),
     fiberId: fiber.fiberId,
@@ -430,6 +849,36 @@ async function trackCorporateActivity(
   });
 }
 
+/**
+ * Fiber row fields for a script oracle. The program and access control go in
+ * `definition`; `stateData` carries the script's own state and last result
+ * under a 'Script' schema tag, like the state machine schemas.
+ */
+function scriptAsFiber(script: ScriptFiber) {
+  const status = mapFiberStatus(script.status);
+  return {
+    workflowType: SCRIPT_WORKFLOW_TYPE,
+    workflowDesc: script.metadata?.description ?? null,
+    currentState: status,
+    status,
+    owners: script.owners?.length ? script.owners : script.accessControl?.owners ?? [],
+    stateData: {
+      schema: SCRIPT_WORKFLOW_TYPE,
+      name: script.metadata?.name ?? null,
+      description: script.metadata?.description ?? null,
+      state: script.stateData ?? null,
+      lastInvocation: script.lastInvocation ?? null,
+      accessControl: script.accessControl ?? null,
+    } as any,
+    definition: {
+      metadata: { name: SCRIPT_WORKFLOW_TYPE, description: script.metadata?.description ?? null },
+      scriptProgram: script.scriptProgram ?? null,
+      accessControl: script.accessControl ?? null,
+    } as any,
+    sequenceNumber: script.sequenceNumber || 0,
+  };
+}
+
 function mapFiberStatus(status: string): 'ACTIVE' | 'ARCHIVED' | 'FAILED' {
   switch (status?.toLowerCase()) {
     case 'archived': return 'ARCHIVED';
@@ -0,0 +1,192 @@
+/**
+ * Orphaned Snapshot Rollback
+ *
+ * Every Fiber, Agent and Contract row carries the ML0 ordinal that last wrote
+ * it. Before a pending snapshot changes one of those rows, the processor stores
+ * its pre-image as an IndexRevision. If GL0 confirms a different hash at the
+ * snapshot's ordinal, each row still owned by it is restored from the pre-image
+ * (or deleted if the snapshot created it), its FiberTransition, TransitionGap
+ * and ReputationHistory rows are removed, and a rollback event is published for
+ * gateway subscribers.
+ *
+ * Rows a later snapshot has since overwritten are left alone: that snapshot's
+ * checkpoint already reflects the canonical chain.
+ */
+
+import { prisma, publishEvent, CHANNELS } from '@ottochain/shared';
+import type { Prisma } from '@prisma/client';
+
+export type RevisionEntity = 'fiber' | 'agent' | 'contract';
+
+export interface RollbackResult {
+  ordinal: number;
+  hash: string;
+  reason: string;
+  fiberIds: string[];
+  agentAddresses: string[];
+  contractIds: string[];
+  transitionsRemoved: number;
+  rolledBackAt: string;
+}
+
+/** JSON-safe copy of a row (BigInt → string, Date → ISO string) */
+function toJson(row: object): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(row, (_, v) => (typeof v === 'bigint' ? v.toString() : v)));
+}
+
+function toBigInt(value: unknown): bigint | null {
+  return value === null || value === undefined ? null : BigInt(value as string);
+}
+
+function toDate(value: unknown): Date | null {
+  return value ? new Date(value as string) : null;
+}
+
+/**
+ * Store the pre-image of a row about to be changed by snapshot `ordinal`,
+ * inside the processor's transaction. Only the first pre-image per snapshot is kept.
+ */
+export async function recordRevision(
+  db: Prisma.TransactionClient,
+  ordinal: number,
+  entityType: RevisionEntity,
+  entityKey: string,
+  previous: object | null
+): Promise<void> {
+  await db.indexRevision.createMany({
+    data: [{
+      snapshotOrdinal: BigInt(ordinal),
+      entityType,
+      entityKey,
+      previous: previous ? toJson(previous) : undefined,
+    }],
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Revert everything snapshot `ordinal` wrote and publish a rollback event.
+ * Caller marks the snapshot ORPHANED. When several snapshots are orphaned at
+ * once, roll them back newest first so pre-images chain correctly.
+ */
+export async function rollbackSnapshot(ordinal: bigint, hash: string, reason: string): Promise<RollbackResult> {
+  const fiberIds: string[] = [];
+  const agentAddresses: string[] = [];
+  const contractIds: string[] = [];
+
+  const transitionsRemoved = await prisma.$transaction(async (tx) => {
+    const revisions = await tx.indexRevision.findMany({ where: { snapshotOrdinal: ordinal } });
+    const byType = (type: RevisionEntity) => revisions.filter((r) => r.entityType === type);
+
+    // Contracts first: they reference agents
+    for (const rev of byType('contract')) {
+      const current = await tx.contract.findUnique({ where: { contractId: rev.entityKey } });
+      if (!current || current.snapshotOrdinal !== ordinal) continue;
+
+      const prev = rev.previous as Record<string, unknown> | null;
+      if (!prev) {
+        await tx.contract.delete({ where: { contractId: rev.entityKey } });
+      } else {
+        await tx.contract.update({
+          where: { contractId: rev.entityKey },
+          data: {
+            state: prev.state as Prisma.ContractUpdateInput['state'],
+            terms: prev.terms as Prisma.InputJsonValue,
+            acceptedAt: toDate(prev.acceptedAt),
+            completedAt: toDate(prev.completedAt),
+            snapshotOrdinal: toBigInt(prev.snapshotOrdinal)!,
+          },
+        });
+      }
+      contractIds.push(rev.entityKey);
+    }
+
+    for (const rev of byType('fiber')) {
+      const current = await tx.fiber.findUnique({ where: { fiberId: rev.entityKey } });
+      if (!current || current.updatedOrdinal !== ordinal) continue;
+
+      const prev = rev.previous as Record<string, unknown> | null;
+      if (!prev) {
+        await tx.fiber.delete({ where: { fiberId: rev.entityKey } });
+      } else {
+        await tx.fiber.update({
+          where: { fiberId: rev.entityKey },
+          data: {
+            currentState: prev.currentState as string,
+            status: prev.status as Prisma.FiberUpdateInput['status'],
+            owners: prev.owners as string[],
+            stateData: prev.stateData as Prisma.InputJsonValue,
+            sequenceNumber: prev.sequenceNumber as number,
+            updatedOrdinal: toBigInt(prev.updatedOrdinal)!,
+            updatedGl0Ordinal: toBigInt(prev.updatedGl0Ordinal),
+          },
+        });
+      }
+      fiberIds.push(rev.entityKey);
+    }
+
+    for (const rev of byType('agent')) {
+      const current = await tx.agent.findUnique({ where: { address: rev.entityKey } });
+      if (!current || current.snapshotOrdinal !== ordinal) continue;
+
+      const prev = rev.previous as Record<string, unknown> | null;
+      if (!prev) {
+        // Contracts that still reference the agent keep it alive
+        const refs = await tx.contract.count({
+          where: { OR: [{ proposerId: current.id }, { counterpartyId: current.id }] },
+        });
+        if (refs > 0) continue;
+        await tx.agent.delete({ where: { address: rev.entityKey } });
+      } else {
+        await tx.agent.update({
+          where: { address: rev.entityKey },
+          data: {
+            displayName: prev.displayName as string | null,
+            reputation: prev.reputation as number,
+            state: prev.state as Prisma.AgentUpdateInput['state'],
+            fiberId: prev.fiberId as string | null,
+            snapshotOrdinal: toBigInt(prev.snapshotOrdinal)!,
+          },
+        });
+      }
+      agentAddresses.push(rev.entityKey);
+    }
+
+    const transitions = await tx.fiberTransition.deleteMany({ where: { snapshotOrdinal: ordinal } });
+    await tx.transitionGap.deleteMany({ where: { snapshotOrdinal: ordinal } });
+    await tx.reputationHistory.deleteMany({ where: { snapshotOrdinal: ordinal } });
+    await tx.indexRevision.deleteMany({ where: { snapshotOrdinal: ordinal } });
+
+    return transitions.count;
+  });
+
+  const result: RollbackResult = {
+    ordinal: Number(ordinal),
+    hash,
+    reason,
+    fiberIds,
+    agentAddresses,
+    contractIds,
+    transitionsRemoved,
+    rolledBackAt: new Date().toISOString(),
+  };
+
+  console.warn(`⏪ Rolled back snapshot ${ordinal}: ${fiberIds.length} fibers, ${agentAddresses.length} agents, ${contractIds.length} contracts, ${transitionsRemoved} transitions (${reason})`);
+
+  await publishEvent(CHANNELS.SNAPSHOT_ROLLBACK, result).catch((err) => {
+    console.warn(`[rollback] Rollback publish failed for ${ordinal}:`, err.message);
+  });
+
+  return result;
+}
+
+/**
+ * Drop pre-images for snapshots at or below `ordinal` (settled: confirmed or
+ * already rolled back)
+ */
+export async function pruneRevisions(ordinal: bigint): Promise<number> {
+  const { count } = await prisma.indexRevision.deleteMany({
+    where: { snapshotOrdinal: { lte: ordinal } },
+  });
+  return count;
+}
@@ -0,0 +1,75 @@
+// Admin API routes
+// Operational endpoints guarded by INDEXER_ADMIN_TOKEN (Authorization: Bearer <token>).
+// When the token is not configured the admin API is disabled.
+//
+// Endpoints:
+//   POST   /api/admin/backfill  - start a backfill/re-index (202), 409 if one is running
+//   GET    /api/admin/backfill  - progress of the current or last backfill
+//   DELETE /api/admin/backfill  - stop the running backfill after the current ordinal
+
+import express from 'express';
+import { z } from 'zod';
+import { requireAdminToken } from './auth.js';
+import { runBackfill, stopBackfill, getBackfillProgress } from '../backfill.js';
+
+const _router = express.Router();
+
+const BackfillRequestSchema = z.object({
+  from: z.number().int().nonnegative(),
+  to: z.number().int().nonnegative().optional(),
+  rebuild: z.boolean().optional(),
+  resume: z.boolean().optional(),
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Auth — constant-time bearer token check
+// ──────────────────────────────────────────────────────────────────────────────
+_router.use(requireAdminToken);
+
+// ──────────────────────────────────────────────────────────────────────────────
+// POST /api/admin/backfill
+// Body: { from, to?, rebuild?, resume? }. Runs in the background; poll GET.
+// ──────────────────────────────────────────────────────────────────────────────
+_router.post('/backfill', (req, res) => {
+  try {
+    const options = BackfillRequestSchema.parse(req.body);
+
+    if (getBackfillProgress().running) {
+      res.status(409).json({ error: 'A backfill is already running', progress: getBackfillProgress() });
+      return;
+    }
+
+    runBackfill(options).catch((err) => console.error('Backfill error:', err));
+    console.log(`⏮️ Backfill requested via admin API: ${JSON.stringify(options)}`);
+
+    res.status(202).json({ accepted: true, progress: getBackfillProgress() });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid request', details: err.errors });
+      return;
+    }
+    console.error('POST /api/admin/backfill error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// GET /api/admin/backfill
+// ──────────────────────────────────────────────────────────────────────────────
+_router.get('/backfill', (_req, res) => {
+  res.json(getBackfillProgress());
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// DELETE /api/admin/backfill
+// ──────────────────────────────────────────────────────────────────────────────
+_router.delete('/backfill', (_req, res) => {
+  if (!stopBackfill()) {
+    res.status(404).json({ error: 'No backfill running' });
+    return;
+  }
+  res.status(202).json({ stopping: true, progress: getBackfillProgress() });
+});
+
+// Stable type annotation avoids TS2742 "inferred type cannot be named" error
+export const adminRouter: import('express').Router = _router;
@@ -0,0 +1,28 @@
+// Admin token guard
+// Shared by the operational APIs (/api/admin, /api/subscribers): requests must
+// send Authorization: Bearer <INDEXER_ADMIN_TOKEN>. When the token is not
+// configured these APIs are disabled.
+
+import type { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { getConfig } from '@ottochain/shared';
+
+/**
+ * Express middleware: constant-time bearer token check against INDEXER_ADMIN_TOKEN
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+  const token = getConfig().INDEXER_ADMIN_TOKEN;
+  if (!token) {
+    res.status(503).json({ error: 'Admin API disabled (INDEXER_ADMIN_TOKEN not set)' });
+    return;
+  }
+
+  const supplied = Buffer.from(req.header('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+  const expected = Buffer.from(token);
+  if (supplied.length !== expected.length || !timingSafeEqual(supplied, expected)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  next();
+}
@@ -4,17 +4,27 @@
 //   /api/rejections              → rejectionsRouter
 //   /api/rejections/:hash        → rejectionsRouter
 //   /api/fibers/:id/rejections   → inline handler (rejection sub-resource)
+//   /api/subscribers             → subscribersRouter (token-guarded outbound snapshot webhooks)
+//   /api/admin/backfill          → adminRouter (token-guarded backfill/re-index)
 
 import express from 'express';
 import { prisma } from '@ottochain/shared';
 import type { Prisma } from '@prisma/client';
 import { rejectionsRouter } from './rejections.js';
+import { subscribersRouter } from './subscribers.js';
+import { adminRouter } from './admin.js';
 
 const _router = express.Router();
 
 // ── /api/rejections ─────────────────────────────────────────────────────────
 _router.use('/rejections', rejectionsRouter);
 
+// ── /api/subscribers ────────────────────────────────────────────────────────
+_router.use('/subscribers', subscribersRouter);
+
+// ── /api/admin ──────────────────────────────────────────────────────────────
+_router.use('/admin', adminRouter);
+
 // ── /api/fibers/:fiberId/rejections ─────────────────────────────────────────
 // Returns the rejection history for a specific fiber with pagination.
 // Query params: limit (default 50, max 100), offset (default 0)
@@ -0,0 +1,329 @@
+// Snapshot subscriber API routes
+// Registers outbound webhooks notified after every indexed snapshot (see subscribers.ts).
+// Guarded by INDEXER_ADMIN_TOKEN like /api/admin (see auth.ts).
+//
+// Endpoints:
+//   POST   /api/subscribers                 - register a subscriber
+//   GET    /api/subscribers                 - list subscribers (?active=true|false)
+//   GET    /api/subscribers/:id             - single subscriber
+//   PATCH  /api/subscribers/:id             - update URL, secret, filters or active flag
+//   DELETE /api/subscribers/:id             - remove subscriber and its delivery log
+//   GET    /api/subscribers/:id/deliveries  - delivery log (?status=PENDING|DELIVERED|FAILED)
+//
+// Filters (all optional, empty = match all):
+//   workflowTypes - fiber workflow names, e.g. ["Market", "Contract"]
+//   fiberIds      - specific fibers
+//   owners        - DAG addresses; matches if any fiber owner is listed
+//   eventNames    - transition events, e.g. ["commit", "resolve"]
+//
+// The secret is never returned after creation; it keys the X-OttoChain-Signature header.
+// Callback URLs must resolve to public addresses (no loopback, private or link-local hosts).
+
+import express from 'express';
+import { randomBytes } from 'node:crypto';
+import { z } from 'zod';
+import { prisma } from '@ottochain/shared';
+import type { Prisma } from '@prisma/client';
+import { requireAdminToken } from './auth.js';
+import { checkCallbackUrl } from '../subscribers.js';
+
+const _router = express.Router();
+
+_router.use(requireAdminToken);
+
+const FiltersSchema = z.object({
+  workflowTypes: z.array(z.string().min(1)).max(100).optional(),
+  fiberIds: z.array(z.string().uuid()).max(1000).optional(),
+  owners: z.array(z.string().min(1)).max(1000).optional(),
+  eventNames: z.array(z.string().min(1)).max(100).optional(),
+});
+
+const CreateSubscriberSchema = FiltersSchema.extend({
+  callbackUrl: z.string().url().max(512),
+  secret: z.string().min(16).max(128).optional(),
+});
+
+const UpdateSubscriberSchema = FiltersSchema.extend({
+  callbackUrl: z.string().url().max(512).optional(),
+  secret: z.string().min(16).max(128).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Serialization helpers — convert DB rows to API response shape
+// ──────────────────────────────────────────────────────────────────────────────
+function formatSubscriber(s: {
+  id: number;
+  callbackUrl: string;
+  secret: string | null;
+  active: boolean;
+  createdAt: Date;
+  lastPingAt: Date | null;
+  failCount: number;
+  workflowTypes: string[];
+  fiberIds: string[];
+  owners: string[];
+  eventNames: string[];
+  deactivatedAt: Date | null;
+}) {
+  return {
+    id: s.id,
+    callbackUrl: s.callbackUrl,
+    hasSecret: s.secret !== null,
+    active: s.active,
+    filters: {
+      workflowTypes: s.workflowTypes,
+      fiberIds: s.fiberIds,
+      owners: s.owners,
+      eventNames: s.eventNames,
+    },
+    failCount: s.failCount,
+    lastPingAt: s.lastPingAt,
+    deactivatedAt: s.deactivatedAt,
+    createdAt: s.createdAt,
+  };
+}
+
+function formatDelivery(d: {
+  id: number;
+  event: string;
+  snapshotOrdinal: bigint;
+  payload: Prisma.JsonValue;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  error: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    id: d.id,
+    event: d.event,
+    snapshotOrdinal: Number(d.snapshotOrdinal),
+    status: d.status,
+    attempts: d.attempts,
+    nextAttemptAt: d.nextAttemptAt,
+    lastAttemptAt: d.lastAttemptAt,
+    responseStatus: d.responseStatus,
+    error: d.error,
+    deliveredAt: d.deliveredAt,
+    createdAt: d.createdAt,
+    payload: d.payload,
+  };
+}
+
+function parseId(raw: string): number | null {
+  const id = parseInt(raw, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return err instanceof Error && err.message.includes('Unique constraint');
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// POST /api/subscribers
+// Returns the subscriber plus its secret (generated if not supplied) — the
+// only time the secret is shown.
+// ──────────────────────────────────────────────────────────────────────────────
+_router.post('/', async (req, res) => {
+  try {
+    const input = CreateSubscriberSchema.parse(req.body);
+    const rejected = await checkCallbackUrl(input.callbackUrl);
+    if (rejected) {
+      res.status(400).json({ error: 'Invalid callbackUrl', details: rejected });
+      return;
+    }
+    const secret = input.secret ?? randomBytes(32).toString('hex');
+
+    const subscriber = await prisma.snapshotSubscriber.create({
+      data: {
+        callbackUrl: input.callbackUrl,
+        secret,
+        workflowTypes: input.workflowTypes ?? [],
+        fiberIds: input.fiberIds ?? [],
+        owners: input.owners ?? [],
+        eventNames: input.eventNames ?? [],
+      },
+    });
+
+    console.log(`🔔 Registered snapshot subscriber ${subscriber.id}: ${subscriber.callbackUrl}`);
+    res.status(201).json({ ...formatSubscriber(subscriber), secret });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid request', details: err.errors });
+      return;
+    }
+    if (isUniqueViolation(err)) {
+      res.status(409).json({ error: 'A subscriber with this callbackUrl already exists' });
+      return;
+    }
+    console.error('POST /api/subscribers error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// GET /api/subscribers
+// ──────────────────────────────────────────────────────────────────────────────
+_router.get('/', async (req, res) => {
+  try {
+    const where: Prisma.SnapshotSubscriberWhereInput = {};
+    if (req.query.active === 'true')  where.active = true;
+    if (req.query.active === 'false') where.active = false;
+
+    const subscribers = await prisma.snapshotSubscriber.findMany({
+      where,
+      orderBy: { id: 'asc' },
+    });
+
+    res.json({
+      subscribers: subscribers.map(formatSubscriber),
+      total: subscribers.length,
+    });
+  } catch (err) {
+    console.error('GET /api/subscribers error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// GET /api/subscribers/:id
+// ──────────────────────────────────────────────────────────────────────────────
+_router.get('/:id', async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const subscriber = id ? await prisma.snapshotSubscriber.findUnique({ where: { id } }) : null;
+
+    if (!subscriber) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    res.json(formatSubscriber(subscriber));
+  } catch (err) {
+    console.error('GET /api/subscribers/:id error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// PATCH /api/subscribers/:id
+// Filters given here replace the stored ones. Reactivating resets failCount.
+// ──────────────────────────────────────────────────────────────────────────────
+_router.patch('/:id', async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const existing = id ? await prisma.snapshotSubscriber.findUnique({ where: { id } }) : null;
+
+    if (!existing) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    const input = UpdateSubscriberSchema.parse(req.body);
+    const rejected = input.callbackUrl !== undefined ? await checkCallbackUrl(input.callbackUrl) : null;
+    if (rejected) {
+      res.status(400).json({ error: 'Invalid callbackUrl', details: rejected });
+      return;
+    }
+    const reactivated = input.active === true && !existing.active;
+
+    const subscriber = await prisma.snapshotSubscriber.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.callbackUrl !== undefined && { callbackUrl: input.callbackUrl }),
+        ...(input.secret !== undefined && { secret: input.secret }),
+        ...(input.workflowTypes !== undefined && { workflowTypes: input.workflowTypes }),
+        ...(input.fiberIds !== undefined && { fiberIds: input.fiberIds }),
+        ...(input.owners !== undefined && { owners: input.owners }),
+        ...(input.eventNames !== undefined && { eventNames: input.eventNames }),
+        ...(input.active === false && existing.active && { active: false, deactivatedAt: new Date() }),
+        ...(reactivated && { active: true, failCount: 0, deactivatedAt: null }),
+      },
+    });
+
+    res.json(formatSubscriber(subscriber));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid request', details: err.errors });
+      return;
+    }
+    if (isUniqueViolation(err)) {
+      res.status(409).json({ error: 'A subscriber with this callbackUrl already exists' });
+      return;
+    }
+    console.error('PATCH /api/subscribers/:id error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// DELETE /api/subscribers/:id
+// ──────────────────────────────────────────────────────────────────────────────
+_router.delete('/:id', async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const existing = id ? await prisma.snapshotSubscriber.findUnique({ where: { id } }) : null;
+
+    if (!existing) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    // Delivery log rows cascade
+    await prisma.snapshotSubscriber.delete({ where: { id: existing.id } });
+    console.log(`🔕 Removed snapshot subscriber ${existing.id}: ${existing.callbackUrl}`);
+    res.status(204).end();
+  } catch (err) {
+    console.error('DELETE /api/subscribers/:id error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ──────────────────────────────────────────────────────────────────────────────
+// GET /api/subscribers/:id/deliveries
+// Query params: status, limit (default 50, max 100), offset (default 0)
+// ──────────────────────────────────────────────────────────────────────────────
+_router.get('/:id/deliveries', async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const subscriber = id ? await prisma.snapshotSubscriber.findUnique({ where: { id } }) : null;
+
+    if (!subscriber) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    const status = req.query.status as string | undefined;
+    const limit  = Math.min(parseInt(req.query.limit  as string || '50', 10), 100);
+    const offset = Math.max(parseInt(req.query.offset as string || '0',  10), 0);
+
+    const where: Prisma.WebhookDeliveryWhereInput = { subscriberId: subscriber.id };
+    if (status === 'PENDING' || status === 'DELIVERED' || status === 'FAILED') where.status = status;
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    res.json({
+      deliveries: deliveries.map(formatDelivery),
+      total,
+      hasMore: offset + deliveries.length < total,
+    });
+  } catch (err) {
+    console.error('GET /api/subscribers/:id/deliveries error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Stable type annotation avoids TS2742 "inferred type cannot be named" error
+export const subscribersRouter: import('express').Router = _router;
@@ -0,0 +1,385 @@
+/**
+ * Snapshot Subscriber Webhooks
+ *
+ * After each indexed snapshot, notifies registered SnapshotSubscribers of the
+ * fibers that changed. Each subscriber only receives changes matching its
+ * filters (workflowType, fiberId, owner, event name); a subscriber without
+ * filters receives every snapshot.
+ *
+ * Every delivery is logged in WebhookDelivery and retried with exponential
+ * backoff by a small worker, so retries survive restarts. Bodies are signed
+ * with the subscriber's secret (HMAC-SHA256). A subscriber is deactivated
+ * after INDEXER_WEBHOOK_MAX_FAILURES consecutive failed deliveries.
+ *
+ * Callback URLs must be http(s) and resolve to public addresses only; the
+ * check runs on registration and again before every attempt, and redirects
+ * are not followed, so a subscriber cannot point the indexer at loopback,
+ * private-network or link-local (cloud metadata) services.
+ */
+
+import { createHmac } from 'node:crypto';
+import { BlockList, isIP } from 'node:net';
+import { lookup } from 'node:dns/promises';
+import { prisma, getConfig } from '@ottochain/shared';
+import type { Prisma } from '@prisma/client';
+
+export const SIGNATURE_HEADER = 'X-OttoChain-Signature';
+export const TIMESTAMP_HEADER = 'X-OttoChain-Timestamp';
+export const DELIVERY_HEADER = 'X-OttoChain-Delivery';
+export const EVENT_HEADER = 'X-OttoChain-Event';
+
+const SNAPSHOT_EVENT = 'snapshot.indexed';
+const BATCH_SIZE = 50;
+
+/** A fiber that changed in an indexed snapshot */
+export interface FiberChange {
+  fiberId: string;
+  workflowType: string;
+  owners: string[];
+  /** Event of the transition that produced the change, if known */
+  eventName: string | null;
+  fromState: string | null;
+  toState: string;
+  status: string;
+  sequenceNumber: number;
+  created: boolean;
+}
+
+export interface SubscriberFilters {
+  workflowTypes: string[];
+  fiberIds: string[];
+  owners: string[];
+  eventNames: string[];
+}
+
+let workerInterval: NodeJS.Timeout | null = null;
+let running = false;
+let rerun = false;
+let deliveredCount = 0;
+let failedCount = 0;
+
+/**
+ * True if the subscriber has at least one filter set
+ */
+export function hasFilters(filters: SubscriberFilters): boolean {
+  return filters.workflowTypes.length > 0 || filters.fiberIds.length > 0
+    || filters.owners.length > 0 || filters.eventNames.length > 0;
+}
+
+/**
+ * A change matches when it satisfies every non-empty filter
+ */
+export function matchesFilters(change: FiberChange, filters: SubscriberFilters): boolean {
+  if (filters.workflowTypes.length > 0 && !filters.workflowTypes.includes(change.workflowType)) return false;
+  if (filters.fiberIds.length > 0 && !filters.fiberIds.includes(change.fiberId)) return false;
+  if (filters.owners.length > 0 && !change.owners.some((o) => filters.owners.includes(o))) return false;
+  if (filters.eventNames.length > 0 && (!change.eventName || !filters.eventNames.includes(change.eventName))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Signature header value: HMAC-SHA256 of `${timestamp}.${body}` keyed by the
+ * subscriber secret. Receivers recompute it and compare, and reject stale timestamps.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/** Address ranges a callback host may not resolve to (IPv4 rules also cover IPv4-mapped IPv6) */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],       // "this" network
+  ['10.0.0.0', 8],      // private
+  ['100.64.0.0', 10],   // carrier-grade NAT
+  ['127.0.0.0', 8],     // loopback
+  ['169.254.0.0', 16],  // link-local (incl. cloud metadata)
+  ['172.16.0.0', 12],   // private
+  ['192.168.0.0', 16],  // private
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],          // unspecified
+  ['::1', 128],         // loopback
+  ['fc00::', 7],        // unique local
+  ['fe80::', 10],       // link-local
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * True if the address is loopback, private or link-local
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a callback URL may not be used, or null if it may. Hostnames are
+ * resolved and rejected if any of their addresses is blocked.
+ */
+export async function checkCallbackUrl(callbackUrl: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    return 'Invalid URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Only http and https callback URLs are supported';
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((a) => a.address);
+    } catch {
+      return `Callback host ${host} does not resolve`;
+    }
+  }
+
+  const blocked = addresses.find(isBlockedAddress);
+  return blocked ? `Callback host ${host} resolves to a non-public address (${blocked})` : null;
+}
+
+/**
+ * Create delivery log entries for an indexed snapshot and kick the worker.
+ * Returns the number of deliveries queued.
+ */
+export async function enqueueSnapshotDeliveries(
+  snapshot: { ordinal: number; hash: string },
+  changes: FiberChange[]
+): Promise<number> {
+  const subscribers = await prisma.snapshotSubscriber.findMany({ where: { active: true } });
+  if (subscribers.length === 0) return 0;
+
+  const now = new Date();
+  const deliveries: Prisma.WebhookDeliveryCreateManyInput[] = [];
+
+  for (const subscriber of subscribers) {
+    const matched = changes.filter((c) => matchesFilters(c, subscriber));
+    // Filtered subscribers only hear about snapshots that touch what they follow
+    if (hasFilters(subscriber) && matched.length === 0) continue;
+
+    deliveries.push({
+      subscriberId: subscriber.id,
+      event: SNAPSHOT_EVENT,
+      snapshotOrdinal: BigInt(snapshot.ordinal),
+      payload: {
+        event: SNAPSHOT_EVENT,
+        ordinal: snapshot.ordinal,
+        hash: snapshot.hash,
+        timestamp: now.toISOString(),
+        changes: matched,
+      } as unknown as Prisma.InputJsonValue,
+      nextAttemptAt: now,
+    });
+  }
+
+  if (deliveries.length === 0) return 0;
+
+  await prisma.webhookDelivery.createMany({ data: deliveries });
+  console.log(`📤 Queued ${deliveries.length} webhook deliveries for snapshot ${snapshot.ordinal}`);
+
+  processDueDeliveries().catch((err) => console.error('[subscribers] Delivery run failed:', err));
+  return deliveries.length;
+}
+
+/**
+ * Send one delivery attempt and record the outcome
+ */
+async function attemptDelivery(
+  delivery: { id: number; event: string; payload: Prisma.JsonValue; attempts: number },
+  subscriber: { id: number; callbackUrl: string; secret: string | null }
+): Promise<void> {
+  const config = getConfig();
+  const attempts = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [EVENT_HEADER]: delivery.event,
+    [DELIVERY_HEADER]: String(delivery.id),
+    [TIMESTAMP_HEADER]: timestamp,
+  };
+  if (subscriber.secret) {
+    headers[SIGNATURE_HEADER] = signPayload(subscriber.secret, timestamp, body);
+  }
+
+  let responseStatus: number | null = null;
+  // Re-checked on every attempt: the host may resolve differently by now
+  let error: string | null = await checkCallbackUrl(subscriber.callbackUrl);
+  if (!error) {
+    try {
+      const resp = await fetch(subscriber.callbackUrl, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(config.INDEXER_WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = resp.status;
+      if (!resp.ok) error = `HTTP ${resp.status}`;
+    } catch (err) {
+      error = (err as Error).message;
+    }
+  }
+
+  const now = new Date();
+
+  if (!error) {
+    deliveredCount++;
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'DELIVERED', attempts, lastAttemptAt: now, deliveredAt: now, nextAttemptAt: null, responseStatus, error: null },
+    });
+    await prisma.snapshotSubscriber.update({
+      where: { id: subscriber.id },
+      data: { failCount: 0, lastPingAt: now },
+    });
+    return;
+  }
+
+  if (attempts < config.INDEXER_WEBHOOK_MAX_ATTEMPTS) {
+    const delayMs = config.INDEXER_WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1);
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { attempts, lastAttemptAt: now, nextAttemptAt: new Date(now.getTime() + delayMs), responseStatus, error },
+    });
+    console.warn(`⚠️ Webhook delivery ${delivery.id} to ${subscriber.callbackUrl} failed (${error}), retry ${attempts}/${config.INDEXER_WEBHOOK_MAX_ATTEMPTS - 1} in ${delayMs}ms`);
+    return;
+  }
+
+  // Retries exhausted
+  failedCount++;
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: { status: 'FAILED', attempts, lastAttemptAt: now, nextAttemptAt: null, responseStatus, error },
+  });
+  const updated = await prisma.snapshotSubscriber.update({
+    where: { id: subscriber.id },
+    data: { failCount: { increment: 1 } },
+  });
+  console.warn(`❌ Webhook delivery ${delivery.id} to ${subscriber.callbackUrl} failed after ${attempts} attempts (${error})`);
+
+  if (updated.active && updated.failCount >= config.INDEXER_WEBHOOK_MAX_FAILURES) {
+    await deactivateSubscriber(subscriber.id, `${updated.failCount} consecutive failed deliveries`);
+  }
+}
+
+/**
+ * Deactivate a subscriber and fail its outstanding deliveries
+ */
+async function deactivateSubscriber(id: number, reason: string): Promise<void> {
+  const subscriber = await prisma.snapshotSubscriber.update({
+    where: { id },
+    data: { active: false, deactivatedAt: new Date() },
+  });
+  await prisma.webhookDelivery.updateMany({
+    where: { subscriberId: id, status: 'PENDING' },
+    data: { status: 'FAILED', nextAttemptAt: null, error: 'Subscriber deactivated' },
+  });
+  console.warn(`🚫 Deactivated webhook subscriber ${id} (${subscriber.callbackUrl}): ${reason}`);
+}
+
+/**
+ * Attempt every delivery that is due. Deliveries to one subscriber are sent in
+ * order; different subscribers are served concurrently so one slow endpoint
+ * does not hold up the rest.
+ */
+export async function processDueDeliveries(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return;
+  }
+  running = true;
+
+  try {
+    do {
+      rerun = false;
+      const due = await prisma.webhookDelivery.findMany({
+        where: {
+          status: 'PENDING',
+          nextAttemptAt: { lte: new Date() },
+          subscriber: { active: true },
+        },
+        include: { subscriber: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (due.length === 0) break;
+
+      const bySubscriber = new Map<number, typeof due>();
+      for (const delivery of due) {
+        const list = bySubscriber.get(delivery.subscriberId) ?? [];
+        list.push(delivery);
+        bySubscriber.set(delivery.subscriberId, list);
+      }
+
+      await Promise.all(Array.from(bySubscriber.values()).map(async (deliveries) => {
+        for (const delivery of deliveries) {
+          await attemptDelivery(delivery, delivery.subscriber).catch((err) => {
+            console.error(`[subscribers] Delivery ${delivery.id} errored:`, err);
+          });
+        }
+      }));
+
+      // A full batch means more may be due right now
+      if (due.length === BATCH_SIZE) rerun = true;
+    } while (rerun);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the delivery worker (picks up retries and anything left over from a restart)
+ */
+export function startDeliveryWorker(intervalMs = 5000): void {
+  if (workerInterval) {
+    console.warn('⚠️ Webhook delivery worker already running');
+    return;
+  }
+
+  console.log(`📤 Starting webhook delivery worker (every ${intervalMs / 1000}s)`);
+
+  processDueDeliveries().catch(console.error);
+  workerInterval = setInterval(() => processDueDeliveries().catch(console.error), intervalMs);
+}
+
+/**
+ * Stop the delivery worker
+ */
+export function stopDeliveryWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+    console.log('🛑 Stopped webhook delivery worker');
+  }
+}
+
+/**
+ * Get delivery worker stats (counts since startup)
+ */
+export async function getDeliveryStats() {
+  const [activeSubscribers, pendingDeliveries] = await Promise.all([
+    prisma.snapshotSubscriber.count({ where: { active: true } }),
+    prisma.webhookDelivery.count({ where: { status: 'PENDING' } }),
+  ]);
+
+  return {
+    isRunning: workerInterval !== null,
+    activeSubscribers,
+    pendingDeliveries,
+    delivered: deliveredCount,
+    failed: failedCount,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Per-snapshot Transition Reconstruction
+ *
+ * A fiber's sequenceNumber goes up by one per processed event, so when a
+ * snapshot moves a fiber from sequence N to N+k it applied k transitions, but
+ * the checkpoint only carries the last receipt. Each sequence number in
+ * N+1..N+k is filled from, in order of preference:
+ *
+ *   1. `receipts` — the fiber's recent receipt history, when ML0 includes it
+ *   2. `lastReceipt` — always the transition to N+k
+ *   3. inference — a single missing step whose surrounding states are known
+ *      and the definition has exactly one transition between them
+ *
+ * Whatever is left is reported as a gap (a range of sequence numbers) so audit
+ * trails show where events are missing rather than silently skipping them.
+ */
+
+export interface Receipt {
+  eventName: string;
+  fromState: { value: string };
+  toState: { value: string };
+  success: boolean;
+  gasUsed: number;
+  /** Fiber sequence number after this event, when ML0 reports it */
+  sequenceNumber?: number;
+}
+
+export interface FiberHistory {
+  currentState: { value: string };
+  sequenceNumber: number;
+  definition: {
+    initialState: { value: string };
+    transitions: Array<{ from: { value: string }; to: { value: string }; eventName: string }>;
+  };
+  lastReceipt?: Receipt;
+  /** Oldest first */
+  receipts?: Receipt[];
+}
+
+export interface ReconstructedTransition {
+  sequenceNumber: number;
+  eventName: string;
+  fromState: string;
+  toState: string;
+  success: boolean;
+  gasUsed: number;
+  inferred: boolean;
+}
+
+export interface SequenceGap {
+  fromSequence: number;
+  toSequence: number;
+  fromState: string | null;
+  toState: string | null;
+}
+
+/** What the indexer knew about the fiber before this snapshot */
+export interface PreviousFiber {
+  sequenceNumber: number;
+  currentState: string;
+}
+
+/**
+ * Rebuild the transitions a snapshot applied to a fiber.
+ *
+ * `previous` is the indexed row (null if the fiber is new to the indexer).
+ * `createdHere` says the fiber was created by this snapshot, so its history
+ * starts at the initial state; otherwise a fiber first seen mid-life has no
+ * known starting point and only its receipts are recorded, without gaps.
+ */
+export function reconstructTransitions(
+  fiber: FiberHistory,
+  previous: PreviousFiber | null,
+  createdHere: boolean
+): { transitions: ReconstructedTransition[]; gaps: SequenceGap[] } {
+  const last = fiber.sequenceNumber ?? 0;
+  const known = new Map<number, Receipt>();
+
+  // Receipts without sequence numbers are the most recent events, oldest first.
+  // The receipt history may already end with lastReceipt; count it once.
+  const receipts = fiber.receipts ?? [];
+  const tail = receipts[receipts.length - 1];
+  const withLast = fiber.lastReceipt && !(tail && sameReceipt(tail, fiber.lastReceipt))
+    ? [...receipts, fiber.lastReceipt]
+    : receipts;
+  const history = withLast.filter((r) => r.success);
+  let implicit = last;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const receipt = history[i];
+    const seq = receipt.sequenceNumber ?? implicit;
+    if (!known.has(seq)) known.set(seq, receipt);
+    implicit = seq - 1;
+  }
+
+  const tracked = previous !== null || createdHere;
+  const first = previous ? previous.sequenceNumber + 1 : 1;
+  if (!tracked) {
+    // Nothing to compare against: record what we were given
+    return {
+      transitions: [...known.entries()]
+        .filter(([seq]) => seq <= last)
+        .sort(([a], [b]) => a - b)
+        .map(([seq, r]) => fromReceipt(seq, r)),
+      gaps: [],
+    };
+  }
+
+  const transitions: ReconstructedTransition[] = [];
+  const gaps: SequenceGap[] = [];
+  let stateBefore: string | null = previous ? previous.currentState : fiber.definition?.initialState?.value ?? null;
+
+  for (let seq = first; seq <= last; seq++) {
+    const receipt = known.get(seq);
+    if (receipt) {
+      transitions.push(fromReceipt(seq, receipt));
+      stateBefore = receipt.toState.value;
+      continue;
+    }
+
+    // Run of missing sequence numbers: seq..end
+    let end = seq;
+    while (end < last && !known.has(end + 1)) end++;
+    const stateAfter = end === last ? fiber.currentState?.value ?? null : known.get(end + 1)!.fromState.value;
+
+    const inferred = end === seq ? inferTransition(fiber, stateBefore, stateAfter) : null;
+    if (inferred) {
+      transitions.push({ ...inferred, sequenceNumber: seq });
+    } else {
+      gaps.push({ fromSequence: seq, toSequence: end, fromState: stateBefore, toState: stateAfter });
+    }
+    stateBefore = stateAfter;
+    seq = end;
+  }
+
+  return { transitions, gaps };
+}
+
+function fromReceipt(sequenceNumber: number, receipt: Receipt): ReconstructedTransition {
+  return {
+    sequenceNumber,
+    eventName: receipt.eventName,
+    fromState: receipt.fromState.value,
+    toState: receipt.toState.value,
+    success: receipt.success,
+    gasUsed: receipt.gasUsed || 0,
+    inferred: false,
+  };
+}
+
+function sameReceipt(a: Receipt, b: Receipt): boolean {
+  return a.eventName === b.eventName
+    && a.fromState.value === b.fromState.value
+    && a.toState.value === b.toState.value
+    && a.success === b.success
+    && a.gasUsed === b.gasUsed
+    && a.sequenceNumber === b.sequenceNumber;
+}
+
+/**
+ * The only transition the definition allows from `from` to `to`, if exactly one
+ */
+function inferTransition(
+  fiber: FiberHistory,
+  from: string | null,
+  to: string | null
+): Omit<ReconstructedTransition, 'sequenceNumber'> | null {
+  if (!from || !to) return null;
+  const candidates = (fiber.definition?.transitions ?? [])
+    .filter((t) => t.from.value === from && t.to.value === to);
+  if (candidates.length !== 1) return null;
+
+  return {
+    eventName: candidates[0].eventName,
+    fromState: from,
+    toState: to,
+    success: true,
+    gasUsed: 0,
+    inferred: true,
+  };
+}
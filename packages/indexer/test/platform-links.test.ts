@@ -0,0 +1,145 @@
+/**
+ * Platform Link Materialization Unit Tests
+ *
+ * Checks which PlatformLink fibers materializePlatformLink turns into verified
+ * PlatformLink rows: only the fiber a consumed challenge names, owned by the
+ * challenged agent and carrying the challenge's platform account.
+ *
+ * Run: node --import tsx --test test/platform-links.test.ts
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert';
+import { materializePlatformLink, type LinkFiber } from '../src/platform-links.ts';
+
+// ── In-memory data ───────────────────────────────────────────────────────────
+
+type Row = Record<string, any>;
+
+const AGENT = 'DAG0agent';
+const LINK_FIBER_ID = '11111111-2222-4333-8444-555555555555';
+
+let challenges: Row[] = [];
+let agents: Row[] = [];
+let links: Row[] = [];
+
+/** Just enough of Prisma.TransactionClient for platform-links.ts */
+const db = {
+  platformLinkChallenge: {
+    findUnique: async ({ where }: { where: Row }) => challenges.find((c) => c.nonce === where.nonce) ?? null,
+    update: async ({ where, data }: { where: Row; data: Row }) =>
+      Object.assign(challenges.find((c) => c.nonce === where.nonce)!, data),
+  },
+  agent: {
+    findUnique: async ({ where }: { where: Row }) => agents.find((a) => a.address === where.address) ?? null,
+  },
+  platformLink: {
+    upsert: async ({ where, create, update }: { where: Row; create: Row; update: Row }) => {
+      const key = where.platform_platformUserId;
+      const existing = links.find((l) => l.platform === key.platform && l.platformUserId === key.platformUserId);
+      if (existing) return Object.assign(existing, update);
+      links.push({ ...create });
+      return create;
+    },
+  },
+};
+
+function linkFiber(overrides: Partial<LinkFiber> = {}, data: Row = {}): LinkFiber {
+  return {
+    fiberId: LINK_FIBER_ID,
+    owners: [AGENT],
+    stateData: {
+      schema: 'PlatformLink',
+      agentAddress: AGENT,
+      platform: 'GITHUB',
+      platformUserId: 'octocat',
+      nonce: 'nonce-1',
+      ...data,
+    },
+    ...overrides,
+  };
+}
+
+function materialize(fiber: LinkFiber): Promise<boolean> {
+  return materializePlatformLink(db as never, fiber);
+}
+
+beforeEach(() => {
+  challenges = [{
+    nonce: 'nonce-1',
+    agentAddress: AGENT,
+    platform: 'GITHUB',
+    platformUserId: 'octocat',
+    platformUsername: 'The Octocat',
+    consumedAt: new Date(),
+    linkFiberId: LINK_FIBER_ID,
+    linkedAt: null,
+  }];
+  agents = [{ id: 7, address: AGENT }];
+  links = [];
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'log', () => {});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('materializePlatformLink', () => {
+  it('writes a verified link for the fiber its challenge names', async () => {
+    assert.strictEqual(await materialize(linkFiber()), true);
+
+    assert.deepStrictEqual(links, [{
+      agentId: 7,
+      platform: 'GITHUB',
+      platformUserId: 'octocat',
+      platformUsername: 'The Octocat',
+      verified: true,
+    }]);
+    assert.ok(challenges[0].linkedAt instanceof Date);
+  });
+
+  it('moves an existing unverified link to the agent', async () => {
+    links.push({ agentId: 3, platform: 'GITHUB', platformUserId: 'octocat', platformUsername: null, verified: false });
+
+    await materialize(linkFiber());
+
+    assert.strictEqual(links.length, 1);
+    assert.strictEqual(links[0].agentId, 7);
+    assert.strictEqual(links[0].verified, true);
+  });
+
+  it('ignores a fiber the challenge does not name', async () => {
+    const other = linkFiber({ fiberId: '99999999-2222-4333-8444-555555555555' });
+
+    assert.strictEqual(await materialize(other), false);
+    assert.strictEqual(links.length, 0);
+    assert.strictEqual(challenges[0].linkedAt, null);
+  });
+
+  it('ignores a fiber not owned by the challenged agent', async () => {
+    assert.strictEqual(await materialize(linkFiber({ owners: ['DAG0someoneElse'] })), false);
+    assert.strictEqual(links.length, 0);
+  });
+
+  it('ignores a fiber whose platform account differs from the challenge', async () => {
+    assert.strictEqual(await materialize(linkFiber({}, { platformUserId: 'someone-else' })), false);
+    assert.strictEqual(await materialize(linkFiber({}, { platform: 'DISCORD' })), false);
+    assert.strictEqual(links.length, 0);
+  });
+
+  it('ignores unknown nonces and challenges already linked', async () => {
+    assert.strictEqual(await materialize(linkFiber({}, { nonce: 'unknown' })), false);
+    assert.strictEqual(await materialize(linkFiber({ stateData: {} })), false);
+
+    challenges[0].linkedAt = new Date();
+    assert.strictEqual(await materialize(linkFiber()), false);
+    assert.strictEqual(links.length, 0);
+  });
+
+  it('does not link for an agent that is not indexed', async () => {
+    agents = [];
+
+    assert.strictEqual(await materialize(linkFiber()), false);
+    assert.strictEqual(links.length, 0);
+    assert.strictEqual(challenges[0].linkedAt, null);
+  });
+});
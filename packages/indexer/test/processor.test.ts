@@ -0,0 +1,397 @@
+/**
+ * Snapshot Processor Unit Tests
+ *
+ * Runs processSnapshot against a mocked ML0 (fetch) and an in-memory Prisma
+ * stand-in whose writes only land when the snapshot's transaction commits:
+ *   - full pass, then incremental passes by latestUpdateOrdinal
+ *   - update-list mode fetching each fiber, falling back to scripts
+ *   - unchanged fibers are not rewritten
+ *   - every write goes through the one transaction; pub/sub and subscriber
+ *     deliveries only follow a commit
+ *   - replays publish nothing and never overwrite newer rows
+ *
+ * Run: node --import tsx --experimental-test-module-mocks --test test/processor.test.ts
+ */
+
+import { describe, it, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert';
+
+// ── In-memory data ───────────────────────────────────────────────────────────
+
+type Row = Record<string, any>;
+
+const TABLES = [
+  'fiber', 'fiberTransition', 'transitionGap', 'indexRevision', 'indexedSnapshot',
+  'agent', 'reputationHistory', 'contract', 'platformLinkChallenge', 'platformLink',
+] as const;
+
+/** Unique key per table, for upserts and skipDuplicates */
+const KEYS: Record<string, (row: Row) => string> = {
+  fiber: (r) => r.fiberId,
+  fiberTransition: (r) => `${r.fiberId}:${r.sequenceNumber}`,
+  transitionGap: (r) => `${r.fiberId}:${r.fromSequence}`,
+  indexRevision: (r) => `${r.snapshotOrdinal}:${r.entityType}:${r.entityKey}`,
+  indexedSnapshot: (r) => String(r.ordinal),
+  agent: (r) => r.address,
+};
+
+type Tables = Record<string, Row[]>;
+
+let committed: Tables = {};
+let failWrite: string | null = null;
+const writes: string[] = [];
+
+function emptyTables(): Tables {
+  return Object.fromEntries(TABLES.map((name) => [name, []]));
+}
+
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, cond]) =>
+    cond && typeof cond === 'object' && 'in' in cond ? cond.in.includes(row[key]) : row[key] === cond);
+}
+
+/** Just enough of a Prisma model delegate for processor.ts, over `tables` */
+function model(tables: Tables, name: string) {
+  const keyOf = KEYS[name] ?? ((r: Row) => String(r.id));
+  const find = (where: Row) => tables[name].find((r) => matches(r, where));
+  const write = (op: string) => {
+    writes.push(`${name}.${op}`);
+    if (failWrite === `${name}.${op}`) throw new Error(`${name}.${op} failed`);
+  };
+  return {
+    // Copies, like Prisma: later writes must not change rows already read
+    findUnique: async ({ where }: { where: Row }) => structuredClone(find(where) ?? null),
+    findMany: async ({ where }: { where?: Row } = {}) => structuredClone(tables[name].filter((r) => matches(r, where))),
+    create: async ({ data }: { data: Row }) => {
+      write('create');
+      const row = { id: tables[name].length + 1, ...data };
+      tables[name].push(row);
+      return row;
+    },
+    createMany: async ({ data, skipDuplicates }: { data: Row[]; skipDuplicates?: boolean }) => {
+      write('createMany');
+      let count = 0;
+      for (const row of data) {
+        if (skipDuplicates && tables[name].some((r) => keyOf(r) === keyOf(row))) continue;
+        tables[name].push({ id: tables[name].length + 1, ...row });
+        count++;
+      }
+      return { count };
+    },
+    update: async ({ where, data }: { where: Row; data: Row }) => {
+      write('update');
+      return Object.assign(find(where)!, data);
+    },
+    upsert: async ({ where, create, update }: { where: Row; create: Row; update: Row }) => {
+      write('upsert');
+      const existing = find(where);
+      if (existing) return Object.assign(existing, update);
+      const row = { id: tables[name].length + 1, createdGl0Ordinal: null, ...create };
+      tables[name].push(row);
+      return row;
+    },
+  };
+}
+
+function client(tables: Tables): Row {
+  return Object.fromEntries(TABLES.map((name) => [name, model(tables, name)]));
+}
+
+/**
+ * The transaction works on a copy that replaces the committed tables only if
+ * the callback resolves. Outside a transaction the processor may only read.
+ */
+const prisma: Row = {
+  ...Object.fromEntries(TABLES.map((name) => [name, {
+    findMany: async () => { throw new Error(`prisma.${name} used outside the snapshot transaction`); },
+  }])),
+  async $transaction(fn: (tx: Row) => Promise<unknown>) {
+    const working = structuredClone(committed);
+    const result = await fn(client(working));
+    committed = working;
+    return result;
+  },
+};
+
+// ── Mocked services ──────────────────────────────────────────────────────────
+
+const published: Array<{ channel: string; data: any }> = [];
+const deliveries: Array<{ ordinal: number; changes: any[] }> = [];
+
+const noopMetric = { inc() {}, set() {}, observe() {} };
+
+mock.module('@ottochain/shared', {
+  namedExports: {
+    prisma,
+    getConfig: () => ({ METAGRAPH_ML0_URL: 'http://ml0.test' }),
+    publishEvent: async (channel: string, data: unknown) => { published.push({ channel, data }); },
+    CHANNELS: {
+      STATS_UPDATED: 'stats:updated',
+      ACTIVITY_FEED: 'activity:feed',
+      AGENT_UPDATED: 'agent:updated',
+      CONTRACT_UPDATED: 'contract:updated',
+      MARKET_UPDATED: 'market:updated',
+      FIBER_UPDATED: 'fiber:updated',
+      FIBER_TRANSITION: 'fiber:transition',
+      SNAPSHOT_ROLLBACK: 'snapshot:rollback',
+    },
+    metrics: { counter: () => noopMetric, gauge: () => noopMetric, histogram: () => noopMetric },
+  },
+});
+
+mock.module('../src/subscribers.ts', {
+  namedExports: {
+    enqueueSnapshotDeliveries: async (snapshot: { ordinal: number }, changes: any[]) => {
+      deliveries.push({ ordinal: snapshot.ordinal, changes });
+      return changes.length;
+    },
+  },
+});
+
+// ML0: a checkpoint plus per-fiber endpoints
+let checkpoint: { ordinal: number; state: { stateMachines: Row; scripts: Row } };
+const requested: string[] = [];
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function ml0(url: string): Response {
+  const path = url.replace('http://ml0.test/data-application/v1', '');
+  requested.push(path);
+  if (path === '/checkpoint') return json(checkpoint);
+  const [, kind, id] = path.split('/');
+  const found = kind === 'state-machines' ? checkpoint.state.stateMachines[id] : checkpoint.state.scripts[id];
+  return found ? json(found) : json({ error: 'not found' }, 404);
+}
+
+let processor: typeof import('../src/processor.ts');
+
+before(async () => {
+  processor = await import('../src/processor.ts');
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const DEFINITION = {
+  metadata: { name: 'Market' },
+  states: { OPEN: {}, CLOSED: {} },
+  initialState: { value: 'OPEN' },
+  transitions: [{ from: { value: 'OPEN' }, to: { value: 'CLOSED' }, eventName: 'close' }],
+};
+
+function market(fiberId: string, state: string, sequenceNumber: number, updated: number, created = 1): Row {
+  return {
+    fiberId,
+    status: 'Active',
+    currentState: { value: state },
+    stateData: { title: fiberId, status: state },
+    definition: DEFINITION,
+    owners: ['DAG0owner'],
+    sequenceNumber,
+    creationOrdinal: { value: created },
+    latestUpdateOrdinal: { value: updated },
+    lastReceipt: sequenceNumber > 0
+      ? { eventName: 'close', fromState: { value: 'OPEN' }, toState: { value: 'CLOSED' }, success: true, gasUsed: 5 }
+      : undefined,
+  };
+}
+
+function notification(ordinal: number, updatedFiberIds?: string[]) {
+  return { ordinal, hash: `hash-${ordinal}`, timestamp: new Date().toISOString(), updatedFiberIds };
+}
+
+function fiberRow(fiberId: string): Row | undefined {
+  return committed.fiber.find((f) => f.fiberId === fiberId);
+}
+
+function channels(): string[] {
+  return published.map((p) => p.channel);
+}
+
+beforeEach(() => {
+  committed = emptyTables();
+  failWrite = null;
+  writes.length = 0;
+  published.length = 0;
+  deliveries.length = 0;
+  requested.length = 0;
+  checkpoint = { ordinal: 0, state: { stateMachines: {}, scripts: {} } };
+  processor.requestFullPass();
+  mock.method(globalThis, 'fetch', async (url: string) => ml0(url));
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('processSnapshot: changed-fiber selection', () => {
+  it('indexes every fiber on the first pass', async () => {
+    checkpoint = {
+      ordinal: 10,
+      state: { stateMachines: { m1: market('m1', 'OPEN', 0, 10, 10), m2: market('m2', 'OPEN', 0, 10, 10) }, scripts: {} },
+    };
+
+    const result = await processor.processSnapshot(notification(10));
+
+    assert.strictEqual(result.fibersUpdated, 2);
+    assert.deepStrictEqual(committed.fiber.map((f) => f.fiberId).sort(), ['m1', 'm2']);
+    assert.strictEqual(processor.getProcessingStats().last?.mode, 'full');
+    assert.strictEqual(processor.getProcessingStats().lastProcessedOrdinal, 10);
+  });
+
+  it('then indexes only fibers updated after the last processed ordinal', async () => {
+    checkpoint = {
+      ordinal: 10,
+      state: { stateMachines: { m1: market('m1', 'OPEN', 0, 10, 10), m2: market('m2', 'OPEN', 0, 10, 10) }, scripts: {} },
+    };
+    await processor.processSnapshot(notification(10));
+    writes.length = 0;
+
+    checkpoint = {
+      ordinal: 11,
+      state: { stateMachines: { m1: market('m1', 'CLOSED', 1, 11, 10), m2: market('m2', 'OPEN', 0, 10, 10) }, scripts: {} },
+    };
+    const result = await processor.processSnapshot(notification(11));
+
+    assert.strictEqual(result.fibersUpdated, 1);
+    assert.strictEqual(processor.getProcessingStats().last?.mode, 'incremental');
+    assert.strictEqual(processor.getProcessingStats().last?.fibersFetched, 1);
+    assert.strictEqual(fiberRow('m1')?.currentState, 'CLOSED');
+    assert.strictEqual(fiberRow('m1')?.updatedOrdinal, 11n);
+    assert.strictEqual(fiberRow('m2')?.updatedOrdinal, 10n);
+  });
+
+  it('fetches only the fibers in the update list, trying unknown ids as scripts', async () => {
+    checkpoint = {
+      ordinal: 12,
+      state: {
+        stateMachines: { m1: market('m1', 'OPEN', 0, 12, 12), m2: market('m2', 'OPEN', 0, 12, 12) },
+        scripts: { s1: { status: 'Active', owners: ['DAG0owner'], sequenceNumber: 3, metadata: { name: 'Price feed' } } },
+      },
+    };
+
+    const result = await processor.processSnapshot(notification(12, ['m1', 's1', 'm1']));
+
+    assert.strictEqual(result.fibersUpdated, 2);
+    assert.deepStrictEqual(requested, ['/state-machines/m1', '/state-machines/s1', '/scripts/s1']);
+    assert.strictEqual(processor.getProcessingStats().last?.mode, 'update-list');
+    assert.strictEqual(fiberRow('m2'), undefined);
+    assert.strictEqual(fiberRow('s1')?.workflowType, 'Script');
+    assert.strictEqual(fiberRow('s1')?.sequenceNumber, 3);
+  });
+
+  it('does not rewrite fibers whose sequence, state and status are unchanged', async () => {
+    checkpoint = { ordinal: 10, state: { stateMachines: { m1: market('m1', 'OPEN', 0, 10, 10) }, scripts: {} } };
+    await processor.processSnapshot(notification(10));
+    processor.requestFullPass();
+    writes.length = 0;
+
+    checkpoint = { ordinal: 11, state: { stateMachines: { m1: market('m1', 'OPEN', 0, 10, 10) }, scripts: {} } };
+    const result = await processor.processSnapshot(notification(11));
+
+    assert.strictEqual(result.fibersUpdated, 0);
+    assert.deepStrictEqual(writes, ['indexedSnapshot.upsert']);
+    assert.strictEqual(fiberRow('m1')?.updatedOrdinal, 10n);
+  });
+});
+
+describe('processSnapshot: write path', () => {
+  it('writes the fiber, its transitions, a pre-image and the snapshot row in one transaction', async () => {
+    committed.fiber.push({
+      fiberId: 'm1', workflowType: 'Market', currentState: 'OPEN', status: 'ACTIVE', owners: ['DAG0owner'],
+      stateData: {}, sequenceNumber: 0, createdOrdinal: 10n, updatedOrdinal: 10n, createdGl0Ordinal: null,
+    });
+    checkpoint = { ordinal: 11, state: { stateMachines: { m1: market('m1', 'CLOSED', 1, 11, 10) }, scripts: {} } };
+
+    const result = await processor.processSnapshot(notification(11));
+
+    assert.strictEqual(result.transitionsRecorded, 1);
+    assert.deepStrictEqual(
+      committed.fiberTransition.map((t) => [t.sequenceNumber, t.eventName, t.snapshotOrdinal]),
+      [[1, 'close', 11n]]
+    );
+    assert.strictEqual(committed.indexRevision.length, 1);
+    assert.strictEqual(committed.indexRevision[0].previous.currentState, 'OPEN');
+    assert.deepStrictEqual(
+      committed.indexedSnapshot.map((s) => [s.ordinal, s.hash, s.status, s.fibersUpdated]),
+      [[11n, 'hash-11', 'PENDING', 1]]
+    );
+  });
+
+  it('publishes events and queues subscriber deliveries after the commit', async () => {
+    checkpoint = { ordinal: 10, state: { stateMachines: { m1: market('m1', 'CLOSED', 1, 10, 10) }, scripts: {} } };
+
+    await processor.processSnapshot(notification(10));
+
+    assert.ok(channels().includes('fiber:updated'));
+    assert.ok(channels().includes('fiber:updated:m1'));
+    assert.ok(channels().includes('fiber:transition'));
+    assert.ok(channels().includes('market:updated:m1'));
+    assert.strictEqual(channels().at(-1), 'stats:updated');
+    assert.strictEqual(deliveries.length, 1);
+    assert.deepStrictEqual(
+      deliveries[0].changes.map((c) => [c.fiberId, c.eventName, c.toState, c.created]),
+      [['m1', 'close', 'CLOSED', true]]
+    );
+  });
+
+  it('commits nothing, publishes nothing and keeps the cursor when a write fails', async () => {
+    checkpoint = { ordinal: 10, state: { stateMachines: { m1: market('m1', 'CLOSED', 1, 10, 10) }, scripts: {} } };
+    failWrite = 'fiberTransition.createMany';
+
+    await assert.rejects(processor.processSnapshot(notification(10)), /fiberTransition.createMany failed/);
+
+    assert.deepStrictEqual(committed.fiber, []);
+    assert.deepStrictEqual(committed.indexRevision, []);
+    assert.deepStrictEqual(published, []);
+    assert.deepStrictEqual(deliveries, []);
+    assert.strictEqual(processor.getProcessingStats().lastProcessedOrdinal, 0);
+  });
+
+  it('creates an agent with its first reputation entry from an AgentIdentity fiber', async () => {
+    checkpoint = {
+      ordinal: 10,
+      state: {
+        stateMachines: {
+          a1: {
+            ...market('a1', 'ACTIVE', 0, 10, 10),
+            definition: { ...DEFINITION, metadata: { name: 'AgentIdentity' } },
+            stateData: { displayName: 'Otto', reputation: 25, status: 'ACTIVE' },
+            owners: ['DAG0agent'],
+          },
+        },
+        scripts: {},
+      },
+    };
+
+    const result = await processor.processSnapshot(notification(10));
+
+    assert.strictEqual(result.agentsUpdated, 1);
+    assert.deepStrictEqual(
+      committed.agent.map((a) => [a.address, a.displayName, a.reputation, a.state, a.fiberId]),
+      [['DAG0agent', 'Otto', 25, 'ACTIVE', 'a1']]
+    );
+    assert.deepStrictEqual(committed.reputationHistory.map((r) => [r.reputation, r.delta]), [[25, 0]]);
+    assert.ok(channels().includes('agent:updated:DAG0agent'));
+  });
+
+  it('replays without publishing, as CONFIRMED, never overwriting newer rows', async () => {
+    committed.fiber.push({
+      fiberId: 'm1', workflowType: 'Market', currentState: 'CLOSED', status: 'ACTIVE', owners: ['DAG0owner'],
+      stateData: {}, sequenceNumber: 1, createdOrdinal: 10n, updatedOrdinal: 20n, createdGl0Ordinal: null,
+    });
+    const replayed = { ordinal: 15, state: { stateMachines: { m1: market('m1', 'OPEN', 0, 10, 10), m2: market('m2', 'OPEN', 0, 15, 15) }, scripts: {} } };
+
+    const result = await processor.processSnapshot(notification(15), { replay: true, checkpoint: replayed });
+
+    assert.strictEqual(result.fibersUpdated, 1);
+    assert.strictEqual(fiberRow('m1')?.currentState, 'CLOSED');
+    assert.strictEqual(fiberRow('m2')?.updatedOrdinal, 15n);
+    assert.strictEqual(committed.indexedSnapshot[0].status, 'CONFIRMED');
+    assert.deepStrictEqual(published, []);
+    assert.deepStrictEqual(deliveries, []);
+    assert.deepStrictEqual(requested, [], 'the supplied checkpoint is used');
+    assert.strictEqual(processor.getProcessingStats().lastProcessedOrdinal, 0, 'replays leave the live cursor');
+  });
+});
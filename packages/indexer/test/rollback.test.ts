@@ -0,0 +1,256 @@
+/**
+ * Orphaned Snapshot Rollback Unit Tests
+ *
+ * Records pre-images with recordRevision() and rolls snapshots back against an
+ * in-memory Prisma stand-in:
+ *   - changed rows are restored, created rows deleted
+ *   - rows a later snapshot overwrote are left alone
+ *   - the snapshot's transitions, gaps and reputation history are removed
+ *   - several orphaned snapshots restore the original rows when rolled back
+ *     newest first
+ *
+ * Run: node --import tsx --experimental-test-module-mocks --test test/rollback.test.ts
+ */
+
+import { describe, it, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert';
+
+// ── In-memory data ───────────────────────────────────────────────────────────
+
+type Row = Record<string, any>;
+
+const tables: Record<string, Row[]> = {};
+const published: Array<{ channel: string; payload: any }> = [];
+
+function reset(): void {
+  for (const name of ['indexRevision', 'fiber', 'agent', 'contract', 'fiberTransition', 'transitionGap', 'reputationHistory']) {
+    tables[name] = [];
+  }
+  published.length = 0;
+}
+
+/** Flat equality plus `{ lte }` and the contract reference `OR` */
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, cond]) => {
+    if (key === 'OR') return (cond as Row[]).some((c) => matches(row, c));
+    if (cond && typeof cond === 'object' && 'lte' in cond) return row[key] <= cond.lte;
+    return row[key] === cond;
+  });
+}
+
+/** Just enough of a Prisma model delegate for rollback.ts */
+function model(name: string, key: string) {
+  const find = (where: Row) => tables[name].find((r) => r[key] === where[key]);
+  return {
+    findUnique: async ({ where }: { where: Row }) => find(where) ?? null,
+    findMany: async ({ where }: { where: Row }) => tables[name].filter((r) => matches(r, where)),
+    update: async ({ where, data }: { where: Row; data: Row }) => Object.assign(find(where)!, data),
+    delete: async ({ where }: { where: Row }) => {
+      tables[name] = tables[name].filter((r) => r[key] !== where[key]);
+    },
+    deleteMany: async ({ where }: { where: Row }) => {
+      const before = tables[name].length;
+      tables[name] = tables[name].filter((r) => !matches(r, where));
+      return { count: before - tables[name].length };
+    },
+    count: async ({ where }: { where: Row }) => tables[name].filter((r) => matches(r, where)).length,
+  };
+}
+
+const prisma: Row = {
+  indexRevision: {
+    ...model('indexRevision', 'id'),
+    createMany: async ({ data, skipDuplicates }: { data: Row[]; skipDuplicates: boolean }) => {
+      for (const row of data) {
+        const exists = tables.indexRevision.some((r) =>
+          r.snapshotOrdinal === row.snapshotOrdinal && r.entityType === row.entityType && r.entityKey === row.entityKey);
+        if (exists && skipDuplicates) continue;
+        tables.indexRevision.push({ id: tables.indexRevision.length + 1, previous: null, ...row });
+      }
+    },
+  },
+  fiber: model('fiber', 'fiberId'),
+  agent: model('agent', 'address'),
+  contract: model('contract', 'contractId'),
+  fiberTransition: model('fiberTransition', 'id'),
+  transitionGap: model('transitionGap', 'id'),
+  reputationHistory: model('reputationHistory', 'id'),
+};
+prisma.$transaction = async (fn: (tx: Row) => Promise<unknown>) => fn(prisma);
+
+mock.module('@ottochain/shared', {
+  namedExports: {
+    prisma,
+    publishEvent: async (channel: string, payload: unknown) => { published.push({ channel, payload }); },
+    CHANNELS: { SNAPSHOT_ROLLBACK: 'snapshot:rollback' },
+  },
+});
+
+let rollback: typeof import('../src/rollback.ts');
+
+before(async () => {
+  rollback = await import('../src/rollback.ts');
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+function fiberRow(fiberId: string, currentState: string, ordinal: bigint, sequenceNumber: number): Row {
+  return {
+    fiberId,
+    workflowType: 'Market',
+    currentState,
+    status: 'ACTIVE',
+    owners: ['DAG0owner'],
+    stateData: { state: currentState },
+    sequenceNumber,
+    updatedOrdinal: ordinal,
+    updatedGl0Ordinal: null,
+  };
+}
+
+/** Apply a change to a fiber the way the processor does: pre-image first */
+async function writeFiber(ordinal: bigint, next: Row): Promise<void> {
+  const current = tables.fiber.find((f) => f.fiberId === next.fiberId) ?? null;
+  await rollback.recordRevision(prisma as never, Number(ordinal), 'fiber', next.fiberId, current ? { ...current } : null);
+  if (current) Object.assign(current, next);
+  else tables.fiber.push(next);
+}
+
+function fiber(fiberId: string): Row | undefined {
+  return tables.fiber.find((f) => f.fiberId === fiberId);
+}
+
+beforeEach(() => {
+  reset();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('rollbackSnapshot', () => {
+  it('restores changed fibers and deletes fibers the snapshot created', async () => {
+    tables.fiber.push(fiberRow('f1', 'OPEN', 10n, 1));
+    await writeFiber(11n, fiberRow('f1', 'CLOSED', 11n, 2));
+    await writeFiber(11n, fiberRow('f2', 'OPEN', 11n, 0));
+
+    const result = await rollback.rollbackSnapshot(11n, 'hash-11', 'GL0 confirmed another hash');
+
+    assert.strictEqual(fiber('f1')?.currentState, 'OPEN');
+    assert.strictEqual(fiber('f1')?.sequenceNumber, 1);
+    assert.strictEqual(fiber('f1')?.updatedOrdinal, 10n);
+    assert.strictEqual(fiber('f2'), undefined);
+    assert.deepStrictEqual(result.fiberIds.sort(), ['f1', 'f2']);
+    assert.strictEqual(tables.indexRevision.length, 0);
+  });
+
+  it('removes the snapshot transitions, gaps and reputation history only', async () => {
+    tables.fiberTransition.push({ id: 1, snapshotOrdinal: 10n }, { id: 2, snapshotOrdinal: 11n }, { id: 3, snapshotOrdinal: 11n });
+    tables.transitionGap.push({ id: 1, snapshotOrdinal: 11n });
+    tables.reputationHistory.push({ id: 1, snapshotOrdinal: 10n }, { id: 2, snapshotOrdinal: 11n });
+
+    const result = await rollback.rollbackSnapshot(11n, 'hash-11', 'test');
+
+    assert.strictEqual(result.transitionsRemoved, 2);
+    assert.deepStrictEqual(tables.fiberTransition.map((t) => t.id), [1]);
+    assert.strictEqual(tables.transitionGap.length, 0);
+    assert.deepStrictEqual(tables.reputationHistory.map((r) => r.id), [1]);
+  });
+
+  it('leaves rows a later snapshot has overwritten', async () => {
+    tables.fiber.push(fiberRow('f1', 'OPEN', 10n, 1));
+    await writeFiber(11n, fiberRow('f1', 'CLOSED', 11n, 2));
+    await writeFiber(12n, fiberRow('f1', 'SETTLED', 12n, 3));
+
+    const result = await rollback.rollbackSnapshot(11n, 'hash-11', 'test');
+
+    assert.strictEqual(fiber('f1')?.currentState, 'SETTLED');
+    assert.deepStrictEqual(result.fiberIds, []);
+  });
+
+  it('keeps a created agent that contracts still reference', async () => {
+    tables.agent.push({ id: 7, address: 'DAG0agent', snapshotOrdinal: 11n });
+    tables.contract.push({ contractId: 'c1', proposerId: 7, counterpartyId: 8, snapshotOrdinal: 10n });
+    await rollback.recordRevision(prisma as never, 11, 'agent', 'DAG0agent', null);
+
+    const result = await rollback.rollbackSnapshot(11n, 'hash-11', 'test');
+
+    assert.strictEqual(tables.agent.length, 1);
+    assert.deepStrictEqual(result.agentAddresses, []);
+  });
+
+  it('restores agents and contracts from their pre-images', async () => {
+    const agent = { id: 7, address: 'DAG0agent', displayName: 'a', reputation: 10, state: 'ACTIVE', fiberId: 'f1', snapshotOrdinal: 10n };
+    const contract = {
+      contractId: 'c1', state: 'PROPOSED', terms: { amount: 1 }, acceptedAt: null, completedAt: null, snapshotOrdinal: 10n,
+    };
+    tables.agent.push({ ...agent });
+    tables.contract.push({ ...contract });
+    await rollback.recordRevision(prisma as never, 11, 'agent', 'DAG0agent', agent);
+    await rollback.recordRevision(prisma as never, 11, 'contract', 'c1', contract);
+    Object.assign(tables.agent[0], { reputation: 15, snapshotOrdinal: 11n });
+    Object.assign(tables.contract[0], { state: 'ACTIVE', acceptedAt: new Date(), snapshotOrdinal: 11n });
+
+    const result = await rollback.rollbackSnapshot(11n, 'hash-11', 'test');
+
+    assert.strictEqual(tables.agent[0].reputation, 10);
+    assert.strictEqual(tables.agent[0].snapshotOrdinal, 10n);
+    assert.strictEqual(tables.contract[0].state, 'PROPOSED');
+    assert.strictEqual(tables.contract[0].acceptedAt, null);
+    assert.deepStrictEqual(result.agentAddresses, ['DAG0agent']);
+    assert.deepStrictEqual(result.contractIds, ['c1']);
+  });
+
+  it('publishes the rollback for gateway subscribers', async () => {
+    await rollback.rollbackSnapshot(11n, 'hash-11', 'GL0 confirmed another hash');
+
+    assert.strictEqual(published.length, 1);
+    assert.strictEqual(published[0].channel, 'snapshot:rollback');
+    assert.strictEqual(published[0].payload.ordinal, 11);
+    assert.strictEqual(published[0].payload.hash, 'hash-11');
+    assert.strictEqual(published[0].payload.reason, 'GL0 confirmed another hash');
+  });
+
+  it('restores the original rows when consecutive snapshots are rolled back newest first', async () => {
+    tables.fiber.push(fiberRow('f1', 'OPEN', 10n, 1));
+    await writeFiber(11n, fiberRow('f1', 'CLOSED', 11n, 2));
+    await writeFiber(12n, fiberRow('f1', 'SETTLED', 12n, 3));
+
+    await rollback.rollbackSnapshot(12n, 'hash-12', 'test');
+    await rollback.rollbackSnapshot(11n, 'hash-11', 'test');
+
+    assert.strictEqual(fiber('f1')?.currentState, 'OPEN');
+    assert.strictEqual(fiber('f1')?.updatedOrdinal, 10n);
+  });
+
+  it('leaves the older snapshot in place when rolled back oldest first', async () => {
+    tables.fiber.push(fiberRow('f1', 'OPEN', 10n, 1));
+    await writeFiber(11n, fiberRow('f1', 'CLOSED', 11n, 2));
+    await writeFiber(12n, fiberRow('f1', 'SETTLED', 12n, 3));
+
+    await rollback.rollbackSnapshot(11n, 'hash-11', 'test');
+    await rollback.rollbackSnapshot(12n, 'hash-12', 'test');
+
+    assert.strictEqual(fiber('f1')?.currentState, 'CLOSED', 'why confirmations.ts rolls back newest first');
+  });
+});
+
+describe('recordRevision', () => {
+  it('keeps only the first pre-image per snapshot and row', async () => {
+    await rollback.recordRevision(prisma as never, 11, 'fiber', 'f1', fiberRow('f1', 'OPEN', 10n, 1));
+    await rollback.recordRevision(prisma as never, 11, 'fiber', 'f1', fiberRow('f1', 'CLOSED', 11n, 2));
+
+    assert.strictEqual(tables.indexRevision.length, 1);
+    assert.strictEqual(tables.indexRevision[0].previous.currentState, 'OPEN');
+    assert.strictEqual(tables.indexRevision[0].previous.updatedOrdinal, '10', 'BigInt stored as a string');
+  });
+});
+
+describe('pruneRevisions', () => {
+  it('drops pre-images at or below the settled ordinal', async () => {
+    for (const ordinal of [10, 11, 12]) {
+      await rollback.recordRevision(prisma as never, ordinal, 'fiber', 'f1', null);
+    }
+
+    assert.strictEqual(await rollback.pruneRevisions(11n), 2);
+    assert.deepStrictEqual(tables.indexRevision.map((r) => r.snapshotOrdinal), [12n]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Snapshot Subscriber API Tests
+ *
+ * Mounts the /api/subscribers router in a small express app backed by an
+ * in-memory Prisma stand-in:
+ *   - every endpoint requires the INDEXER_ADMIN_TOKEN bearer token
+ *   - the API is disabled while no token is configured
+ *   - callback URLs pointing at loopback, private or link-local hosts are
+ *     rejected on create and update
+ *
+ * Run: node --import tsx --experimental-test-module-mocks --test test/subscriber-routes.test.ts
+ */
+
+import { describe, it, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+
+// ── In-memory data ───────────────────────────────────────────────────────────
+
+type Row = Record<string, any>;
+
+const TOKEN = 'admin-token-0123456789abcdef';
+const config: { INDEXER_ADMIN_TOKEN?: string } = { INDEXER_ADMIN_TOKEN: TOKEN };
+
+let subscribers: Row[] = [];
+
+/** Just enough of PrismaClient for the subscriber routes */
+const prisma = {
+  snapshotSubscriber: {
+    create: async ({ data }: { data: Row }) => {
+      const row = {
+        id: subscribers.length + 1,
+        active: true,
+        createdAt: new Date(),
+        lastPingAt: null,
+        failCount: 0,
+        deactivatedAt: null,
+        ...data,
+      };
+      subscribers.push(row);
+      return row;
+    },
+    findMany: async () => subscribers,
+    findUnique: async ({ where }: { where: Row }) => subscribers.find((s) => s.id === where.id) ?? null,
+    update: async ({ where, data }: { where: Row; data: Row }) =>
+      Object.assign(subscribers.find((s) => s.id === where.id)!, data),
+    delete: async ({ where }: { where: Row }) => {
+      subscribers = subscribers.filter((s) => s.id !== where.id);
+    },
+  },
+};
+
+mock.module('@ottochain/shared', {
+  namedExports: { prisma, getConfig: () => config },
+});
+
+// Registration logs interleave with the test runner's own output
+mock.method(console, 'log', () => {});
+
+// ── Test app ─────────────────────────────────────────────────────────────────
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const { subscribersRouter } = await import('../src/routes/subscribers.ts');
+  const app = express();
+  app.use(express.json());
+  app.use('/api/subscribers', subscribersRouter);
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  subscribers = [];
+  config.INDEXER_ADMIN_TOKEN = TOKEN;
+});
+
+function request(method: string, path: string, body?: unknown, token: string | null = TOKEN) {
+  return fetch(`${baseUrl}/api/subscribers${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token !== null && { Authorization: `Bearer ${token}` }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const PUBLIC_URL = 'https://203.0.113.10/hooks/ottochain';
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('Subscriber API: auth', () => {
+  it('registers a subscriber with the admin token', async () => {
+    const res = await request('POST', '/', { callbackUrl: PUBLIC_URL, workflowTypes: ['Market'] });
+    const body = await res.json();
+
+    assert.strictEqual(res.status, 201);
+    assert.strictEqual(body.callbackUrl, PUBLIC_URL);
+    assert.deepStrictEqual(body.filters.workflowTypes, ['Market']);
+    assert.strictEqual(typeof body.secret, 'string');
+  });
+
+  it('rejects requests without the token', async () => {
+    const res = await request('POST', '/', { callbackUrl: PUBLIC_URL }, null);
+
+    assert.strictEqual(res.status, 401);
+    assert.strictEqual(subscribers.length, 0);
+  });
+
+  it('rejects a wrong token on every endpoint', async () => {
+    await request('POST', '/', { callbackUrl: PUBLIC_URL });
+
+    for (const [method, path] of [
+      ['GET', '/'],
+      ['GET', '/1'],
+      ['PATCH', '/1'],
+      ['DELETE', '/1'],
+      ['GET', '/1/deliveries'],
+    ]) {
+      const res = await request(method, path, method === 'PATCH' ? { active: false } : undefined, 'wrong-token');
+      assert.strictEqual(res.status, 401, `${method} ${path}`);
+    }
+    assert.strictEqual(subscribers.length, 1);
+    assert.strictEqual(subscribers[0].active, true);
+  });
+
+  it('is disabled while no admin token is configured', async () => {
+    config.INDEXER_ADMIN_TOKEN = undefined;
+    const res = await request('GET', '/');
+
+    assert.strictEqual(res.status, 503);
+  });
+});
+
+describe('Subscriber API: callback URLs', () => {
+  it('rejects loopback, private and link-local hosts on registration', async () => {
+    for (const callbackUrl of [
+      'http://127.0.0.1:3031/webhook',
+      'http://localhost:3031/webhook',
+      'http://10.0.0.8/webhook',
+      'http://192.168.1.20/webhook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/webhook',
+      'http://[fe80::1]/webhook',
+    ]) {
+      const res = await request('POST', '/', { callbackUrl });
+      const body = await res.json();
+      assert.strictEqual(res.status, 400, callbackUrl);
+      assert.strictEqual(body.error, 'Invalid callbackUrl');
+      assert.match(body.details, /non-public address/);
+    }
+    assert.strictEqual(subscribers.length, 0);
+  });
+
+  it('rejects a private host on update and keeps the old URL', async () => {
+    await request('POST', '/', { callbackUrl: PUBLIC_URL });
+
+    const res = await request('PATCH', '/1', { callbackUrl: 'http://172.17.0.1/webhook' });
+
+    assert.strictEqual(res.status, 400);
+    assert.strictEqual(subscribers[0].callbackUrl, PUBLIC_URL);
+  });
+
+  it('accepts a public host on update', async () => {
+    await request('POST', '/', { callbackUrl: PUBLIC_URL });
+
+    const res = await request('PATCH', '/1', { callbackUrl: 'https://198.51.100.7/webhook' });
+
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual((await res.json()).callbackUrl, 'https://198.51.100.7/webhook');
+  });
+});
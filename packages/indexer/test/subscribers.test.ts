@@ -0,0 +1,333 @@
+/**
+ * Snapshot Subscriber Delivery Unit Tests
+ *
+ * Runs the webhook delivery worker against an in-memory Prisma stand-in with
+ * fetch mocked out:
+ *   - bodies are signed with HMAC-SHA256 over `${timestamp}.${body}`
+ *   - failed attempts back off exponentially until retries are exhausted
+ *   - subscribers are deactivated after consecutive failed deliveries
+ *   - callback hosts resolving to loopback, private or link-local addresses
+ *     are never called
+ *
+ * Run: node --import tsx --experimental-test-module-mocks --test test/subscribers.test.ts
+ */
+
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert';
+import { createHmac } from 'node:crypto';
+
+// ── In-memory data ───────────────────────────────────────────────────────────
+
+type Row = Record<string, any>;
+
+const config = {
+  INDEXER_WEBHOOK_MAX_ATTEMPTS: 3,
+  INDEXER_WEBHOOK_RETRY_BASE_MS: 1000,
+  INDEXER_WEBHOOK_MAX_FAILURES: 2,
+  INDEXER_WEBHOOK_TIMEOUT_MS: 1000,
+};
+
+let subscribers: Row[] = [];
+let deliveries: Row[] = [];
+
+function applyUpdate(row: Row, data: Row): Row {
+  for (const [key, value] of Object.entries(data)) {
+    row[key] = value && typeof value === 'object' && 'increment' in value ? row[key] + value.increment : value;
+  }
+  return { ...row };
+}
+
+/**
+ * Just enough of PrismaClient for subscribers.ts: flat equality `where`,
+ * `nextAttemptAt: { lte }`, `subscriber: { active }` and `include: { subscriber }`.
+ */
+const prisma = {
+  snapshotSubscriber: {
+    findMany: async ({ where }: { where: Row }) => subscribers.filter((s) => s.active === where.active),
+    update: async ({ where, data }: { where: Row; data: Row }) =>
+      applyUpdate(subscribers.find((s) => s.id === where.id)!, data),
+    count: async ({ where }: { where: Row }) => subscribers.filter((s) => s.active === where.active).length,
+  },
+  webhookDelivery: {
+    createMany: async ({ data }: { data: Row[] }) => {
+      for (const row of data) {
+        deliveries.push({ id: deliveries.length + 1, status: 'PENDING', attempts: 0, ...row });
+      }
+      return { count: data.length };
+    },
+    findMany: async ({ where, take }: { where: Row; take: number }) =>
+      deliveries
+        .filter((d) => d.status === where.status && d.nextAttemptAt <= where.nextAttemptAt.lte)
+        .map((d) => ({ ...d, subscriber: subscribers.find((s) => s.id === d.subscriberId)! }))
+        .filter((d) => d.subscriber.active === where.subscriber.active)
+        .slice(0, take),
+    update: async ({ where, data }: { where: Row; data: Row }) =>
+      applyUpdate(deliveries.find((d) => d.id === where.id)!, data),
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const matched = deliveries.filter((d) => d.subscriberId === where.subscriberId && d.status === where.status);
+      for (const d of matched) applyUpdate(d, data);
+      return { count: matched.length };
+    },
+    count: async ({ where }: { where: Row }) => deliveries.filter((d) => d.status === where.status).length,
+  },
+};
+
+mock.module('@ottochain/shared', {
+  namedExports: { prisma, getConfig: () => config },
+});
+
+let subs: typeof import('../src/subscribers.ts');
+
+before(async () => {
+  subs = await import('../src/subscribers.ts');
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const PUBLIC_URL = 'https://203.0.113.10/hooks/ottochain';
+
+interface FetchCall {
+  url: string;
+  init: RequestInit;
+}
+
+let calls: FetchCall[] = [];
+let nextStatus = 200;
+
+function addSubscriber(fields: Row = {}): Row {
+  const subscriber = {
+    id: subscribers.length + 1,
+    callbackUrl: PUBLIC_URL,
+    secret: 'subscriber-secret-0123456789',
+    active: true,
+    failCount: 0,
+    lastPingAt: null,
+    deactivatedAt: null,
+    workflowTypes: [],
+    fiberIds: [],
+    owners: [],
+    eventNames: [],
+    ...fields,
+  };
+  subscribers.push(subscriber);
+  return subscriber;
+}
+
+function addDelivery(subscriberId: number): Row {
+  const delivery = {
+    id: deliveries.length + 1,
+    subscriberId,
+    event: 'snapshot.indexed',
+    snapshotOrdinal: 7n,
+    payload: { event: 'snapshot.indexed', ordinal: 7, hash: 'abc', changes: [] },
+    status: 'PENDING',
+    attempts: 0,
+    nextAttemptAt: new Date(Date.now() - 1),
+  };
+  deliveries.push(delivery);
+  return delivery;
+}
+
+/** Make a delivery due again, as if its backoff had elapsed */
+function makeDue(delivery: Row): void {
+  delivery.nextAttemptAt = new Date(Date.now() - 1);
+}
+
+function change(fields: Row = {}) {
+  return {
+    fiberId: '11111111-2222-4333-8444-555555555555',
+    workflowType: 'Market',
+    owners: ['DAG0owner'],
+    eventName: 'commit',
+    fromState: 'OPEN',
+    toState: 'OPEN',
+    status: 'ACTIVE',
+    sequenceNumber: 3,
+    created: false,
+    ...fields,
+  };
+}
+
+beforeEach(() => {
+  subscribers = [];
+  deliveries = [];
+  calls = [];
+  nextStatus = 200;
+  mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return new Response(null, { status: nextStatus });
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('signPayload', () => {
+  it('is an HMAC-SHA256 of timestamp and body keyed by the secret', () => {
+    const expected = createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+    assert.strictEqual(subs.signPayload('secret', '1700000000', '{"a":1}'), `sha256=${expected}`);
+  });
+
+  it('changes with the timestamp, so a body cannot be replayed under a new one', () => {
+    assert.notStrictEqual(
+      subs.signPayload('secret', '1700000000', '{}'),
+      subs.signPayload('secret', '1700000001', '{}'),
+    );
+  });
+});
+
+describe('checkCallbackUrl', () => {
+  it('accepts public http(s) hosts', async () => {
+    assert.strictEqual(await subs.checkCallbackUrl(PUBLIC_URL), null);
+    assert.strictEqual(await subs.checkCallbackUrl('http://[2001:db8::1]:8080/hook'), null);
+  });
+
+  it('rejects loopback, private and link-local addresses', async () => {
+    for (const url of [
+      'http://127.0.0.1:3031/hook',
+      'http://2130706433/hook',
+      'http://10.1.2.3/hook',
+      'http://172.20.0.5/hook',
+      'http://192.168.1.10/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://0.0.0.0/hook',
+      'http://[::1]/hook',
+      'http://[fe80::1]/hook',
+      'http://[fd00::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+    ]) {
+      assert.match(String(await subs.checkCallbackUrl(url)), /non-public address/, url);
+    }
+  });
+
+  it('resolves hostnames before deciding', async () => {
+    assert.match(String(await subs.checkCallbackUrl('http://localhost:3031/hook')), /non-public address/);
+  });
+
+  it('rejects other schemes', async () => {
+    assert.match(String(await subs.checkCallbackUrl('ftp://203.0.113.10/hook')), /Only http and https/);
+    assert.match(String(await subs.checkCallbackUrl('file:///etc/passwd')), /Only http and https/);
+  });
+});
+
+describe('processDueDeliveries', () => {
+  it('signs the body and records a successful delivery', async () => {
+    const subscriber = addSubscriber({ failCount: 1 });
+    const delivery = addDelivery(subscriber.id);
+
+    await subs.processDueDeliveries();
+
+    assert.strictEqual(calls.length, 1);
+    const headers = calls[0].init.headers as Record<string, string>;
+    const body = calls[0].init.body as string;
+    assert.strictEqual(body, JSON.stringify(delivery.payload));
+    assert.strictEqual(
+      headers[subs.SIGNATURE_HEADER],
+      subs.signPayload(subscriber.secret, headers[subs.TIMESTAMP_HEADER], body),
+    );
+    assert.strictEqual(headers[subs.DELIVERY_HEADER], String(delivery.id));
+    assert.strictEqual(calls[0].init.redirect, 'manual', 'redirects could lead to internal hosts');
+
+    assert.strictEqual(delivery.status, 'DELIVERED');
+    assert.strictEqual(delivery.attempts, 1);
+    assert.strictEqual(subscriber.failCount, 0);
+    assert.ok(subscriber.lastPingAt instanceof Date);
+  });
+
+  it('sends no signature header without a secret', async () => {
+    addDelivery(addSubscriber({ secret: null }).id);
+
+    await subs.processDueDeliveries();
+
+    assert.strictEqual((calls[0].init.headers as Record<string, string>)[subs.SIGNATURE_HEADER], undefined);
+  });
+
+  it('backs off exponentially, then fails the delivery', async () => {
+    nextStatus = 500;
+    const subscriber = addSubscriber();
+    const delivery = addDelivery(subscriber.id);
+
+    await subs.processDueDeliveries();
+    assert.strictEqual(delivery.status, 'PENDING');
+    assert.strictEqual(delivery.error, 'HTTP 500');
+    assert.strictEqual(delivery.nextAttemptAt - delivery.lastAttemptAt, 1000);
+
+    await subs.processDueDeliveries();
+    assert.strictEqual(calls.length, 1, 'not due again before the backoff elapses');
+
+    makeDue(delivery);
+    await subs.processDueDeliveries();
+    assert.strictEqual(delivery.nextAttemptAt - delivery.lastAttemptAt, 2000);
+
+    makeDue(delivery);
+    await subs.processDueDeliveries();
+    assert.strictEqual(calls.length, 3);
+    assert.strictEqual(delivery.status, 'FAILED');
+    assert.strictEqual(delivery.nextAttemptAt, null);
+    assert.strictEqual(subscriber.failCount, 1);
+    assert.strictEqual(subscriber.active, true);
+  });
+
+  it('treats redirects as failed attempts', async () => {
+    nextStatus = 302;
+    const delivery = addDelivery(addSubscriber().id);
+
+    await subs.processDueDeliveries();
+
+    assert.strictEqual(delivery.error, 'HTTP 302');
+    assert.strictEqual(delivery.responseStatus, 302);
+  });
+
+  it('deactivates a subscriber after consecutive failed deliveries', async () => {
+    nextStatus = 500;
+    const subscriber = addSubscriber({ failCount: 1 });
+    const failing = addDelivery(subscriber.id);
+    failing.attempts = 2;
+    const queued = addDelivery(subscriber.id);
+    queued.nextAttemptAt = new Date(Date.now() + 60_000);
+
+    await subs.processDueDeliveries();
+
+    assert.strictEqual(failing.status, 'FAILED');
+    assert.strictEqual(subscriber.active, false);
+    assert.ok(subscriber.deactivatedAt instanceof Date);
+    assert.strictEqual(queued.status, 'FAILED');
+    assert.strictEqual(queued.error, 'Subscriber deactivated');
+
+    makeDue(queued);
+    await subs.processDueDeliveries();
+    assert.strictEqual(calls.length, 1, 'inactive subscribers are not called');
+  });
+
+  it('never calls a callback host that resolves to a blocked address', async () => {
+    const delivery = addDelivery(addSubscriber({ callbackUrl: 'http://169.254.169.254/latest/meta-data' }).id);
+
+    await subs.processDueDeliveries();
+
+    assert.strictEqual(calls.length, 0);
+    assert.match(delivery.error, /non-public address/);
+    assert.strictEqual(delivery.attempts, 1);
+  });
+});
+
+describe('enqueueSnapshotDeliveries', () => {
+  it('sends each subscriber only the changes matching its filters', async () => {
+    const all = addSubscriber();
+    const markets = addSubscriber({ workflowTypes: ['Market'] });
+    addSubscriber({ workflowTypes: ['Contract'] });
+    addSubscriber({ active: false });
+
+    const queued = await subs.enqueueSnapshotDeliveries(
+      { ordinal: 9, hash: 'h9' },
+      [change(), change({ fiberId: '22222222-2222-4333-8444-555555555555', workflowType: 'Agent' })],
+    );
+
+    assert.strictEqual(queued, 2);
+    assert.deepStrictEqual(deliveries.map((d) => d.subscriberId), [all.id, markets.id]);
+    assert.strictEqual(deliveries[0].payload.changes.length, 2);
+    assert.deepStrictEqual(deliveries[1].payload.changes.map((c: Row) => c.workflowType), ['Market']);
+  });
+});
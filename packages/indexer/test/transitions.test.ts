@@ -0,0 +1,156 @@
+/**
+ * Transition Reconstruction Unit Tests
+ *
+ * Checks how reconstructTransitions fills the sequence numbers a snapshot
+ * advanced a fiber by: from receipts, from lastReceipt, by inference from the
+ * definition, and as gaps when none of those apply.
+ *
+ * Run: node --import tsx --test test/transitions.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { reconstructTransitions, type FiberHistory, type Receipt } from '../src/transitions.ts';
+
+// Market: OPEN -bid-> OPEN, OPEN -close-> CLOSED, CLOSED -settle-> SETTLED,
+// plus two ways from CLOSED back to OPEN so that step can't be inferred
+const definition: FiberHistory['definition'] = {
+  initialState: { value: 'OPEN' },
+  transitions: [
+    { from: { value: 'OPEN' }, to: { value: 'OPEN' }, eventName: 'bid' },
+    { from: { value: 'OPEN' }, to: { value: 'CLOSED' }, eventName: 'close' },
+    { from: { value: 'CLOSED' }, to: { value: 'SETTLED' }, eventName: 'settle' },
+    { from: { value: 'CLOSED' }, to: { value: 'OPEN' }, eventName: 'reopen' },
+    { from: { value: 'CLOSED' }, to: { value: 'OPEN' }, eventName: 'relist' },
+  ],
+};
+
+function receipt(eventName: string, from: string, to: string, extra: Partial<Receipt> = {}): Receipt {
+  return { eventName, fromState: { value: from }, toState: { value: to }, success: true, gasUsed: 10, ...extra };
+}
+
+function fiber(sequenceNumber: number, currentState: string, extra: Partial<FiberHistory> = {}): FiberHistory {
+  return { currentState: { value: currentState }, sequenceNumber, definition, ...extra };
+}
+
+/** [sequenceNumber, eventName, inferred] per transition */
+function summary(transitions: ReturnType<typeof reconstructTransitions>['transitions']) {
+  return transitions.map((t) => [t.sequenceNumber, t.eventName, t.inferred]);
+}
+
+describe('reconstructTransitions', () => {
+  it('takes numbered receipts as they are', () => {
+    const { transitions, gaps } = reconstructTransitions(
+      fiber(3, 'SETTLED', {
+        receipts: [
+          receipt('bid', 'OPEN', 'OPEN', { sequenceNumber: 1 }),
+          receipt('close', 'OPEN', 'CLOSED', { sequenceNumber: 2 }),
+        ],
+        lastReceipt: receipt('settle', 'CLOSED', 'SETTLED', { sequenceNumber: 3 }),
+      }),
+      null,
+      true
+    );
+
+    assert.deepStrictEqual(summary(transitions), [[1, 'bid', false], [2, 'close', false], [3, 'settle', false]]);
+    assert.deepStrictEqual(gaps, []);
+  });
+
+  it('numbers unnumbered receipts back from the fiber sequence', () => {
+    const { transitions, gaps } = reconstructTransitions(
+      fiber(4, 'SETTLED', {
+        receipts: [receipt('close', 'OPEN', 'CLOSED')],
+        lastReceipt: receipt('settle', 'CLOSED', 'SETTLED'),
+      }),
+      { sequenceNumber: 2, currentState: 'OPEN' },
+      false
+    );
+
+    assert.deepStrictEqual(summary(transitions), [[3, 'close', false], [4, 'settle', false]]);
+    assert.deepStrictEqual(gaps, []);
+  });
+
+  it('counts a lastReceipt the receipt history already ends with once', () => {
+    const settle = receipt('settle', 'CLOSED', 'SETTLED');
+    const { transitions, gaps } = reconstructTransitions(
+      fiber(4, 'SETTLED', {
+        receipts: [receipt('close', 'OPEN', 'CLOSED'), settle],
+        lastReceipt: { ...settle },
+      }),
+      { sequenceNumber: 2, currentState: 'OPEN' },
+      false
+    );
+
+    assert.deepStrictEqual(summary(transitions), [[3, 'close', false], [4, 'settle', false]]);
+    assert.deepStrictEqual(gaps, []);
+  });
+
+  it('skips failed receipts when numbering', () => {
+    const { transitions } = reconstructTransitions(
+      fiber(4, 'SETTLED', {
+        receipts: [
+          receipt('close', 'OPEN', 'CLOSED'),
+          receipt('settle', 'CLOSED', 'SETTLED', { success: false }),
+        ],
+        lastReceipt: receipt('settle', 'CLOSED', 'SETTLED'),
+      }),
+      { sequenceNumber: 2, currentState: 'OPEN' },
+      false
+    );
+
+    assert.deepStrictEqual(summary(transitions), [[3, 'close', false], [4, 'settle', false]]);
+    assert.ok(transitions.every((t) => t.success));
+  });
+
+  it('infers a single missing step the definition allows only one way', () => {
+    const { transitions, gaps } = reconstructTransitions(
+      fiber(4, 'SETTLED', { lastReceipt: receipt('settle', 'CLOSED', 'SETTLED') }),
+      { sequenceNumber: 2, currentState: 'OPEN' },
+      false
+    );
+
+    assert.deepStrictEqual(summary(transitions), [[3, 'close', true], [4, 'settle', false]]);
+    assert.strictEqual(transitions[0].gasUsed, 0);
+    assert.deepStrictEqual(gaps, []);
+  });
+
+  it('reports a gap when the missing step is ambiguous', () => {
+    const { transitions, gaps } = reconstructTransitions(
+      fiber(4, 'CLOSED', { lastReceipt: receipt('close', 'OPEN', 'CLOSED') }),
+      { sequenceNumber: 2, currentState: 'CLOSED' },
+      false
+    );
+
+    assert.deepStrictEqual(summary(transitions), [[4, 'close', false]]);
+    assert.deepStrictEqual(gaps, [{ fromSequence: 3, toSequence: 3, fromState: 'CLOSED', toState: 'OPEN' }]);
+  });
+
+  it('reports a run of missing steps as one gap', () => {
+    const { transitions, gaps } = reconstructTransitions(
+      fiber(6, 'SETTLED', { lastReceipt: receipt('settle', 'CLOSED', 'SETTLED') }),
+      { sequenceNumber: 2, currentState: 'OPEN' },
+      false
+    );
+
+    assert.deepStrictEqual(summary(transitions), [[6, 'settle', false]]);
+    assert.deepStrictEqual(gaps, [{ fromSequence: 3, toSequence: 5, fromState: 'OPEN', toState: 'CLOSED' }]);
+  });
+
+  it('starts a fiber created in the snapshot from its initial state', () => {
+    const { transitions, gaps } = reconstructTransitions(fiber(1, 'CLOSED'), null, true);
+
+    assert.deepStrictEqual(summary(transitions), [[1, 'close', true]]);
+    assert.deepStrictEqual(gaps, []);
+  });
+
+  it('records only receipts for a fiber first seen mid-life', () => {
+    const { transitions, gaps } = reconstructTransitions(
+      fiber(9, 'SETTLED', { lastReceipt: receipt('settle', 'CLOSED', 'SETTLED') }),
+      null,
+      false
+    );
+
+    assert.deepStrictEqual(summary(transitions), [[9, 'settle', false]]);
+    assert.deepStrictEqual(gaps, []);
+  });
+});
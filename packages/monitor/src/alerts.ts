@@ -0,0 +1,531 @@
+/**
+ * Declarative alert rules
+ *
+ * Each poll the collected health is flattened into metric samples (one per
+ * node, service, layer or the metagraph, each with identifying labels) and
+ * every rule is checked against the samples of its metric. A sample that
+ * meets a rule's condition opens an alert, which stays `pending` until the
+ * condition has held for the rule's `for` duration, then goes `firing`. When
+ * the condition stops holding (or the sample disappears) the alert is
+ * `resolved`.
+ *
+ * Firing and resolving send a notification unless the alert is silenced. The
+ * per-rule `cooldown` keeps a flapping alert from notifying again too soon: a
+ * firing notification due within it is postponed until it has passed, and
+ * sent then if the alert is still firing. `repeatInterval` re-sends firing
+ * alerts until someone acknowledges them.
+ *
+ * Rules come from a JSON file (ALERT_RULES_FILE) holding an array of rules, or
+ * `{ "rules": [...] }`; without one, DEFAULT_ALERT_RULES apply:
+ *
+ *   { "name": "Dl1Lagging", "metric": "metagraph.dl1Lag", "comparator": ">",
+ *     "threshold": 50, "for": "1m", "severity": "warning",
+ *     "summary": "DL1 lagging behind ML0 by {value} ordinals" }
+ */
+
+import { randomUUID, createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import type { NodeHealth, ServiceHealth, MetagraphMetrics } from './types.js';
+import type { LayerForkReport } from './forks.js';
+
+export type AlertSeverity = 'warning' | 'critical';
+export type Comparator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+export type AlertState = 'pending' | 'firing' | 'resolved';
+
+/** Metrics rules can refer to */
+export const ALERT_METRICS = {
+  /** 1 unless the node is unhealthy */
+  'node.up': 'node',
+  /** Seconds since the node's ordinal last changed */
+  'node.ordinalAgeSeconds': 'node',
+  'node.latencyMs': 'node',
+  'node.ordinal': 'node',
+  /** 1 unless the service is unhealthy */
+  'service.up': 'service',
+  'service.latencyMs': 'service',
+  /** Distinct node states among the healthy nodes of a layer (2+ healthy nodes) */
+  'layer.distinctStates': 'layer',
+  /** Highest minus lowest ordinal among the healthy nodes of a layer */
+  'layer.ordinalSpread': 'layer',
+  /** Nodes off the majority snapshot chain of a layer (see forks.ts) */
+  'layer.forkedNodes': 'layer',
+  'metagraph.dl1Lag': 'metagraph',
+  /** 1 if ML0 serves currency snapshots */
+  'metagraph.currencySnapshotAvailable': 'metagraph',
+  'metagraph.fiberCount': 'metagraph',
+} as const;
+
+export type AlertMetric = keyof typeof ALERT_METRICS;
+
+export interface AlertRule {
+  name: string;
+  metric: AlertMetric;
+  comparator: Comparator;
+  threshold: number;
+  /** How long the condition must hold before firing: seconds or "30s", "4m", "1h" (default 0) */
+  for?: number | string;
+  severity: AlertSeverity;
+  /** Extra labels attached to the alert */
+  labels?: Record<string, string>;
+  /** Only samples whose labels have these values (e.g. { "type": "dl1" }) */
+  match?: Record<string, string>;
+  /** Minimum time between firing notifications for the same alert; one due sooner is postponed (default 60s) */
+  cooldown?: number | string;
+  /** Re-notify while firing and unacknowledged (default never) */
+  repeatInterval?: number | string;
+  /** Notification text; {value}, {threshold} and label names are substituted */
+  summary?: string;
+}
+
+export interface MetricSample {
+  metric: AlertMetric;
+  value: number;
+  /** Identify the sample (node, service, layer) */
+  labels: Record<string, string>;
+  /** Extra detail for summaries only */
+  annotations?: Record<string, string>;
+}
+
+export interface Acknowledgement {
+  by: string;
+  at: number;
+  comment?: string;
+}
+
+export interface Alert {
+  id: string;
+  rule: string;
+  state: AlertState;
+  severity: AlertSeverity;
+  labels: Record<string, string>;
+  value: number;
+  summary: string;
+  /** When the condition started holding */
+  activeAt: number;
+  firedAt?: number;
+  resolvedAt?: number;
+  lastNotifiedAt?: number;
+  acknowledged?: Acknowledgement;
+  silencedBy?: string;
+}
+
+export interface Silence {
+  id: string;
+  /** Alerts whose labels (including alertname and severity) have all these values */
+  matchers: Record<string, string>;
+  startsAt: number;
+  endsAt: number;
+  createdBy?: string;
+  comment?: string;
+}
+
+export interface AlertNotification {
+  status: 'firing' | 'resolved';
+  severity: AlertSeverity;
+  message: string;
+  alert: Alert;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    name: 'NodeDown',
+    metric: 'node.up',
+    comparator: '==',
+    threshold: 0,
+    severity: 'critical',
+    summary: 'Node DOWN: {node} ({url})',
+  },
+  {
+    name: 'OrdinalStalled',
+    metric: 'node.ordinalAgeSeconds',
+    comparator: '>',
+    threshold: 240,
+    severity: 'critical',
+    summary: '{node} ordinal stuck at {ordinal} for {value}s',
+  },
+  {
+    name: 'LayerStateMismatch',
+    metric: 'layer.distinctStates',
+    comparator: '>',
+    threshold: 1,
+    severity: 'critical',
+    summary: 'Potential FORK in {layer}: nodes have different states: {states}',
+  },
+  {
+    name: 'SnapshotFork',
+    metric: 'layer.forkedNodes',
+    comparator: '>',
+    threshold: 0,
+    severity: 'critical',
+    summary: 'FORK in {layer} at ordinal {ordinal}: {nodes} off the majority chain (restart: {restart})',
+  },
+  {
+    name: 'CurrencySnapshotsUnavailable',
+    metric: 'metagraph.currencySnapshotAvailable',
+    comparator: '==',
+    threshold: 0,
+    severity: 'critical',
+    summary: 'Currency snapshots UNAVAILABLE - transactions will fail',
+  },
+  {
+    name: 'Dl1Lagging',
+    metric: 'metagraph.dl1Lag',
+    comparator: '>',
+    threshold: 50,
+    severity: 'warning',
+    summary: 'DL1 lagging behind ML0 by {value} ordinals',
+  },
+];
+
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+/** Resolved alerts kept for the API */
+const RESOLVED_HISTORY = 100;
+
+// ── Rules ───────────────────────────────────────────────────────────────────
+
+/** Milliseconds for a duration given in seconds or as "30s", "4m", "1h", "1d" */
+export function parseDuration(value: number | string | undefined, fallbackMs = 0): number {
+  if (value === undefined) return fallbackMs;
+  if (typeof value === 'number') return value * 1000;
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid duration: ${value}`);
+  const unit = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'ms' | 's' | 'm' | 'h' | 'd'];
+  return parseFloat(match[1]) * unit;
+}
+
+const COMPARATORS: Record<Comparator, (value: number, threshold: number) => boolean> = {
+  '>': (v, t) => v > t,
+  '>=': (v, t) => v >= t,
+  '<': (v, t) => v < t,
+  '<=': (v, t) => v <= t,
+  '==': (v, t) => v === t,
+  '!=': (v, t) => v !== t,
+};
+
+/**
+ * Check parsed JSON is a list of rules, throwing on the first problem
+ */
+export function validateRules(raw: unknown): AlertRule[] {
+  const list = Array.isArray(raw) ? raw : (raw as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) throw new Error('Alert rules must be an array or { "rules": [...] }');
+
+  const names = new Set<string>();
+  return list.map((rule: Partial<AlertRule>, i) => {
+    const where = `rule ${typeof rule?.name === 'string' ? `"${rule.name}"` : `#${i}`}`;
+    if (typeof rule?.name !== 'string' || rule.name === '') throw new Error(`${where}: name is required`);
+    if (names.has(rule.name)) throw new Error(`${where}: duplicate name`);
+    names.add(rule.name);
+    if (!rule.metric || !(rule.metric in ALERT_METRICS)) {
+      throw new Error(`${where}: unknown metric ${rule.metric}. Use one of ${Object.keys(ALERT_METRICS).join(', ')}`);
+    }
+    if (!rule.comparator || !(rule.comparator in COMPARATORS)) {
+      throw new Error(`${where}: comparator must be one of ${Object.keys(COMPARATORS).join(' ')}`);
+    }
+    if (typeof rule.threshold !== 'number') throw new Error(`${where}: threshold must be a number`);
+    if (rule.severity !== 'warning' && rule.severity !== 'critical') {
+      throw new Error(`${where}: severity must be warning or critical`);
+    }
+    for (const field of ['for', 'cooldown', 'repeatInterval'] as const) {
+      try {
+        parseDuration(rule[field]);
+      } catch (err) {
+        throw new Error(`${where}: ${field}: ${(err as Error).message}`);
+      }
+    }
+    return rule as AlertRule;
+  });
+}
+
+/**
+ * Rules from a JSON file, or the defaults when no file is given
+ */
+export function loadAlertRules(file?: string): AlertRule[] {
+  if (!file) return DEFAULT_ALERT_RULES;
+  return validateRules(JSON.parse(readFileSync(file, 'utf8')));
+}
+
+// ── Samples ─────────────────────────────────────────────────────────────────
+
+/**
+ * Flatten one collection cycle into metric samples
+ */
+export function extractSamples(
+  health: { nodes: NodeHealth[]; services: ServiceHealth[]; metagraph: MetagraphMetrics; forks?: LayerForkReport[] },
+  now: number
+): MetricSample[] {
+  const samples: MetricSample[] = [];
+
+  for (const node of health.nodes) {
+    const labels = { node: node.name, type: node.type, url: node.url };
+    samples.push({ metric: 'node.up', value: node.status === 'unhealthy' ? 0 : 1, labels });
+    if (node.status === 'unhealthy') continue;
+    if (node.latencyMs !== undefined) samples.push({ metric: 'node.latencyMs', value: node.latencyMs, labels });
+    if (node.ordinal !== undefined) {
+      samples.push({ metric: 'node.ordinal', value: node.ordinal, labels });
+      if (node.ordinalLastChanged !== undefined) {
+        samples.push({
+          metric: 'node.ordinalAgeSeconds',
+          value: Math.floor((now - node.ordinalLastChanged) / 1000),
+          labels,
+          annotations: { ordinal: String(node.ordinal) },
+        });
+      }
+    }
+  }
+
+  for (const service of health.services) {
+    const labels = { service: service.name, type: service.type, ...(service.url ? { url: service.url } : {}) };
+    samples.push({ metric: 'service.up', value: service.status === 'unhealthy' ? 0 : 1, labels });
+    if (service.status !== 'unhealthy' && service.latencyMs !== undefined) {
+      samples.push({ metric: 'service.latencyMs', value: service.latencyMs, labels });
+    }
+  }
+
+  const layers = new Map<string, NodeHealth[]>();
+  for (const node of health.nodes) {
+    if (node.status === 'healthy') layers.set(node.type, [...(layers.get(node.type) ?? []), node]);
+  }
+  for (const [type, nodes] of layers) {
+    if (nodes.length < 2) continue;
+    const labels = { layer: type.toUpperCase() };
+    const states = [...new Set(nodes.map(n => n.state ?? 'unknown'))];
+    samples.push({ metric: 'layer.distinctStates', value: states.length, labels, annotations: { states: states.join(', ') } });
+    const ordinals = nodes.flatMap(n => (n.ordinal === undefined ? [] : [n.ordinal]));
+    if (ordinals.length >= 2) {
+      samples.push({
+        metric: 'layer.ordinalSpread',
+        value: ordinals.reduce((a, b) => Math.max(a, b)) - ordinals.reduce((a, b) => Math.min(a, b)),
+        labels,
+      });
+    }
+  }
+
+  for (const fork of health.forks ?? []) {
+    if (fork.status === 'insufficient-peers') continue;
+    samples.push({
+      metric: 'layer.forkedNodes',
+      value: fork.minority.length,
+      labels: { layer: fork.layer.toUpperCase() },
+      annotations: {
+        ordinal: String(fork.firstDivergentOrdinal ?? ''),
+        nodes: fork.minority.join(', '),
+        restart: fork.suggestedRestart?.node ?? 'no majority',
+      },
+    });
+  }
+
+  const { dl1Lag, currencySnapshotAvailable, fiberCount } = health.metagraph;
+  if (dl1Lag !== undefined) samples.push({ metric: 'metagraph.dl1Lag', value: dl1Lag, labels: {} });
+  if (currencySnapshotAvailable !== undefined) {
+    samples.push({ metric: 'metagraph.currencySnapshotAvailable', value: currencySnapshotAvailable ? 1 : 0, labels: {} });
+  }
+  if (fiberCount !== undefined) samples.push({ metric: 'metagraph.fiberCount', value: fiberCount, labels: {} });
+
+  return samples;
+}
+
+// ── Engine ──────────────────────────────────────────────────────────────────
+
+function alertId(rule: string, labels: Record<string, string>): string {
+  const key = JSON.stringify([rule, Object.keys(labels).sort().map(k => [k, labels[k]])]);
+  return createHash('sha1').update(key).digest('hex').slice(0, 12);
+}
+
+function matches(labels: Record<string, string>, matchers: Record<string, string> = {}): boolean {
+  return Object.entries(matchers).every(([key, value]) => labels[key] === value);
+}
+
+function renderSummary(rule: AlertRule, sample: MetricSample): string {
+  const template = rule.summary ?? `${rule.name}: ${rule.metric} ${rule.comparator} ${rule.threshold}`;
+  const values: Record<string, string> = {
+    ...sample.annotations,
+    ...sample.labels,
+    value: String(sample.value),
+    threshold: String(rule.threshold),
+  };
+  return template.replace(/\{(\w+)\}/g, (whole, key: string) => values[key] ?? whole);
+}
+
+export class AlertEngine {
+  private rules: AlertRule[];
+  private active = new Map<string, Alert>();
+  private resolved: Alert[] = [];
+  private silences = new Map<string, Silence>();
+  /** Last firing notification per alert id, kept across resolves for cooldowns */
+  private lastFiredNotice = new Map<string, number>();
+
+  constructor(rules: AlertRule[] = DEFAULT_ALERT_RULES) {
+    this.rules = rules;
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Check every rule against one collection cycle and return the
+   * notifications to send
+   */
+  evaluate(
+    health: { nodes: NodeHealth[]; services: ServiceHealth[]; metagraph: MetagraphMetrics; forks?: LayerForkReport[] },
+    now = Date.now()
+  ): AlertNotification[] {
+    const samples = extractSamples(health, now);
+    const notifications: AlertNotification[] = [];
+    const seen = new Set<string>();
+
+    for (const rule of this.rules) {
+      const compare = COMPARATORS[rule.comparator];
+      for (const sample of samples) {
+        if (sample.metric !== rule.metric || !matches(sample.labels, rule.match)) continue;
+        if (!compare(sample.value, rule.threshold)) continue;
+
+        const labels = { ...sample.labels, ...rule.labels, alertname: rule.name, severity: rule.severity };
+        const id = alertId(rule.name, labels);
+        seen.add(id);
+
+        let alert = this.active.get(id);
+        if (!alert) {
+          alert = { id, rule: rule.name, state: 'pending', severity: rule.severity, labels, value: sample.value, summary: '', activeAt: now };
+          this.active.set(id, alert);
+        }
+        alert.value = sample.value;
+        alert.summary = renderSummary(rule, sample);
+
+        if (alert.state === 'pending' && now - alert.activeAt >= parseDuration(rule.for)) {
+          alert.state = 'firing';
+          alert.firedAt = now;
+          if (this.cooledDown(rule, id, now)) this.notify(alert, 'firing', now, notifications);
+        } else if (alert.state === 'firing' && alert.lastNotifiedAt === undefined && !alert.silencedBy) {
+          // Held back by the cooldown: announce once it has passed
+          if (this.cooledDown(rule, id, now)) this.notify(alert, 'firing', now, notifications);
+        } else if (alert.state === 'firing' && alert.silencedBy && !this.findSilence(alert.labels, now)) {
+          // Silence ended while firing: announce it now
+          this.notify(alert, 'firing', now, notifications);
+        } else if (
+          alert.state === 'firing' &&
+          rule.repeatInterval !== undefined &&
+          !alert.acknowledged &&
+          alert.lastNotifiedAt !== undefined &&
+          now - alert.lastNotifiedAt >= parseDuration(rule.repeatInterval)
+        ) {
+          this.notify(alert, 'firing', now, notifications);
+        }
+      }
+    }
+
+    for (const [id, alert] of this.active) {
+      if (seen.has(id)) continue;
+      this.active.delete(id);
+      if (alert.state !== 'firing') continue;
+
+      alert.state = 'resolved';
+      alert.resolvedAt = now;
+      // Only resolve what was announced
+      if (alert.lastNotifiedAt !== undefined) this.notify(alert, 'resolved', now, notifications);
+      this.resolved.unshift(alert);
+      this.resolved.length = Math.min(this.resolved.length, RESOLVED_HISTORY);
+    }
+
+    return notifications;
+  }
+
+  /** Whether the rule's cooldown since the alert's last firing notice has passed */
+  private cooledDown(rule: AlertRule, id: string, now: number): boolean {
+    const last = this.lastFiredNotice.get(id);
+    return last === undefined || now - last >= parseDuration(rule.cooldown, DEFAULT_COOLDOWN_MS);
+  }
+
+  private notify(alert: Alert, status: 'firing' | 'resolved', now: number, out: AlertNotification[]): void {
+    const silence = this.findSilence(alert.labels, now);
+    alert.silencedBy = silence?.id;
+    if (silence) return;
+
+    alert.lastNotifiedAt = now;
+    if (status === 'firing') this.lastFiredNotice.set(alert.id, now);
+    out.push({
+      status,
+      severity: status === 'firing' ? alert.severity : 'warning',
+      message: status === 'firing'
+        ? `${alert.severity === 'critical' ? '🔴' : '⚠️'} ${alert.summary}`
+        : `🟢 RESOLVED: ${alert.summary}`,
+      alert: { ...alert },
+    });
+  }
+
+  /**
+   * Pending and firing alerts, plus the most recently resolved
+   */
+  getAlerts(now = Date.now()): { active: Alert[]; resolved: Alert[] } {
+    const withSilence = (alert: Alert): Alert => ({ ...alert, silencedBy: this.findSilence(alert.labels, now)?.id });
+    return {
+      active: [...this.active.values()].map(withSilence).sort((a, b) => a.activeAt - b.activeAt),
+      resolved: [...this.resolved],
+    };
+  }
+
+  /**
+   * Acknowledge an active alert: no more repeat notifications until it resolves
+   */
+  acknowledge(id: string, by: string, comment?: string, now = Date.now()): Alert | null {
+    const alert = this.active.get(id);
+    if (!alert) return null;
+    alert.acknowledged = { by, at: now, comment };
+    return { ...alert };
+  }
+
+  unacknowledge(id: string): Alert | null {
+    const alert = this.active.get(id);
+    if (!alert) return null;
+    delete alert.acknowledged;
+    return { ...alert };
+  }
+
+  // ── Silences ──
+
+  addSilence(
+    input: { matchers: Record<string, string>; startsAt?: number; endsAt?: number; duration?: number | string; createdBy?: string; comment?: string },
+    now = Date.now()
+  ): Silence {
+    const matchers = input.matchers && typeof input.matchers === 'object' ? Object.values(input.matchers) : [];
+    if (matchers.length === 0 || matchers.some(value => typeof value !== 'string')) {
+      throw new Error('A silence needs at least one matcher, e.g. { "alertname": "NodeDown" }');
+    }
+    const startsAt = input.startsAt ?? now;
+    const endsAt = input.endsAt ?? startsAt + parseDuration(input.duration ?? '1h');
+    if (!(endsAt > startsAt)) throw new Error('Silence must end after it starts');
+
+    const silence: Silence = {
+      id: randomUUID(),
+      matchers: input.matchers,
+      startsAt,
+      endsAt,
+      createdBy: input.createdBy,
+      comment: input.comment,
+    };
+    this.silences.set(silence.id, silence);
+    return silence;
+  }
+
+  removeSilence(id: string): boolean {
+    return this.silences.delete(id);
+  }
+
+  /**
+   * Silences that have not ended (expired ones are dropped)
+   */
+  getSilences(now = Date.now()): Silence[] {
+    for (const [id, silence] of this.silences) {
+      if (silence.endsAt <= now) this.silences.delete(id);
+    }
+    return [...this.silences.values()];
+  }
+
+  private findSilence(labels: Record<string, string>, now: number): Silence | undefined {
+    for (const silence of this.silences.values()) {
+      if (silence.startsAt <= now && now < silence.endsAt && matches(labels, silence.matchers)) return silence;
+    }
+    return undefined;
+  }
+}
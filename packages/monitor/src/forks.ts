@@ -0,0 +1,306 @@
+/**
+ * Fork diagnosis
+ *
+ * Compares the snapshots ML0 peers hold. Each run takes the highest ordinal
+ * every reachable peer has reached and hashes each peer's snapshot at that
+ * ordinal. If they all match there is no fork. Otherwise it binary-searches
+ * back (up to FORK_SEARCH_DEPTH ordinals) for the first ordinal where peers
+ * disagree: snapshots chain to their predecessor, so peers that agree at one
+ * ordinal agree at every earlier one.
+ *
+ * Peers are grouped by their hash at the common ordinal. The largest group is
+ * the majority; the others are minority nodes, each with the ordinal where it
+ * left the majority chain, and one of them is suggested for a restart. The
+ * report, with a timeline, is served on /api/forks and feeds the
+ * `layer.forkedNodes` alert metric.
+ *
+ * DL1 peers are not compared: they keep no snapshot chain of their own and
+ * don't serve /snapshots/{ordinal}.
+ *
+ * Hashes are SHA-256 over the snapshot value with sorted keys, not the
+ * metagraph's own snapshot hash, which is fine for telling peers apart.
+ */
+
+import { createHash } from 'crypto';
+import type { NodeHealth } from './types.js';
+
+export type ForkLayer = 'ml0';
+
+/** Layers whose peers serve GET /snapshots/{ordinal} */
+const FORK_LAYERS: readonly ForkLayer[] = ['ml0'];
+
+/** Looks up a peer's snapshot hash at an ordinal; undefined if it has none */
+export interface SnapshotSource {
+  snapshotHash(url: string, ordinal: number): Promise<string | undefined>;
+}
+
+export interface ForkPeer {
+  name: string;
+  url: string;
+  /** Latest ordinal from the last health check; unreachable without one */
+  tipOrdinal?: number;
+  reachable: boolean;
+  /** Index into `groups` (forked layers only) */
+  group?: number;
+}
+
+export interface ForkGroup {
+  /** Snapshot hash at the common ordinal */
+  hash: string;
+  nodes: string[];
+  majority: boolean;
+  /** First ordinal where this minority group differs from the majority */
+  divergedAt?: number;
+  divergedBeforeWindow?: boolean;
+}
+
+export interface ForkTimelineEntry {
+  ordinal?: number;
+  timestamp?: number;
+  event: string;
+  nodes?: string[];
+}
+
+export interface LayerForkReport {
+  layer: ForkLayer;
+  /** `insufficient-peers` when fewer than two peers could be compared */
+  status: 'ok' | 'forked' | 'insufficient-peers';
+  peers: ForkPeer[];
+  /** Highest ordinal every reachable peer has */
+  commonOrdinal?: number;
+  lastAgreedOrdinal?: number;
+  firstDivergentOrdinal?: number;
+  /** Peers already disagreed at the bottom of the search window */
+  divergedBeforeWindow?: boolean;
+  groups: ForkGroup[];
+  /** Nodes off the majority fork (every compared node when there's no majority) */
+  minority: string[];
+  suggestedRestart?: { node: string; reason: string };
+  /** When the monitor first saw this fork */
+  firstDetectedAt?: number;
+  timeline: ForkTimelineEntry[];
+}
+
+export interface ForkReport {
+  checkedAt: number;
+  forked: boolean;
+  layers: LayerForkReport[];
+}
+
+const DEFAULT_SEARCH_DEPTH = 1000;
+
+/** JSON with object keys sorted, so equal values hash equally */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function snapshotDigest(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+/**
+ * Snapshots over HTTP: GET {url}/snapshots/{ordinal}, hashing its `value`
+ */
+export function httpSnapshotSource(timeoutMs: number): SnapshotSource {
+  return {
+    async snapshotHash(url, ordinal) {
+      try {
+        const res = await fetch(`${url}/snapshots/${ordinal}`, { signal: AbortSignal.timeout(timeoutMs) });
+        if (!res.ok) return undefined;
+        const data = await res.json() as { value?: unknown };
+        return data.value === undefined ? undefined : snapshotDigest(data.value);
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
+
+const short = (hash: string) => hash.slice(0, 12);
+
+export class ForkDiagnoser {
+  private source: SnapshotSource;
+  private searchDepth: number;
+  private latest: ForkReport | null = null;
+  /** First detection per layer, kept while the fork starts at the same ordinal */
+  private detected = new Map<ForkLayer, { ordinal: number; at: number }>();
+
+  constructor(source: SnapshotSource, options: { searchDepth?: number } = {}) {
+    this.source = source;
+    this.searchDepth = options.searchDepth ?? DEFAULT_SEARCH_DEPTH;
+  }
+
+  /**
+   * Compare the ML0 peers among the checked nodes
+   */
+  async diagnose(nodes: NodeHealth[], now = Date.now()): Promise<ForkReport> {
+    const layers = await Promise.all(FORK_LAYERS
+      .map(layer => [layer, nodes.filter(n => n.type === layer)] as const)
+      .filter(([, peers]) => peers.length > 0)
+      .map(([layer, peers]) => this.diagnoseLayer(layer, peers, now)));
+
+    this.latest = { checkedAt: now, forked: layers.some(l => l.status === 'forked'), layers };
+    return this.latest;
+  }
+
+  getReport(): ForkReport | null {
+    return this.latest;
+  }
+
+  private async diagnoseLayer(layer: ForkLayer, nodes: NodeHealth[], now: number): Promise<LayerForkReport> {
+    const peers: ForkPeer[] = nodes.map(n => ({
+      name: n.name,
+      url: n.url,
+      tipOrdinal: n.status === 'unhealthy' ? undefined : n.ordinal,
+      reachable: n.status !== 'unhealthy' && n.ordinal !== undefined,
+    }));
+    const reachable = peers.filter(p => p.reachable);
+    const report: LayerForkReport = { layer, status: 'insufficient-peers', peers, groups: [], minority: [], timeline: [] };
+    if (reachable.length < 2) {
+      this.detected.delete(layer);
+      return report;
+    }
+
+    const common = reachable.map(p => p.tipOrdinal as number).reduce((a, b) => Math.min(a, b));
+    report.commonOrdinal = common;
+
+    // Hashes per ordinal, fetched once per run
+    const probed = new Map<number, Map<string, string | undefined>>();
+    const hashesAt = async (ordinal: number) => {
+      let hashes = probed.get(ordinal);
+      if (!hashes) {
+        const results = await Promise.all(reachable.map(p => this.source.snapshotHash(p.url, ordinal)));
+        hashes = new Map(reachable.map((p, i) => [p.name, results[i]]));
+        probed.set(ordinal, hashes);
+      }
+      return hashes;
+    };
+    const agree = async (ordinal: number, among?: string[]) => {
+      const hashes = [...(await hashesAt(ordinal))]
+        .filter(([name, hash]) => hash !== undefined && (!among || among.includes(name)))
+        .map(([, hash]) => hash);
+      return new Set(hashes).size <= 1;
+    };
+
+    const atCommon = [...(await hashesAt(common))].filter((entry): entry is [string, string] => entry[1] !== undefined);
+    if (atCommon.length < 2) {
+      this.detected.delete(layer);
+      return report;
+    }
+
+    if (await agree(common)) {
+      this.detected.delete(layer);
+      return { ...report, status: 'ok', lastAgreedOrdinal: common };
+    }
+
+    // Agreement is monotonic along the chain, so binary-search the window for
+    // the last ordinal the given peers agree on (undefined if they never do)
+    const windowStart = Math.max(0, common - this.searchDepth);
+    const lastAgreed = async (among?: string[]): Promise<number | undefined> => {
+      if (!(await agree(windowStart, among))) return undefined;
+      let low = windowStart;
+      let high = common;
+      while (high - low > 1) {
+        const mid = Math.floor((low + high) / 2);
+        if (await agree(mid, among)) low = mid;
+        else high = mid;
+      }
+      return low;
+    };
+
+    const agreed = await lastAgreed();
+    report.status = 'forked';
+    report.lastAgreedOrdinal = agreed;
+    report.firstDivergentOrdinal = agreed === undefined ? windowStart : agreed + 1;
+    if (agreed === undefined) report.divergedBeforeWindow = true;
+
+    // Group by the chain each peer is on now, largest first
+    const byHash = new Map<string, string[]>();
+    for (const [name, hash] of atCommon) byHash.set(hash, [...(byHash.get(hash) ?? []), name]);
+    const sorted = [...byHash].sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+    const hasMajority = sorted[0][1].length > sorted[1][1].length;
+    report.groups = sorted.map(([hash, names], i) => ({ hash, nodes: names, majority: hasMajority && i === 0 }));
+    report.groups.forEach((group, i) => {
+      for (const name of group.nodes) (peers.find(p => p.name === name) as ForkPeer).group = i;
+    });
+    report.minority = report.groups.filter(g => !g.majority).flatMap(g => g.nodes);
+
+    if (hasMajority) {
+      const majority = report.groups[0];
+      for (const group of report.groups.slice(1)) {
+        const split = await lastAgreed([majority.nodes[0], group.nodes[0]]);
+        group.divergedAt = split === undefined ? windowStart : split + 1;
+        if (split === undefined) group.divergedBeforeWindow = true;
+      }
+
+      // Smallest minority group first, then the node furthest behind
+      const tip = (name: string) => peers.find(p => p.name === name)?.tipOrdinal ?? 0;
+      const pick = report.groups.slice(1)
+        .flatMap(group => group.nodes.map(name => ({ name, group })))
+        .sort((a, b) => a.group.nodes.length - b.group.nodes.length || tip(a.name) - tip(b.name) || a.name.localeCompare(b.name))[0];
+      report.suggestedRestart = {
+        node: pick.name,
+        reason: `${pick.name} left the majority chain at ordinal ${pick.group.divergedBeforeWindow ? 'or before ' : ''}${pick.group.divergedAt}; ` +
+          `at ordinal ${common} it holds ${short(pick.group.hash)} with ${pick.group.nodes.length} of ${atCommon.length} peers, ` +
+          `while ${majority.nodes.join(', ')} hold ${short(majority.hash)}. Restarting it rejoins the majority chain.`,
+      };
+    }
+
+    // A fork older than the window keeps moving the window's start; treat it as the same fork
+    const first = report.firstDivergentOrdinal;
+    const seen = this.detected.get(layer);
+    const firstDetectedAt = seen && (seen.ordinal === first || report.divergedBeforeWindow) ? seen.at : now;
+    this.detected.set(layer, { ordinal: first, at: firstDetectedAt });
+    report.firstDetectedAt = firstDetectedAt;
+
+    report.timeline = this.timeline(report, nodes);
+    return report;
+  }
+
+  private timeline(report: LayerForkReport, nodes: NodeHealth[]): ForkTimelineEntry[] {
+    const entries: ForkTimelineEntry[] = [];
+    const compared = report.groups.flatMap(g => g.nodes);
+
+    if (report.lastAgreedOrdinal !== undefined) {
+      entries.push({ ordinal: report.lastAgreedOrdinal, event: 'Last ordinal all peers agree on', nodes: compared });
+    }
+    if (report.groups[0].majority) {
+      for (const group of report.groups.slice(1)) {
+        entries.push({
+          ordinal: group.divergedAt,
+          event: group.divergedBeforeWindow
+            ? `${group.nodes.join(' + ')} already off the majority chain ${this.searchDepth} ordinals back (${short(group.hash)})`
+            : `${group.nodes.join(' + ')} split from the majority chain (${short(group.hash)})`,
+          nodes: group.nodes,
+        });
+      }
+    } else {
+      const sides = report.groups.map(g => `${g.nodes.join(' + ')} (${short(g.hash)})`).join(' vs ');
+      entries.push({
+        ordinal: report.firstDivergentOrdinal,
+        event: report.divergedBeforeWindow ? `Peers already disagree ${this.searchDepth} ordinals back: ${sides}` : `Peers diverge: ${sides}`,
+        nodes: compared,
+      });
+      entries.push({ ordinal: report.firstDivergentOrdinal, event: 'No majority: forks are the same size', nodes: compared });
+    }
+    for (const peer of report.peers) {
+      if (!peer.reachable) continue;
+      const node = nodes.find(n => n.name === peer.name);
+      entries.push({
+        ordinal: peer.tipOrdinal,
+        timestamp: node?.ordinalLastChanged,
+        event: `${peer.name} reached ordinal ${peer.tipOrdinal}${report.minority.includes(peer.name) ? ' (minority fork)' : ''}`,
+        nodes: [peer.name],
+      });
+    }
+
+    entries.sort((a, b) => (a.ordinal ?? 0) - (b.ordinal ?? 0));
+    entries.push({ timestamp: report.firstDetectedAt, event: 'Fork first detected by the monitor' });
+    return entries;
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Persistent health history and uptime/SLO reporting
+ *
+ * Every poll cycle is written to Redis: one sample per node and service
+ * (status, latency, ordinal) and one for the metagraph (per-layer ordinals and
+ * DL1 lag). Samples live in sorted sets scored by timestamp, so a time range is
+ * a single ZRANGEBYSCORE, and anything older than the retention window is
+ * trimmed as new samples arrive.
+ *
+ * The ordinal each node was last seen at, and when it last changed, is kept
+ * too, so stall detection survives a restart instead of starting over.
+ */
+
+import { Redis } from 'ioredis';
+import type { NodeHealth, ServiceHealth, MetagraphMetrics, ServiceStatus } from './types.js';
+
+export interface HistoryConfig {
+  redisUrl: string;
+  retentionDays: number;
+}
+
+export interface HealthSample {
+  timestamp: number;
+  status: ServiceStatus;
+  latencyMs?: number;
+  ordinal?: number;
+}
+
+export interface MetagraphSample {
+  timestamp: number;
+  gl0Ordinal?: number;
+  ml0Ordinal?: number;
+  dl1Ordinal?: number;
+  dl1Lag?: number;
+}
+
+export interface HistoryTarget {
+  name: string;
+  kind: 'node' | 'service';
+  type: string;
+}
+
+export interface SloSummary extends HistoryTarget {
+  samples: number;
+  /** Share of samples that were healthy or degraded, 0–100 (null without samples) */
+  uptimePercent: number | null;
+  /** Ordinals produced per minute, from the first and last sample with an ordinal */
+  ordinalsPerMinute: number | null;
+  latencyP50Ms: number | null;
+  latencyP95Ms: number | null;
+}
+
+export interface SloWindowReport {
+  window: string;
+  from: number;
+  to: number;
+  targets: SloSummary[];
+  metagraph: {
+    samples: number;
+    dl1LagAvg: number | null;
+    dl1LagMax: number | null;
+  };
+}
+
+/** Parse a window like "15m", "24h" or "7d" into milliseconds */
+export function parseWindow(window: string): number | null {
+  const match = /^(\d+)([mhd])$/.exec(window.trim());
+  if (!match) return null;
+  const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'm' | 'h' | 'd'];
+  return parseInt(match[1], 10) * unit;
+}
+
+/** Nearest-rank percentile of an ascending list */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Uptime, ordinal rate and latency percentiles for one target. Samples are
+ * taken once per poll interval, so the share of samples up is the share of
+ * time up.
+ */
+export function summarize(target: HistoryTarget, samples: HealthSample[]): SloSummary {
+  const up = samples.filter(s => s.status === 'healthy' || s.status === 'degraded').length;
+  const latencies = samples
+    .filter(s => s.status !== 'unhealthy' && s.latencyMs !== undefined)
+    .map(s => s.latencyMs as number)
+    .sort((a, b) => a - b);
+
+  const withOrdinal = samples.filter(s => s.ordinal !== undefined);
+  let ordinalsPerMinute: number | null = null;
+  if (withOrdinal.length >= 2) {
+    const first = withOrdinal[0];
+    const last = withOrdinal[withOrdinal.length - 1];
+    const minutes = (last.timestamp - first.timestamp) / 60_000;
+    if (minutes > 0) {
+      ordinalsPerMinute = Math.round((((last.ordinal as number) - (first.ordinal as number)) / minutes) * 100) / 100;
+    }
+  }
+
+  return {
+    ...target,
+    samples: samples.length,
+    uptimePercent: samples.length ? Math.round((up / samples.length) * 10_000) / 100 : null,
+    ordinalsPerMinute,
+    latencyP50Ms: percentile(latencies, 50),
+    latencyP95Ms: percentile(latencies, 95),
+  };
+}
+
+export class HealthHistory {
+  private redis: Redis;
+  private retentionMs: number;
+
+  constructor(config: HistoryConfig) {
+    this.redis = new Redis(config.redisUrl);
+    this.retentionMs = config.retentionDays * 86_400_000;
+
+    this.redis.on('error', (err: Error) => {
+      console.warn('Redis history error:', err.message);
+    });
+  }
+
+  static keys = {
+    targets: 'monitor:history:targets',
+    ordinals: 'monitor:history:ordinals',
+    metagraph: 'monitor:history:metagraph',
+    target: (name: string) => `monitor:history:target:${name}`,
+  } as const;
+
+  /**
+   * Persist one poll cycle
+   */
+  async record(
+    health: { nodes: NodeHealth[]; services: ServiceHealth[]; metagraph: MetagraphMetrics },
+    timestamp = Date.now()
+  ): Promise<void> {
+    const cutoff = timestamp - this.retentionMs;
+    const pipeline = this.redis.pipeline();
+
+    const targets: [HistoryTarget, HealthSample][] = [
+      ...health.nodes.map((n): [HistoryTarget, HealthSample] => [
+        { name: n.name, kind: 'node', type: n.type },
+        { timestamp, status: n.status, latencyMs: n.latencyMs, ordinal: n.ordinal },
+      ]),
+      ...health.services.map((s): [HistoryTarget, HealthSample] => [
+        { name: s.name, kind: 'service', type: s.type },
+        { timestamp, status: s.status, latencyMs: s.latencyMs },
+      ]),
+    ];
+
+    for (const [target, sample] of targets) {
+      const key = HealthHistory.keys.target(target.name);
+      pipeline.hset(HealthHistory.keys.targets, target.name, JSON.stringify(target));
+      pipeline.zadd(key, timestamp, JSON.stringify(sample));
+      pipeline.zremrangebyscore(key, '-inf', cutoff);
+    }
+
+    for (const node of health.nodes) {
+      if (node.ordinal !== undefined && node.ordinalLastChanged !== undefined) {
+        pipeline.hset(
+          HealthHistory.keys.ordinals,
+          `${node.type}-${node.name}`,
+          JSON.stringify({ ordinal: node.ordinal, timestamp: node.ordinalLastChanged })
+        );
+      }
+    }
+
+    const { gl0Ordinal, ml0Ordinal, dl1Ordinal, dl1Lag } = health.metagraph;
+    const metagraphSample: MetagraphSample = { timestamp, gl0Ordinal, ml0Ordinal, dl1Ordinal, dl1Lag };
+    pipeline.zadd(HealthHistory.keys.metagraph, timestamp, JSON.stringify(metagraphSample));
+    pipeline.zremrangebyscore(HealthHistory.keys.metagraph, '-inf', cutoff);
+
+    try {
+      await pipeline.exec();
+    } catch (err) {
+      console.warn('History record error:', err);
+    }
+  }
+
+  /**
+   * Every node and service that has been recorded
+   */
+  async getTargets(): Promise<HistoryTarget[]> {
+    const raw = await this.redis.hgetall(HealthHistory.keys.targets);
+    return Object.values(raw)
+      .map(value => JSON.parse(value) as HistoryTarget)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Samples for one node or service, oldest first
+   */
+  async getSamples(name: string, from: number, to: number): Promise<HealthSample[]> {
+    const raw = await this.redis.zrangebyscore(HealthHistory.keys.target(name), from, to);
+    return raw.map(value => JSON.parse(value) as HealthSample);
+  }
+
+  /**
+   * Metagraph samples, oldest first
+   */
+  async getMetagraphSamples(from: number, to: number): Promise<MetagraphSample[]> {
+    const raw = await this.redis.zrangebyscore(HealthHistory.keys.metagraph, from, to);
+    return raw.map(value => JSON.parse(value) as MetagraphSample);
+  }
+
+  /**
+   * Last known ordinal per node (keyed `${type}-${name}`, as in the collector)
+   * and when it last changed
+   */
+  async getLastOrdinals(): Promise<Map<string, { ordinal: number; timestamp: number }>> {
+    const raw = await this.redis.hgetall(HealthHistory.keys.ordinals);
+    return new Map(
+      Object.entries(raw).map(([key, value]) => [key, JSON.parse(value) as { ordinal: number; timestamp: number }])
+    );
+  }
+
+  /**
+   * SLO report for each window ending at `to`
+   */
+  async getSlo(windows: string[], to = Date.now()): Promise<SloWindowReport[]> {
+    const targets = await this.getTargets();
+
+    return Promise.all(windows.map(async (window): Promise<SloWindowReport> => {
+      const from = to - (parseWindow(window) ?? 0);
+      const summaries = await Promise.all(
+        targets.map(async target => summarize(target, await this.getSamples(target.name, from, to)))
+      );
+      const lags = (await this.getMetagraphSamples(from, to))
+        .filter(s => s.dl1Lag !== undefined)
+        .map(s => s.dl1Lag as number);
+
+      return {
+        window,
+        from,
+        to,
+        targets: summaries,
+        metagraph: {
+          samples: lags.length,
+          dl1LagAvg: lags.length ? Math.round((lags.reduce((a, b) => a + b, 0) / lags.length) * 100) / 100 : null,
+          dl1LagMax: lags.length ? lags.reduce((a, b) => Math.max(a, b)) : null,
+        },
+      };
+    }));
+  }
+
+  /**
+   * Health check for the history connection
+   */
+  async isHealthy(): Promise<boolean> {
+    try {
+      return (await this.redis.ping()) === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -12,79 +12,16 @@ import crypto from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import type { StackHealth, ServiceStatus, MonitorConfig } from './types.js';
-import { HealthCollector } from './collector.js';
+import { HealthCollector, seedOrdinalHistory } from './collector.js';
 import { MonitorCache } from './cache.js';
+import { HealthHistory, parseWindow } from './history.js';
+import { AlertEngine, loadAlertRules, type AlertNotification } from './alerts.js';
+import { loadNotifiers, toAlertEvent, type AlertEvent } from './notifiers.js';
+import { ForkDiagnoser, httpSnapshotSource } from './forks.js';
+import { exportHealth, observePoll, observeAlert } from './metrics.js';
+import { metrics, METRICS_CONTENT_TYPE } from '@ottochain/shared/metrics';
 import { CacheRefresher } from './refresher.js';
 
-// =============================================================================
-// Alerting (Telegram + Webhook)
-// =============================================================================
-
-async function sendTelegramAlert(message: string, severity: 'warning' | 'critical'): Promise<void> {
-  const botToken = process.env.TELEGRAM_BOT_TOKEN;
-  const chatId = process.env.TELEGRAM_CHAT_ID;
-  
-  if (!botToken || !chatId) {
-    return; // Telegram not configured
-  }
-  
-  try {
-    const emoji = severity === 'critical' ? '🚨' : '⚠️';
-    const text = `${emoji} *OttoChain Monitor*\n\n${message}`;
-    
-    await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text,
-        parse_mode: 'Markdown',
-      }),
-    });
-  } catch (err) {
-    console.error('Failed to send Telegram alert:', err);
-  }
-}
-
-async function sendWebhookAlert(message: string, severity: 'warning' | 'critical'): Promise<void> {
-  const webhookUrl = process.env.ALERT_WEBHOOK_URL;
-  const webhookSecret = process.env.ALERT_WEBHOOK_SECRET;
-  
-  if (!webhookUrl) {
-    return; // Webhook not configured
-  }
-  
-  try {
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (webhookSecret) {
-      headers['Authorization'] = `Bearer ${webhookSecret}`;
-    }
-    
-    await fetch(webhookUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        source: 'ottochain-monitor',
-        severity,
-        message,
-        timestamp: new Date().toISOString(),
-      }),
-    });
-  } catch (err) {
-    console.error('Failed to send webhook alert:', err);
-  }
-}
-
-async function sendAlert(message: string, severity: 'warning' | 'critical'): Promise<void> {
-  console.log(`[ALERT ${severity.toUpperCase()}] ${message}`);
-  
-  // Send to all configured channels in parallel
-  await Promise.all([
-    sendTelegramAlert(message, severity),
-    sendWebhookAlert(message, severity),
-  ]);
-}
-
 // =============================================================================
 // Authentication
 // =============================================================================
@@ -162,6 +99,19 @@ function loadConfig(): MonitorConfig {
     healthTTL: parseInt(process.env.CACHE_HEALTH_TTL ?? '10', 10),
     statusTTL: parseInt(process.env.CACHE_STATUS_TTL ?? '30', 10),
     metagraphTTL: parseInt(process.env.CACHE_METAGRAPH_TTL ?? '5', 10),
+    
+    // History
+    historyEnabled: process.env.HISTORY_ENABLED !== 'false', // enabled by default
+    historyRetentionDays: parseInt(process.env.HISTORY_RETENTION_DAYS ?? '7', 10),
+    sloWindows: (process.env.SLO_WINDOWS ?? '1h,24h,7d').split(',').filter(Boolean),
+    
+    // Alerting
+    alertRulesFile: process.env.ALERT_RULES_FILE,
+    notifiersFile: process.env.NOTIFIERS_FILE,
+    
+    // Fork diagnosis
+    forkDiagnosisEnabled: process.env.FORK_DIAGNOSIS_ENABLED !== 'false', // enabled by default
+    forkSearchDepth: parseInt(process.env.FORK_SEARCH_DEPTH ?? '1000', 10),
   };
 }
 
@@ -185,7 +135,20 @@ async function main(): Promise<void> {
   const collector = new HealthCollector(config);
   
   // Set up alerting
-  collector.setAlertCallback(sendAlert);
+  const alertEngine = new AlertEngine(loadAlertRules(config.alertRulesFile));
+  collector.setAlertEngine(alertEngine);
+  const notifiers = loadNotifiers(config.notifiersFile);
+  collector.setAlertCallback((notification: AlertNotification) => {
+    console.log(`[ALERT ${notification.severity.toUpperCase()}] ${notification.message}`);
+    observeAlert(notification.severity);
+    void notifiers.dispatch(toAlertEvent(notification));
+  });
+  
+  // Compare ML0 peer snapshots each poll
+  const forkDiagnoser = config.forkDiagnosisEnabled
+    ? new ForkDiagnoser(httpSnapshotSource(config.timeoutMs), { searchDepth: config.forkSearchDepth })
+    : null;
+  if (forkDiagnoser) collector.setForkDiagnoser(forkDiagnoser);
   
   // Initialize cache if enabled
   let cache: MonitorCache | null = null;
@@ -218,6 +181,28 @@ async function main(): Promise<void> {
     console.log('ℹ️  Redis cache disabled');
   }
   
+  // Initialize health history if enabled
+  let history: HealthHistory | null = null;
+  
+  if (config.historyEnabled && config.redisUrl) {
+    history = new HealthHistory({
+      redisUrl: config.redisUrl,
+      retentionDays: config.historyRetentionDays,
+    });
+    
+    if (await history.isHealthy()) {
+      try {
+        seedOrdinalHistory(await history.getLastOrdinals());
+      } catch (err) {
+        console.warn('⚠️  Could not restore ordinal history:', err);
+      }
+      console.log(`✅ Health history enabled (${config.historyRetentionDays}d retention)`);
+    } else {
+      console.warn('⚠️  Redis unhealthy, health history disabled');
+      history = null;
+    }
+  }
+  
   console.log('🔍 OttoChain Stack Monitor');
   console.log('══════════════════════════════════════════════════════════════');
   console.log(`   GL0 nodes: ${config.gl0Urls.length}`);
@@ -235,13 +220,12 @@ async function main(): Promise<void> {
     }
   }
   // Alerting config
-  const hasWebhook = !!process.env.ALERT_WEBHOOK_URL;
-  const hasTelegram = !!process.env.TELEGRAM_BOT_TOKEN && !!process.env.TELEGRAM_CHAT_ID;
-  if (hasWebhook || hasTelegram) {
+  const channels = notifiers.getChannels();
+  if (channels.length > 0) {
     console.log('──────────────────────────────────────────────────────────────');
-    console.log('🚨 Alerting configured:');
-    if (hasWebhook) console.log('   ✓ Webhook: ' + process.env.ALERT_WEBHOOK_URL?.slice(0, 50) + '...');
-    if (hasTelegram) console.log('   ✓ Telegram');
+    console.log(`🚨 Alerting configured (${alertEngine.getRules().length} rules${config.alertRulesFile ? ` from ${config.alertRulesFile}` : ''}):`);
+    for (const channel of channels) console.log(`   ✓ ${channel.name} (${channel.type})`);
+    if (notifiers.getRoutes().length > 0) console.log(`   ${notifiers.getRoutes().length} routes from ${config.notifiersFile}`);
   }
   console.log('══════════════════════════════════════════════════════════════');
   
@@ -421,6 +405,172 @@ async function main(): Promise<void> {
     }
   });
   
+  // Recorded samples for one node or service: /api/history?node=DL1-0&from=...&to=...
+  // (from/to as epoch ms or ISO dates; defaults to the last hour)
+  app.get('/api/history', async (req, res) => {
+    if (!history) {
+      return res.status(503).json({ error: 'Health history not enabled' });
+    }
+    
+    const parseTime = (value: unknown): number | undefined => {
+      if (typeof value !== 'string' || value === '') return undefined;
+      const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+      return Number.isNaN(time) ? NaN : time;
+    };
+    const to = parseTime(req.query.to) ?? Date.now();
+    const from = parseTime(req.query.from) ?? to - 60 * 60 * 1000;
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return res.status(400).json({ error: 'Invalid from/to. Use epoch milliseconds or an ISO date' });
+    }
+    
+    try {
+      const node = typeof req.query.node === 'string' ? req.query.node : undefined;
+      if (!node) {
+        // Without a node, list what can be queried plus the metagraph series
+        return res.json({
+          from,
+          to,
+          targets: await history.getTargets(),
+          metagraph: await history.getMetagraphSamples(from, to),
+        });
+      }
+      res.json({ node, from, to, samples: await history.getSamples(node, from, to) });
+    } catch (err) {
+      console.error('History endpoint error:', err);
+      res.status(500).json({ error: 'Failed to read health history' });
+    }
+  });
+  
+  // Uptime, ordinal rate and latency percentiles: /api/slo?windows=1h,24h,7d
+  app.get('/api/slo', async (req, res) => {
+    if (!history) {
+      return res.status(503).json({ error: 'Health history not enabled' });
+    }
+    
+    const windows = typeof req.query.windows === 'string'
+      ? req.query.windows.split(',').filter(Boolean)
+      : config.sloWindows;
+    const invalid = windows.filter(w => parseWindow(w) === null);
+    if (windows.length === 0 || invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid windows: ${invalid.join(', ')}. Use e.g. 15m, 24h, 7d` });
+    }
+    
+    try {
+      res.json({ timestamp: Date.now(), windows: await history.getSlo(windows) });
+    } catch (err) {
+      console.error('SLO endpoint error:', err);
+      res.status(500).json({ error: 'Failed to compute SLOs' });
+    }
+  });
+  
+  // Prometheus metrics for nodes, services and the metagraph (from the latest poll)
+  metrics.onCollect(() => exportHealth(collector.getHealth()));
+  app.get('/metrics', async (_, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(await metrics.render());
+  });
+  
+  // Alert rules engine: active/resolved alerts, acknowledgements and silences
+  app.get('/api/alerts', (_, res) => {
+    res.json(alertEngine.getAlerts());
+  });
+  
+  app.get('/api/alerts/rules', (_, res) => {
+    res.json(alertEngine.getRules());
+  });
+  
+  app.post('/api/alerts/:id/ack', (req, res) => {
+    const { by, comment } = (req.body ?? {}) as { by?: string; comment?: string };
+    const alert = alertEngine.acknowledge(req.params.id, by ?? (auth.enabled ? auth.username : 'api'), comment);
+    if (!alert) {
+      return res.status(404).json({ error: 'No active alert with that id' });
+    }
+    res.json(alert);
+  });
+  
+  app.delete('/api/alerts/:id/ack', (req, res) => {
+    const alert = alertEngine.unacknowledge(req.params.id);
+    if (!alert) {
+      return res.status(404).json({ error: 'No active alert with that id' });
+    }
+    res.json(alert);
+  });
+  
+  app.get('/api/silences', (_, res) => {
+    res.json(alertEngine.getSilences());
+  });
+  
+  // Body: { matchers: { alertname: 'NodeDown', node: 'DL1-2' }, duration: '2h', comment?, createdBy? }
+  // (or startsAt/endsAt as epoch ms instead of duration)
+  app.post('/api/silences', (req, res) => {
+    try {
+      res.status(201).json(alertEngine.addSilence(req.body ?? {}));
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  
+  app.delete('/api/silences/:id', (req, res) => {
+    if (!alertEngine.removeSilence(req.params.id)) {
+      return res.status(404).json({ error: 'No silence with that id' });
+    }
+    res.status(204).end();
+  });
+
+  // Fork report: first divergent ordinal, minority nodes, timeline and a node to restart
+  // ?refresh=true re-runs the diagnosis instead of returning the last poll's
+  app.get('/api/forks', async (req, res) => {
+    if (!forkDiagnoser) {
+      return res.status(404).json({ error: 'Fork diagnosis disabled' });
+    }
+    try {
+      const report = req.query.refresh === 'true'
+        ? await forkDiagnoser.diagnose(collector.getHealth().nodes)
+        : forkDiagnoser.getReport();
+      if (!report) {
+        return res.status(503).json({ error: 'No fork diagnosis yet' });
+      }
+      res.json(report);
+    } catch (err) {
+      console.error('Forks endpoint error:', err);
+      res.status(500).json({ error: 'Failed to diagnose forks' });
+    }
+  });
+
+  // Notification channels and routes (no secrets)
+  app.get('/api/notifiers', (_, res) => {
+    res.json({ channels: notifiers.getChannels(), routes: notifiers.getRoutes() });
+  });
+
+  // Send a test notification to one channel
+  // Body: { severity?: 'warning' | 'critical', message? }
+  app.post('/api/notifiers/:name/test', async (req, res) => {
+    const channel = notifiers.getChannel(req.params.name);
+    if (!channel) {
+      return res.status(404).json({ error: 'No channel with that name' });
+    }
+    const { severity = 'warning', message = 'Test notification from OttoChain Monitor' } = req.body ?? {};
+    if (severity !== 'warning' && severity !== 'critical') {
+      return res.status(400).json({ error: 'severity must be warning or critical' });
+    }
+    const event: AlertEvent = {
+      id: 'test',
+      alertname: 'Test',
+      severity,
+      status: 'firing',
+      message: String(message),
+      summary: String(message),
+      value: 0,
+      labels: {},
+      timestamp: new Date().toISOString(),
+    };
+    try {
+      await channel.send(event);
+      res.json({ channel: channel.name, ok: true });
+    } catch (err) {
+      res.status(502).json({ channel: channel.name, ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
   // Aggregate version info from all services and nodes
   app.get('/api/versions', async (_, res) => {
     const health = collector.getHealth();
@@ -587,8 +737,13 @@ async function main(): Promise<void> {
   
   // Start polling
   async function poll(): Promise<void> {
+    const startedAt = Date.now();
     await collector.collect();
     const health = collector.getHealth();
+    observePoll(health, Date.now() - startedAt);
+    
+    // Persist this cycle (one sample per poll, so SLOs weigh every interval equally)
+    await history?.record(health);
     
     // Log summary
     const healthyNodes = health.nodes.filter(n => n.status === 'healthy').length;
@@ -625,6 +780,9 @@ async function main(): Promise<void> {
     if (cache) {
       console.log(`💾 Cache:      Redis (${config.healthTTL}s/${config.statusTTL}s/${config.metagraphTTL}s TTLs)`);
     }
+    if (history) {
+      console.log(`📈 History:    http://localhost:${config.port}/api/slo`);
+    }
   });
   
   // Cleanup on exit
@@ -632,6 +790,7 @@ async function main(): Promise<void> {
     console.log('\n🛑 Shutting down...');
     refresher?.stop();
     await cache?.close();
+    await history?.close();
     process.exit(0);
   });
   
@@ -639,6 +798,7 @@ async function main(): Promise<void> {
     console.log('\n🛑 Shutting down...');
     refresher?.stop();
     await cache?.close();
+    await history?.close();
     process.exit(0);
   });
 }
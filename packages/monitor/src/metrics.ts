@@ -0,0 +1,164 @@
+/**
+ * Prometheus exporter
+ *
+ * Serves everything the collector gathers on GET /metrics: per-node and
+ * per-service gauges (labelled by node/service name and type), metagraph
+ * ordinals and sync lag, and traffic generator status. Gauges are rebuilt from
+ * the latest health on every scrape, so nodes that leave the config leave the
+ * output too. Counters track poll cycles, failed checks and alerts sent.
+ */
+
+import { metrics } from '@ottochain/shared/metrics';
+import type { TrafficGenStatus } from './collector.js';
+import type { NodeHealth, ServiceHealth, MetagraphMetrics, ServiceStatus } from './types.js';
+
+const STATUSES: ServiceStatus[] = ['healthy', 'degraded', 'unhealthy', 'unknown'];
+
+// ── Nodes ──
+
+const nodeUp = metrics.gauge('monitor_node_up', '1 unless the node is unhealthy', ['node', 'type']);
+const nodeStatus = metrics.gauge('monitor_node_status', '1 for the node\'s current status', ['node', 'type', 'status']);
+const nodeInfo = metrics.gauge('monitor_node_info', 'Node URL, state, version and peer ID (always 1)', ['node', 'type', 'url', 'state', 'version', 'peer_id']);
+const nodeLatency = metrics.gauge('monitor_node_latency_seconds', 'Response time of the last node check', ['node', 'type']);
+const nodeOrdinal = metrics.gauge('monitor_node_ordinal', 'Latest snapshot ordinal the node reports', ['node', 'type']);
+const nodeOrdinalChanged = metrics.gauge(
+  'monitor_node_ordinal_last_changed_timestamp_seconds', 'When the node\'s ordinal last changed', ['node', 'type']
+);
+const nodeProgressing = metrics.gauge('monitor_node_progressing', '0 if the node\'s ordinal has stalled', ['node', 'type']);
+const nodeClusterSize = metrics.gauge('monitor_node_cluster_size', 'Peers in the node\'s cluster view', ['node', 'type']);
+const nodeLastCheck = metrics.gauge('monitor_node_last_check_timestamp_seconds', 'When the node was last checked', ['node', 'type']);
+const nodeCheckFailures = metrics.counter(
+  'monitor_node_check_failures_total', 'Poll cycles in which the node was unhealthy', ['node', 'type']
+);
+
+// ── Services ──
+
+const serviceUp = metrics.gauge('monitor_service_up', '1 unless the service is unhealthy', ['service', 'type']);
+const serviceStatus = metrics.gauge('monitor_service_status', '1 for the service\'s current status', ['service', 'type', 'status']);
+const serviceInfo = metrics.gauge('monitor_service_info', 'Service URL and version (always 1)', ['service', 'type', 'url', 'version']);
+const serviceLatency = metrics.gauge('monitor_service_latency_seconds', 'Response time of the last service check', ['service', 'type']);
+const serviceLastCheck = metrics.gauge(
+  'monitor_service_last_check_timestamp_seconds', 'When the service was last checked', ['service', 'type']
+);
+const serviceCheckFailures = metrics.counter(
+  'monitor_service_check_failures_total', 'Poll cycles in which the service was unhealthy', ['service', 'type']
+);
+
+// ── Metagraph ──
+
+const snapshotOrdinal = metrics.gauge('monitor_metagraph_snapshot_ordinal', 'Latest ML0 snapshot ordinal');
+const layerOrdinal = metrics.gauge('monitor_metagraph_layer_ordinal', 'Latest ordinal per layer', ['layer']);
+const dl1Lag = metrics.gauge('monitor_metagraph_dl1_lag', 'ML0 ordinal minus DL1 ordinal');
+const fiberCount = metrics.gauge('monitor_metagraph_fiber_count', 'State machines in the ML0 checkpoint');
+const lastSnapshot = metrics.gauge('monitor_metagraph_last_snapshot_timestamp_seconds', 'When the latest snapshot was produced');
+const currencyAvailable = metrics.gauge('monitor_metagraph_currency_snapshot_available', '1 if ML0 serves currency snapshots');
+const genesisBalance = metrics.gauge('monitor_metagraph_genesis_wallet_balance', 'Genesis wallet balance');
+const metagraphHealthy = metrics.gauge('monitor_metagraph_healthy', '1 if ordinals, currency snapshots and DL1 sync look healthy');
+
+// ── Traffic generator ──
+
+const trafficEnabled = metrics.gauge('monitor_traffic_generator_enabled', '1 if the traffic generator is running');
+const trafficMode = metrics.gauge('monitor_traffic_generator_mode', '1 for the traffic generator\'s current mode', ['mode']);
+const trafficTps = metrics.gauge('monitor_traffic_generator_tps', 'Transactions per second', ['kind']);
+const trafficPopulation = metrics.gauge('monitor_traffic_generator_population', 'Simulated agents', ['kind']);
+const trafficGeneration = metrics.gauge('monitor_traffic_generator_generation', 'Current simulation generation');
+const trafficTransactions = metrics.gauge('monitor_traffic_generator_transactions', 'Transactions sent since the generator started');
+const trafficSuccess = metrics.gauge('monitor_traffic_generator_success_ratio', 'Share of transactions that succeeded');
+const trafficUptime = metrics.gauge('monitor_traffic_generator_uptime_seconds', 'Time since the generator started');
+
+// ── Monitor ──
+
+const polls = metrics.counter('monitor_polls_total', 'Poll cycles completed');
+const pollDuration = metrics.histogram(
+  'monitor_poll_duration_seconds', 'Time to check every node and service', [],
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+const alertsSent = metrics.counter('monitor_alerts_total', 'Alert notifications sent', ['severity']);
+
+const seconds = (ms: number) => ms / 1000;
+
+const ALL_GAUGES = [
+  nodeUp, nodeStatus, nodeInfo, nodeLatency, nodeOrdinal, nodeOrdinalChanged, nodeProgressing, nodeClusterSize, nodeLastCheck,
+  serviceUp, serviceStatus, serviceInfo, serviceLatency, serviceLastCheck,
+  snapshotOrdinal, layerOrdinal, dl1Lag, fiberCount, lastSnapshot, currencyAvailable, genesisBalance, metagraphHealthy,
+  trafficEnabled, trafficMode, trafficTps, trafficPopulation, trafficGeneration, trafficTransactions, trafficSuccess, trafficUptime,
+];
+
+/**
+ * Rebuild every gauge from the latest collected health
+ */
+export function exportHealth(health: { nodes: NodeHealth[]; services: ServiceHealth[]; metagraph: MetagraphMetrics }): void {
+  for (const gauge of ALL_GAUGES) gauge.reset();
+
+  for (const node of health.nodes) {
+    const labels = { node: node.name, type: node.type };
+    nodeUp.set(labels, node.status === 'unhealthy' ? 0 : 1);
+    for (const status of STATUSES) nodeStatus.set({ ...labels, status }, node.status === status ? 1 : 0);
+    nodeInfo.set({ ...labels, url: node.url, state: node.state ?? '', version: node.version ?? '', peer_id: node.peerId ?? '' }, 1);
+    nodeLastCheck.set(labels, seconds(node.lastCheck));
+    if (node.latencyMs !== undefined) nodeLatency.set(labels, seconds(node.latencyMs));
+    if (node.ordinal !== undefined) nodeOrdinal.set(labels, node.ordinal);
+    if (node.ordinalLastChanged !== undefined) nodeOrdinalChanged.set(labels, seconds(node.ordinalLastChanged));
+    if (node.isProgressing !== undefined) nodeProgressing.set(labels, node.isProgressing ? 1 : 0);
+    if (node.clusterSize !== undefined) nodeClusterSize.set(labels, node.clusterSize);
+  }
+
+  for (const service of health.services) {
+    const labels = { service: service.name, type: service.type };
+    serviceUp.set(labels, service.status === 'unhealthy' ? 0 : 1);
+    for (const status of STATUSES) serviceStatus.set({ ...labels, status }, service.status === status ? 1 : 0);
+    const version = typeof service.metadata?.version === 'string' ? service.metadata.version : '';
+    serviceInfo.set({ ...labels, url: service.url ?? '', version }, 1);
+    serviceLastCheck.set(labels, seconds(service.lastCheck));
+    if (service.latencyMs !== undefined) serviceLatency.set(labels, seconds(service.latencyMs));
+
+    const traffic = (service as ServiceHealth & { trafficGen?: TrafficGenStatus }).trafficGen;
+    if (traffic) {
+      trafficEnabled.set({}, traffic.enabled ? 1 : 0);
+      trafficMode.set({ mode: traffic.mode }, 1);
+      trafficTps.set({ kind: 'target' }, traffic.targetTps);
+      trafficTps.set({ kind: 'current' }, traffic.currentTps);
+      trafficPopulation.set({ kind: 'target' }, traffic.targetPopulation);
+      trafficPopulation.set({ kind: 'current' }, traffic.currentPopulation);
+      trafficGeneration.set({}, traffic.generation);
+      trafficTransactions.set({}, traffic.totalTransactions);
+      trafficSuccess.set({}, traffic.successRate);
+      trafficUptime.set({}, seconds(traffic.uptime));
+    }
+  }
+
+  const m = health.metagraph;
+  if (m.snapshotOrdinal !== undefined) snapshotOrdinal.set({}, m.snapshotOrdinal);
+  if (m.gl0Ordinal !== undefined) layerOrdinal.set({ layer: 'gl0' }, m.gl0Ordinal);
+  if (m.ml0Ordinal !== undefined) layerOrdinal.set({ layer: 'ml0' }, m.ml0Ordinal);
+  if (m.dl1Ordinal !== undefined) layerOrdinal.set({ layer: 'dl1' }, m.dl1Ordinal);
+  if (m.dl1Lag !== undefined) dl1Lag.set({}, m.dl1Lag);
+  if (m.fiberCount !== undefined) fiberCount.set({}, m.fiberCount);
+  if (m.lastSnapshotTime !== undefined) lastSnapshot.set({}, seconds(m.lastSnapshotTime));
+  if (m.currencySnapshotAvailable !== undefined) currencyAvailable.set({}, m.currencySnapshotAvailable ? 1 : 0);
+  if (m.genesisWalletBalance !== undefined && Number.isFinite(Number(m.genesisWalletBalance))) {
+    genesisBalance.set({}, Number(m.genesisWalletBalance));
+  }
+  if (m.isHealthy !== undefined) metagraphHealthy.set({}, m.isHealthy ? 1 : 0);
+}
+
+/**
+ * Count one poll cycle and the checks that failed in it
+ */
+export function observePoll(
+  health: { nodes: NodeHealth[]; services: ServiceHealth[] },
+  durationMs: number
+): void {
+  polls.inc();
+  pollDuration.observe({}, seconds(durationMs));
+  for (const node of health.nodes) {
+    if (node.status === 'unhealthy') nodeCheckFailures.inc({ node: node.name, type: node.type });
+  }
+  for (const service of health.services) {
+    if (service.status === 'unhealthy') serviceCheckFailures.inc({ service: service.name, type: service.type });
+  }
+}
+
+export function observeAlert(severity: 'warning' | 'critical'): void {
+  alertsSent.inc({ severity });
+}
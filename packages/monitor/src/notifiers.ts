@@ -0,0 +1,636 @@
+/**
+ * Alert notification channels
+ *
+ * Notifications from the alert rules engine go out through channels: generic
+ * webhook, Slack-compatible webhook, Discord webhook, Telegram, email over
+ * SMTP, and PagerDuty-style events. Routes pick the channels for each alert by
+ * severity and alert name; each channel renders the alert with its own
+ * template.
+ *
+ * Channels and routes come from a JSON file (NOTIFIERS_FILE). String values
+ * may reference environment variables as ${NAME}, so secrets can stay out of
+ * the file:
+ *
+ *   {
+ *     "channels": [
+ *       { "name": "ops", "type": "slack", "url": "${SLACK_WEBHOOK_URL}" },
+ *       { "name": "pager", "type": "pagerduty", "routingKey": "${PD_ROUTING_KEY}" }
+ *     ],
+ *     "routes": [
+ *       { "severity": ["critical"], "channels": ["pager", "ops"] },
+ *       { "alerts": ["Dl1*"], "channels": ["ops"] }
+ *     ]
+ *   }
+ *
+ * Routes are tried in order and the first match decides, unless it sets
+ * `"continue": true`; a route without conditions matches everything. With no
+ * routes, every channel gets every alert. Without a file, the Telegram bot and
+ * webhook from TELEGRAM_BOT_TOKEN/TELEGRAM_CHAT_ID and ALERT_WEBHOOK_URL are
+ * used, as before.
+ *
+ * Templates substitute {message}, {summary}, {alertname}, {severity},
+ * {status}, {id}, {value}, {timestamp} and any alert label.
+ */
+
+import { readFileSync } from 'fs';
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import type { AlertNotification, AlertSeverity } from './alerts.js';
+
+export interface AlertEvent {
+  id: string;
+  alertname: string;
+  severity: AlertSeverity;
+  status: 'firing' | 'resolved';
+  /** Full notification text, e.g. "🔴 Node DOWN: DL1-1 (...)" */
+  message: string;
+  /** The rule's summary without decoration */
+  summary: string;
+  value: number;
+  labels: Record<string, string>;
+  timestamp: string;
+}
+
+export interface Notifier {
+  readonly name: string;
+  readonly type: string;
+  send(event: AlertEvent): Promise<void>;
+}
+
+export function toAlertEvent(notification: AlertNotification, now = Date.now()): AlertEvent {
+  const { alert } = notification;
+  return {
+    id: alert.id,
+    alertname: alert.rule,
+    // The alert's own severity: resolve notifications are sent as 'warning'
+    severity: alert.severity,
+    status: notification.status,
+    message: notification.message,
+    summary: alert.summary,
+    value: alert.value,
+    labels: alert.labels,
+    timestamp: new Date(now).toISOString(),
+  };
+}
+
+/** Fill {placeholders} from the event and its labels; unknown ones are kept */
+export function renderTemplate(template: string, event: AlertEvent): string {
+  const values: Record<string, string> = {
+    ...event.labels,
+    id: event.id,
+    alertname: event.alertname,
+    severity: event.severity,
+    status: event.status,
+    message: event.message,
+    summary: event.summary,
+    value: String(event.value),
+    timestamp: event.timestamp,
+  };
+  return template.replace(/\{(\w+)\}/g, (whole, key: string) => values[key] ?? whole);
+}
+
+const DEFAULT_TEMPLATE = '{message}';
+const HTTP_TIMEOUT_MS = 10_000;
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status}: ${(await res.text().catch(() => '')).slice(0, 200)}`);
+  }
+}
+
+// ── Channels ────────────────────────────────────────────────────────────────
+
+interface ChannelBase {
+  name: string;
+  /** Message template (default "{message}") */
+  template?: string;
+}
+
+export interface WebhookChannelConfig extends ChannelBase {
+  type: 'webhook';
+  url: string;
+  /** Sent as `Authorization: Bearer <secret>` */
+  secret?: string;
+}
+
+/**
+ * Generic JSON webhook: { source, severity, status, alertname, message, labels, timestamp }
+ */
+export class WebhookNotifier implements Notifier {
+  readonly type = 'webhook';
+  readonly name: string;
+  private config: WebhookChannelConfig;
+
+  constructor(config: WebhookChannelConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async send(event: AlertEvent): Promise<void> {
+    await postJson(
+      this.config.url,
+      {
+        source: 'ottochain-monitor',
+        id: event.id,
+        alertname: event.alertname,
+        severity: event.severity,
+        status: event.status,
+        message: renderTemplate(this.config.template ?? DEFAULT_TEMPLATE, event),
+        labels: event.labels,
+        timestamp: event.timestamp,
+      },
+      this.config.secret ? { Authorization: `Bearer ${this.config.secret}` } : {}
+    );
+  }
+}
+
+export interface SlackChannelConfig extends ChannelBase {
+  type: 'slack';
+  url: string;
+  channel?: string;
+  username?: string;
+}
+
+/**
+ * Slack incoming webhook (and compatible: Mattermost, Rocket.Chat)
+ */
+export class SlackNotifier implements Notifier {
+  readonly type = 'slack';
+  readonly name: string;
+  private config: SlackChannelConfig;
+
+  constructor(config: SlackChannelConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async send(event: AlertEvent): Promise<void> {
+    await postJson(this.config.url, {
+      text: renderTemplate(this.config.template ?? DEFAULT_TEMPLATE, event),
+      ...(this.config.channel ? { channel: this.config.channel } : {}),
+      username: this.config.username ?? 'OttoChain Monitor',
+    });
+  }
+}
+
+export interface DiscordChannelConfig extends ChannelBase {
+  type: 'discord';
+  url: string;
+  username?: string;
+}
+
+/** Discord rejects messages longer than this */
+const DISCORD_MAX_CONTENT = 2000;
+
+export class DiscordNotifier implements Notifier {
+  readonly type = 'discord';
+  readonly name: string;
+  private config: DiscordChannelConfig;
+
+  constructor(config: DiscordChannelConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async send(event: AlertEvent): Promise<void> {
+    const content = renderTemplate(this.config.template ?? DEFAULT_TEMPLATE, event);
+    await postJson(this.config.url, {
+      content: content.length > DISCORD_MAX_CONTENT ? `${content.slice(0, DISCORD_MAX_CONTENT - 1)}…` : content,
+      username: this.config.username ?? 'OttoChain Monitor',
+    });
+  }
+}
+
+export interface TelegramChannelConfig extends ChannelBase {
+  type: 'telegram';
+  botToken: string;
+  chatId: string;
+  /** Bot API base URL (default https://api.telegram.org) */
+  apiUrl?: string;
+}
+
+export class TelegramNotifier implements Notifier {
+  readonly type = 'telegram';
+  readonly name: string;
+  private config: TelegramChannelConfig;
+
+  constructor(config: TelegramChannelConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async send(event: AlertEvent): Promise<void> {
+    const emoji = event.severity === 'critical' ? '🚨' : '⚠️';
+    const text = renderTemplate(this.config.template ?? `${emoji} *OttoChain Monitor*\n\n{message}`, event);
+    await postJson(`${this.config.apiUrl ?? 'https://api.telegram.org'}/bot${this.config.botToken}/sendMessage`, {
+      chat_id: this.config.chatId,
+      text,
+      parse_mode: 'Markdown',
+    });
+  }
+}
+
+export interface PagerDutyChannelConfig extends ChannelBase {
+  type: 'pagerduty';
+  routingKey: string;
+  /** Events API endpoint (default PagerDuty's v2 enqueue URL) */
+  url?: string;
+  source?: string;
+}
+
+/**
+ * PagerDuty Events API v2 (and compatible): firing alerts trigger an incident,
+ * resolved alerts resolve it, matched by the alert id as dedup key
+ */
+export class PagerDutyNotifier implements Notifier {
+  readonly type = 'pagerduty';
+  readonly name: string;
+  private config: PagerDutyChannelConfig;
+
+  constructor(config: PagerDutyChannelConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async send(event: AlertEvent): Promise<void> {
+    await postJson(this.config.url ?? 'https://events.pagerduty.com/v2/enqueue', {
+      routing_key: this.config.routingKey,
+      event_action: event.status === 'firing' ? 'trigger' : 'resolve',
+      dedup_key: event.id,
+      payload: {
+        summary: renderTemplate(this.config.template ?? '{summary}', event),
+        severity: event.severity,
+        source: this.config.source ?? 'ottochain-monitor',
+        timestamp: event.timestamp,
+        custom_details: { ...event.labels, value: event.value },
+      },
+    });
+  }
+}
+
+export interface EmailChannelConfig extends ChannelBase {
+  type: 'email';
+  host: string;
+  /** Default 465 with `secure`, else 587 */
+  port?: number;
+  /** Implicit TLS (SMTPS); otherwise STARTTLS is used when the server offers it */
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string | string[];
+  /** Subject template (default "[{severity}] {alertname} {status}") */
+  subject?: string;
+  /** Accept self-signed certificates */
+  insecureTls?: boolean;
+}
+
+/**
+ * Email over SMTP, spoken directly (EHLO, STARTTLS, AUTH PLAIN, one message per
+ * connection)
+ */
+export class EmailNotifier implements Notifier {
+  readonly type = 'email';
+  readonly name: string;
+  private config: EmailChannelConfig;
+
+  constructor(config: EmailChannelConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async send(event: AlertEvent): Promise<void> {
+    const c = this.config;
+    await sendMail({
+      host: c.host,
+      port: c.port ?? (c.secure ? 465 : 587),
+      secure: c.secure ?? false,
+      user: c.user,
+      pass: c.pass,
+      rejectUnauthorized: !c.insecureTls,
+      from: c.from,
+      to: Array.isArray(c.to) ? c.to : c.to.split(',').map(s => s.trim()).filter(Boolean),
+      subject: renderTemplate(c.subject ?? '[{severity}] {alertname} {status}', event),
+      text: renderTemplate(c.template ?? DEFAULT_TEMPLATE, event),
+    });
+  }
+}
+
+// ── SMTP ──
+
+export interface MailOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  rejectUnauthorized?: boolean;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  timeoutMs?: number;
+}
+
+/** Reads SMTP replies (multi-line "250-…" until "250 …") off a socket */
+class SmtpReader {
+  private buffer = '';
+  private waiting: Array<(reply: { code: number; text: string }) => void> = [];
+  private lines: string[] = [];
+
+  feed(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), text: this.lines.map(l => l.slice(4)).join('\n') };
+        this.lines = [];
+        this.waiting.shift()?.(reply);
+      }
+    }
+  }
+
+  next(): Promise<{ code: number; text: string }> {
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+export async function sendMail(options: MailOptions): Promise<void> {
+  let socket: net.Socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host, rejectUnauthorized: options.rejectUnauthorized })
+    : net.connect({ host: options.host, port: options.port });
+  socket.setTimeout(options.timeoutMs ?? HTTP_TIMEOUT_MS);
+
+  let reader = new SmtpReader();
+  const attach = (s: net.Socket) => s.on('data', (chunk: Buffer) => reader.feed(chunk.toString('utf8')));
+  const failed = new Promise<never>((_, reject) => {
+    socket.on('error', reject);
+    socket.on('timeout', () => reject(new Error('SMTP timeout')));
+  });
+  attach(socket);
+
+  const expect = async (codes: number[], what: string) => {
+    const reply = await Promise.race([reader.next(), failed]);
+    if (!codes.includes(reply.code)) throw new Error(`SMTP ${what} failed: ${reply.code} ${reply.text}`);
+    return reply;
+  };
+  const command = async (line: string, codes: number[], what = line.split(' ')[0]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes, what);
+  };
+
+  try {
+    await expect([220], 'greeting');
+    const hostname = os.hostname();
+    let ehlo = await command(`EHLO ${hostname}`, [250]);
+
+    if (!options.secure && /^STARTTLS$/im.test(ehlo.text)) {
+      await command('STARTTLS', [220]);
+      socket.removeAllListeners('data');
+      reader = new SmtpReader();
+      socket = tls.connect({ socket, servername: options.host, rejectUnauthorized: options.rejectUnauthorized });
+      socket.on('error', () => {});
+      attach(socket);
+      await new Promise<void>((resolve, reject) => {
+        socket.once('secureConnect', resolve);
+        socket.once('error', reject);
+      });
+      ehlo = await command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (options.user) {
+      const token = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`).toString('base64');
+      await command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+    }
+
+    await command(`MAIL FROM:<${options.from}>`, [250], 'MAIL FROM');
+    for (const to of options.to) await command(`RCPT TO:<${to}>`, [250, 251], 'RCPT TO');
+    await command('DATA', [354]);
+
+    const body = Buffer.from(options.text.replace(/\r?\n/g, '\r\n')).toString('base64').replace(/.{76}/g, '$&\r\n');
+    const message = [
+      `From: ${options.from}`,
+      `To: ${options.to.join(', ')}`,
+      `Subject: ${encodeHeader(options.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+    ].join('\r\n');
+    socket.write(`${message}\r\n.\r\n`);
+    await expect([250], 'DATA');
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.end();
+  }
+}
+
+// ── Routing ─────────────────────────────────────────────────────────────────
+
+export type ChannelConfig =
+  | WebhookChannelConfig
+  | SlackChannelConfig
+  | DiscordChannelConfig
+  | TelegramChannelConfig
+  | PagerDutyChannelConfig
+  | EmailChannelConfig;
+
+export interface Route {
+  /** Severities this route applies to (default all) */
+  severity?: AlertSeverity[];
+  /** Alert names, `*` matching any run of characters (default all) */
+  alerts?: string[];
+  /** Only firing or only resolved notifications (default both) */
+  status?: Array<'firing' | 'resolved'>;
+  channels: string[];
+  /** Keep trying later routes after this one matches */
+  continue?: boolean;
+}
+
+export interface NotifiersConfig {
+  channels: ChannelConfig[];
+  routes?: Route[];
+}
+
+export interface Delivery {
+  channel: string;
+  ok: boolean;
+  error?: string;
+}
+
+const REQUIRED_FIELDS: Record<ChannelConfig['type'], string[]> = {
+  webhook: ['url'],
+  slack: ['url'],
+  discord: ['url'],
+  telegram: ['botToken', 'chatId'],
+  pagerduty: ['routingKey'],
+  email: ['host', 'from', 'to'],
+};
+
+export function createNotifier(config: ChannelConfig): Notifier {
+  switch (config.type) {
+    case 'webhook': return new WebhookNotifier(config);
+    case 'slack': return new SlackNotifier(config);
+    case 'discord': return new DiscordNotifier(config);
+    case 'telegram': return new TelegramNotifier(config);
+    case 'pagerduty': return new PagerDutyNotifier(config);
+    case 'email': return new EmailNotifier(config);
+  }
+}
+
+function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+export function routeMatches(route: Route, event: AlertEvent): boolean {
+  return (
+    (!route.severity || route.severity.includes(event.severity)) &&
+    (!route.status || route.status.includes(event.status)) &&
+    (!route.alerts || route.alerts.some(pattern => globToRegExp(pattern).test(event.alertname)))
+  );
+}
+
+export class NotificationDispatcher {
+  private channels: Map<string, Notifier>;
+  private routes: Route[];
+
+  constructor(channels: Notifier[], routes: Route[] = []) {
+    this.channels = new Map(channels.map(channel => [channel.name, channel]));
+    this.routes = routes;
+
+    for (const route of routes) {
+      for (const name of route.channels) {
+        if (!this.channels.has(name)) throw new Error(`Route refers to unknown channel "${name}"`);
+      }
+    }
+  }
+
+  getChannels(): Array<{ name: string; type: string }> {
+    return [...this.channels.values()].map(({ name, type }) => ({ name, type }));
+  }
+
+  getRoutes(): Route[] {
+    return this.routes;
+  }
+
+  getChannel(name: string): Notifier | undefined {
+    return this.channels.get(name);
+  }
+
+  /**
+   * Channels an event goes to
+   */
+  route(event: AlertEvent): Notifier[] {
+    if (this.routes.length === 0) return [...this.channels.values()];
+
+    const names = new Set<string>();
+    for (const route of this.routes) {
+      if (!routeMatches(route, event)) continue;
+      route.channels.forEach(name => names.add(name));
+      if (!route.continue) break;
+    }
+    return [...names].map(name => this.channels.get(name) as Notifier);
+  }
+
+  /**
+   * Send an event to its channels in parallel; failures are logged and
+   * reported, never thrown
+   */
+  async dispatch(event: AlertEvent): Promise<Delivery[]> {
+    return Promise.all(this.route(event).map(async (channel): Promise<Delivery> => {
+      try {
+        await channel.send(event);
+        return { channel: channel.name, ok: true };
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        console.error(`Failed to send alert via ${channel.name} (${channel.type}):`, error);
+        return { channel: channel.name, ok: false, error };
+      }
+    }));
+  }
+}
+
+// ── Config ──────────────────────────────────────────────────────────────────
+
+/** Replace ${NAME} in every string value with the environment variable */
+function expandEnv<T>(value: T, env: Record<string, string | undefined>): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => env[name] ?? '') as T;
+  }
+  if (Array.isArray(value)) return value.map(item => expandEnv(item, env)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, expandEnv(v, env)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Check parsed JSON is a notifier config, throwing on the first problem
+ */
+export function validateNotifiersConfig(raw: unknown): NotifiersConfig {
+  const config = raw as Partial<NotifiersConfig>;
+  if (!config || !Array.isArray(config.channels)) throw new Error('Notifier config needs a "channels" array');
+
+  const names = new Set<string>();
+  for (const [i, channel] of config.channels.entries()) {
+    const where = `channel ${typeof channel?.name === 'string' ? `"${channel.name}"` : `#${i}`}`;
+    if (typeof channel?.name !== 'string' || channel.name === '') throw new Error(`${where}: name is required`);
+    if (names.has(channel.name)) throw new Error(`${where}: duplicate name`);
+    names.add(channel.name);
+    const required = REQUIRED_FIELDS[channel.type as ChannelConfig['type']];
+    if (!required) throw new Error(`${where}: type must be one of ${Object.keys(REQUIRED_FIELDS).join(', ')}`);
+    for (const field of required) {
+      const value = (channel as unknown as Record<string, unknown>)[field];
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+        throw new Error(`${where}: ${field} is required`);
+      }
+    }
+  }
+
+  for (const [i, route] of (config.routes ?? []).entries()) {
+    if (!Array.isArray(route?.channels) || route.channels.length === 0) throw new Error(`route #${i}: channels is required`);
+    const unknown = route.channels.find(name => !names.has(name));
+    if (unknown) throw new Error(`route #${i}: unknown channel "${unknown}"`);
+  }
+
+  return { channels: config.channels, routes: config.routes ?? [] };
+}
+
+/**
+ * Channels configured by the pre-plugin env vars (Telegram bot, one webhook)
+ */
+export function envNotifiersConfig(env: Record<string, string | undefined>): NotifiersConfig {
+  const channels: ChannelConfig[] = [];
+  if (env.TELEGRAM_BOT_TOKEN && env.TELEGRAM_CHAT_ID) {
+    channels.push({ name: 'telegram', type: 'telegram', botToken: env.TELEGRAM_BOT_TOKEN, chatId: env.TELEGRAM_CHAT_ID });
+  }
+  if (env.ALERT_WEBHOOK_URL) {
+    channels.push({ name: 'webhook', type: 'webhook', url: env.ALERT_WEBHOOK_URL, secret: env.ALERT_WEBHOOK_SECRET });
+  }
+  return { channels, routes: [] };
+}
+
+/**
+ * Dispatcher for NOTIFIERS_FILE, or for the env-var channels without one
+ */
+export function loadNotifiers(file: string | undefined, env: Record<string, string | undefined> = process.env): NotificationDispatcher {
+  const config = file
+    ? validateNotifiersConfig(expandEnv(JSON.parse(readFileSync(file, 'utf8')), env))
+    : envNotifiersConfig(env);
+  return new NotificationDispatcher(config.channels.map(createNotifier), config.routes);
+}
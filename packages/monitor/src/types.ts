@@ -84,4 +84,17 @@ export interface MonitorConfig {
   healthTTL: number;
   statusTTL: number;
   metagraphTTL: number;
+  
+  // History
+  historyEnabled: boolean;
+  historyRetentionDays: number;
+  sloWindows: string[];
+  
+  // Alerting
+  alertRulesFile?: string;
+  notifiersFile?: string;
+  
+  // Fork diagnosis
+  forkDiagnosisEnabled: boolean;
+  forkSearchDepth: number;
 }
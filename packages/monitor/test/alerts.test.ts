@@ -0,0 +1,299 @@
+/**
+ * Alert Rules Engine Unit Tests
+ *
+ * Replays sequences of collected health (a recorded outage in
+ * fixtures/dl1-outage.json, and hand-built ones) through the engine and checks
+ * the alert states and notifications each step produces.
+ *
+ * Run: node --test --experimental-strip-types test/alerts.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import {
+  AlertEngine,
+  DEFAULT_ALERT_RULES,
+  extractSamples,
+  parseDuration,
+  validateRules,
+  type AlertNotification,
+  type AlertRule,
+} from '../src/alerts.ts';
+import type { MetagraphMetrics, NodeHealth, ServiceHealth } from '../src/types.ts';
+
+interface Snapshot {
+  timestamp: number;
+  nodes: NodeHealth[];
+  services: ServiceHealth[];
+  metagraph: MetagraphMetrics;
+}
+
+const recorded = JSON.parse(
+  readFileSync(new URL('./fixtures/dl1-outage.json', import.meta.url), 'utf8')
+) as { snapshots: Snapshot[] };
+
+/** Notifications produced at each step */
+function replay(engine: AlertEngine, snapshots: Snapshot[]): AlertNotification[][] {
+  return snapshots.map(snapshot => engine.evaluate(snapshot, snapshot.timestamp));
+}
+
+const T0 = 1_760_000_000_000;
+
+/** One metagraph-only snapshot per entry, `stepMs` apart */
+function lagSequence(lags: number[], stepMs = 30_000): Snapshot[] {
+  return lags.map((dl1Lag, i) => ({ timestamp: T0 + i * stepMs, nodes: [], services: [], metagraph: { dl1Lag } }));
+}
+
+const lagRule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  name: 'Dl1Lagging',
+  metric: 'metagraph.dl1Lag',
+  comparator: '>',
+  threshold: 50,
+  severity: 'warning',
+  summary: 'DL1 behind by {value}',
+  ...overrides,
+});
+
+describe('recorded DL1 outage with default rules', () => {
+  const engine = new AlertEngine(DEFAULT_ALERT_RULES);
+  const steps = replay(engine, recorded.snapshots);
+
+  it('fires NodeDown once when DL1-1 drops out', () => {
+    assert.deepStrictEqual(steps[0], []);
+    assert.strictEqual(steps[1].length, 1);
+    assert.strictEqual(steps[1][0].status, 'firing');
+    assert.strictEqual(steps[1][0].severity, 'critical');
+    assert.strictEqual(steps[1][0].message, '🔴 Node DOWN: DL1-1 (http://dl1-1:9410)');
+    assert.deepStrictEqual(steps[2], []);
+  });
+
+  it('resolves NodeDown when DL1-1 is back', () => {
+    assert.strictEqual(steps[3].length, 1);
+    assert.strictEqual(steps[3][0].status, 'resolved');
+    assert.strictEqual(steps[3][0].alert.labels.node, 'DL1-1');
+    assert.match(steps[3][0].message, /^🟢 RESOLVED: Node DOWN: DL1-1/);
+  });
+
+  it('fires OrdinalStalled for nodes whose ordinal is older than 4 minutes, then resolves', () => {
+    const stalled = steps[4].map(n => n.alert.labels.node).sort();
+    assert.deepStrictEqual(stalled, ['DL1-0', 'ML0-0']);
+    assert.ok(steps[4].every(n => n.alert.rule === 'OrdinalStalled' && n.status === 'firing'));
+    assert.match(steps[4].find(n => n.alert.labels.node === 'ML0-0')!.message, /ordinal stuck at 501 for 270s/);
+
+    assert.deepStrictEqual(steps[5].map(n => n.status), ['resolved', 'resolved']);
+  });
+
+  it('keeps resolved alerts for the API', () => {
+    const { active, resolved } = engine.getAlerts(T0 + 330_000);
+    assert.deepStrictEqual(active, []);
+    assert.strictEqual(resolved.length, 3);
+    assert.ok(resolved.every(a => a.state === 'resolved' && a.resolvedAt !== undefined));
+  });
+});
+
+describe('rule states', () => {
+  it('stays pending until the condition has held for the for-duration', () => {
+    const engine = new AlertEngine([lagRule({ for: '1m' })]);
+    const [first, second, third] = lagSequence([80, 80, 80]);
+
+    assert.deepStrictEqual(engine.evaluate(first, first.timestamp), []);
+    assert.strictEqual(engine.getAlerts(T0).active[0].state, 'pending');
+    assert.deepStrictEqual(engine.evaluate(second, second.timestamp), []);
+    const fired = engine.evaluate(third, third.timestamp);
+    assert.strictEqual(fired.length, 1);
+    assert.strictEqual(fired[0].alert.state, 'firing');
+    assert.strictEqual(fired[0].message, '⚠️ DL1 behind by 80');
+  });
+
+  it('drops a pending alert silently when the condition clears', () => {
+    const engine = new AlertEngine([lagRule({ for: '5m' })]);
+    const steps = replay(engine, lagSequence([80, 10]));
+
+    assert.deepStrictEqual(steps.flat(), []);
+    assert.deepStrictEqual(engine.getAlerts(T0 + 30_000), { active: [], resolved: [] });
+  });
+
+  it('resolves when the sample disappears', () => {
+    const engine = new AlertEngine([lagRule()]);
+    engine.evaluate({ nodes: [], services: [], metagraph: { dl1Lag: 90 } }, T0);
+    const notifications = engine.evaluate({ nodes: [], services: [], metagraph: {} }, T0 + 5_000);
+
+    assert.strictEqual(notifications[0].status, 'resolved');
+  });
+
+  it('only applies rules to samples matching their labels', () => {
+    const engine = new AlertEngine([
+      { name: 'SlowDl1', metric: 'node.latencyMs', comparator: '>=', threshold: 500, severity: 'warning', match: { type: 'dl1' }, labels: { team: 'infra' } },
+    ]);
+    const node = (name: string, type: NodeHealth['type']): NodeHealth => ({
+      name, type, url: `http://${name}`, status: 'healthy', latencyMs: 800, lastCheck: T0,
+    });
+    const notifications = engine.evaluate({ nodes: [node('ML0-0', 'ml0'), node('DL1-0', 'dl1')], services: [], metagraph: {} }, T0);
+
+    assert.strictEqual(notifications.length, 1);
+    assert.strictEqual(notifications[0].alert.labels.node, 'DL1-0');
+    assert.strictEqual(notifications[0].alert.labels.team, 'infra');
+    assert.strictEqual(notifications[0].alert.labels.alertname, 'SlowDl1');
+  });
+});
+
+describe('cooldown and repeats', () => {
+  it('does not re-announce a flapping alert within its cooldown', () => {
+    const engine = new AlertEngine([lagRule({ cooldown: '2m' })]);
+    const steps = replay(engine, lagSequence([80, 10, 80, 10, 80, 80, 80]));
+
+    assert.deepStrictEqual(steps.map(s => s.map(n => n.status)), [
+      ['firing'],
+      ['resolved'],
+      [], // fired again 60s after the first notice
+      [], // never announced, so no resolve either
+      ['firing'], // 120s after the first notice
+      [],
+      [],
+    ]);
+  });
+
+  it('announces an outage that started within the cooldown once it has passed', () => {
+    // NodeDown with the default 60s cooldown: down at 0s, up at 30s, down again
+    // at 45s and staying down for an hour, polled every 15s
+    const engine = new AlertEngine(DEFAULT_ALERT_RULES);
+    const dl1 = (at: number, status: NodeHealth['status']): Snapshot => ({
+      timestamp: T0 + at * 1000,
+      nodes: [{ name: 'DL1-0', type: 'dl1', url: 'http://dl1-0:9400', status, lastCheck: T0 + at * 1000 }],
+      services: [],
+      metagraph: {},
+    });
+    const snapshots = [dl1(0, 'unhealthy'), dl1(15, 'unhealthy'), dl1(30, 'healthy')];
+    for (let at = 45; at <= 3645; at += 15) snapshots.push(dl1(at, 'unhealthy'));
+    snapshots.push(dl1(3660, 'healthy'));
+
+    const sent = replay(engine, snapshots).flatMap((step, i) =>
+      step.filter(n => n.alert.rule === 'NodeDown').map(n => [(snapshots[i].timestamp - T0) / 1000, n.status]));
+
+    assert.deepStrictEqual(sent, [
+      [0, 'firing'],
+      [30, 'resolved'],
+      [60, 'firing'], // postponed from 45s until the cooldown passed
+      [3660, 'resolved'],
+    ]);
+  });
+
+  it('repeats firing notifications until acknowledged', () => {
+    const engine = new AlertEngine([lagRule({ repeatInterval: '1m' })]);
+    const steps = replay(engine, lagSequence([80, 80, 80]));
+    assert.deepStrictEqual(steps.map(s => s.length), [1, 0, 1]);
+
+    const id = steps[0][0].alert.id;
+    const acked = engine.acknowledge(id, 'oncall', 'looking', T0 + 70_000);
+    assert.deepStrictEqual(acked?.acknowledged, { by: 'oncall', at: T0 + 70_000, comment: 'looking' });
+
+    const later = replay(engine, lagSequence([80, 80, 80, 80, 80, 80, 80]).slice(3));
+    assert.deepStrictEqual(later.flat(), []);
+  });
+
+  it('returns null when acknowledging an unknown alert', () => {
+    assert.strictEqual(new AlertEngine([lagRule()]).acknowledge('missing', 'oncall'), null);
+  });
+});
+
+describe('silences', () => {
+  it('suppresses matching alerts while active and announces them when it ends', () => {
+    const engine = new AlertEngine([lagRule()]);
+    const silence = engine.addSilence({ matchers: { alertname: 'Dl1Lagging' }, duration: '45s', comment: 'resync' }, T0);
+    const steps = replay(engine, lagSequence([80, 80, 80]));
+
+    assert.deepStrictEqual(steps[0], []);
+    assert.deepStrictEqual(steps[1], []);
+    assert.strictEqual(steps[2].length, 1);
+    assert.strictEqual(steps[2][0].status, 'firing');
+    assert.strictEqual(engine.getAlerts(T0 + 30_000).active[0].silencedBy, silence.id);
+    assert.strictEqual(engine.getAlerts(T0 + 60_000).active[0].silencedBy, undefined);
+  });
+
+  it('does not announce the resolve of a silenced alert', () => {
+    const engine = new AlertEngine([lagRule()]);
+    engine.addSilence({ matchers: { severity: 'warning' }, duration: '1h' }, T0);
+    assert.deepStrictEqual(replay(engine, lagSequence([80, 10])).flat(), []);
+  });
+
+  it('lists silences until they expire and can remove them', () => {
+    const engine = new AlertEngine([lagRule()]);
+    const short = engine.addSilence({ matchers: { alertname: 'A' }, duration: 60 }, T0);
+    const long = engine.addSilence({ matchers: { alertname: 'B' }, endsAt: T0 + 3_600_000 }, T0);
+
+    assert.deepStrictEqual(engine.getSilences(T0 + 61_000).map(s => s.id), [long.id]);
+    assert.strictEqual(engine.removeSilence(long.id), true);
+    assert.strictEqual(engine.removeSilence(short.id), false);
+    assert.deepStrictEqual(engine.getSilences(T0), []);
+  });
+
+  it('rejects silences without matchers or that end before they start', () => {
+    const engine = new AlertEngine([lagRule()]);
+    assert.throws(() => engine.addSilence({ matchers: {} }), /at least one matcher/);
+    assert.throws(() => engine.addSilence({ matchers: { node: 'x' }, startsAt: T0, endsAt: T0 }), /end after/);
+  });
+});
+
+describe('samples', () => {
+  it('reports distinct states and ordinal spread for layers with 2+ healthy nodes', () => {
+    const node = (name: string, state: string, ordinal: number): NodeHealth => ({
+      name, type: 'ml0', url: `http://${name}`, status: 'healthy', state, ordinal, lastCheck: T0,
+    });
+    const samples = extractSamples(
+      { nodes: [node('ML0-0', 'Ready', 100), node('ML0-1', 'Observing', 97)], services: [], metagraph: {} },
+      T0
+    );
+
+    const distinct = samples.find(s => s.metric === 'layer.distinctStates');
+    assert.strictEqual(distinct?.value, 2);
+    assert.deepStrictEqual(distinct?.labels, { layer: 'ML0' });
+    assert.strictEqual(distinct?.annotations?.states, 'Ready, Observing');
+    assert.strictEqual(samples.find(s => s.metric === 'layer.ordinalSpread')?.value, 3);
+  });
+
+  it('reports only up for unhealthy nodes and services', () => {
+    const samples = extractSamples({
+      nodes: [{ name: 'GL0-0', type: 'gl0', url: 'http://gl0', status: 'unhealthy', latencyMs: 3000, lastCheck: T0 }],
+      services: [{ name: 'Indexer', type: 'indexer', status: 'unhealthy', latencyMs: 3000, lastCheck: T0 }],
+      metagraph: { currencySnapshotAvailable: false },
+    }, T0);
+
+    assert.deepStrictEqual(samples.map(s => [s.metric, s.value]), [
+      ['node.up', 0],
+      ['service.up', 0],
+      ['metagraph.currencySnapshotAvailable', 0],
+    ]);
+  });
+});
+
+describe('rule files', () => {
+  it('accepts an array or { rules }', () => {
+    const rule = { name: 'Lag', metric: 'metagraph.dl1Lag', comparator: '>', threshold: 10, severity: 'warning', for: '2m' };
+    assert.deepStrictEqual(validateRules([rule]), [rule]);
+    assert.deepStrictEqual(validateRules({ rules: [rule] }), [rule]);
+  });
+
+  it('names the rule and field at fault', () => {
+    const base = { name: 'Lag', metric: 'metagraph.dl1Lag', comparator: '>', threshold: 10, severity: 'warning' };
+    assert.throws(() => validateRules([{ ...base, metric: 'dl1Lag' }]), /rule "Lag": unknown metric dl1Lag/);
+    assert.throws(() => validateRules([{ ...base, comparator: '=>' }]), /rule "Lag": comparator/);
+    assert.throws(() => validateRules([{ ...base, threshold: '10' }]), /rule "Lag": threshold/);
+    assert.throws(() => validateRules([{ ...base, severity: 'info' }]), /rule "Lag": severity/);
+    assert.throws(() => validateRules([{ ...base, for: 'soon' }]), /rule "Lag": for: Invalid duration/);
+    assert.throws(() => validateRules([base, base]), /rule "Lag": duplicate name/);
+    assert.throws(() => validateRules([{ ...base, name: undefined }]), /rule #0: name is required/);
+    assert.throws(() => validateRules('nope'), /must be an array/);
+  });
+
+  it('ships defaults that validate', () => {
+    assert.strictEqual(validateRules(DEFAULT_ALERT_RULES).length, DEFAULT_ALERT_RULES.length);
+  });
+
+  it('parses durations', () => {
+    assert.strictEqual(parseDuration('4m'), 240_000);
+    assert.strictEqual(parseDuration(30), 30_000);
+    assert.strictEqual(parseDuration('1.5h'), 5_400_000);
+    assert.strictEqual(parseDuration(undefined, 60_000), 60_000);
+  });
+});
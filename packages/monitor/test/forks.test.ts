@@ -0,0 +1,243 @@
+/**
+ * Fork Diagnosis Unit Tests
+ *
+ * Simulates peers as hash chains that split at a given ordinal and checks the
+ * divergence point, grouping, restart suggestion and timeline the diagnoser
+ * reports, plus the alert sample it feeds.
+ *
+ * Run: node --test --experimental-strip-types test/forks.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { ForkDiagnoser, snapshotDigest, type SnapshotSource } from '../src/forks.ts';
+import { extractSamples } from '../src/alerts.ts';
+import type { NodeHealth } from '../src/types.ts';
+
+interface FakePeer {
+  name: string;
+  type?: NodeHealth['type'];
+  tip: number;
+  /** Ordinal this peer's chain leaves the main one, and the fork's label */
+  forkAt?: number;
+  branch?: string;
+  status?: NodeHealth['status'];
+}
+
+/** Hash chains keyed by node URL, counting every lookup */
+function source(peers: FakePeer[]) {
+  const calls: Array<{ url: string; ordinal: number }> = [];
+  const snapshots: SnapshotSource = {
+    async snapshotHash(url, ordinal) {
+      calls.push({ url, ordinal });
+      const peer = peers.find(p => `http://${p.name}` === url) as FakePeer;
+      if (ordinal > peer.tip) return undefined;
+      const branch = peer.forkAt !== undefined && ordinal >= peer.forkAt ? peer.branch ?? peer.name : 'main';
+      return snapshotDigest({ ordinal, branch });
+    },
+  };
+  return { snapshots, calls };
+}
+
+const T0 = 1_760_000_000_000;
+
+function nodes(peers: FakePeer[]): NodeHealth[] {
+  return peers.map((p, i) => ({
+    name: p.name,
+    type: p.type ?? 'ml0',
+    url: `http://${p.name}`,
+    status: p.status ?? 'healthy',
+    lastCheck: T0,
+    ordinal: p.tip,
+    ordinalLastChanged: T0 - i * 1000,
+  }));
+}
+
+async function diagnose(peers: FakePeer[], options: { searchDepth?: number } = {}) {
+  const { snapshots, calls } = source(peers);
+  const report = await new ForkDiagnoser(snapshots, options).diagnose(nodes(peers), T0);
+  return { report, layer: report.layers[0], calls };
+}
+
+describe('ForkDiagnoser', () => {
+  it('reports ok with one lookup per peer when peers agree', async () => {
+    const { report, layer, calls } = await diagnose([
+      { name: 'ML0-0', tip: 500 },
+      { name: 'ML0-1', tip: 502 },
+      { name: 'ML0-2', tip: 501 },
+    ]);
+
+    assert.strictEqual(report.forked, false);
+    assert.strictEqual(layer.status, 'ok');
+    assert.strictEqual(layer.commonOrdinal, 500);
+    assert.strictEqual(layer.lastAgreedOrdinal, 500);
+    assert.strictEqual(calls.length, 3);
+  });
+
+  it('finds the first divergent ordinal and the minority node', async () => {
+    const { report, layer, calls } = await diagnose([
+      { name: 'ML0-0', tip: 900 },
+      { name: 'ML0-1', tip: 905 },
+      { name: 'ML0-2', tip: 880, forkAt: 737 },
+    ]);
+
+    assert.strictEqual(report.forked, true);
+    assert.strictEqual(layer.status, 'forked');
+    assert.strictEqual(layer.commonOrdinal, 880);
+    assert.strictEqual(layer.firstDivergentOrdinal, 737);
+    assert.strictEqual(layer.lastAgreedOrdinal, 736);
+    assert.deepStrictEqual(layer.groups.map(g => [g.nodes, g.majority]), [[['ML0-0', 'ML0-1'], true], [['ML0-2'], false]]);
+    assert.deepStrictEqual(layer.minority, ['ML0-2']);
+    assert.strictEqual(layer.suggestedRestart?.node, 'ML0-2');
+    assert.strictEqual(layer.groups[1].divergedAt, 737);
+    assert.match(layer.suggestedRestart?.reason ?? '', /left the majority chain at ordinal 737; at ordinal 880 it holds \w+ with 1 of 3 peers/);
+    assert.deepStrictEqual(layer.peers.map(p => p.group), [0, 0, 1]);
+    assert.ok(calls.length <= 3 * 12, `binary search made ${calls.length} lookups`);
+  });
+
+  it('builds a timeline ordered by ordinal', async () => {
+    const { layer } = await diagnose([
+      { name: 'ML0-0', tip: 900 },
+      { name: 'ML0-1', tip: 905 },
+      { name: 'ML0-2', tip: 880, forkAt: 737 },
+    ]);
+
+    assert.deepStrictEqual(layer.timeline.map(e => [e.ordinal, e.event.split(':')[0]]), [
+      [736, 'Last ordinal all peers agree on'],
+      [737, `ML0-2 split from the majority chain (${layer.groups[1].hash.slice(0, 12)})`],
+      [880, 'ML0-2 reached ordinal 880 (minority fork)'],
+      [900, 'ML0-0 reached ordinal 900'],
+      [905, 'ML0-1 reached ordinal 905'],
+      [undefined, 'Fork first detected by the monitor'],
+    ]);
+    assert.strictEqual(layer.timeline[2].timestamp, T0 - 2000);
+    assert.strictEqual(layer.timeline[5].timestamp, T0);
+  });
+
+  it('groups later splits separately and suggests the smallest minority', async () => {
+    const { layer } = await diagnose([
+      { name: 'ML0-0', tip: 300 },
+      { name: 'ML0-1', tip: 300 },
+      { name: 'ML0-2', tip: 300 },
+      { name: 'ML0-3', tip: 290, forkAt: 200, branch: 'b' },
+      { name: 'ML0-4', tip: 295, forkAt: 200, branch: 'b' },
+      { name: 'ML0-5', tip: 310, forkAt: 250, branch: 'c' },
+    ]);
+
+    assert.strictEqual(layer.firstDivergentOrdinal, 200);
+    assert.deepStrictEqual(layer.groups.map(g => [g.nodes, g.divergedAt]), [
+      [['ML0-0', 'ML0-1', 'ML0-2'], undefined],
+      [['ML0-3', 'ML0-4'], 200],
+      [['ML0-5'], 250],
+    ]);
+    assert.deepStrictEqual(layer.minority, ['ML0-3', 'ML0-4', 'ML0-5']);
+    assert.strictEqual(layer.suggestedRestart?.node, 'ML0-5');
+  });
+
+  it('has no majority or restart suggestion for an even split', async () => {
+    const { layer } = await diagnose([
+      { name: 'ML0-0', tip: 100 },
+      { name: 'ML0-1', tip: 100, forkAt: 90 },
+    ]);
+
+    assert.strictEqual(layer.status, 'forked');
+    assert.ok(layer.groups.every(g => !g.majority));
+    assert.deepStrictEqual(layer.minority.sort(), ['ML0-0', 'ML0-1']);
+    assert.strictEqual(layer.suggestedRestart, undefined);
+    assert.ok(layer.timeline.some(e => e.event.startsWith('No majority')));
+  });
+
+  it('flags forks older than the search window', async () => {
+    const { layer } = await diagnose([
+      { name: 'ML0-0', tip: 1000 },
+      { name: 'ML0-1', tip: 1000 },
+      { name: 'ML0-2', tip: 1000, forkAt: 10 },
+    ], { searchDepth: 100 });
+
+    assert.strictEqual(layer.divergedBeforeWindow, true);
+    assert.strictEqual(layer.firstDivergentOrdinal, 900);
+    assert.strictEqual(layer.lastAgreedOrdinal, undefined);
+    assert.strictEqual(layer.groups[1].divergedBeforeWindow, true);
+    assert.strictEqual(layer.suggestedRestart?.node, 'ML0-2');
+    assert.match(layer.suggestedRestart?.reason ?? '', /at ordinal or before 900/);
+  });
+
+  it('skips unhealthy peers and layers with fewer than two to compare', async () => {
+    const { report } = await diagnose([
+      { name: 'ML0-0', tip: 100 },
+      { name: 'ML0-1', tip: 100, forkAt: 50, status: 'unhealthy' },
+    ]);
+
+    const [ml0] = report.layers;
+    assert.strictEqual(ml0.status, 'insufficient-peers');
+    assert.deepStrictEqual(ml0.peers.map(p => p.reachable), [true, false]);
+  });
+
+  it('does not query DL1 peers, which serve no snapshots', async () => {
+    const { report, calls } = await diagnose([
+      { name: 'ML0-0', tip: 100 },
+      { name: 'ML0-1', tip: 100 },
+      { name: 'DL1-0', type: 'dl1', tip: 100 },
+      { name: 'DL1-1', type: 'dl1', tip: 99, forkAt: 50 },
+    ]);
+
+    assert.deepStrictEqual(report.layers.map(l => [l.layer, l.status]), [['ml0', 'ok']]);
+    assert.strictEqual(report.forked, false);
+    assert.ok(calls.every(c => c.url.startsWith('http://ML0')));
+  });
+
+  it('prefers the node furthest behind within a minority group', async () => {
+    const { layer } = await diagnose([
+      { name: 'ML0-0', tip: 200 },
+      { name: 'ML0-1', tip: 200 },
+      { name: 'ML0-2', tip: 200 },
+      { name: 'ML0-3', tip: 198, forkAt: 150, branch: 'b' },
+      { name: 'ML0-4', tip: 190, forkAt: 150, branch: 'b' },
+    ]);
+
+    assert.strictEqual(layer.commonOrdinal, 190);
+    assert.strictEqual(layer.suggestedRestart?.node, 'ML0-4');
+  });
+
+  it('keeps the first detection time while the fork persists', async () => {
+    const peers: FakePeer[] = [
+      { name: 'ML0-0', tip: 100 },
+      { name: 'ML0-1', tip: 100 },
+      { name: 'ML0-2', tip: 100, forkAt: 60 },
+    ];
+    const { snapshots } = source(peers);
+    const diagnoser = new ForkDiagnoser(snapshots);
+
+    await diagnoser.diagnose(nodes(peers), T0);
+    peers.forEach(p => { p.tip += 10; });
+    const later = await diagnoser.diagnose(nodes(peers), T0 + 60_000);
+    assert.strictEqual(later.layers[0].firstDetectedAt, T0);
+    assert.strictEqual(diagnoser.getReport(), later);
+
+    peers[2].forkAt = undefined;
+    assert.strictEqual((await diagnoser.diagnose(nodes(peers), T0 + 120_000)).layers[0].status, 'ok');
+    peers[2].forkAt = 60;
+    assert.strictEqual((await diagnoser.diagnose(nodes(peers), T0 + 180_000)).layers[0].firstDetectedAt, T0 + 180_000);
+  });
+});
+
+describe('layer.forkedNodes samples', () => {
+  it('counts minority nodes per compared layer', async () => {
+    const peers: FakePeer[] = [
+      { name: 'ML0-0', tip: 100 },
+      { name: 'ML0-1', tip: 100 },
+      { name: 'ML0-2', tip: 100, forkAt: 42 },
+      { name: 'DL1-0', type: 'dl1', tip: 100 },
+    ];
+    const { report } = await diagnose(peers);
+    const samples = extractSamples({ nodes: [], services: [], metagraph: {}, forks: report.layers }, T0)
+      .filter(s => s.metric === 'layer.forkedNodes');
+
+    assert.deepStrictEqual(samples, [{
+      metric: 'layer.forkedNodes',
+      value: 1,
+      labels: { layer: 'ML0' },
+      annotations: { ordinal: '42', nodes: 'ML0-2', restart: 'ML0-2' },
+    }]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Health History Unit Tests
+ *
+ * Checks the SLO figures summarize derives from a target's samples (uptime,
+ * ordinal rate, latency percentiles) and the window strings parseWindow
+ * accepts for GET /api/slo.
+ *
+ * Run: node --test --experimental-strip-types test/history.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseWindow, summarize, type HealthSample, type HistoryTarget } from '../src/history.ts';
+
+const T0 = 1_760_000_000_000;
+const MINUTE = 60_000;
+
+const target: HistoryTarget = { name: 'ML0-0', kind: 'node', type: 'ml0' };
+
+/** One sample per minute from T0 */
+function samples(entries: Array<Omit<HealthSample, 'timestamp'>>): HealthSample[] {
+  return entries.map((entry, i) => ({ timestamp: T0 + i * MINUTE, ...entry }));
+}
+
+describe('parseWindow', () => {
+  it('parses minutes, hours and days', () => {
+    assert.strictEqual(parseWindow('15m'), 15 * MINUTE);
+    assert.strictEqual(parseWindow('24h'), 24 * 60 * MINUTE);
+    assert.strictEqual(parseWindow('7d'), 7 * 24 * 60 * MINUTE);
+  });
+
+  it('ignores surrounding whitespace', () => {
+    assert.strictEqual(parseWindow(' 1h '), 60 * MINUTE);
+  });
+
+  it('rejects anything else', () => {
+    for (const window of ['', '10', 'h', '5s', '1.5h', '-1h', '1w', '1 h']) {
+      assert.strictEqual(parseWindow(window), null, window);
+    }
+  });
+});
+
+describe('summarize', () => {
+  it('reports nulls without samples', () => {
+    assert.deepStrictEqual(summarize(target, []), {
+      ...target,
+      samples: 0,
+      uptimePercent: null,
+      ordinalsPerMinute: null,
+      latencyP50Ms: null,
+      latencyP95Ms: null,
+    });
+  });
+
+  it('counts healthy and degraded samples as up', () => {
+    const summary = summarize(target, samples([
+      { status: 'healthy' },
+      { status: 'degraded' },
+      { status: 'unhealthy' },
+      { status: 'healthy' },
+    ]));
+
+    assert.strictEqual(summary.samples, 4);
+    assert.strictEqual(summary.uptimePercent, 75);
+  });
+
+  it('rounds uptime to two decimals', () => {
+    const summary = summarize(target, samples([{ status: 'healthy' }, { status: 'healthy' }, { status: 'unhealthy' }]));
+    assert.strictEqual(summary.uptimePercent, 66.67);
+  });
+
+  it('takes nearest-rank latency percentiles, leaving out unhealthy samples', () => {
+    const summary = summarize(target, samples([
+      ...[100, 20, 70, 40, 10, 90, 30, 60, 80, 50].map(latencyMs => ({ status: 'healthy' as const, latencyMs })),
+      { status: 'unhealthy', latencyMs: 5000 },
+      { status: 'healthy' },
+    ]));
+
+    assert.strictEqual(summary.latencyP50Ms, 50);
+    assert.strictEqual(summary.latencyP95Ms, 100);
+  });
+
+  it('derives the ordinal rate from the first and last sample with an ordinal', () => {
+    const summary = summarize(target, samples([
+      { status: 'unhealthy' },
+      { status: 'healthy', ordinal: 100 },
+      { status: 'healthy', ordinal: 104 },
+      { status: 'healthy', ordinal: 110 },
+      { status: 'unhealthy' },
+    ]));
+
+    assert.strictEqual(summary.ordinalsPerMinute, 5);
+  });
+
+  it('rounds the ordinal rate to two decimals', () => {
+    const summary = summarize(target, samples([
+      { status: 'healthy', ordinal: 0 },
+      { status: 'healthy' },
+      { status: 'healthy' },
+      { status: 'healthy', ordinal: 10 },
+    ]));
+
+    assert.strictEqual(summary.ordinalsPerMinute, 3.33);
+  });
+
+  it('has no ordinal rate from a single ordinal or a zero-length span', () => {
+    assert.strictEqual(summarize(target, samples([{ status: 'healthy', ordinal: 7 }])).ordinalsPerMinute, null);
+
+    const sameTime: HealthSample[] = [
+      { timestamp: T0, status: 'healthy', ordinal: 7 },
+      { timestamp: T0, status: 'healthy', ordinal: 8 },
+    ];
+    assert.strictEqual(summarize(target, sameTime).ordinalsPerMinute, null);
+  });
+});
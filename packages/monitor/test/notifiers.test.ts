@@ -0,0 +1,400 @@
+/**
+ * Notifier Unit Tests
+ *
+ * Delivers alerts to local sinks: an HTTP server recording every request (for
+ * the webhook, Slack, Discord, Telegram and PagerDuty channels) and a minimal
+ * SMTP server recording every message. Also covers routing, templates and
+ * config loading.
+ *
+ * Run: node --test --experimental-strip-types test/notifiers.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import http from 'node:http';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { AlertEngine, type AlertRule } from '../src/alerts.ts';
+import {
+  DiscordNotifier,
+  EmailNotifier,
+  NotificationDispatcher,
+  PagerDutyNotifier,
+  SlackNotifier,
+  TelegramNotifier,
+  WebhookNotifier,
+  loadNotifiers,
+  renderTemplate,
+  toAlertEvent,
+  validateNotifiersConfig,
+  type AlertEvent,
+  type Notifier,
+} from '../src/notifiers.ts';
+
+// ── Sinks ──
+
+interface HttpDelivery {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+/** Records every POST; paths starting with /fail answer 500 */
+async function startHttpSink() {
+  const deliveries: HttpDelivery[] = [];
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      deliveries.push({ path: req.url ?? '', headers: req.headers, body: JSON.parse(data || '{}') });
+      res.statusCode = req.url?.startsWith('/fail') ? 500 : 200;
+      res.end(req.url?.startsWith('/fail') ? 'sink failure' : '{"ok":true}');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    deliveries,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+interface MailDelivery {
+  commands: string[];
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/** Speaks just enough SMTP (no STARTTLS) to accept messages */
+async function startSmtpSink() {
+  const deliveries: MailDelivery[] = [];
+  const server = net.createServer(socket => {
+    const mail: MailDelivery = { commands: [], from: '', to: [], data: '' };
+    let buffer = '';
+    let inData = false;
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        mail.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        deliveries.push(mail);
+        socket.write('250 queued\r\n');
+      }
+      let index: number;
+      while (!inData && (index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        mail.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-sink\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 ok\r\n');
+        else if (verb === 'MAIL') { mail.from = line.slice(line.indexOf('<') + 1, -1); socket.write('250 ok\r\n'); }
+        else if (verb === 'RCPT') { mail.to.push(line.slice(line.indexOf('<') + 1, -1)); socket.write('250 ok\r\n'); }
+        else if (verb === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+        else if (verb === 'QUIT') { socket.write('221 bye\r\n'); socket.end(); }
+        else socket.write('502 unknown\r\n');
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return {
+    port,
+    deliveries,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+/** Headers and decoded base64 body of a recorded message */
+function parseMail(data: string): { headers: Record<string, string>; text: string } {
+  const [head, body] = data.split('\r\n\r\n');
+  const headers = Object.fromEntries(head.split('\r\n').map(line => {
+    const i = line.indexOf(':');
+    return [line.slice(0, i).toLowerCase(), line.slice(i + 1).trim()];
+  }));
+  return { headers, text: Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8') };
+}
+
+// ── Events ──
+
+const event = (overrides: Partial<AlertEvent> = {}): AlertEvent => ({
+  id: 'NodeDown{node=DL1-1,type=dl1}',
+  alertname: 'NodeDown',
+  severity: 'critical',
+  status: 'firing',
+  message: '🔴 Node DOWN: DL1-1 (dl1)',
+  summary: 'Node DOWN: DL1-1 (dl1)',
+  value: 0,
+  labels: { node: 'DL1-1', type: 'dl1' },
+  timestamp: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const fakeChannel = (name: string) => {
+  const sent: AlertEvent[] = [];
+  const channel: Notifier = { name, type: 'fake', send: async e => { sent.push(e); } };
+  return { channel, sent };
+};
+
+// ── Tests ──
+
+describe('templates', () => {
+  it('fills event fields and labels, keeping unknown placeholders', () => {
+    assert.strictEqual(
+      renderTemplate('[{severity}/{status}] {alertname} on {node}: {summary} {missing}', event()),
+      '[critical/firing] NodeDown on DL1-1: Node DOWN: DL1-1 (dl1) {missing}'
+    );
+  });
+
+  it('builds events from engine notifications', () => {
+    const rule: AlertRule = { name: 'Dl1Lagging', metric: 'metagraph.dl1Lag', comparator: '>', threshold: 50, severity: 'warning', summary: 'DL1 behind by {value}' };
+    const [notification] = new AlertEngine([rule]).evaluate({ nodes: [], services: [], metagraph: { dl1Lag: 80 } }, 0);
+    const e = toAlertEvent(notification, 0);
+    assert.strictEqual(e.alertname, 'Dl1Lagging');
+    assert.strictEqual(e.status, 'firing');
+    assert.strictEqual(e.summary, 'DL1 behind by 80');
+    assert.strictEqual(e.value, 80);
+    assert.strictEqual(e.timestamp, '1970-01-01T00:00:00.000Z');
+  });
+});
+
+describe('HTTP channels', () => {
+  let sink: Awaited<ReturnType<typeof startHttpSink>>;
+  before(async () => { sink = await startHttpSink(); });
+  after(async () => { await sink.close(); });
+
+  const last = () => sink.deliveries[sink.deliveries.length - 1];
+
+  it('webhook posts the alert as JSON with a bearer secret', async () => {
+    await new WebhookNotifier({ name: 'hook', type: 'webhook', url: `${sink.url}/hook`, secret: 's3cret' }).send(event());
+    assert.strictEqual(last().path, '/hook');
+    assert.strictEqual(last().headers.authorization, 'Bearer s3cret');
+    assert.deepStrictEqual(last().body, {
+      source: 'ottochain-monitor',
+      id: 'NodeDown{node=DL1-1,type=dl1}',
+      alertname: 'NodeDown',
+      severity: 'critical',
+      status: 'firing',
+      message: '🔴 Node DOWN: DL1-1 (dl1)',
+      labels: { node: 'DL1-1', type: 'dl1' },
+      timestamp: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('slack posts templated text', async () => {
+    await new SlackNotifier({ name: 'ops', type: 'slack', url: `${sink.url}/slack`, channel: '#ops', template: '*{alertname}* {summary}' }).send(event());
+    assert.deepStrictEqual(last().body, { text: '*NodeDown* Node DOWN: DL1-1 (dl1)', channel: '#ops', username: 'OttoChain Monitor' });
+  });
+
+  it('discord posts content, truncated to its limit', async () => {
+    await new DiscordNotifier({ name: 'dc', type: 'discord', url: `${sink.url}/discord` }).send(event({ message: 'x'.repeat(2500) }));
+    const content = last().body.content as string;
+    assert.strictEqual(content.length, 2000);
+    assert.ok(content.endsWith('…'));
+  });
+
+  it('telegram posts Markdown to the bot API', async () => {
+    await new TelegramNotifier({ name: 'tg', type: 'telegram', botToken: 'BOT', chatId: '42', apiUrl: sink.url }).send(event());
+    assert.strictEqual(last().path, '/botBOT/sendMessage');
+    assert.deepStrictEqual(last().body, {
+      chat_id: '42',
+      text: '🚨 *OttoChain Monitor*\n\n🔴 Node DOWN: DL1-1 (dl1)',
+      parse_mode: 'Markdown',
+    });
+  });
+
+  it('pagerduty triggers and resolves with the alert id as dedup key', async () => {
+    const pager = new PagerDutyNotifier({ name: 'pd', type: 'pagerduty', routingKey: 'RK', url: `${sink.url}/enqueue` });
+    await pager.send(event());
+    const trigger = last().body;
+    await pager.send(event({ status: 'resolved', severity: 'warning' }));
+    const resolve = last().body;
+
+    assert.strictEqual(trigger.event_action, 'trigger');
+    assert.strictEqual(resolve.event_action, 'resolve');
+    assert.strictEqual(trigger.routing_key, 'RK');
+    assert.strictEqual(trigger.dedup_key, resolve.dedup_key);
+    assert.deepStrictEqual(trigger.payload, {
+      summary: 'Node DOWN: DL1-1 (dl1)',
+      severity: 'critical',
+      source: 'ottochain-monitor',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      custom_details: { node: 'DL1-1', type: 'dl1', value: 0 },
+    });
+  });
+
+  it('rejects on non-2xx responses', async () => {
+    await assert.rejects(
+      new SlackNotifier({ name: 'bad', type: 'slack', url: `${sink.url}/fail` }).send(event()),
+      /HTTP 500: sink failure/
+    );
+  });
+});
+
+describe('email channel', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+  before(async () => { sink = await startSmtpSink(); });
+  after(async () => { await sink.close(); });
+
+  it('delivers a message over SMTP with AUTH PLAIN', async () => {
+    await new EmailNotifier({
+      name: 'mail',
+      type: 'email',
+      host: '127.0.0.1',
+      port: sink.port,
+      user: 'monitor',
+      pass: 'pw',
+      from: 'monitor@ottochain.test',
+      to: 'ops@ottochain.test, oncall@ottochain.test',
+      template: '{summary}\n\nNode: {node}\n.leading dot',
+    }).send(event());
+
+    assert.strictEqual(sink.deliveries.length, 1);
+    const mail = sink.deliveries[0];
+    assert.ok(mail.commands.includes(`AUTH PLAIN ${Buffer.from('\0monitor\0pw').toString('base64')}`));
+    assert.strictEqual(mail.from, 'monitor@ottochain.test');
+    assert.deepStrictEqual(mail.to, ['ops@ottochain.test', 'oncall@ottochain.test']);
+
+    const { headers, text } = parseMail(mail.data);
+    assert.strictEqual(headers.subject, '[critical] NodeDown firing');
+    assert.strictEqual(headers.to, 'ops@ottochain.test, oncall@ottochain.test');
+    assert.strictEqual(text, 'Node DOWN: DL1-1 (dl1)\r\n\r\nNode: DL1-1\r\n.leading dot');
+  });
+
+  it('rejects when the server refuses a recipient', async () => {
+    const server = net.createServer(socket => {
+      socket.write('220 strict\r\n');
+      socket.on('data', chunk => {
+        const line = chunk.toString();
+        socket.write(line.startsWith('EHLO') ? '250 strict\r\n' : line.startsWith('RCPT') ? '550 no such user\r\n' : '250 ok\r\n');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    try {
+      await assert.rejects(
+        new EmailNotifier({ name: 'mail', type: 'email', host: '127.0.0.1', port, from: 'a@x', to: ['b@x'] }).send(event()),
+        /RCPT TO failed: 550 no such user/
+      );
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
+
+describe('routing', () => {
+  const pager = fakeChannel('pager');
+  const ops = fakeChannel('ops');
+  const audit = fakeChannel('audit');
+  const names = (channels: Notifier[]) => channels.map(c => c.name).sort();
+
+  const dispatcher = new NotificationDispatcher([pager.channel, ops.channel, audit.channel], [
+    { channels: ['audit'], continue: true },
+    { severity: ['critical'], status: ['firing'], channels: ['pager'] },
+    { alerts: ['Dl1*', 'OrdinalStalled'], channels: ['ops'] },
+  ]);
+
+  it('picks channels by severity, status and alert name', () => {
+    assert.deepStrictEqual(names(dispatcher.route(event())), ['audit', 'pager']);
+    assert.deepStrictEqual(names(dispatcher.route(event({ status: 'resolved' }))), ['audit']);
+    assert.deepStrictEqual(names(dispatcher.route(event({ alertname: 'Dl1Lagging', severity: 'warning' }))), ['audit', 'ops']);
+    assert.deepStrictEqual(names(dispatcher.route(event({ alertname: 'OrdinalStalled', severity: 'warning' }))), ['audit', 'ops']);
+    assert.deepStrictEqual(names(dispatcher.route(event({ alertname: 'XDl1Lagging', severity: 'warning' }))), ['audit']);
+  });
+
+  it('stops at the first matching route without continue', () => {
+    // A critical Dl1 alert matches the severity route first and never reaches ops
+    assert.deepStrictEqual(names(dispatcher.route(event({ alertname: 'Dl1Lagging' }))), ['audit', 'pager']);
+  });
+
+  it('routes a resolved critical alert like its firing notification', () => {
+    const rule: AlertRule = { name: 'NodeDown', metric: 'node.up', comparator: '==', threshold: 0, severity: 'critical' };
+    const node = { name: 'DL1-1', type: 'dl1' as const, url: 'http://dl1-1', lastCheck: 0 };
+    const engine = new AlertEngine([rule]);
+    const [firing] = engine.evaluate({ nodes: [{ ...node, status: 'unhealthy' }], services: [], metagraph: {} }, 0);
+    const [resolved] = engine.evaluate({ nodes: [{ ...node, status: 'healthy' }], services: [], metagraph: {} }, 30_000);
+
+    const critical = new NotificationDispatcher([pager.channel, ops.channel, audit.channel], [
+      { severity: ['critical'], channels: ['pager', 'ops'] },
+    ]);
+    assert.strictEqual(resolved.status, 'resolved');
+    assert.strictEqual(toAlertEvent(resolved).severity, 'critical');
+    assert.deepStrictEqual(names(critical.route(toAlertEvent(firing))), ['ops', 'pager']);
+    assert.deepStrictEqual(names(critical.route(toAlertEvent(resolved))), ['ops', 'pager']);
+  });
+
+  it('sends to every channel without routes', () => {
+    assert.deepStrictEqual(names(new NotificationDispatcher([pager.channel, ops.channel]).route(event())), ['ops', 'pager']);
+  });
+
+  it('reports failed deliveries without throwing', async () => {
+    const broken: Notifier = { name: 'broken', type: 'fake', send: async () => { throw new Error('down'); } };
+    const ok = fakeChannel('ok');
+    const error = console.error;
+    console.error = () => {};
+    try {
+      const deliveries = await new NotificationDispatcher([broken, ok.channel]).dispatch(event());
+      assert.deepStrictEqual(deliveries, [
+        { channel: 'broken', ok: false, error: 'down' },
+        { channel: 'ok', ok: true },
+      ]);
+      assert.strictEqual(ok.sent.length, 1);
+    } finally {
+      console.error = error;
+    }
+  });
+});
+
+describe('config', () => {
+  it('rejects invalid configs', () => {
+    assert.throws(() => validateNotifiersConfig({}), /"channels" array/);
+    assert.throws(() => validateNotifiersConfig({ channels: [{ name: 'x', type: 'sms' }] }), /channel "x": type must be one of/);
+    assert.throws(() => validateNotifiersConfig({ channels: [{ name: 'x', type: 'slack' }] }), /channel "x": url is required/);
+    assert.throws(
+      () => validateNotifiersConfig({ channels: [{ name: 'x', type: 'slack', url: 'u' }, { name: 'x', type: 'slack', url: 'u' }] }),
+      /duplicate name/
+    );
+    assert.throws(
+      () => validateNotifiersConfig({ channels: [{ name: 'x', type: 'slack', url: 'u' }], routes: [{ channels: ['y'] }] }),
+      /route #0: unknown channel "y"/
+    );
+  });
+
+  it('falls back to the Telegram and webhook env vars', () => {
+    const dispatcher = loadNotifiers(undefined, {
+      TELEGRAM_BOT_TOKEN: 'bot',
+      TELEGRAM_CHAT_ID: '1',
+      ALERT_WEBHOOK_URL: 'http://hook',
+    });
+    assert.deepStrictEqual(dispatcher.getChannels(), [{ name: 'telegram', type: 'telegram' }, { name: 'webhook', type: 'webhook' }]);
+    assert.deepStrictEqual(loadNotifiers(undefined, {}).getChannels(), []);
+  });
+
+  it('loads a file, expanding ${ENV} references', async () => {
+    const sink = await startHttpSink();
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'notifiers-'));
+    try {
+      const file = path.join(dir, 'notifiers.json');
+      writeFileSync(file, JSON.stringify({
+        channels: [{ name: 'ops', type: 'slack', url: '${SINK_URL}/from-file' }],
+        routes: [{ severity: ['critical'], channels: ['ops'] }],
+      }));
+      const dispatcher = loadNotifiers(file, { SINK_URL: sink.url });
+
+      assert.deepStrictEqual(await dispatcher.dispatch(event({ severity: 'warning' })), []);
+      assert.deepStrictEqual(await dispatcher.dispatch(event()), [{ channel: 'ops', ok: true }]);
+      assert.strictEqual(sink.deliveries[0].path, '/from-file');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+      await sink.close();
+    }
+  });
+});
@@ -37,6 +37,57 @@ export interface BridgeVouchResponse {
   from: string;
 }
 
+export interface BridgeLinkChallengeRequest {
+  agentAddress: string;
+  platform: string;
+  platformUserId: string;
+}
+
+export interface BridgeLinkChallengeResponse {
+  /** Sign this object with the agent's key (metakit `sign`) */
+  challenge: {
+    purpose: string;
+    agentAddress: string;
+    platform: string;
+    platformUserId: string;
+    nonce: string;
+    expiresAt: string;
+  };
+  /** Whether the platform's verifier needs a `proof` with the link request */
+  proofRequired: boolean;
+}
+
+export interface BridgeLinkPlatformRequest {
+  privateKey: string;
+  fiberId: string;
+  nonce: string;
+  signature: { id: string; signature: string };
+  platformUsername?: string;
+  proof?: string;
+}
+
+export interface BridgeLinkPlatformResponse {
+  hash: string;
+  fiberId: string;
+  /** PlatformLink fiber recording the link */
+  linkFiberId: string;
+  platform: string;
+  platformUserId: string;
+  status: string;
+}
+
+export interface BridgeVerifySignatureRequest {
+  data: unknown;
+  /** Public key hex without the 04 prefix, and signature hex */
+  proof: { id: string; signature: string };
+  isDataUpdate?: boolean;
+}
+
+export interface BridgeVerifySignatureResponse {
+  valid: boolean;
+  address: string | null;
+}
+
 export interface BridgeProposeContractRequest {
   privateKey: string;
   counterpartyAddress: string;
@@ -65,6 +116,283 @@ export interface BridgeContractActionResponse {
   action: string;
 }
 
+// Fiber endpoints
+
+export interface BridgeCreateFiberRequest {
+  privateKey: string;
+  /** State machine definition (states, initialState, transitions, metadata) */
+  definition: Record<string, unknown>;
+  initialData: Record<string, unknown>;
+  fiberId?: string;
+  parentFiberId?: string;
+}
+
+export interface BridgeCreateFiberResponse {
+  fiberId: string;
+  address: string;
+  hash: string;
+  schema?: string;
+}
+
+export interface BridgeTransitionFiberRequest {
+  privateKey: string;
+  fiberId: string;
+  event: string;
+  payload?: Record<string, unknown>;
+  targetSequenceNumber?: number;
+}
+
+export interface BridgeTransitionFiberResponse {
+  hash: string;
+  event: string;
+  fiberId: string;
+  targetSequenceNumber: number;
+}
+
+// Market endpoints
+
+export type BridgeMarketType = 'prediction' | 'auction' | 'crowdfund' | 'group_buy';
+
+export interface BridgeCreateMarketRequest {
+  privateKey: string;
+  marketType: BridgeMarketType;
+  title: string;
+  description?: string;
+  /** ISO timestamp, converted to epoch progress by the bridge */
+  deadline?: string | null;
+  deadlineEpoch?: number | null;
+  threshold?: number | null;
+  oracles?: string[];
+  quorum?: number;
+  terms?: Record<string, unknown>;
+}
+
+export interface BridgeCreateMarketResponse {
+  marketId: string;
+  marketType: BridgeMarketType;
+  creator: string;
+  hash: string;
+}
+
+export interface BridgeMarketActionRequest {
+  privateKey: string;
+  marketId: string;
+}
+
+export interface BridgeCommitRequest extends BridgeMarketActionRequest {
+  amount: number;
+  data?: Record<string, unknown>;
+}
+
+export interface BridgeResolveMarketRequest extends BridgeMarketActionRequest {
+  outcome: string;
+  proof?: string;
+}
+
+export interface BridgeFinalizeMarketRequest extends BridgeMarketActionRequest {
+  outcome: string;
+  settlement?: Record<string, unknown>;
+}
+
+export interface BridgeClaimRequest extends BridgeMarketActionRequest {
+  amount?: number;
+}
+
+export interface BridgeMarketReasonRequest extends BridgeMarketActionRequest {
+  reason?: string;
+}
+
+export interface BridgeMarketActionResponse {
+  hash: string;
+  marketId: string;
+  status?: string;
+}
+
+// Governance endpoints
+
+export type BridgeDAOType = 'Single' | 'Multisig' | 'Threshold' | 'Token';
+export type BridgeVoteChoice = 'For' | 'Against' | 'Abstain';
+
+export interface BridgeCreateDAORequest {
+  privateKey: string;
+  daoType: BridgeDAOType;
+  name: string;
+  description?: string;
+  signers?: string[];
+  threshold?: number;
+  tokenId?: string;
+  proposalThreshold?: number;
+  quorum?: number;
+  votingPeriodMs?: number;
+  timelockMs?: number;
+  passingThreshold?: number;
+  admins?: string[];
+  proposers?: string[];
+  vetoers?: string[];
+}
+
+export interface BridgeCreateDAOResponse {
+  daoId: string;
+  name: string;
+  daoType: BridgeDAOType;
+  creator: string;
+  hash: string;
+}
+
+export interface BridgeProposeRequest {
+  privateKey: string;
+  daoId: string;
+  proposalId?: string;
+  title: string;
+  description?: string;
+  actionType?: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface BridgeDAOVoteRequest {
+  privateKey: string;
+  daoId: string;
+  vote: BridgeVoteChoice;
+  weight?: number;
+}
+
+export interface BridgeDelegateRequest {
+  privateKey: string;
+  daoId: string;
+  delegateTo: string;
+  weight?: number;
+}
+
+export interface BridgeVetoRequest {
+  privateKey: string;
+  daoId: string;
+  reason: string;
+}
+
+export interface BridgeDAOActionResponse {
+  hash: string;
+  daoId: string;
+  proposalId?: string;
+}
+
+// Oracle endpoints
+
+export interface BridgeRegisterOracleRequest {
+  privateKey: string;
+  stake?: number;
+  domains?: string[];
+  minStake?: number;
+}
+
+export interface BridgeRegisterOracleResponse {
+  oracleId: string;
+  address: string;
+  hash: string;
+  /** REGISTERED, or UNREGISTERED when the fiber wasn't visible in time to stake */
+  status: string;
+}
+
+export interface BridgeOracleStakeRequest {
+  privateKey: string;
+  oracleId: string;
+  amount: number;
+}
+
+export interface BridgeOracleResolutionRequest {
+  privateKey: string;
+  oracleId: string;
+  marketId: string;
+  correct: boolean;
+}
+
+export interface BridgeOracleSlashRequest {
+  privateKey: string;
+  oracleId: string;
+  amount: number;
+  reason: 'TIMEOUT' | 'WRONG_ANSWER' | 'COLLUSION' | 'MISCONDUCT';
+  marketId?: string;
+}
+
+export interface BridgeOracleTransitionRequest {
+  privateKey: string;
+  oracleId: string;
+  event: 'activate' | 'reactivate' | 'withdraw';
+}
+
+export interface BridgeOracleActionResponse {
+  hash: string;
+  oracleId: string;
+  status?: string;
+  newStatus?: string;
+  newTotalStake?: number;
+}
+
+// Corporate endpoints
+// Request bodies mirror the bridge's zod schemas (routes/corporate.ts), which
+// validate the enumerated fields; only the routing ids are spelled out here.
+
+export type CorporateAction =
+  | 'board/elect'
+  | 'board/meeting'
+  | 'board/resolution'
+  | 'board/consent'
+  | 'shareholders/meeting'
+  | 'shareholders/vote'
+  | 'shareholders/proxy'
+  | 'officers/appoint'
+  | 'officers/remove'
+  | 'securities/issue'
+  | 'securities/transfer'
+  | 'compliance/file';
+
+export interface BridgeCorporateRequest {
+  privateKey: string;
+  entityId: string;
+  [field: string]: unknown;
+}
+
+export interface BridgeIncorporateRequest {
+  privateKey: string;
+  legalName: string;
+  entityType: string;
+  jurisdiction: { state: string; country?: string };
+  registeredAgent: Record<string, unknown>;
+  incorporators: Record<string, unknown>[];
+  shareStructure: { classes: Record<string, unknown>[] };
+  fiscalYearEnd?: string;
+}
+
+export interface BridgeIncorporateResponse {
+  entityId: string;
+  boardId: string;
+  officersId: string;
+  complianceId: string;
+  hashes: string[];
+}
+
+/**
+ * Every corporate action names the fiber it touched (entity, board, resolution,
+ * meeting, proxy, officers, security or compliance record) and its hash(es)
+ */
+export interface BridgeCorporateResponse {
+  entityId?: string;
+  boardId?: string;
+  directorId?: string;
+  amendmentId?: string;
+  resolutionId?: string;
+  meetingId?: string;
+  voteId?: string;
+  proxyId?: string;
+  officersId?: string;
+  officerId?: string;
+  securityId?: string;
+  transferId?: string;
+  complianceId?: string;
+  filingId?: string;
+  hash?: string;
+  hashes?: string[];
+}
+
 class BridgeClient {
   private baseUrl: string;
 
@@ -115,6 +443,14 @@ class BridgeClient {
     return this.request<BridgeVouchResponse>('POST', '/agent/vouch', req);
   }
 
+  async requestLinkChallenge(req: BridgeLinkChallengeRequest): Promise<BridgeResponse<BridgeLinkChallengeResponse>> {
+    return this.request<BridgeLinkChallengeResponse>('POST', '/agent/link/challenge', req);
+  }
+
+  async linkPlatform(req: BridgeLinkPlatformRequest): Promise<BridgeResponse<BridgeLinkPlatformResponse>> {
+    return this.request<BridgeLinkPlatformResponse>('POST', '/agent/link', req);
+  }
+
   async getAgent(fiberId: string): Promise<BridgeResponse<unknown>> {
     return this.request('GET', `/agent/${fiberId}`);
   }
@@ -140,6 +476,124 @@ class BridgeClient {
     return this.request<BridgeContractActionResponse>('POST', '/contract/dispute', req);
   }
 
+  // Fiber endpoints
+  async createFiber(req: BridgeCreateFiberRequest): Promise<BridgeResponse<BridgeCreateFiberResponse>> {
+    return this.request<BridgeCreateFiberResponse>('POST', '/fiber/create', req);
+  }
+
+  async transitionFiber(req: BridgeTransitionFiberRequest): Promise<BridgeResponse<BridgeTransitionFiberResponse>> {
+    return this.request<BridgeTransitionFiberResponse>('POST', '/fiber/transition', req);
+  }
+
+  // Market endpoints
+  async createMarket(req: BridgeCreateMarketRequest): Promise<BridgeResponse<BridgeCreateMarketResponse>> {
+    return this.request<BridgeCreateMarketResponse>('POST', '/market/create', req);
+  }
+
+  async openMarket(req: BridgeMarketActionRequest): Promise<BridgeResponse<BridgeMarketActionResponse>> {
+    return this.request<BridgeMarketActionResponse>('POST', '/market/open', req);
+  }
+
+  async commitToMarket(req: BridgeCommitRequest): Promise<BridgeResponse<BridgeMarketActionResponse>> {
+    return this.request<BridgeMarketActionResponse>('POST', '/market/commit', req);
+  }
+
+  async closeMarket(req: BridgeMarketActionRequest): Promise<BridgeResponse<BridgeMarketActionResponse>> {
+    return this.request<BridgeMarketActionResponse>('POST', '/market/close', req);
+  }
+
+  async resolveMarket(req: BridgeResolveMarketRequest): Promise<BridgeResponse<BridgeMarketActionResponse>> {
+    return this.request<BridgeMarketActionResponse>('POST', '/market/resolve', req);
+  }
+
+  async finalizeMarket(req: BridgeFinalizeMarketRequest): Promise<BridgeResponse<BridgeMarketActionResponse>> {
+    return this.request<BridgeMarketActionResponse>('POST', '/market/finalize', req);
+  }
+
+  async claim(req: BridgeClaimRequest): Promise<BridgeResponse<BridgeMarketActionResponse>> {
+    return this.request<BridgeMarketActionResponse>('POST', '/market/claim', req);
+  }
+
+  async refund(req: BridgeMarketReasonRequest): Promise<BridgeResponse<BridgeMarketActionResponse>> {
+    return this.request<BridgeMarketActionResponse>('POST', '/market/refund', req);
+  }
+
+  async cancelMarket(req: BridgeMarketReasonRequest): Promise<BridgeResponse<BridgeMarketActionResponse>> {
+    return this.request<BridgeMarketActionResponse>('POST', '/market/cancel', req);
+  }
+
+  // Governance endpoints
+  async createDao(req: BridgeCreateDAORequest): Promise<BridgeResponse<BridgeCreateDAOResponse>> {
+    return this.request<BridgeCreateDAOResponse>('POST', '/governance/create-dao', req);
+  }
+
+  async propose(req: BridgeProposeRequest): Promise<BridgeResponse<BridgeDAOActionResponse>> {
+    return this.request<BridgeDAOActionResponse>('POST', '/governance/propose', req);
+  }
+
+  async vote(req: BridgeDAOVoteRequest): Promise<BridgeResponse<BridgeDAOActionResponse>> {
+    return this.request<BridgeDAOActionResponse>('POST', '/governance/vote', req);
+  }
+
+  async execute(privateKey: string, daoId: string): Promise<BridgeResponse<BridgeDAOActionResponse>> {
+    return this.request<BridgeDAOActionResponse>('POST', '/governance/execute', { privateKey, daoId });
+  }
+
+  async delegate(req: BridgeDelegateRequest): Promise<BridgeResponse<BridgeDAOActionResponse>> {
+    return this.request<BridgeDAOActionResponse>('POST', '/governance/delegate', req);
+  }
+
+  async veto(req: BridgeVetoRequest): Promise<BridgeResponse<BridgeDAOActionResponse>> {
+    return this.request<BridgeDAOActionResponse>('POST', '/governance/veto', req);
+  }
+
+  // Oracle endpoints
+  async registerOracle(req: BridgeRegisterOracleRequest): Promise<BridgeResponse<BridgeRegisterOracleResponse>> {
+    return this.request<BridgeRegisterOracleResponse>('POST', '/oracle/register', req);
+  }
+
+  async activateOracle(privateKey: string, oracleId: string): Promise<BridgeResponse<BridgeOracleActionResponse>> {
+    return this.request<BridgeOracleActionResponse>('POST', '/oracle/activate', { privateKey, oracleId });
+  }
+
+  async stakeOracle(req: BridgeOracleStakeRequest): Promise<BridgeResponse<BridgeOracleActionResponse>> {
+    return this.request<BridgeOracleActionResponse>('POST', '/oracle/stake', req);
+  }
+
+  async recordOracleResolution(req: BridgeOracleResolutionRequest): Promise<BridgeResponse<BridgeOracleActionResponse>> {
+    return this.request<BridgeOracleActionResponse>('POST', '/oracle/record-resolution', req);
+  }
+
+  async slashOracle(req: BridgeOracleSlashRequest): Promise<BridgeResponse<BridgeOracleActionResponse>> {
+    return this.request<BridgeOracleActionResponse>('POST', '/oracle/slash', req);
+  }
+
+  async transitionOracle(req: BridgeOracleTransitionRequest): Promise<BridgeResponse<BridgeOracleActionResponse>> {
+    return this.request<BridgeOracleActionResponse>('POST', '/oracle/transition', req);
+  }
+
+  // Corporate endpoints
+  async incorporate(req: BridgeIncorporateRequest): Promise<BridgeResponse<BridgeIncorporateResponse>> {
+    return this.request<BridgeIncorporateResponse>('POST', '/corporate/incorporate', req);
+  }
+
+  async amendCharter(req: BridgeCorporateRequest): Promise<BridgeResponse<BridgeCorporateResponse>> {
+    return this.request<BridgeCorporateResponse>('POST', '/corporate/amend-charter', req);
+  }
+
+  /**
+   * Entity-scoped corporate actions: POST /corporate/:entityId/<action>,
+   * e.g. corporateAction('board/elect', { privateKey, entityId, name, ... })
+   */
+  async corporateAction(action: CorporateAction, req: BridgeCorporateRequest): Promise<BridgeResponse<BridgeCorporateResponse>> {
+    return this.request<BridgeCorporateResponse>('POST', `/corporate/${encodeURIComponent(req.entityId)}/${action}`, req);
+  }
+
+  // Wallet endpoints
+  async verifySignature(req: BridgeVerifySignatureRequest): Promise<BridgeResponse<BridgeVerifySignatureResponse>> {
+    return this.request<BridgeVerifySignatureResponse>('POST', '/wallet/verify', req);
+  }
+
   // Health check
   async health(): Promise<BridgeResponse<{ status: string; service: string }>> {
     return this.request('GET', '/health');
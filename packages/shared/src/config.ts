@@ -38,6 +38,43 @@ const ConfigSchema = z.object({
   BRIDGE_URL: z.string().url().default('http://localhost:3030'),
   INDEXER_PORT: z.coerce.number().default(3031),
   
+  // Bridge sequence cache backend ('redis' for multi-instance deployments)
+  BRIDGE_SEQUENCE_STORE: z.enum(['memory', 'redis']).default('memory'),
+  BRIDGE_SEQUENCE_TTL_SECONDS: z.coerce.number().default(3600),
+  
+  // Bridge Idempotency-Key storage and replay window
+  BRIDGE_IDEMPOTENCY_STORE: z.enum(['memory', 'redis']).default('memory'),
+  BRIDGE_IDEMPOTENCY_TTL_SECONDS: z.coerce.number().default(86400),
+
+  // Platform linking: challenge lifetime and proof verifier ('stub' accepts test proofs)
+  BRIDGE_LINK_CHALLENGE_TTL_SECONDS: z.coerce.number().default(600),
+  BRIDGE_PLATFORM_VERIFIER: z.enum(['none', 'stub']).default('none'),
+  
+  // Indexer outbound webhooks (SnapshotSubscriber deliveries)
+  INDEXER_WEBHOOK_MAX_ATTEMPTS: z.coerce.number().default(5),
+  INDEXER_WEBHOOK_RETRY_BASE_MS: z.coerce.number().default(2000),
+  INDEXER_WEBHOOK_MAX_FAILURES: z.coerce.number().default(10),
+  INDEXER_WEBHOOK_TIMEOUT_MS: z.coerce.number().default(10000),
+  
+  // Bearer token for the indexer admin and subscriber APIs; both are disabled when unset
+  INDEXER_ADMIN_TOKEN: z.string().min(16).optional(),
+
+  // Gateway auth: requests per minute (anonymous per IP; API keys may override),
+  // wallet session lifetime and sign-in challenge lifetime
+  GATEWAY_RATE_LIMIT_ANONYMOUS: z.coerce.number().default(60),
+  GATEWAY_RATE_LIMIT_AUTHENTICATED: z.coerce.number().default(600),
+  GATEWAY_SESSION_TTL_SECONDS: z.coerce.number().default(86400),
+  GATEWAY_SESSION_CHALLENGE_TTL_SECONDS: z.coerce.number().default(300),
+
+  // Gateway query limits: cost budget per operation and maximum selection depth
+  GATEWAY_MAX_QUERY_COST: z.coerce.number().default(5000),
+  GATEWAY_MAX_QUERY_DEPTH: z.coerce.number().default(10),
+
+  // Gateway caching: how long persisted query texts are kept, and the longest
+  // a response is cached whatever its @cacheControl hints say (0 disables it)
+  GATEWAY_APQ_TTL_SECONDS: z.coerce.number().default(86400),
+  GATEWAY_RESPONSE_CACHE_MAX_AGE: z.coerce.number().default(60),
+  
   // GL0 polling interval (ms)
   GL0_POLL_INTERVAL: z.coerce.number().default(5000),
   
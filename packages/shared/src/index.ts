@@ -6,3 +6,4 @@ export * from './config.js';
 export * from './redis.js';
 export * from './bridge-client.js';
 export * from './statsCollector.js';
+export * from './metrics.js';
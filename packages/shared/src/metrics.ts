@@ -0,0 +1,211 @@
+// Prometheus metrics
+//
+// Counters, gauges and histograms rendered in the Prometheus text exposition
+// format (version 0.0.4). Each service registers its metrics on the shared
+// `metrics` registry at module load and serves `metrics.render()` on
+// GET /metrics. Label values should come from small fixed sets (message types,
+// results, GraphQL field names) — every distinct combination is a series.
+//
+// Also exported as `@ottochain/shared/metrics`, for services (the monitor)
+// that shouldn't load the database client the package root brings in.
+
+type Labels = Record<string, string | number>;
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Default histogram buckets in seconds: 5ms … 10s */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** `{a="1",b="2"}` for the given label names, or '' without labels */
+export function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(String(value))}"`).join(',')}}`;
+}
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly string[];
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  /** Series key for a label set; rejects labels the metric wasn't declared with */
+  protected key(labels: Labels): string {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) throw new Error(`${this.name}: unknown label ${name}`);
+    }
+    return JSON.stringify(this.labelNames.map((name) => String(labels[name] ?? '')));
+  }
+
+  protected labelsOf(key: string): Labels {
+    const values = JSON.parse(key) as string[];
+    return Object.fromEntries(this.labelNames.map((name, i) => [name, values[i]]));
+  }
+
+  abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter' as const;
+  private values = new Map<string, number>();
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) throw new Error(`${this.name}: counters only go up`);
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.key(labels)) ?? 0;
+  }
+
+  samples(): string[] {
+    return [...this.values].map(([key, value]) => `${this.name}${formatLabels(this.labelsOf(key))} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge' as const;
+  private values = new Map<string, number>();
+
+  set(labels: Labels, value: number): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(this.key(labels));
+  }
+
+  /** Drop every series (for gauges rebuilt from scratch on each update) */
+  reset(): void {
+    this.values.clear();
+  }
+
+  samples(): string[] {
+    return [...this.values].map(([key, value]) => `${this.name}${formatLabels(this.labelsOf(key))} ${formatValue(value)}`);
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram' as const;
+  readonly buckets: readonly number[];
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, labelNames: readonly string[] = [], buckets: readonly number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /** Start timing; the returned function observes the elapsed seconds */
+  startTimer(labels: Labels = {}): (extra?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extra = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extra }, seconds);
+      return seconds;
+    };
+  }
+
+  get(labels: Labels = {}): { sum: number; count: number } | undefined {
+    const series = this.series.get(this.key(labels));
+    return series && { sum: series.sum, count: series.count };
+  }
+
+  samples(): string[] {
+    return [...this.series].flatMap(([key, series]) => {
+      const labels = this.labelsOf(key);
+      return [
+        ...this.buckets.map((bound, i) => `${this.name}_bucket${formatLabels(labels, { le: formatValue(bound) })} ${series.buckets[i]}`),
+        `${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${series.count}`,
+        `${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+        `${this.name}_count${formatLabels(labels)} ${series.count}`,
+      ];
+    });
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  /** Run before each render, to refresh gauges read from elsewhere */
+  private collectors: Array<() => void | Promise<void>> = [];
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  onCollect(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map((collect) => collect()));
+    return [...this.metrics.values()].map((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/** Process-wide registry served on each service's /metrics */
+export const metrics = new MetricsRegistry();
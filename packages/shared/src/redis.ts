@@ -6,6 +6,7 @@ import { getConfig } from './config.js';
 
 let _publisher: Redis | null = null;
 let _subscriber: Redis | null = null;
+let _client: Redis | null = null;
 
 export function getPublisher(): Redis {
   if (!_publisher) {
@@ -29,6 +30,18 @@ export function getSubscriber(): Redis {
   return _subscriber;
 }
 
+// General-purpose connection for key/value commands (never put into subscriber mode)
+export function getRedisClient(): Redis {
+  if (!_client) {
+    const config = getConfig();
+    _client = new Redis(config.REDIS_URL);
+    _client.on('error', (err) => {
+      console.error('[Redis client]', err.message);
+    });
+  }
+  return _client;
+}
+
 // Legacy exports for backwards compatibility (lazy via getter)
 export const publisher = new Proxy({} as Redis, {
   get(_, prop) {
@@ -49,6 +62,9 @@ export const CHANNELS = {
   AGENT_UPDATED: 'agent:updated',
   CONTRACT_UPDATED: 'contract:updated',
   MARKET_UPDATED: 'market:updated',
+  FIBER_UPDATED: 'fiber:updated',
+  FIBER_TRANSITION: 'fiber:transition',
+  SNAPSHOT_ROLLBACK: 'snapshot:rollback',
 } as const;
 
 // Publish helper
@@ -22,6 +22,8 @@ export const SnapshotNotificationSchema = z.object({
   timestamp: z.string().datetime(),
   agentsUpdated: z.number().optional(),
   contractsUpdated: z.number().optional(),
+  // Fibers touched by this snapshot, when ML0 includes them (enables per-fiber fetches)
+  updatedFiberIds: z.array(z.string()).optional(),
 });
 
 export type SnapshotNotification = z.infer<typeof SnapshotNotificationSchema>;
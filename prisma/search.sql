@@ -0,0 +1,78 @@
+-- Full-text search
+--
+-- Maintains the searchVector columns declared in schema.prisma, plus the
+-- fiber_search_text helper the gateway highlights matches in
+-- (packages/gateway/src/search.ts). Prisma can't express triggers, so run
+-- `pnpm db:search` after every `pnpm db:push`; the gateway won't start
+-- without them. Safe to re-run.
+--
+-- Everything uses the 'simple' configuration (no stemming, no stop words):
+-- the text is names, IDs and workflow identifiers more than prose, and the
+-- gateway matches each word by prefix.
+
+-- ── Fibers ───────────────────────────────────────────────────────────────────
+-- A: market titles, DAO/script names, corporate legal names
+-- B: workflow type    C: descriptions    D: fiber ID and current state
+
+CREATE OR REPLACE FUNCTION fiber_search_text(data jsonb, workflow_type text, workflow_desc text)
+RETURNS text LANGUAGE sql IMMUTABLE AS $$
+  SELECT concat_ws(' ', data->>'title', data->>'name', data->>'legalName',
+                   workflow_type, workflow_desc, data->>'description')
+$$;
+
+CREATE OR REPLACE FUNCTION fiber_search_vector() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('simple', concat_ws(' ', NEW."stateData"->>'title', NEW."stateData"->>'name',
+                                              NEW."stateData"->>'legalName')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(NEW."workflowType", '')), 'B') ||
+    setweight(to_tsvector('simple', concat_ws(' ', NEW."workflowDesc", NEW."stateData"->>'description')), 'C') ||
+    setweight(to_tsvector('simple', concat_ws(' ', NEW."fiberId", NEW."currentState")), 'D');
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS fiber_search_vector ON "Fiber";
+CREATE TRIGGER fiber_search_vector
+  BEFORE INSERT OR UPDATE OF "workflowType", "workflowDesc", "currentState", "stateData" ON "Fiber"
+  FOR EACH ROW EXECUTE FUNCTION fiber_search_vector();
+
+-- ── Agents ───────────────────────────────────────────────────────────────────
+-- A: display name    D: address
+
+CREATE OR REPLACE FUNCTION agent_search_vector() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('simple', coalesce(NEW."displayName", '')), 'A') ||
+    setweight(to_tsvector('simple', NEW."address"), 'D');
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS agent_search_vector ON "Agent";
+CREATE TRIGGER agent_search_vector
+  BEFORE INSERT OR UPDATE OF "displayName", "address" ON "Agent"
+  FOR EACH ROW EXECUTE FUNCTION agent_search_vector();
+
+-- ── Transitions ──────────────────────────────────────────────────────────────
+-- A: event name    C: from/to states
+
+CREATE OR REPLACE FUNCTION transition_search_vector() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('simple', NEW."eventName"), 'A') ||
+    setweight(to_tsvector('simple', concat_ws(' ', NEW."fromState", NEW."toState")), 'C');
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS transition_search_vector ON "FiberTransition";
+CREATE TRIGGER transition_search_vector
+  BEFORE INSERT OR UPDATE OF "eventName", "fromState", "toState" ON "FiberTransition"
+  FOR EACH ROW EXECUTE FUNCTION transition_search_vector();
+
+-- ── Backfill rows indexed before the triggers existed ────────────────────────
+
+UPDATE "Fiber" SET "workflowType" = "workflowType" WHERE "searchVector" IS NULL;
+UPDATE "Agent" SET "address" = "address" WHERE "searchVector" IS NULL;
+UPDATE "FiberTransition" SET "eventName" = "eventName" WHERE "searchVector" IS NULL;
@@ -0,0 +1,141 @@
+#!/usr/bin/env npx tsx
+/**
+ * Stub ML0 serving recorded checkpoints
+ *
+ * Lets the indexer backfill (and live processing) run without a metagraph.
+ * Checkpoints are JSON files named <ordinal>.json holding { ordinal, hash?, state }.
+ *
+ * Serves:
+ *   GET  /snapshots/latest/ordinal                 → { value: <highest recorded ordinal> }
+ *   GET  /data-application/v1/checkpoint           → latest recorded checkpoint
+ *   GET  /data-application/v1/checkpoint/:ordinal  → recorded checkpoint or 404
+ *   GET  /data-application/v1/state-machines/:id   → fiber from the latest checkpoint or 404
+ *   POST /data-application/v1/webhooks/subscribe   → { id: 'stub' }
+ *
+ * Usage:
+ *   npx tsx scripts/testing/stub-ml0.ts [--port 9200] [--dir scripts/testing/fixtures/checkpoints]
+ *
+ * Record checkpoints from a live ML0 (one file per new ordinal, Ctrl-C to stop):
+ *   npx tsx scripts/testing/stub-ml0.ts --record http://localhost:9200 --dir /tmp/checkpoints
+ */
+
+import { createServer, type Server } from 'node:http';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { AddressInfo } from 'node:net';
+
+export const DEFAULT_FIXTURES_DIR = resolve(__dirname, 'fixtures/checkpoints');
+
+interface RecordedCheckpoint {
+  ordinal: number;
+  hash?: string;
+  state: { stateMachines: Record<string, unknown>; scripts: Record<string, unknown> };
+}
+
+function loadCheckpoints(dir: string): Map<number, RecordedCheckpoint> {
+  const checkpoints = new Map<number, RecordedCheckpoint>();
+  for (const file of readdirSync(dir)) {
+    if (!/^\d+\.json$/.test(file)) continue;
+    const checkpoint = JSON.parse(readFileSync(join(dir, file), 'utf8')) as RecordedCheckpoint;
+    checkpoints.set(checkpoint.ordinal, checkpoint);
+  }
+  return checkpoints;
+}
+
+/**
+ * Start the stub on `port` (0 = any free port). Resolves with its base URL.
+ */
+export async function startStubMl0(
+  options: { port?: number; dir?: string } = {}
+): Promise<{ url: string; server: Server; ordinals: number[] }> {
+  const checkpoints = loadCheckpoints(options.dir ?? DEFAULT_FIXTURES_DIR);
+  const ordinals = [...checkpoints.keys()].sort((a, b) => a - b);
+  if (ordinals.length === 0) {
+    throw new Error(`No <ordinal>.json checkpoints in ${options.dir ?? DEFAULT_FIXTURES_DIR}`);
+  }
+  const latest = checkpoints.get(ordinals[ordinals.length - 1])!;
+
+  const server = createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    const path = (req.url ?? '/').split('?')[0];
+    let match: RegExpMatchArray | null;
+
+    if (req.method === 'GET' && path === '/snapshots/latest/ordinal') {
+      return send(200, { value: latest.ordinal });
+    }
+    if (req.method === 'GET' && path === '/data-application/v1/checkpoint') {
+      return send(200, latest);
+    }
+    if (req.method === 'GET' && (match = path.match(/^\/data-application\/v1\/checkpoint\/(\d+)$/))) {
+      const checkpoint = checkpoints.get(Number(match[1]));
+      return checkpoint ? send(200, checkpoint) : send(404, { error: 'Checkpoint not recorded' });
+    }
+    if (req.method === 'GET' && (match = path.match(/^\/data-application\/v1\/state-machines\/([^/]+)$/))) {
+      const fiber = latest.state.stateMachines[match[1]];
+      return fiber ? send(200, fiber) : send(404, { error: 'State machine not found' });
+    }
+    if (req.method === 'POST' && path === '/data-application/v1/webhooks/subscribe') {
+      return send(200, { id: 'stub' });
+    }
+    send(404, { error: 'Not found' });
+  });
+
+  await new Promise<void>((resolveListen) => server.listen(options.port ?? 0, '127.0.0.1', resolveListen));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, server, ordinals };
+}
+
+/**
+ * Save each new checkpoint a live ML0 serves to <dir>/<ordinal>.json
+ */
+async function record(ml0Url: string, dir: string, intervalMs: number): Promise<void> {
+  mkdirSync(dir, { recursive: true });
+  let lastOrdinal = -1;
+  console.log(`⏺️ Recording checkpoints from ${ml0Url} into ${dir} (Ctrl-C to stop)`);
+
+  for (;;) {
+    try {
+      const response = await fetch(`${ml0Url}/data-application/v1/checkpoint`, { signal: AbortSignal.timeout(10000) });
+      if (response.ok) {
+        const checkpoint = await response.json() as RecordedCheckpoint;
+        if (checkpoint.ordinal !== lastOrdinal) {
+          writeFileSync(join(dir, `${checkpoint.ordinal}.json`), JSON.stringify(checkpoint, null, 2) + '\n');
+          console.log(`  saved ${checkpoint.ordinal}.json`);
+          lastOrdinal = checkpoint.ordinal;
+        }
+      }
+    } catch (err) {
+      console.warn(`  fetch failed: ${(err as Error).message}`);
+    }
+    await new Promise((r) => setTimeout(r, intervalMs));
+  }
+}
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+if (require.main === module) {
+  const dir = argValue('--dir') ?? DEFAULT_FIXTURES_DIR;
+  const recordFrom = argValue('--record');
+
+  if (recordFrom) {
+    record(recordFrom, dir, Number(argValue('--interval') ?? 2000)).catch((err) => {
+      console.error(err);
+      process.exit(1);
+    });
+  } else {
+    startStubMl0({ port: Number(argValue('--port') ?? 9200), dir })
+      .then(({ url, ordinals }) => {
+        console.log(`🧪 Stub ML0 on ${url} serving ordinals ${ordinals[0]}..${ordinals[ordinals.length - 1]} (${ordinals.length} recorded)`);
+      })
+      .catch((err) => {
+        console.error(err);
+        process.exit(1);
+      });
+  }
+}
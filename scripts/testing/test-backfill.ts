@@ -0,0 +1,162 @@
+#!/usr/bin/env npx tsx
+/**
+ * Integration test for the indexer backfill
+ *
+ * Replays the recorded checkpoints in scripts/testing/fixtures/checkpoints
+ * (ordinals 100..102) from a stub ML0 and checks the derived rows, including a
+ * fiber that transitions several times within one ordinal.
+ *
+ * Usage:
+ *   DATABASE_URL=postgresql://... npx tsx scripts/testing/test-backfill.ts
+ *
+ * ⚠️ Runs with `rebuild`, which wipes the indexer's derived tables. Point it at
+ * a scratch database.
+ *
+ * The script:
+ *   1. Starts the stub ML0 on a free port
+ *   2. Rebuilds ordinals 100..102 and verifies fibers, transitions, agents, contracts
+ *   3. Re-runs without rebuild and verifies every ordinal is skipped as already indexed
+ *   4. Prints a pass/fail summary
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { startStubMl0 } from './stub-ml0.js';
+
+const prisma = new PrismaClient();
+
+const AGENT_FIBER = '11111111-1111-4111-8111-111111111111';
+const CONTRACT_FIBER = '22222222-2222-4222-8222-222222222222';
+const TICKET_FIBER = '33333333-3333-4333-8333-333333333333';
+const AGENT_ADDRESS = 'DAG0agent000000000000000000000000000000a1';
+
+// ── Test runner ───────────────────────────────────────────────────────────────
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  message: string;
+}
+
+const results: TestResult[] = [];
+
+async function test(name: string, fn: () => Promise<void>): Promise<void> {
+  try {
+    await fn();
+    results.push({ name, passed: true, message: 'OK' });
+    console.log(`  ✅ ${name}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    results.push({ name, passed: false, message });
+    console.log(`  ❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, msg: string): void {
+  if (!condition) throw new Error(msg);
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const stub = await startStubMl0();
+  // Must be set before the indexer's config is first read
+  process.env.METAGRAPH_ML0_URL = stub.url;
+  const { runBackfill } = await import('../../packages/indexer/src/backfill.js');
+
+  console.log(`\n🧪 Backfill test against stub ML0 ${stub.url}\n`);
+
+  try {
+    const rebuild = await runBackfill({ from: 100, to: 102, rebuild: true });
+
+    await test('Rebuild replays every ordinal', async () => {
+      assert(rebuild.error === null, `Backfill error: ${rebuild.error}`);
+      assert(rebuild.processed === 3, `Expected 3 processed, got ${rebuild.processed}`);
+      assert(rebuild.skipped.length === 0, `Unexpected skipped ordinals: ${rebuild.skipped.join(', ')}`);
+      const snapshots = await prisma.indexedSnapshot.count({ where: { ordinal: { gte: 100n, lte: 102n } } });
+      assert(snapshots === 3, `Expected 3 indexed snapshots, got ${snapshots}`);
+    });
+
+    await test('Fibers reflect the last replayed checkpoint', async () => {
+      const agent = await prisma.fiber.findUnique({ where: { fiberId: AGENT_FIBER } });
+      assert(agent?.currentState === 'ACTIVE', `Agent fiber state ${agent?.currentState}`);
+      const contract = await prisma.fiber.findUnique({ where: { fiberId: CONTRACT_FIBER } });
+      assert(contract?.currentState === 'ACTIVE', `Contract fiber state ${contract?.currentState}`);
+      assert(contract?.updatedOrdinal === 102n, `Contract fiber updatedOrdinal ${contract?.updatedOrdinal}`);
+    });
+
+    await test('Transitions recorded at the ordinals they happened', async () => {
+      const transitions = await prisma.fiberTransition.findMany({
+        where: { fiberId: { in: [AGENT_FIBER, CONTRACT_FIBER] } },
+        orderBy: { snapshotOrdinal: 'asc' },
+      });
+      const seen = transitions.map((t) => `${t.fiberId.slice(0, 2)}@${t.snapshotOrdinal}`);
+      assert(seen.includes('11@101'), `Missing agent transition at 101 (saw ${seen.join(', ')})`);
+      assert(seen.includes('22@102'), `Missing contract transition at 102 (saw ${seen.join(', ')})`);
+    });
+
+    await test('Every transition within one ordinal recorded by sequence number', async () => {
+      const transitions = await prisma.fiberTransition.findMany({
+        where: { fiberId: TICKET_FIBER },
+        orderBy: { sequenceNumber: 'asc' },
+      });
+      const seen = transitions.map((t) => `${t.sequenceNumber}:${t.eventName}${t.inferred ? '*' : ''}`).join(' ');
+      // 1 and 3 from receipt history, 2 inferred from the definition, 5 from lastReceipt
+      assert(seen === '1:submit 2:review* 3:comment 5:close', `Unexpected transitions: ${seen}`);
+    });
+
+    await test('Unrecoverable sequence numbers flagged as a gap', async () => {
+      const gaps = await prisma.transitionGap.findMany({ where: { fiberId: TICKET_FIBER } });
+      assert(gaps.length === 1, `Expected 1 gap, got ${gaps.length}`);
+      assert(gaps[0].fromSequence === 4 && gaps[0].toSequence === 4, `Gap ${gaps[0].fromSequence}-${gaps[0].toSequence}`);
+      assert(gaps[0].snapshotOrdinal === 102n, `Gap detected at ${gaps[0].snapshotOrdinal}`);
+    });
+
+    await test('Agent derived with reputation', async () => {
+      const agent = await prisma.agent.findUnique({ where: { address: AGENT_ADDRESS } });
+      assert(agent !== null, 'Agent not found');
+      assert(agent!.state === 'ACTIVE', `Agent state ${agent!.state}`);
+      assert(agent!.reputation === 12, `Agent reputation ${agent!.reputation}`);
+    });
+
+    await test('Contract derived and active', async () => {
+      const contract = await prisma.contract.findUnique({ where: { contractId: CONTRACT_FIBER } });
+      assert(contract !== null, 'Contract not found');
+      assert(contract!.state === 'ACTIVE', `Contract state ${contract!.state}`);
+    });
+
+    const resumed = await runBackfill({ from: 100, to: 102 });
+
+    await test('Resume skips already-indexed ordinals', async () => {
+      assert(resumed.error === null, `Backfill error: ${resumed.error}`);
+      assert(resumed.processed === resumed.total, `Expected ${resumed.total} processed, got ${resumed.processed}`);
+      assert(resumed.current === null, `Expected nothing replayed, current=${resumed.current}`);
+    });
+  } finally {
+    stub.server.close();
+  }
+
+  // ── Summary ───────────────────────────────────────────────────────────────
+  console.log('\n' + '='.repeat(60));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  ❌ ${r.name}: ${r.message}`);
+    }
+    process.exit(1);
+  } else {
+    console.log('\n✨ All backfill tests passed!');
+  }
+}
+
+main().catch(err => {
+  console.error('Test suite failed:', err);
+  process.exit(1);
+}).finally(async () => {
+  await prisma.$disconnect();
+  const { prisma: indexerPrisma } = await import('@ottochain/shared');
+  await indexerPrisma.$disconnect();
+});